@@ -0,0 +1,237 @@
+#!/usr/bin/env npx tsx
+/**
+ * Build the bundled ZIP centroid table used by discover_nonprofits'
+ * near_zip/radius_miles and county filters.
+ *
+ * Joins two Census files:
+ *   - ZCTA gazetteer: internal point (lat/lon) for every ZIP Code Tabulation Area
+ *   - ZCTA-to-county relationship file: the counties each ZCTA overlaps
+ * Each ZIP gets the county holding most of its land area.
+ *
+ * Output (assets/zip-centroids.csv):
+ *   zip,lat,lon,state,county_fips,county
+ *
+ * Usage:
+ *   npx tsx scripts/build-zip-centroids.ts [output-path]
+ *   npx tsx scripts/build-zip-centroids.ts --geonames <US.txt> [output-path]
+ *
+ * --geonames builds from the GeoNames US postal code dump instead
+ * (https://download.geonames.org/export/zip/US.zip, CC BY 4.0; the same
+ * US.txt ships in the zipcodes-us npm package). Use it where census.gov is
+ * unreachable. GeoNames places each ZIP (PO-box ZIPs included) at a point
+ * in its main place and gives the county name without the "County" suffix.
+ * The bundled table is built this way.
+ *
+ * Re-run after each decennial ZCTA vintage (the relationship file only
+ * changes with the census) or when the gazetteer year is bumped below.
+ */
+
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import * as unzipper from "unzipper";
+import { parse } from "csv-parse/sync";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const GAZETTEER_URL =
+  "https://www2.census.gov/geo/docs/maps-data/data/gazetteer/2023_Gazetteer/2023_Gaz_zcta_national.zip";
+const RELATIONSHIP_URL =
+  "https://www2.census.gov/geo/docs/maps-data/data/rel2020/zcta520/tab20_zcta520_county20_natl.txt";
+const DEFAULT_OUTPUT = path.resolve("assets/zip-centroids.csv");
+const MAX_DOWNLOAD_BYTES = 100 * 1024 * 1024;
+const MIN_ZCTAS = 30_000; // ~33.8K in the 2020 vintage
+
+// State FIPS → USPS code (states, DC and territories with ZCTAs)
+const STATE_BY_FIPS: Record<string, string> = {
+  "01": "AL", "02": "AK", "04": "AZ", "05": "AR", "06": "CA", "08": "CO",
+  "09": "CT", "10": "DE", "11": "DC", "12": "FL", "13": "GA", "15": "HI",
+  "16": "ID", "17": "IL", "18": "IN", "19": "IA", "20": "KS", "21": "KY",
+  "22": "LA", "23": "ME", "24": "MD", "25": "MA", "26": "MI", "27": "MN",
+  "28": "MS", "29": "MO", "30": "MT", "31": "NE", "32": "NV", "33": "NH",
+  "34": "NJ", "35": "NM", "36": "NY", "37": "NC", "38": "ND", "39": "OH",
+  "40": "OK", "41": "OR", "42": "PA", "44": "RI", "45": "SC", "46": "SD",
+  "47": "TN", "48": "TX", "49": "UT", "50": "VT", "51": "VA", "53": "WA",
+  "54": "WV", "55": "WI", "56": "WY", "60": "AS", "66": "GU", "69": "MP",
+  "72": "PR", "78": "VI",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function download(url: string): Promise<Buffer> {
+  console.log(`  Downloading ${url}`);
+  const response = await axios.get(url, {
+    responseType: "arraybuffer",
+    timeout: 120_000,
+    maxContentLength: MAX_DOWNLOAD_BYTES,
+    maxBodyLength: MAX_DOWNLOAD_BYTES,
+  });
+  return Buffer.from(response.data as ArrayBuffer);
+}
+
+async function firstZipEntry(buffer: Buffer): Promise<string> {
+  const directory = await unzipper.Open.buffer(buffer);
+  if (directory.files.length === 0) throw new Error("Gazetteer ZIP is empty");
+  return (await directory.files[0].buffer()).toString("utf-8");
+}
+
+function parseDelimited(
+  content: string,
+  delimiter: string,
+): Record<string, string>[] {
+  return parse(content, {
+    columns: (header: string[]) => header.map((h) => h.trim()),
+    delimiter,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  }) as Record<string, string>[];
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+/**
+ * Rows from a GeoNames postal code dump (tab-separated: country, postal
+ * code, place, state name, state code, county name, county FIPS (3 digits),
+ * admin3 name/code, lat, lon, accuracy). APO/FPO codes have no county.
+ */
+function geonamesLines(file: string): { lines: string[]; skipped: number } {
+  const fipsByState = new Map(
+    Object.entries(STATE_BY_FIPS).map(([fips, state]) => [state, fips]),
+  );
+  const lines: string[] = [];
+  let skipped = 0;
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    const f = line.split("\t");
+    if (f.length < 11) continue;
+    const [zip, state, county, countyCode] = [f[1], f[4], f[5], f[6]];
+    const stateFips = fipsByState.get(state);
+    const lat = parseFloat(f[9]);
+    const lon = parseFloat(f[10]);
+    if (
+      !/^\d{5}$/.test(zip) ||
+      !stateFips ||
+      !county ||
+      !/^\d{3}$/.test(countyCode) ||
+      isNaN(lat) ||
+      isNaN(lon)
+    ) {
+      skipped++;
+      continue;
+    }
+    lines.push(
+      [
+        zip,
+        lat.toFixed(6),
+        lon.toFixed(6),
+        state,
+        stateFips + countyCode,
+        csvField(county),
+      ].join(","),
+    );
+  }
+  lines.sort();
+  return { lines, skipped };
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const geonamesAt = args.indexOf("--geonames");
+  const geonamesFile = geonamesAt >= 0 ? args[geonamesAt + 1] : undefined;
+  if (geonamesAt >= 0) {
+    if (!geonamesFile) throw new Error("--geonames needs a path to US.txt");
+    args.splice(geonamesAt, 2);
+  }
+  const output = path.resolve(args[0] ?? DEFAULT_OUTPUT);
+
+  if (geonamesFile) {
+    console.log(`Reading GeoNames postal codes from ${geonamesFile}...`);
+    const { lines, skipped } = geonamesLines(geonamesFile);
+    write(output, lines, `${skipped} codes without a county skipped`);
+    return;
+  }
+
+  console.log("Fetching Census ZCTA files...");
+  const gazetteer = parseDelimited(
+    await firstZipEntry(await download(GAZETTEER_URL)),
+    "\t",
+  );
+  const relationships = parseDelimited(
+    (await download(RELATIONSHIP_URL)).toString("utf-8"),
+    "|",
+  );
+
+  // Dominant county per ZCTA, by overlapping land area
+  const counties = new Map<
+    string,
+    { fips: string; name: string; land: number }
+  >();
+  for (const r of relationships) {
+    const zcta = r.GEOID_ZCTA5_20;
+    if (!/^\d{5}$/.test(zcta ?? "")) continue; // county parts outside any ZCTA
+    const land = parseInt(r.AREALAND_PART || "0", 10);
+    const current = counties.get(zcta);
+    if (!current || land > current.land) {
+      counties.set(zcta, {
+        fips: r.GEOID_COUNTY_20,
+        name: r.NAMELSAD_COUNTY_20,
+        land,
+      });
+    }
+  }
+
+  const lines: string[] = [];
+  let skipped = 0;
+  for (const g of gazetteer) {
+    const county = counties.get(g.GEOID);
+    const state = county ? STATE_BY_FIPS[county.fips.substring(0, 2)] : null;
+    if (!county || !state) {
+      skipped++;
+      continue;
+    }
+    lines.push(
+      [
+        g.GEOID,
+        parseFloat(g.INTPTLAT).toFixed(6),
+        parseFloat(g.INTPTLONG).toFixed(6),
+        state,
+        county.fips,
+        csvField(county.name),
+      ].join(","),
+    );
+  }
+
+  write(output, lines, `${skipped} ZCTAs without a county skipped`);
+}
+
+function write(output: string, lines: string[], note: string): void {
+  if (lines.length < MIN_ZCTAS) {
+    throw new Error(
+      `Only ${lines.length} ZIP centroids built (expected >= ${MIN_ZCTAS}). Source file format may have changed.`,
+    );
+  }
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(
+    output,
+    ["zip,lat,lon,state,county_fips,county", ...lines].join("\n") + "\n",
+  );
+  console.log(
+    `Wrote ${lines.length.toLocaleString()} ZIP centroids to ${output} (${note})`,
+  );
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -18,7 +18,10 @@ import { fileURLToPath } from "url";
 import { ensureSqlJs, SqliteDatabase } from "../src/data-sources/sqlite-adapter.js";
 import { ConcordanceIndex } from "../src/data-sources/concordance.js";
 import { GivingTuesdayClient } from "../src/data-sources/givingtuesday-client.js";
-import { Xml990Parser } from "../src/domain/nonprofit/xml-parser.js";
+import {
+  Xml990Parser,
+  XML_EXTRACT_VERSION,
+} from "../src/domain/nonprofit/xml-parser.js";
 import { Xml990Store } from "../src/data-sources/xml-990-store.js";
 import { loadGivingTuesdayConfig } from "../src/core/config.js";
 
@@ -132,11 +135,14 @@ async function main(): Promise<void> {
 
     try {
       // Resume-safe: get the latest filing, then check if already extracted
+      // (by this parser version -- older extracts are re-parsed)
       const result = await gtClient.getLatestXml(ein);
 
       if (!result) {
         skippedNoXml++;
-      } else if (xml990Store.hasExtract(ein, result.metadata.ObjectId)) {
+      } else if (
+        xml990Store.hasExtract(ein, result.metadata.ObjectId, XML_EXTRACT_VERSION)
+      ) {
         skippedCached++;
       } else {
         const { xml, metadata } = result;
@@ -160,6 +166,7 @@ async function main(): Promise<void> {
           extracted.partVI ? "VI" : null,
           extracted.partVII.length > 0 ? "VII" : null,
           extracted.partVIII ? "VIII" : null,
+          extracted.partX ? "X" : null,
         ].filter(Boolean);
 
         if (isEmpty) {
@@ -172,7 +179,7 @@ async function main(): Promise<void> {
           continue;
         }
 
-        const isFull = parts.length === 4;
+        const isFull = parts.length === 5;
         if (isFull) fullExtracts++;
         else partialExtracts++;
 
@@ -2,12 +2,15 @@
 /**
  * BON-92: Refresh organizations table from IRS BMF CSV data.
  *
- * Downloads 4 regional BMF CSVs, parses them, and upserts into
- * Supabase `organizations` table. Does NOT touch `vetting_results`.
+ * Downloads 4 regional BMF CSVs, parses them, diffs them against the
+ * Supabase `organizations` table, and upserts only new and changed rows
+ * (so `updated_at` is when an org last changed). Does NOT touch
+ * `vetting_results`.
  *
  * Reuses the same BMF CSV format/parsing as discovery-index.ts.
  * Orgs removed from BMF are intentionally NOT deleted — they may
- * still have valid vetting_results via FK.
+ * still have valid vetting_results via FK. They are counted and listed
+ * in the run output; there is no change-log table on the Supabase side.
  *
  * Usage:
  *   npx tsx scripts/refresh-organizations.ts
@@ -31,6 +34,8 @@ const BMF_REGIONS = ["eo1", "eo2", "eo3", "eo4"];
 const MIN_BMF_ROWS = 500_000;
 const MAX_DOWNLOAD_BYTES = 100 * 1024 * 1024; // 100MB per file
 const BATCH_SIZE = 1000;
+const FETCH_PAGE_SIZE = 1000; // PostgREST's default max rows per request
+const MAX_LOGGED_DROPS = 50;
 const MAX_RETRIES = 3;
 
 // Field validation limits
@@ -52,6 +57,15 @@ interface OrgRow {
   ruling_date: string;
 }
 
+type StoredOrgRow = { [K in keyof OrgRow]: OrgRow[K] | null };
+
+interface OrgDiff {
+  changed: OrgRow[]; // new or updated, to upsert
+  added: number;
+  updated: number;
+  dropped: string[]; // EINs in Supabase but no longer in the BMF
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -69,6 +83,13 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/** The fields this script writes, in one comparable string. */
+function fingerprint(row: StoredOrgRow): string {
+  return [row.name, row.city, row.state, row.ntee_code, row.subsection, row.ruling_date]
+    .map((value) => String(value ?? ""))
+    .join("\t");
+}
+
 // ---------------------------------------------------------------------------
 // BMF CSV Parsing (mirrors discovery-index.ts parseBmfStream)
 // ---------------------------------------------------------------------------
@@ -147,6 +168,64 @@ async function downloadRegion(region: string): Promise<OrgRow[]> {
   throw new Error("Unreachable");
 }
 
+// ---------------------------------------------------------------------------
+// Diff against existing Supabase rows
+// ---------------------------------------------------------------------------
+
+/** Fingerprint of every existing organization, keyed by EIN (keyset-paged). */
+async function fetchExisting(supabase: SupabaseClient): Promise<Map<string, string>> {
+  const existing = new Map<string, string>();
+  let lastEin = "";
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from("organizations")
+      .select("ein, name, city, state, ntee_code, subsection, ruling_date")
+      .gt("ein", lastEin)
+      .order("ein")
+      .limit(FETCH_PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to read organizations after EIN ${lastEin || "(start)"}: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as StoredOrgRow[];
+    for (const row of rows) {
+      existing.set(row.ein as string, fingerprint(row));
+    }
+    if (rows.length < FETCH_PAGE_SIZE) return existing;
+    lastEin = rows[rows.length - 1].ein as string;
+
+    if (existing.size % 100_000 === 0) {
+      console.log(`  Read ${existing.size.toLocaleString()} rows`);
+    }
+  }
+}
+
+function diffRows(rows: OrgRow[], existing: Map<string, string>): OrgDiff {
+  const diff: OrgDiff = { changed: [], added: 0, updated: 0, dropped: [] };
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    seen.add(row.ein);
+    const previous = existing.get(row.ein);
+    if (previous === undefined) {
+      diff.added++;
+    } else if (previous !== fingerprint(row)) {
+      diff.updated++;
+    } else {
+      continue;
+    }
+    diff.changed.push(row);
+  }
+
+  for (const ein of existing.keys()) {
+    if (!seen.has(ein)) diff.dropped.push(ein);
+  }
+
+  return diff;
+}
+
 // ---------------------------------------------------------------------------
 // Supabase upsert in batches
 // ---------------------------------------------------------------------------
@@ -237,9 +316,24 @@ async function main() {
     process.exit(1);
   }
 
-  // 4. Upsert to Supabase
+  // 3. Diff against what Supabase already has so unchanged orgs aren't rewritten
+  console.log("Reading existing organizations...");
+  const existing = await fetchExisting(supabase);
+  const diff = diffRows(dedupedRows, existing);
+  console.log(
+    `Existing: ${existing.size.toLocaleString()}, new: ${diff.added.toLocaleString()}, changed: ${diff.updated.toLocaleString()}, dropped from BMF: ${diff.dropped.length.toLocaleString()}\n`,
+  );
+  if (diff.dropped.length > 0) {
+    const more = diff.dropped.length - MAX_LOGGED_DROPS;
+    console.log(
+      `Dropped from BMF (kept in Supabase): ${diff.dropped.slice(0, MAX_LOGGED_DROPS).join(", ")}${more > 0 ? ` and ${more.toLocaleString()} more` : ""}\n`,
+    );
+  }
+  existing.clear();
+
+  // 4. Upsert new and changed rows to Supabase
   console.log("Upserting to Supabase...");
-  const upserted = await upsertBatches(supabase, dedupedRows, refreshedAt);
+  const upserted = await upsertBatches(supabase, diff.changed, refreshedAt);
 
   // 5. Post-upsert validation
   console.log("\nVerifying data integrity...");
@@ -263,7 +357,7 @@ async function main() {
 
   const duration = ((Date.now() - start) / 1000 / 60).toFixed(1);
   console.log(`\n=== Complete ===`);
-  console.log(`Upserted: ${upserted.toLocaleString()} organizations`);
+  console.log(`Upserted: ${upserted.toLocaleString()} new or changed organizations`);
   console.log(`Duration: ${duration} minutes`);
 }
 
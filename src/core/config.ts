@@ -21,12 +21,26 @@ export interface RedFlagConfig {
   dataMaxAgeDays: number;
 }
 
+export type TransportMode = "stdio" | "http";
+
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+  authToken?: string; // bearer token; required in http mode
+  sessionIdleMinutes: number; // close abandoned HTTP sessions after this long; 0 = never
+}
+
 export interface AppConfig {
   redFlag: RedFlagConfig;
   thresholds: VettingThresholds;
   portfolioFit: PortfolioFitConfig;
+  screeningProfilesPath: string; // JSON file of named per-funder profiles (optional)
   discovery: DiscoveryIndexConfig;
   vettingCacheMaxAgeDays: number;
+  watchlistRescreenHours: number; // 0 disables the periodic watchlist re-screen
+  offlineImportDir?: string; // source_dir imports must resolve inside it; unset disables them
+  transport: TransportConfig;
 }
 
 function envNum(
@@ -54,11 +68,12 @@ function envInt(key: string, fallback: number): number {
  */
 export function loadThresholds(): VettingThresholds {
   return {
-    // Check weights (10+25+35+30 = 100; 501c3 moved to gate layer)
+    // Check weights (10+15+30+30+15 = 100; 501c3 moved to gate layer)
     weightYearsOperating: envInt("VETTING_WEIGHT_YEARS", 10),
-    weightRevenueRange: envInt("VETTING_WEIGHT_REVENUE", 25),
-    weightSpendRate: envInt("VETTING_WEIGHT_OVERHEAD", 35),
+    weightRevenueRange: envInt("VETTING_WEIGHT_REVENUE", 15),
+    weightSpendRate: envInt("VETTING_WEIGHT_OVERHEAD", 30),
     weightRecent990: envInt("VETTING_WEIGHT_990", 30),
+    weightOperatingReserves: envInt("VETTING_WEIGHT_RESERVES", 15),
 
     // Years operating
     yearsPassMin: envInt("VETTING_YEARS_PASS_MIN", 3),
@@ -80,6 +95,10 @@ export function loadThresholds(): VettingThresholds {
     filing990PassMax: envInt("VETTING_990_PASS_MAX_YEARS", 3),
     filing990ReviewMax: envInt("VETTING_990_REVIEW_MAX_YEARS", 4),
 
+    // Operating reserves (months of expenses)
+    reservesPassMinMonths: envFloat("VETTING_RESERVES_PASS_MIN_MONTHS", 3),
+    reservesReviewMinMonths: envFloat("VETTING_RESERVES_REVIEW_MIN_MONTHS", 1),
+
     // Score cutoffs (75 threshold: gates handle binary disqualifiers, scoring is more forgiving)
     scorePassMin: envInt("VETTING_SCORE_PASS_MIN", 75),
     scoreReviewMin: envInt("VETTING_SCORE_REVIEW_MIN", 50),
@@ -93,6 +112,11 @@ export function loadThresholds(): VettingThresholds {
       "VETTING_RF_REVENUE_DECLINE_PCT",
       0.2,
     ),
+    redFlagDeficitYears: envInt("VETTING_RF_DEFICIT_YEARS", 3),
+    redFlagNetAssetErosionPercent: envFloat(
+      "VETTING_RF_NET_ASSET_EROSION_PCT",
+      0.3,
+    ),
     redFlagTooNewYears: envInt("VETTING_RF_TOO_NEW_YEARS", 1),
 
     // Officer compensation
@@ -101,9 +125,21 @@ export function loadThresholds(): VettingThresholds {
       "VETTING_RF_MODERATE_COMPENSATION",
       0.25,
     ),
+
+    // Contractor concentration
+    redFlagContractorShare: envFloat("VETTING_RF_CONTRACTOR_SHARE", 0.5),
   };
 }
 
+/** Env vars behind the scoring weights, in validateThresholds() order. */
+const WEIGHT_ENV_VARS = [
+  "VETTING_WEIGHT_YEARS",
+  "VETTING_WEIGHT_REVENUE",
+  "VETTING_WEIGHT_OVERHEAD",
+  "VETTING_WEIGHT_990",
+  "VETTING_WEIGHT_RESERVES",
+];
+
 /**
  * Validate threshold invariants at startup.
  * Throws on misconfiguration rather than silently running with broken logic.
@@ -116,13 +152,21 @@ export function validateThresholds(t: VettingThresholds): void {
     t.weightRevenueRange,
     t.weightSpendRate,
     t.weightRecent990,
+    t.weightOperatingReserves,
   ];
   if (weights.some((w) => w < 0)) {
     errors.push("All weights must be non-negative");
   }
   const weightSum = weights.reduce((a, b) => a + b, 0);
   if (weightSum !== 100) {
-    errors.push(`Weights must sum to 100, got ${weightSum}`);
+    const named = WEIGHT_ENV_VARS.map((v, i) => `${v}=${weights[i]}`).join(", ");
+    let message = `Weights must sum to 100, got ${weightSum} (${named})`;
+    // Overrides written for the four-check engine sum to 100 on their own
+    if (weightSum - t.weightOperatingReserves === 100) {
+      message +=
+        "; the operating reserves check added VETTING_WEIGHT_RESERVES, so lower the other four to make room (defaults 10/15/30/30/15)";
+    }
+    errors.push(message);
   }
 
   if (t.revenueFailMin > t.revenuePassMin)
@@ -143,6 +187,8 @@ export function validateThresholds(t: VettingThresholds): void {
     errors.push("yearsReviewMin must be <= yearsPassMin");
   if (t.filing990PassMax > t.filing990ReviewMax)
     errors.push("filing990PassMax must be <= filing990ReviewMax");
+  if (t.reservesReviewMinMonths > t.reservesPassMinMonths)
+    errors.push("reservesReviewMinMonths must be <= reservesPassMinMonths");
   if (t.scoreReviewMin > t.scorePassMin)
     errors.push("scoreReviewMin must be <= scorePassMin");
   if (t.scorePassMin < 0 || t.scorePassMin > 100)
@@ -158,12 +204,23 @@ export function validateThresholds(t: VettingThresholds): void {
     errors.push("filing990PassMax must be non-negative");
   if (t.filing990ReviewMax < 0)
     errors.push("filing990ReviewMax must be non-negative");
+  if (t.reservesReviewMinMonths < 0)
+    errors.push("reservesReviewMinMonths must be non-negative");
   if (t.redFlagTooNewYears < 0)
     errors.push("redFlagTooNewYears must be non-negative");
   if (t.redFlagStale990Years < 0)
     errors.push("redFlagStale990Years must be non-negative");
   if (t.redFlagRevenueDeclinePercent < 0 || t.redFlagRevenueDeclinePercent > 1)
     errors.push("redFlagRevenueDeclinePercent must be between 0 and 1");
+  if (!Number.isInteger(t.redFlagDeficitYears) || t.redFlagDeficitYears < 2)
+    errors.push("redFlagDeficitYears must be an integer >= 2");
+  if (
+    t.redFlagNetAssetErosionPercent <= 0 ||
+    t.redFlagNetAssetErosionPercent > 1
+  )
+    errors.push(
+      "redFlagNetAssetErosionPercent must be greater than 0 and at most 1",
+    );
 
   if (t.redFlagModerateCompensation < 0 || t.redFlagModerateCompensation > 1)
     errors.push("redFlagModerateCompensation must be between 0 and 1");
@@ -174,6 +231,9 @@ export function validateThresholds(t: VettingThresholds): void {
       "redFlagModerateCompensation must be <= redFlagHighCompensation",
     );
 
+  if (t.redFlagContractorShare <= 0 || t.redFlagContractorShare > 1)
+    errors.push("redFlagContractorShare must be greater than 0 and at most 1");
+
   if (errors.length > 0) {
     throw new Error(
       `Invalid vetting thresholds:\n  - ${errors.join("\n  - ")}`,
@@ -282,6 +342,9 @@ export function loadDiscoveryConfig(): DiscoveryIndexConfig {
       1000,
       Math.max(1, envInt("DISCOVERY_MAX_RESULTS", 500)),
     ),
+    zipCentroidsPath:
+      process.env.ZIP_CENTROIDS_PATH?.trim() ||
+      path.resolve(__dirname, "../../assets/zip-centroids.csv"),
   };
 }
 
@@ -330,17 +393,115 @@ export function validateGivingTuesdayConfig(config: GivingTuesdayConfig): void {
   }
 }
 
+// ============================================================================
+// Transport Config (stdio vs shared HTTP server)
+// ============================================================================
+
+const MIN_AUTH_TOKEN_LENGTH = 16;
+
+/**
+ * Loads transport settings from environment variables. CLI flags
+ * (--transport, --host, --port) are applied on top by the entry point.
+ */
+export function loadTransportConfig(
+  overrides?: Partial<TransportConfig>,
+): TransportConfig {
+  const rawMode = process.env.MCP_TRANSPORT?.trim().toLowerCase();
+  const config: TransportConfig = {
+    mode: rawMode === "http" ? "http" : "stdio",
+    host: process.env.MCP_HTTP_HOST?.trim() || "127.0.0.1",
+    port: envInt("MCP_HTTP_PORT", 3000),
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+    sessionIdleMinutes: envInt("MCP_SESSION_IDLE_MINUTES", 30),
+    ...overrides,
+  };
+  validateTransportConfig(config);
+  return config;
+}
+
+/**
+ * Parse transport CLI flags: `--transport http|stdio` (or `--http`),
+ * `--host <addr>`, `--port <n>`. Both `--flag value` and `--flag=value`
+ * forms are accepted; unknown flags are ignored.
+ */
+export function parseTransportArgs(argv: string[]): Partial<TransportConfig> {
+  const overrides: Partial<TransportConfig> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--http") {
+      overrides.mode = "http";
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const flag = eq === -1 ? arg : arg.slice(0, eq);
+    if (flag !== "--transport" && flag !== "--host" && flag !== "--port") {
+      continue;
+    }
+    const value = eq === -1 ? argv[++i] : arg.slice(eq + 1);
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+
+    if (flag === "--transport") {
+      overrides.mode = value as TransportMode; // validated by validateTransportConfig
+    } else if (flag === "--host") {
+      overrides.host = value;
+    } else {
+      overrides.port = Number(value);
+    }
+  }
+
+  return overrides;
+}
+
+export function validateTransportConfig(config: TransportConfig): void {
+  const errors: string[] = [];
+
+  if (config.mode !== "stdio" && config.mode !== "http") {
+    errors.push(`mode must be "stdio" or "http", got "${config.mode}"`);
+  }
+  if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65535) {
+    errors.push("port must be an integer between 0 and 65535");
+  }
+  if (!Number.isInteger(config.sessionIdleMinutes) || config.sessionIdleMinutes < 0) {
+    errors.push("MCP_SESSION_IDLE_MINUTES must be a non-negative integer");
+  }
+  if (config.mode === "http") {
+    if (!config.authToken) {
+      errors.push("MCP_AUTH_TOKEN is required in http mode");
+    } else if (config.authToken.length < MIN_AUTH_TOKEN_LENGTH) {
+      errors.push(
+        `MCP_AUTH_TOKEN must be at least ${MIN_AUTH_TOKEN_LENGTH} characters`,
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid transport config:\n  - ${errors.join("\n  - ")}`);
+  }
+}
+
 /**
  * Loads full application config — backward compatible via loadConfig()
  */
-export function loadConfig(): AppConfig {
+export function loadConfig(
+  transportOverrides?: Partial<TransportConfig>,
+): AppConfig {
   const thresholds = loadThresholds();
   validateThresholds(thresholds);
   return {
     redFlag: loadRedFlagConfig(),
     thresholds,
     portfolioFit: loadPortfolioFitConfig(),
+    screeningProfilesPath:
+      process.env.SCREENING_PROFILES_PATH?.trim() ||
+      path.resolve(__dirname, "../../data/screening-profiles.json"),
     discovery: loadDiscoveryConfig(),
     vettingCacheMaxAgeDays: Math.min(365, Math.max(1, envInt("VETTING_CACHE_MAX_AGE_DAYS", 30))),
+    watchlistRescreenHours: Math.min(168, Math.max(0, envInt("WATCHLIST_RESCREEN_INTERVAL_HOURS", 24))),
+    offlineImportDir: process.env.OFFLINE_IMPORT_DIR?.trim() || undefined,
+    transport: loadTransportConfig(transportOverrides),
   };
 }
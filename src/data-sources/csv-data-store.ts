@@ -1,6 +1,9 @@
 import fs from "fs";
 import fsp from "fs/promises";
 import path from "path";
+import readline from "readline";
+import { Readable, Transform, pipeline } from "stream";
+import { finished } from "stream/promises";
 import axios from "axios";
 import { parse } from "csv-parse/sync";
 import * as unzipper from "unzipper";
@@ -14,6 +17,7 @@ import {
 } from "../core/logging.js";
 import {
   IrsRevocationRow,
+  EpostcardRow,
   OfacSdnRow,
   OfacAltRow,
   DataManifest,
@@ -23,9 +27,24 @@ import { jaroWinkler } from "./jaro-winkler.js";
 
 const IRS_REVOCATION_URL =
   "https://apps.irs.gov/pub/epostcard/data-download-revocation.zip";
+const IRS_EPOSTCARD_URL =
+  "https://apps.irs.gov/pub/epostcard/data-download-epostcard.zip";
 const OFAC_SDN_URL = "https://www.treasury.gov/ofac/downloads/sdn.csv";
 const OFAC_ALT_URL = "https://www.treasury.gov/ofac/downloads/alt.csv";
 
+// File names for offline imports (refresh with sourceDir): the published
+// ZIP, or the entry it contains if the file was extracted before transfer
+const IRS_REVOCATION_FILES = {
+  zip: "data-download-revocation.zip",
+  entry: "data-download-revocation.txt",
+};
+const IRS_EPOSTCARD_FILES = {
+  zip: "data-download-epostcard.zip",
+  entry: "data-download-epostcard.txt",
+};
+const OFAC_SDN_FILE = "sdn.csv";
+const OFAC_ALT_FILE = "alt.csv";
+
 const MANIFEST_FILE = "data-manifest.json";
 
 // Safety limits to prevent zip bomb / data poisoning
@@ -33,11 +52,27 @@ const MAX_ZIP_SIZE_BYTES = 200 * 1024 * 1024; // 200MB uncompressed limit (IRS l
 const MAX_DOWNLOAD_BYTES = 60 * 1024 * 1024; // 60MB download limit
 const MIN_IRS_ROWS = 400_000; // IRS list has ~600K rows; below this suggests corruption
 const MIN_OFAC_ENTRIES = 4_000; // OFAC SDN has ~12K entries; below this suggests corruption
+const MIN_EPOSTCARD_ROWS = 200_000; // ~1M distinct EINs have filed a 990-N; below this suggests corruption
+const MAX_EPOSTCARD_ZIP_SIZE_BYTES = 600 * 1024 * 1024; // e-Postcard file is several times the revocation list
+const MAX_EPOSTCARD_DOWNLOAD_BYTES = 150 * 1024 * 1024;
 const REFRESH_COOLDOWN_MS = 60_000; // Minimum 60s between refresh calls
 
+const IRS_LIMITS = {
+  label: "IRS",
+  maxDownloadBytes: MAX_DOWNLOAD_BYTES,
+  maxUncompressedBytes: MAX_ZIP_SIZE_BYTES,
+};
+const EPOSTCARD_LIMITS = {
+  label: "e-Postcard",
+  maxDownloadBytes: MAX_EPOSTCARD_DOWNLOAD_BYTES,
+  maxUncompressedBytes: MAX_EPOSTCARD_ZIP_SIZE_BYTES,
+};
+
 export class CsvDataStore {
   private irsMap = new Map<string, IrsRevocationRow>();
+  private epostcardMap = new Map<string, EpostcardRow>();
   private ofacNameMap = new Map<string, OfacSdnRow[]>();
+  private currentManifest: DataManifest = {};
   private config: RedFlagConfig;
   private lastRefreshAt = 0;
   private operationLock: Promise<void> = Promise.resolve();
@@ -73,6 +108,15 @@ export class CsvDataStore {
     return this.ofacNameMap.size;
   }
 
+  get epostcardRowCount(): number {
+    return this.epostcardMap.size;
+  }
+
+  /** Download timestamps of the data currently loaded (last read or written). */
+  get manifest(): DataManifest {
+    return { ...this.currentManifest };
+  }
+
   async initialize(): Promise<void> {
     return this.withLock(async () => {
       await fsp.mkdir(this.config.dataDir, { recursive: true });
@@ -93,15 +137,43 @@ export class CsvDataStore {
         await this.parseOfacFromDisk();
       }
 
+      // 990-N data is supplementary — without it, e-Postcard filers are
+      // treated as filing-less, so a failure here must not block startup
+      try {
+        if (this.isStale(manifest.epostcard?.downloaded_at)) {
+          await this.downloadAndParseEpostcard(manifest);
+        } else {
+          await this.parseEpostcardFromDisk();
+        }
+      } catch (error) {
+        logWarn(
+          `990-N e-Postcard data unavailable: ${getErrorMessage(error)}`,
+        );
+      }
+
       logInfo(
-        `Data loaded: ${this.irsMap.size} IRS revocations, ${this.ofacNameMap.size} OFAC entries`,
+        `Data loaded: ${this.irsMap.size} IRS revocations, ${this.ofacNameMap.size} OFAC entries, ` +
+        `${this.epostcardMap.size} 990-N filers`,
       );
     });
   }
 
+  /**
+   * Re-download the selected sources, or with sourceDir import them from
+   * files already on disk (for machines without outbound network). Imports
+   * get the same size and row-count checks as downloads, but never fall back
+   * to cached data: a missing or bad file fails the refresh. Every requested
+   * file is located and size-checked before any source is loaded, so a
+   * missing OFAC file can't leave a new IRS list live behind a failed refresh.
+   */
   async refresh(
-    source?: "irs" | "ofac" | "all",
-  ): Promise<{ irs_refreshed: boolean; ofac_refreshed: boolean }> {
+    source?: "irs" | "ofac" | "epostcard" | "all",
+    sourceDir?: string,
+  ): Promise<{
+    irs_refreshed: boolean;
+    ofac_refreshed: boolean;
+    epostcard_refreshed: boolean;
+  }> {
     return this.withLock(async () => {
       const now = Date.now();
       const elapsed = now - this.lastRefreshAt;
@@ -114,12 +186,26 @@ export class CsvDataStore {
       const target = source ?? "all";
       const refreshIrs = target === "irs" || target === "all";
       const refreshOfac = target === "ofac" || target === "all";
-
-      if (refreshIrs) await this.downloadAndParseIrs(manifest);
-      if (refreshOfac) await this.downloadAndParseOfac(manifest);
+      const refreshEpostcard = target === "epostcard" || target === "all";
+
+      const dir = sourceDir ? path.resolve(sourceDir) : undefined;
+      if (dir) {
+        await this.checkLocalSources(dir, {
+          irs: refreshIrs,
+          ofac: refreshOfac,
+          epostcard: refreshEpostcard,
+        });
+      }
+      if (refreshIrs) await this.downloadAndParseIrs(manifest, dir);
+      if (refreshOfac) await this.downloadAndParseOfac(manifest, dir);
+      if (refreshEpostcard) await this.downloadAndParseEpostcard(manifest, dir);
 
       this.lastRefreshAt = Date.now();
-      return { irs_refreshed: refreshIrs, ofac_refreshed: refreshOfac };
+      return {
+        irs_refreshed: refreshIrs,
+        ofac_refreshed: refreshOfac,
+        epostcard_refreshed: refreshEpostcard,
+      };
     });
   }
 
@@ -128,6 +214,12 @@ export class CsvDataStore {
     return this.irsMap.get(normalized);
   }
 
+  /** Most recent 990-N e-Postcard for an EIN, if the org has filed one. */
+  lookupEpostcard(ein: string): EpostcardRow | undefined {
+    const normalized = ein.replace(/[-\s]/g, "");
+    return this.epostcardMap.get(normalized);
+  }
+
   lookupName(name: string): OfacSdnRow[] {
     const normalized = normalizeName(name);
     return this.ofacNameMap.get(normalized) || [];
@@ -162,44 +254,29 @@ export class CsvDataStore {
     return matches.sort((a, b) => b.similarity - a.similarity).slice(0, 5);
   }
 
-  private async downloadAndParseIrs(manifest: DataManifest): Promise<void> {
-    logInfo("Downloading IRS revocation list...");
+  private async downloadAndParseIrs(
+    manifest: DataManifest,
+    sourceDir?: string,
+  ): Promise<void> {
+    logInfo(
+      sourceDir
+        ? `Importing IRS revocation list from ${sourceDir}...`
+        : "Downloading IRS revocation list...",
+    );
     const zipPath = path.join(this.config.dataDir, "irs-revocation.zip");
     const csvPath = path.join(this.config.dataDir, "irs-revocation.csv");
 
     try {
-      const response = await axios.get(IRS_REVOCATION_URL, {
-        responseType: "arraybuffer",
-        timeout: 120000, // 2 min — file is ~15MB
-        maxContentLength: MAX_DOWNLOAD_BYTES,
-        maxBodyLength: MAX_DOWNLOAD_BYTES,
-      });
-
-      await fsp.writeFile(zipPath, Buffer.from(response.data));
-
-      // Extract ZIP
-      const directory = await unzipper.Open.file(zipPath);
-      if (directory.files.length === 0) {
-        throw new Error("IRS ZIP file is empty");
-      }
-
-      const file = directory.files[0];
-
-      // Guard against zip bombs: check uncompressed size before extracting
-      if (file.uncompressedSize && file.uncompressedSize > MAX_ZIP_SIZE_BYTES) {
-        throw new Error(
-          `IRS ZIP entry too large: ${file.uncompressedSize} bytes (limit: ${MAX_ZIP_SIZE_BYTES})`,
-        );
-      }
-
-      const content = await file.buffer();
-
-      // Guard against zip bombs: verify actual extracted size (header can be spoofed)
-      if (content.length > MAX_ZIP_SIZE_BYTES) {
-        throw new Error(
-          `IRS ZIP extracted content too large: ${content.length} bytes (limit: ${MAX_ZIP_SIZE_BYTES})`,
-        );
-      }
+      const content = sourceDir
+        ? await this.readLocalZipEntry(
+            sourceDir,
+            IRS_REVOCATION_FILES,
+            IRS_LIMITS,
+          )
+        : await this.downloadZipEntry(IRS_REVOCATION_URL, zipPath, {
+            ...IRS_LIMITS,
+            timeoutMs: 120000, // 2 min — file is ~15MB
+          });
 
       await fsp.writeFile(csvPath, content);
 
@@ -224,6 +301,9 @@ export class CsvDataStore {
       logInfo(`IRS revocation list loaded: ${this.irsMap.size} entries`);
     } catch (error) {
       const msg = getErrorMessage(error);
+      if (sourceDir) {
+        throw new Error(`Cannot import IRS revocation data: ${msg}`);
+      }
       logError("Failed to download IRS revocation list:", msg);
       // Fall back to disk if available
       if (fs.existsSync(csvPath)) {
@@ -293,34 +373,445 @@ export class CsvDataStore {
     return map;
   }
 
-  private async downloadAndParseOfac(manifest: DataManifest): Promise<void> {
-    logInfo("Downloading OFAC SDN lists...");
+  /**
+   * Download a single-file IRS ZIP and return the extracted entry.
+   * Both size guards apply: the header's uncompressed size (cheap, but can be
+   * spoofed) and the actual extracted length.
+   */
+  private async downloadZipEntry(
+    url: string,
+    zipPath: string,
+    opts: {
+      label: string;
+      timeoutMs: number;
+      maxDownloadBytes: number;
+      maxUncompressedBytes: number;
+    },
+  ): Promise<Buffer> {
+    await this.downloadZip(url, zipPath, opts);
+    return this.extractZipEntry(zipPath, opts.label, opts.maxUncompressedBytes);
+  }
+
+  private async downloadZip(
+    url: string,
+    zipPath: string,
+    opts: { timeoutMs: number; maxDownloadBytes: number },
+  ): Promise<void> {
+    const response = await axios.get(url, {
+      responseType: "arraybuffer",
+      timeout: opts.timeoutMs,
+      maxContentLength: opts.maxDownloadBytes,
+      maxBodyLength: opts.maxDownloadBytes,
+    });
+
+    await fsp.writeFile(zipPath, Buffer.from(response.data));
+  }
+
+  /**
+   * Read a hand-transferred IRS file from sourceDir: the published ZIP if
+   * present, else its extracted entry. Same size limits as downloadZipEntry.
+   */
+  private async readLocalZipEntry(
+    sourceDir: string,
+    files: { zip: string; entry: string },
+    opts: {
+      label: string;
+      maxDownloadBytes: number;
+      maxUncompressedBytes: number;
+    },
+  ): Promise<Buffer> {
+    const local = await this.findLocalZipEntry(sourceDir, files, opts);
+    return local.zipped
+      ? this.extractZipEntry(local.path, opts.label, opts.maxUncompressedBytes)
+      : fsp.readFile(local.path);
+  }
+
+  /** Streaming readLocalZipEntry, for files too large to buffer. */
+  private async openLocalZipEntry(
+    sourceDir: string,
+    files: { zip: string; entry: string },
+    opts: {
+      label: string;
+      maxDownloadBytes: number;
+      maxUncompressedBytes: number;
+    },
+  ): Promise<Readable> {
+    const local = await this.findLocalZipEntry(sourceDir, files, opts);
+    return local.zipped
+      ? this.openZipEntry(local.path, opts.label, opts.maxUncompressedBytes)
+      : fs.createReadStream(local.path);
+  }
+
+  /** Locate a hand-transferred IRS file (ZIP preferred) and check its size. */
+  private async findLocalZipEntry(
+    sourceDir: string,
+    files: { zip: string; entry: string },
+    opts: {
+      label: string;
+      maxDownloadBytes: number;
+      maxUncompressedBytes: number;
+    },
+  ): Promise<{ path: string; zipped: boolean }> {
+    const { label, maxUncompressedBytes } = opts;
+    const zipPath = path.join(sourceDir, files.zip);
+    const entryPath = path.join(sourceDir, files.entry);
+
+    if (fs.existsSync(zipPath)) {
+      const { size } = await fsp.stat(zipPath);
+      if (size > opts.maxDownloadBytes) {
+        throw new Error(
+          `${label} ZIP file too large: ${size} bytes (limit: ${opts.maxDownloadBytes})`,
+        );
+      }
+      return { path: zipPath, zipped: true };
+    }
+
+    if (fs.existsSync(entryPath)) {
+      const { size } = await fsp.stat(entryPath);
+      if (size > maxUncompressedBytes) {
+        throw new Error(
+          `${label} file too large: ${size} bytes (limit: ${maxUncompressedBytes})`,
+        );
+      }
+      return { path: entryPath, zipped: false };
+    }
+
+    throw new Error(
+      `${label} file not found in ${sourceDir} (expected ${files.zip} or ${files.entry})`,
+    );
+  }
+
+  /** Read a hand-transferred OFAC CSV, capped like a download. */
+  private async readLocalFile(
+    sourceDir: string,
+    fileName: string,
+    label: string,
+  ): Promise<string> {
+    const filePath = await this.findLocalFile(sourceDir, fileName, label);
+    return fsp.readFile(filePath, "utf-8");
+  }
+
+  private async findLocalFile(
+    sourceDir: string,
+    fileName: string,
+    label: string,
+  ): Promise<string> {
+    const filePath = path.join(sourceDir, fileName);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`${label} file not found: ${filePath}`);
+    }
+    const { size } = await fsp.stat(filePath);
+    if (size > MAX_DOWNLOAD_BYTES) {
+      throw new Error(
+        `${label} file too large: ${size} bytes (limit: ${MAX_DOWNLOAD_BYTES})`,
+      );
+    }
+    return filePath;
+  }
+
+  /**
+   * Locate and size-check the files for each requested source, with the
+   * same errors the import itself would raise. Row counts are still only
+   * known after parsing.
+   */
+  private async checkLocalSources(
+    sourceDir: string,
+    sources: { irs: boolean; ofac: boolean; epostcard: boolean },
+  ): Promise<void> {
+    const checks: Array<[string, () => Promise<unknown>]> = [];
+    if (sources.irs) {
+      checks.push([
+        "IRS revocation",
+        () =>
+          this.findLocalZipEntry(sourceDir, IRS_REVOCATION_FILES, IRS_LIMITS),
+      ]);
+    }
+    if (sources.ofac) {
+      checks.push([
+        "OFAC",
+        async () => {
+          await this.findLocalFile(sourceDir, OFAC_SDN_FILE, "OFAC SDN");
+          await this.findLocalFile(sourceDir, OFAC_ALT_FILE, "OFAC ALT");
+        },
+      ]);
+    }
+    if (sources.epostcard) {
+      checks.push([
+        "990-N e-Postcard",
+        () =>
+          this.findLocalZipEntry(
+            sourceDir,
+            IRS_EPOSTCARD_FILES,
+            EPOSTCARD_LIMITS,
+          ),
+      ]);
+    }
+
+    for (const [label, check] of checks) {
+      try {
+        await check();
+      } catch (error) {
+        throw new Error(
+          `Cannot import ${label} data: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  /** Extract the single entry of an IRS ZIP, guarding against zip bombs. */
+  private async extractZipEntry(
+    zipPath: string,
+    label: string,
+    maxUncompressedBytes: number,
+  ): Promise<Buffer> {
+    const file = await this.openZipFile(zipPath, label, maxUncompressedBytes);
+    const content = await file.buffer();
+
+    // Guard against zip bombs: verify actual extracted size (header can be spoofed)
+    if (content.length > maxUncompressedBytes) {
+      throw new Error(
+        `${label} ZIP extracted content too large: ${content.length} bytes (limit: ${maxUncompressedBytes})`,
+      );
+    }
+
+    return content;
+  }
+
+  /**
+   * Stream the single entry of an IRS ZIP. The extracted size is enforced
+   * while reading (limitBytes), since the header size can be spoofed.
+   */
+  private async openZipEntry(
+    zipPath: string,
+    label: string,
+    maxUncompressedBytes: number,
+  ): Promise<Readable> {
+    const file = await this.openZipFile(zipPath, label, maxUncompressedBytes);
+    return file.stream();
+  }
+
+  private async openZipFile(
+    zipPath: string,
+    label: string,
+    maxUncompressedBytes: number,
+  ): Promise<unzipper.File> {
+    const directory = await unzipper.Open.file(zipPath);
+    if (directory.files.length === 0) {
+      throw new Error(`${label} ZIP file is empty`);
+    }
+
+    const file = directory.files[0];
+
+    // Guard against zip bombs: check uncompressed size before extracting
+    if (file.uncompressedSize && file.uncompressedSize > maxUncompressedBytes) {
+      throw new Error(
+        `${label} ZIP entry too large: ${file.uncompressedSize} bytes (limit: ${maxUncompressedBytes})`,
+      );
+    }
+
+    return file;
+  }
+
+  private async downloadAndParseEpostcard(
+    manifest: DataManifest,
+    sourceDir?: string,
+  ): Promise<void> {
+    logInfo(
+      sourceDir
+        ? `Importing IRS 990-N e-Postcard list from ${sourceDir}...`
+        : "Downloading IRS 990-N e-Postcard list...",
+    );
+    const zipPath = path.join(this.config.dataDir, "irs-epostcard.zip");
+    const txtPath = path.join(this.config.dataDir, "irs-epostcard.txt");
+    const partialPath = `${txtPath}.partial`;
+
+    try {
+      let entry: Readable;
+      if (sourceDir) {
+        entry = await this.openLocalZipEntry(
+          sourceDir,
+          IRS_EPOSTCARD_FILES,
+          EPOSTCARD_LIMITS,
+        );
+      } else {
+        await this.downloadZip(IRS_EPOSTCARD_URL, zipPath, {
+          ...EPOSTCARD_LIMITS,
+          timeoutMs: 300000, // 5 min — file is several times the revocation list
+        });
+        entry = await this.openZipEntry(
+          zipPath,
+          EPOSTCARD_LIMITS.label,
+          EPOSTCARD_LIMITS.maxUncompressedBytes,
+        );
+      }
+
+      // Parse into local var -- don't touch live data (or the cached copy,
+      // written alongside as partialPath) until validated
+      const newMap = await this.parseEpostcardStream(entry, {
+        maxBytes: EPOSTCARD_LIMITS.maxUncompressedBytes,
+        copyTo: partialPath,
+      });
+
+      if (newMap.size < MIN_EPOSTCARD_ROWS) {
+        throw new Error(
+          `e-Postcard data too small: ${newMap.size} EINs (expected >= ${MIN_EPOSTCARD_ROWS})`,
+        );
+      }
+
+      // Validation passed -- swap atomically
+      await fsp.rename(partialPath, txtPath);
+      this.epostcardMap = newMap;
+
+      manifest.epostcard = {
+        downloaded_at: new Date().toISOString(),
+        row_count: this.epostcardMap.size,
+      };
+      await this.saveManifest(manifest);
+
+      logInfo(`990-N e-Postcard list loaded: ${this.epostcardMap.size} EINs`);
+    } catch (error) {
+      await fsp.rm(partialPath, { force: true });
+      const msg = getErrorMessage(error);
+      if (sourceDir) {
+        throw new Error(`Cannot import 990-N e-Postcard data: ${msg}`);
+      }
+      logError("Failed to download 990-N e-Postcard list:", msg);
+      if (fs.existsSync(txtPath)) {
+        logWarn("Falling back to cached e-Postcard data");
+        await this.parseEpostcardFromDisk();
+      } else {
+        throw new Error(`Cannot load 990-N e-Postcard data: ${msg}`);
+      }
+    }
+  }
+
+  private async parseEpostcardFromDisk(): Promise<void> {
+    const txtPath = path.join(this.config.dataDir, "irs-epostcard.txt");
+    if (!fs.existsSync(txtPath)) {
+      const manifest = await this.loadManifest();
+      await this.downloadAndParseEpostcard(manifest);
+      return;
+    }
+
+    const loaded = await this.parseEpostcardStream(fs.createReadStream(txtPath));
+    if (loaded.size < MIN_EPOSTCARD_ROWS) {
+      logWarn(
+        `Cached e-Postcard data suspiciously small: ${loaded.size} EINs (expected >= ${MIN_EPOSTCARD_ROWS})`,
+      );
+    }
+    this.epostcardMap = loaded;
+    logDebug(`e-Postcard data loaded from disk: ${this.epostcardMap.size} EINs`);
+  }
+
+  // e-Postcard file is pipe-delimited with one row per EIN per tax year:
+  // EIN|TaxYear|Name|GrossReceiptsUnder50K(T/F)|Terminated(T/F)|PeriodBegin|PeriodEnd|...
+  // Keep only the most recent tax year for each EIN. The file runs to
+  // hundreds of MB, so it is read line by line rather than as one string;
+  // copyTo tees the raw bytes to disk on the way through.
+  private async parseEpostcardStream(
+    input: Readable,
+    opts: { maxBytes?: number; copyTo?: string } = {},
+  ): Promise<Map<string, EpostcardRow>> {
+    const map = new Map<string, EpostcardRow>();
+    const source = opts.maxBytes
+      ? pipeline(input, limitBytes(opts.maxBytes, "e-Postcard"), () => {})
+      : input;
+    const copy = opts.copyTo ? fs.createWriteStream(opts.copyTo) : undefined;
+    const copied = copy ? finished(copy) : undefined;
+    if (copy) source.pipe(copy);
+
+    try {
+      const lines = readline.createInterface({
+        input: source,
+        crlfDelay: Infinity,
+      });
+      for await (const rawLine of lines) {
+        this.addEpostcardLine(map, rawLine);
+      }
+      await copied;
+    } catch (error) {
+      copy?.destroy();
+      copied?.catch(() => {}); // already failing with `error`
+      throw error;
+    }
+
+    return map;
+  }
+
+  private addEpostcardLine(
+    map: Map<string, EpostcardRow>,
+    rawLine: string,
+  ): void {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const fields = line.split("|");
+    if (fields.length < 7) return;
+
+    // Also skips a header row, if present
+    const ein = fields[0].trim().replace(/[-\s]/g, "");
+    if (!/^\d{9}$/.test(ein)) return;
+
+    const taxYearRaw = fields[1].trim();
+    if (!/^\d{4}$/.test(taxYearRaw)) return;
+    const taxYear = parseInt(taxYearRaw, 10);
+
+    const existing = map.get(ein);
+    if (existing && existing.taxYear >= taxYear) return;
+
+    map.set(ein, {
+      ein,
+      taxYear,
+      legalName: fields[2]?.trim() || "",
+      grossReceiptsUnderLimit: fields[3]?.trim().toUpperCase() === "T",
+      terminated: fields[4]?.trim().toUpperCase() === "T",
+      taxPeriodBegin: fields[5]?.trim() || "",
+      taxPeriodEnd: fields[6]?.trim() || "",
+    });
+  }
+
+  private async downloadAndParseOfac(
+    manifest: DataManifest,
+    sourceDir?: string,
+  ): Promise<void> {
+    logInfo(
+      sourceDir
+        ? `Importing OFAC SDN lists from ${sourceDir}...`
+        : "Downloading OFAC SDN lists...",
+    );
     const sdnPath = path.join(this.config.dataDir, "sdn.csv");
     const altPath = path.join(this.config.dataDir, "alt.csv");
 
     try {
-      const [sdnResponse, altResponse] = await Promise.all([
-        axios.get(OFAC_SDN_URL, {
-          responseType: "text",
-          timeout: 60000,
-          maxContentLength: MAX_DOWNLOAD_BYTES,
-          maxBodyLength: MAX_DOWNLOAD_BYTES,
-        }),
-        axios.get(OFAC_ALT_URL, {
-          responseType: "text",
-          timeout: 60000,
-          maxContentLength: MAX_DOWNLOAD_BYTES,
-          maxBodyLength: MAX_DOWNLOAD_BYTES,
-        }),
-      ]);
+      const [sdnData, altData] = sourceDir
+        ? await Promise.all([
+            this.readLocalFile(sourceDir, OFAC_SDN_FILE, "OFAC SDN"),
+            this.readLocalFile(sourceDir, OFAC_ALT_FILE, "OFAC ALT"),
+          ])
+        : (
+            await Promise.all([
+              axios.get(OFAC_SDN_URL, {
+                responseType: "text",
+                timeout: 60000,
+                maxContentLength: MAX_DOWNLOAD_BYTES,
+                maxBodyLength: MAX_DOWNLOAD_BYTES,
+              }),
+              axios.get(OFAC_ALT_URL, {
+                responseType: "text",
+                timeout: 60000,
+                maxContentLength: MAX_DOWNLOAD_BYTES,
+                maxBodyLength: MAX_DOWNLOAD_BYTES,
+              }),
+            ])
+          ).map((response) => response.data as string);
 
       await Promise.all([
-        fsp.writeFile(sdnPath, sdnResponse.data),
-        fsp.writeFile(altPath, altResponse.data),
+        fsp.writeFile(sdnPath, sdnData),
+        fsp.writeFile(altPath, altData),
       ]);
 
-      const sdnRows = this.parseSdnCsv(sdnResponse.data);
-      const altRows = this.parseAltCsv(altResponse.data);
+      const sdnRows = this.parseSdnCsv(sdnData);
+      const altRows = this.parseAltCsv(altData);
 
       // Parse into local var -- don't touch live data until validated
       const newMap = this.buildOfacNameMap(sdnRows, altRows);
@@ -346,6 +837,9 @@ export class CsvDataStore {
       );
     } catch (error) {
       const msg = getErrorMessage(error);
+      if (sourceDir) {
+        throw new Error(`Cannot import OFAC data: ${msg}`);
+      }
       logError("Failed to download OFAC lists:", msg);
       if (fs.existsSync(sdnPath) && fs.existsSync(altPath)) {
         logWarn("Falling back to cached OFAC data");
@@ -475,7 +969,9 @@ export class CsvDataStore {
     const manifestPath = path.join(this.config.dataDir, MANIFEST_FILE);
     try {
       const content = await fsp.readFile(manifestPath, "utf-8");
-      return JSON.parse(content) as DataManifest;
+      const manifest = JSON.parse(content) as DataManifest;
+      this.currentManifest = { ...manifest };
+      return manifest;
     } catch {
       return {};
     }
@@ -484,6 +980,7 @@ export class CsvDataStore {
   private async saveManifest(manifest: DataManifest): Promise<void> {
     const manifestPath = path.join(this.config.dataDir, MANIFEST_FILE);
     await fsp.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    this.currentManifest = { ...manifest };
   }
 
   private isStale(downloadedAt: string | undefined): boolean {
@@ -495,3 +992,22 @@ export class CsvDataStore {
     return diffDays > this.config.dataMaxAgeDays;
   }
 }
+
+/** Pass-through that fails once more than maxBytes have been read. */
+function limitBytes(maxBytes: number, label: string): Transform {
+  let total = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        callback(
+          new Error(
+            `${label} ZIP extracted content too large: over ${maxBytes} bytes`,
+          ),
+        );
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
@@ -1,9 +1,14 @@
 import fs from "fs";
 import fsp from "fs/promises";
 import path from "path";
+import { Readable } from "stream";
 import axios from "axios";
 import { parse } from "csv-parse";
+import * as unzipper from "unzipper";
 import {
+  BmfChange,
+  BmfChangeType,
+  BmfRefreshResult,
   BmfRow,
   DiscoveryCandidate,
   DiscoveryFilters,
@@ -18,6 +23,15 @@ import {
   getErrorMessage,
 } from "../core/logging.js";
 import { SqliteDatabase } from "./sqlite-adapter.js";
+import {
+  isFuzzyToken,
+  nameRelevance,
+  searchKey,
+  searchTokens,
+  trigrams,
+} from "./name-search.js";
+import { jaroWinkler } from "./jaro-winkler.js";
+import { ZipCentroidIndex, zip5 } from "./zip-centroids.js";
 
 const DB_FILENAME = "discovery-index.db";
 const MANIFEST_FILENAME = "discovery-manifest.json";
@@ -30,14 +44,138 @@ const REFRESH_COOLDOWN_MS = 300_000; // 5 min between rebuilds
 const BATCH_INSERT_SIZE = 1000;
 const DEFAULT_LIMIT = 100;
 const MAX_LIMIT = 500;
+const EIN_LOOKUP_CHUNK = 500; // stay under SQLite's 999 bound-parameter limit
+const NAME_INDEX_CHUNK = 10_000;
+const FUZZY_TERM_MIN = 0.88; // Jaro-Winkler floor for a typo'd token variant
+const MAX_TERM_VARIANTS = 8; // per query token, including the token itself
+const NAME_SEARCH_POOL = 2000; // matches ranked per nameSearch query
+const DEFAULT_RADIUS_MILES = 10;
+const MAX_RADIUS_MILES = 100;
+
+// 509(a) foundation codes for public charities: churches, schools and
+// hospitals (10-12), government-supported (13-15), broadly publicly
+// supported (16), supporting orgs (17, 21-24) and public-safety testing (18)
+const PUBLIC_CHARITY_FOUNDATION_CODES = [
+  10, 11, 12, 13, 14, 15, 16, 17, 18, 21, 22, 23, 24,
+];
+
+const CANDIDATE_COLUMN_LIST = [
+  "ein",
+  "name",
+  "street",
+  "city",
+  "state",
+  "zip",
+  "ntee_code",
+  "subsection",
+  "ruling_date",
+  "asset_amount",
+  "income_amount",
+  "revenue_amount",
+  "foundation_code",
+  "deductibility",
+  "affiliation",
+  "organization_type",
+  "exempt_status",
+  "tax_period",
+];
+const CANDIDATE_COLUMNS = CANDIDATE_COLUMN_LIST.join(", ");
+
+const BMF_ORGS_COLUMNS_SQL = `
+  ein        TEXT PRIMARY KEY,
+  name       TEXT NOT NULL,
+  street     TEXT NOT NULL DEFAULT '',
+  city       TEXT NOT NULL DEFAULT '',
+  state      TEXT NOT NULL DEFAULT '',
+  zip        TEXT NOT NULL DEFAULT '',
+  ntee_code  TEXT NOT NULL DEFAULT '',
+  subsection INTEGER NOT NULL DEFAULT 0,
+  ruling_date TEXT NOT NULL DEFAULT '',
+  asset_amount      INTEGER,
+  income_amount     INTEGER,
+  revenue_amount    INTEGER,
+  foundation_code   INTEGER NOT NULL DEFAULT 0,
+  deductibility     INTEGER NOT NULL DEFAULT 0,
+  affiliation       INTEGER NOT NULL DEFAULT 0,
+  organization_type INTEGER NOT NULL DEFAULT 0,
+  exempt_status     INTEGER NOT NULL DEFAULT 0,
+  tax_period        TEXT NOT NULL DEFAULT ''
+`;
+
+// Columns added after the original seven. initialize() adds any that an
+// index built by an older version lacks; the next rebuild fills them in.
+const ADDED_COLUMNS: Array<[column: string, definition: string]> = [
+  ["street", "TEXT NOT NULL DEFAULT ''"],
+  ["zip", "TEXT NOT NULL DEFAULT ''"],
+  ["asset_amount", "INTEGER"],
+  ["income_amount", "INTEGER"],
+  ["revenue_amount", "INTEGER"],
+  ["foundation_code", "INTEGER NOT NULL DEFAULT 0"],
+  ["deductibility", "INTEGER NOT NULL DEFAULT 0"],
+  ["affiliation", "INTEGER NOT NULL DEFAULT 0"],
+  ["organization_type", "INTEGER NOT NULL DEFAULT 0"],
+  ["exempt_status", "INTEGER NOT NULL DEFAULT 0"],
+  ["tax_period", "TEXT NOT NULL DEFAULT ''"],
+];
+
+// Incremental refreshes diff the new BMF (staged in bmf_staging) against
+// bmf_orgs. Each statement logs one kind of change; ? is the refresh time.
+const LOG_CHANGES_SQL = [
+  `INSERT INTO bmf_changes (ein, change_type, name, old_value, new_value, detected_at)
+   SELECT s.ein, 'new_org', s.name, NULL, NULL, ? FROM bmf_staging s
+   WHERE NOT EXISTS (SELECT 1 FROM bmf_orgs o WHERE o.ein = s.ein)`,
+  `INSERT INTO bmf_changes (ein, change_type, name, old_value, new_value, detected_at)
+   SELECT o.ein, 'dropped', o.name, NULL, NULL, ? FROM bmf_orgs o
+   WHERE NOT EXISTS (SELECT 1 FROM bmf_staging s WHERE s.ein = o.ein)`,
+  `INSERT INTO bmf_changes (ein, change_type, name, old_value, new_value, detected_at)
+   SELECT s.ein, 'name_change', s.name, o.name, s.name, ?
+   FROM bmf_staging s JOIN bmf_orgs o ON o.ein = s.ein WHERE o.name <> s.name`,
+  `INSERT INTO bmf_changes (ein, change_type, name, old_value, new_value, detected_at)
+   SELECT s.ein, 'ntee_change', s.name, o.ntee_code, s.ntee_code, ?
+   FROM bmf_staging s JOIN bmf_orgs o ON o.ein = s.ein WHERE o.ntee_code <> s.ntee_code`,
+  `INSERT INTO bmf_changes (ein, change_type, name, old_value, new_value, detected_at)
+   SELECT s.ein, 'subsection_change', s.name, CAST(o.subsection AS TEXT), CAST(s.subsection AS TEXT), ?
+   FROM bmf_staging s JOIN bmf_orgs o ON o.ein = s.ein WHERE o.subsection <> s.subsection`,
+];
+
+// A refresh that would drop more than this share of the index is treated as
+// a bad download rather than applied (the monthly churn is well under 1%).
+const MAX_DROPPED_FRACTION = 0.05;
+const DEFAULT_CHANGES_LIMIT = 100;
+
+const BMF_CHANGE_TYPES: BmfChangeType[] = [
+  "new_org",
+  "name_change",
+  "ntee_change",
+  "subsection_change",
+  "dropped",
+];
+
+// Full-text name index. bmf_name_fts holds each org's search key (see
+// name-search.ts) under docid = numeric EIN; it's contentless, so the names
+// themselves are only stored once, in bmf_orgs. bmf_name_terms exposes the
+// FTS vocabulary, which bmf_name_trigrams indexes for typo expansion.
+const NAME_INDEX_SCHEMA = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS bmf_name_fts USING fts4(name, content='');
+  CREATE VIRTUAL TABLE IF NOT EXISTS bmf_name_terms USING fts4aux(bmf_name_fts);
+  CREATE TABLE IF NOT EXISTS bmf_name_trigrams (
+    trigram TEXT NOT NULL,
+    term    TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_bmf_name_trigram ON bmf_name_trigrams(trigram);
+`;
 
 export class DiscoveryIndex {
   private db: SqliteDatabase | null = null;
   private config: DiscoveryIndexConfig;
   private lastBuildAt = 0;
+  private zipCentroids: ZipCentroidIndex | null;
 
   constructor(config: DiscoveryIndexConfig) {
     this.config = config;
+    this.zipCentroids = config.zipCentroidsPath
+      ? new ZipCentroidIndex(config.zipCentroidsPath)
+      : null;
   }
 
   /** Initialize DB schema. Does NOT download data -- call buildIndex() for that. */
@@ -47,21 +185,45 @@ export class DiscoveryIndex {
     this.db.pragma("journal_mode = WAL");
 
     this.db.sqlExec(`
-      CREATE TABLE IF NOT EXISTS bmf_orgs (
-        ein        TEXT PRIMARY KEY,
-        name       TEXT NOT NULL,
-        city       TEXT NOT NULL DEFAULT '',
-        state      TEXT NOT NULL DEFAULT '',
-        ntee_code  TEXT NOT NULL DEFAULT '',
-        subsection INTEGER NOT NULL DEFAULT 0,
-        ruling_date TEXT NOT NULL DEFAULT ''
-      );
+      CREATE TABLE IF NOT EXISTS bmf_orgs (${BMF_ORGS_COLUMNS_SQL});
 
       CREATE INDEX IF NOT EXISTS idx_bmf_state ON bmf_orgs(state);
       CREATE INDEX IF NOT EXISTS idx_bmf_ntee ON bmf_orgs(ntee_code);
       CREATE INDEX IF NOT EXISTS idx_bmf_subsection ON bmf_orgs(subsection);
       CREATE INDEX IF NOT EXISTS idx_bmf_state_ntee ON bmf_orgs(state, ntee_code);
     `);
+    for (const [column, definition] of ADDED_COLUMNS) {
+      this.addColumnIfMissing(column, definition);
+    }
+    this.db.sqlExec(`
+      CREATE INDEX IF NOT EXISTS idx_bmf_zip ON bmf_orgs(zip);
+      CREATE INDEX IF NOT EXISTS idx_bmf_revenue ON bmf_orgs(revenue_amount);
+      CREATE INDEX IF NOT EXISTS idx_bmf_assets ON bmf_orgs(asset_amount);
+    `);
+    this.db.sqlExec(NAME_INDEX_SCHEMA);
+    this.db.sqlExec(`
+      CREATE TABLE IF NOT EXISTS bmf_changes (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        ein         TEXT NOT NULL,
+        change_type TEXT NOT NULL,
+        name        TEXT NOT NULL,
+        old_value   TEXT,
+        new_value   TEXT,
+        detected_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_bmf_changes_ein ON bmf_changes(ein);
+      CREATE INDEX IF NOT EXISTS idx_bmf_changes_detected ON bmf_changes(detected_at);
+    `);
+
+    // Indexes built before name search have orgs but no name index
+    const hasOrgs = this.db.prepare("SELECT 1 FROM bmf_orgs LIMIT 1").get();
+    const hasNameIndex = this.db
+      .prepare("SELECT 1 FROM bmf_name_trigrams LIMIT 1")
+      .get();
+    if (hasOrgs && !hasNameIndex) {
+      logInfo("Building missing name search index for existing BMF data");
+      this.buildNameIndex();
+    }
 
     this.db.persist();
     logInfo("DiscoveryIndex initialized");
@@ -79,8 +241,13 @@ export class DiscoveryIndex {
     return ageDays <= this.config.dataMaxAgeDays;
   }
 
-  /** Download BMF CSVs and build the SQLite index. Idempotent -- rebuilds from scratch. */
-  async buildIndex(): Promise<{ rowCount: number; duration: number }> {
+  /**
+   * Download BMF CSVs and load them into the SQLite index: a full build the
+   * first time, an in-place diff (logged to bmf_changes) after that. With
+   * sourceDir, each region is read from {region}.csv or {region}.zip in that
+   * directory instead of irs.gov, under the same size and row-count limits.
+   */
+  async buildIndex(sourceDir?: string): Promise<BmfRefreshResult> {
     this.ensureOpen();
 
     const now = Date.now();
@@ -94,115 +261,59 @@ export class DiscoveryIndex {
     const start = Date.now();
     await fsp.mkdir(this.config.dataDir, { recursive: true });
 
-    // Download and parse all region CSVs
+    // Download (or read) and parse all region CSVs
     const allRows: BmfRow[] = [];
-    const regionUrls: string[] = [];
+    const sources: string[] = [];
+    const dir = sourceDir ? path.resolve(sourceDir) : undefined;
+    const action = dir ? "import" : "download";
 
     for (const region of this.config.bmfRegions) {
-      const url = `${BMF_BASE_URL}/${region}.csv`;
-      regionUrls.push(url);
-      logInfo(`Downloading BMF region: ${region}`);
-
       try {
-        const response = await axios.get(url, {
-          responseType: "stream",
-          timeout: 120_000,
-          maxContentLength: MAX_DOWNLOAD_BYTES,
-          maxBodyLength: MAX_DOWNLOAD_BYTES,
-        });
-
-        const rows = await this.parseBmfStream(response.data);
+        let stream: Readable;
+        if (dir) {
+          const local = await this.openLocalRegion(dir, region);
+          logInfo(`Importing BMF region ${region} from ${local.file}`);
+          sources.push(local.file);
+          stream = local.stream;
+        } else {
+          const url = `${BMF_BASE_URL}/${region}.csv`;
+          logInfo(`Downloading BMF region: ${region}`);
+          sources.push(url);
+          const response = await axios.get(url, {
+            responseType: "stream",
+            timeout: 120_000,
+            maxContentLength: MAX_DOWNLOAD_BYTES,
+            maxBodyLength: MAX_DOWNLOAD_BYTES,
+          });
+          stream = response.data;
+        }
+
+        const rows = await this.parseBmfStream(stream);
         for (const row of rows) allRows.push(row);
         logInfo(`Parsed ${rows.length} rows from ${region}`);
       } catch (error) {
         const msg = getErrorMessage(error);
-        logError(`Failed to download BMF region ${region}:`, msg);
-        throw new Error(`Failed to download BMF region ${region}: ${msg}`);
+        logError(`Failed to ${action} BMF region ${region}:`, msg);
+        throw new Error(`Failed to ${action} BMF region ${region}: ${msg}`);
       }
     }
 
-    if (allRows.length < MIN_BMF_ROWS) {
+    const minRows = this.config.minBmfRows ?? MIN_BMF_ROWS;
+    if (allRows.length < minRows) {
       throw new Error(
-        `BMF data too small: ${allRows.length} rows (expected >= ${MIN_BMF_ROWS}). Possible corruption.`,
+        `BMF data too small: ${allRows.length} rows (expected >= ${minRows}). Possible corruption.`,
       );
     }
 
-    // Rebuild table from scratch inside a transaction
-    this.db!.sqlExec("DROP TABLE IF EXISTS bmf_orgs");
-    this.db!.sqlExec(`
-      CREATE TABLE bmf_orgs (
-        ein        TEXT PRIMARY KEY,
-        name       TEXT NOT NULL,
-        city       TEXT NOT NULL DEFAULT '',
-        state      TEXT NOT NULL DEFAULT '',
-        ntee_code  TEXT NOT NULL DEFAULT '',
-        subsection INTEGER NOT NULL DEFAULT 0,
-        ruling_date TEXT NOT NULL DEFAULT ''
-      );
-    `);
-
-    const INSERT_SQL = `
-      INSERT OR REPLACE INTO bmf_orgs (ein, name, city, state, ntee_code, subsection, ruling_date)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `;
-
-    const insertBatch = this.db!.transaction((rows: BmfRow[]) => {
-      this.db!.runBulk(
-        INSERT_SQL,
-        rows.map((r) => [
-          r.ein,
-          r.name,
-          r.city,
-          r.state,
-          r.ntee_code,
-          r.subsection,
-          r.ruling_date,
-        ]),
-      );
-    });
-
-    // Insert in batches
-    for (let i = 0; i < allRows.length; i += BATCH_INSERT_SIZE) {
-      const batch = allRows.slice(i, i + BATCH_INSERT_SIZE);
-      insertBatch(batch);
-    }
-
-    // Create indexes after bulk insert (avoids maintaining B-trees during inserts)
-    this.db!.sqlExec(`
-      CREATE INDEX idx_bmf_state ON bmf_orgs(state);
-      CREATE INDEX idx_bmf_ntee ON bmf_orgs(ntee_code);
-      CREATE INDEX idx_bmf_subsection ON bmf_orgs(subsection);
-      CREATE INDEX idx_bmf_state_ntee ON bmf_orgs(state, ntee_code);
-    `);
-
-    this.db!.persist();
-
-    const duration = Date.now() - start;
-    const rowCount = (
-      this.db!.prepare(
-        "SELECT COUNT(*) as count FROM bmf_orgs",
-      ).get() as unknown as {
-        count: number;
-      }
-    ).count;
-
-    // Save manifest
-    const manifest: DiscoveryManifest = {
-      bmf_index: {
-        built_at: new Date().toISOString(),
-        row_count: rowCount,
-        regions_loaded: this.config.bmfRegions,
-        source_urls: regionUrls,
-      },
-    };
-    await this.saveManifest(manifest);
+    const result = await this.applyBmfRows(allRows, sources);
 
     this.lastBuildAt = Date.now();
+    const duration = Date.now() - start;
     logInfo(
-      `Discovery index built: ${rowCount} orgs in ${(duration / 1000).toFixed(1)}s`,
+      `Discovery index built (${result.mode}): ${result.rowCount} orgs in ${(duration / 1000).toFixed(1)}s`,
     );
 
-    return { rowCount, duration };
+    return { ...result, duration };
   }
 
   /** Query the index with filters. Returns paginated results. */
@@ -227,6 +338,46 @@ export class DiscoveryIndex {
       filtersApplied.push(`city=${filters.city}`);
     }
 
+    // ZIP filter (5-digit; ZIP+4 input is truncated)
+    if (filters.zip) {
+      conditions.push("zip = ?");
+      params.push(zip5(filters.zip));
+      filtersApplied.push(`zip=${zip5(filters.zip)}`);
+    }
+
+    // Radius around a ZIP centroid
+    let distances: Map<string, number> | null = null;
+    if (filters.nearZip) {
+      const origin = this.requireZipCentroids().lookup(filters.nearZip);
+      if (!origin) {
+        throw new Error(`ZIP code not found: ${filters.nearZip}`);
+      }
+      const radius = Math.min(
+        Math.max(0, filters.radiusMiles ?? DEFAULT_RADIUS_MILES),
+        MAX_RADIUS_MILES,
+      );
+      distances = this.requireZipCentroids().within(origin, radius);
+      conditions.push(this.zipInClause(distances.size));
+      params.push(...distances.keys());
+      filtersApplied.push(`near_zip=${origin.zip} radius=${radius}mi`);
+    }
+
+    // County, resolved to its ZIPs
+    if (filters.county) {
+      const zips = this.requireZipCentroids().inCounty(
+        filters.county,
+        filters.state,
+      );
+      if (zips.length === 0) {
+        throw new Error(
+          `County not found: ${filters.county}${filters.state ? ` (${filters.state.toUpperCase()})` : ""}`,
+        );
+      }
+      conditions.push(this.zipInClause(zips.length));
+      params.push(...zips);
+      filtersApplied.push(`county=${filters.county}`);
+    }
+
     // NTEE category prefix matching (OR within, AND with other filters)
     if (filters.nteeCategories && filters.nteeCategories.length > 0) {
       const nteeClauses = filters.nteeCategories.map(
@@ -267,6 +418,38 @@ export class DiscoveryIndex {
       filtersApplied.push(`maxRulingYear=${filters.maxRulingYear}`);
     }
 
+    // Financial ranges from the BMF's latest-return amounts
+    const ranges: Array<[number | undefined, string, string]> = [
+      [filters.minRevenue, "revenue_amount >= ?", "minRevenue"],
+      [filters.maxRevenue, "revenue_amount <= ?", "maxRevenue"],
+      [filters.minAssets, "asset_amount >= ?", "minAssets"],
+      [filters.maxAssets, "asset_amount <= ?", "maxAssets"],
+    ];
+    for (const [value, condition, label] of ranges) {
+      if (value === undefined) continue;
+      conditions.push(condition);
+      params.push(value);
+      filtersApplied.push(`${label}=${value}`);
+    }
+
+    // Foundation code (509(a) classification)
+    if (filters.foundationCodes && filters.foundationCodes.length > 0) {
+      conditions.push(
+        `foundation_code IN (${filters.foundationCodes.map(() => "?").join(", ")})`,
+      );
+      params.push(...filters.foundationCodes);
+      filtersApplied.push(
+        `foundation_codes=[${filters.foundationCodes.join(",")}]`,
+      );
+    }
+
+    if (filters.publicCharityOnly) {
+      conditions.push(
+        `foundation_code IN (${PUBLIC_CHARITY_FOUNDATION_CODES.join(", ")})`,
+      );
+      filtersApplied.push("public_charity_only");
+    }
+
     // Name substring search (parameterized, NOT string concat)
     if (filters.nameContains) {
       conditions.push("name LIKE '%' || ? || '%'");
@@ -274,6 +457,22 @@ export class DiscoveryIndex {
       filtersApplied.push(`nameContains=${filters.nameContains}`);
     }
 
+    // Fuzzy name search: every query token (or a near spelling) must appear
+    let searchedTokens: string[] | null = null;
+    if (filters.nameSearch) {
+      searchedTokens = [...new Set(searchTokens(filters.nameSearch))];
+      if (searchedTokens.length > 0) {
+        conditions.push(
+          "ein IN (SELECT printf('%09d', docid) FROM bmf_name_fts WHERE bmf_name_fts MATCH ?)",
+        );
+        params.push(this.nameMatchExpression(searchedTokens));
+      } else {
+        // Nothing left after normalization (e.g. punctuation only)
+        conditions.push("0");
+      }
+      filtersApplied.push(`nameSearch=${filters.nameSearch}`);
+    }
+
     const where =
       conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
 
@@ -292,12 +491,23 @@ export class DiscoveryIndex {
     );
     const offset = Math.max(0, filters.offset ?? 0);
 
-    const rows = this.db!.prepare(
-      `SELECT ein, name, city, state, ntee_code, subsection, ruling_date
-       FROM bmf_orgs ${where}
-       ORDER BY name
-       LIMIT ? OFFSET ?`,
-    ).all(...params, limit, offset) as unknown as DiscoveryCandidate[];
+    const rows = searchedTokens
+      ? this.rankByRelevance(where, params, searchedTokens).slice(
+          offset,
+          offset + limit,
+        )
+      : (this.db!.prepare(
+          `SELECT ${CANDIDATE_COLUMNS}
+           FROM bmf_orgs ${where}
+           ORDER BY name
+           LIMIT ? OFFSET ?`,
+        ).all(...params, limit, offset) as unknown as DiscoveryCandidate[]);
+
+    if (distances) {
+      for (const row of rows) {
+        row.distance_miles = Math.round(distances.get(row.zip)! * 10) / 10;
+      }
+    }
 
     const stats = this.getStats();
 
@@ -318,12 +528,39 @@ export class DiscoveryIndex {
 
     const normalized = ein.replace(/[-\s]/g, "");
     const row = this.db!.prepare(
-      "SELECT ein, name, city, state, ntee_code, subsection, ruling_date FROM bmf_orgs WHERE ein = ?",
+      `SELECT ${CANDIDATE_COLUMNS} FROM bmf_orgs WHERE ein = ?`,
     ).get(normalized) as unknown as DiscoveryCandidate | undefined;
 
     return row ?? null;
   }
 
+  /**
+   * Look up many orgs by EIN in one pass (used to cross-link Schedule I
+   * grant recipients). Returns a map keyed by normalized EIN; unknown EINs
+   * are simply absent.
+   */
+  getByEins(eins: string[]): Map<string, DiscoveryCandidate> {
+    this.ensureOpen();
+
+    const normalized = [...new Set(eins.map((e) => e.replace(/[-\s]/g, "")))];
+    const found = new Map<string, DiscoveryCandidate>();
+
+    for (let i = 0; i < normalized.length; i += EIN_LOOKUP_CHUNK) {
+      const chunk = normalized.slice(i, i + EIN_LOOKUP_CHUNK);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const rows = this.db!.prepare(
+        `SELECT ${CANDIDATE_COLUMNS}
+         FROM bmf_orgs WHERE ein IN (${placeholders})`,
+      ).all(...chunk) as unknown as DiscoveryCandidate[];
+
+      for (const row of rows) {
+        found.set(row.ein, row);
+      }
+    }
+
+    return found;
+  }
+
   /** Get index statistics. */
   getStats(): { totalOrgs: number; lastUpdated: string | null } {
     this.ensureOpen();
@@ -339,6 +576,83 @@ export class DiscoveryIndex {
     };
   }
 
+  /**
+   * Changes recorded by incremental refreshes, newest first. `eins` limits
+   * the log to a set of orgs (e.g. the vetted portfolio).
+   */
+  getChanges(
+    options: {
+      ein?: string;
+      eins?: string[];
+      changeTypes?: BmfChangeType[];
+      since?: string;
+      limit?: number;
+    } = {},
+  ): { changes: BmfChange[]; total: number } {
+    this.ensureOpen();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.ein) {
+      conditions.push("ein = ?");
+      params.push(options.ein.replace(/[-\s]/g, ""));
+    }
+
+    if (options.eins) {
+      conditions.push("ein IN (SELECT value FROM json_each(?))");
+      params.push(
+        JSON.stringify(options.eins.map((e) => e.replace(/[-\s]/g, ""))),
+      );
+    }
+
+    if (options.changeTypes && options.changeTypes.length > 0) {
+      const unknown = options.changeTypes.filter(
+        (t) => !BMF_CHANGE_TYPES.includes(t),
+      );
+      if (unknown.length > 0) {
+        throw new Error(
+          `Unknown change type: ${unknown.join(", ")}. Expected one of: ${BMF_CHANGE_TYPES.join(", ")}`,
+        );
+      }
+      conditions.push(
+        `change_type IN (${options.changeTypes.map(() => "?").join(", ")})`,
+      );
+      params.push(...options.changeTypes);
+    }
+
+    if (options.since) {
+      if (!/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/.test(options.since)) {
+        throw new Error(
+          `Invalid since date format: "${options.since}". Expected ISO 8601 (e.g., "2026-01-01").`,
+        );
+      }
+      conditions.push("detected_at >= ?");
+      params.push(options.since);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = Math.max(
+      1,
+      Math.min(options.limit ?? DEFAULT_CHANGES_LIMIT, MAX_LIMIT),
+    );
+
+    const total = (
+      this.db!.prepare(
+        `SELECT COUNT(*) as total FROM bmf_changes ${where}`,
+      ).get(...params) as unknown as { total: number }
+    ).total;
+    const changes = this.db!.prepare(
+      `SELECT id, ein, change_type, name, old_value, new_value, detected_at
+       FROM bmf_changes ${where}
+       ORDER BY detected_at DESC, id DESC
+       LIMIT ?`,
+    ).all(...params, limit) as unknown as BmfChange[];
+
+    return { changes, total };
+  }
+
   close(): void {
     if (this.db) {
       try {
@@ -364,7 +678,393 @@ export class DiscoveryIndex {
     }
   }
 
-  private parseBmfStream(stream: import("stream").Readable): Promise<BmfRow[]> {
+  /**
+   * Load validated BMF rows. With no comparable previous build (first build,
+   * or the configured regions changed) bmf_orgs is rebuilt from scratch;
+   * otherwise the difference is applied in place and logged to bmf_changes.
+   */
+  private async applyBmfRows(
+    rows: BmfRow[],
+    sourceUrls: string[],
+  ): Promise<Omit<BmfRefreshResult, "duration">> {
+    const previous = this.loadManifestSync().bmf_index;
+    const hasOrgs = !!this.db!.prepare("SELECT 1 FROM bmf_orgs LIMIT 1").get();
+    const incremental =
+      hasOrgs &&
+      !!previous &&
+      [...previous.regions_loaded].sort().join(",") ===
+        [...this.config.bmfRegions].sort().join(",");
+
+    let changes: Record<BmfChangeType, number> | null = null;
+    if (incremental) {
+      changes = this.applyIncremental(rows);
+      if (changes.new_org + changes.dropped + changes.name_change > 0) {
+        this.buildNameIndex();
+      }
+    } else {
+      if (hasOrgs) {
+        logWarn(
+          "No comparable previous BMF build (regions changed or manifest missing); rebuilding without a change log",
+        );
+      }
+      this.rebuildOrgs(rows);
+      this.buildNameIndex();
+    }
+
+    this.db!.persist();
+
+    const rowCount = (
+      this.db!.prepare(
+        "SELECT COUNT(*) as count FROM bmf_orgs",
+      ).get() as unknown as {
+        count: number;
+      }
+    ).count;
+
+    // Save manifest
+    const manifest: DiscoveryManifest = {
+      bmf_index: {
+        built_at: new Date().toISOString(),
+        row_count: rowCount,
+        regions_loaded: this.config.bmfRegions,
+        source_urls: sourceUrls,
+      },
+    };
+    await this.saveManifest(manifest);
+
+    return { rowCount, mode: incremental ? "incremental" : "full", changes };
+  }
+
+  /** Drop and recreate bmf_orgs from the given rows. */
+  private rebuildOrgs(rows: BmfRow[]): void {
+    this.db!.sqlExec("DROP TABLE IF EXISTS bmf_orgs");
+    this.db!.sqlExec(`CREATE TABLE bmf_orgs (${BMF_ORGS_COLUMNS_SQL})`);
+
+    this.insertRows("bmf_orgs", rows);
+
+    // Create indexes after bulk insert (avoids maintaining B-trees during inserts)
+    this.db!.sqlExec(`
+      CREATE INDEX idx_bmf_state ON bmf_orgs(state);
+      CREATE INDEX idx_bmf_ntee ON bmf_orgs(ntee_code);
+      CREATE INDEX idx_bmf_subsection ON bmf_orgs(subsection);
+      CREATE INDEX idx_bmf_state_ntee ON bmf_orgs(state, ntee_code);
+      CREATE INDEX idx_bmf_zip ON bmf_orgs(zip);
+      CREATE INDEX idx_bmf_revenue ON bmf_orgs(revenue_amount);
+      CREATE INDEX idx_bmf_assets ON bmf_orgs(asset_amount);
+    `);
+  }
+
+  /**
+   * Stage the new rows, log what changed against bmf_orgs, then apply only
+   * the difference: delete dropped orgs, upsert new and changed ones.
+   */
+  private applyIncremental(rows: BmfRow[]): Record<BmfChangeType, number> {
+    const db = this.db!;
+    db.sqlExec("DROP TABLE IF EXISTS bmf_staging");
+    db.sqlExec(`CREATE TEMP TABLE bmf_staging (${BMF_ORGS_COLUMNS_SQL})`);
+
+    try {
+      this.insertRows("bmf_staging", rows);
+
+      const total = (
+        db.prepare("SELECT COUNT(*) as n FROM bmf_orgs").get() as unknown as {
+          n: number;
+        }
+      ).n;
+      const dropping = (
+        db
+          .prepare(
+            `SELECT COUNT(*) as n FROM bmf_orgs o
+             WHERE NOT EXISTS (SELECT 1 FROM bmf_staging s WHERE s.ein = o.ein)`,
+          )
+          .get() as unknown as { n: number }
+      ).n;
+      if (dropping > total * MAX_DROPPED_FRACTION) {
+        throw new Error(
+          `BMF refresh would drop ${dropping} of ${total} orgs (limit ${MAX_DROPPED_FRACTION * 100}%). Possible partial download; index left unchanged.`,
+        );
+      }
+
+      // Rows whose every column already matches are left untouched
+      const unchanged = CANDIDATE_COLUMN_LIST.map((c) =>
+        c === "ein" ? "o.ein = s.ein" : `o.${c} IS s.${c}`,
+      ).join(" AND ");
+      const detectedAt = new Date().toISOString();
+
+      const apply = db.transaction((at: string) => {
+        for (const sql of LOG_CHANGES_SQL) {
+          db.prepare(sql).run(at);
+        }
+        db.sqlExec(`
+          DELETE FROM bmf_orgs
+          WHERE NOT EXISTS (SELECT 1 FROM bmf_staging s WHERE s.ein = bmf_orgs.ein)
+        `);
+        db.sqlExec(`
+          INSERT OR REPLACE INTO bmf_orgs (${CANDIDATE_COLUMNS})
+          SELECT ${CANDIDATE_COLUMNS} FROM bmf_staging s
+          WHERE NOT EXISTS (SELECT 1 FROM bmf_orgs o WHERE ${unchanged})
+        `);
+      });
+      apply(detectedAt);
+
+      const counts = Object.fromEntries(
+        BMF_CHANGE_TYPES.map((t) => [t, 0]),
+      ) as Record<BmfChangeType, number>;
+      const rowsByType = db
+        .prepare(
+          `SELECT change_type, COUNT(*) as n FROM bmf_changes
+           WHERE detected_at = ? GROUP BY change_type`,
+        )
+        .all(detectedAt) as unknown as Array<{
+        change_type: BmfChangeType;
+        n: number;
+      }>;
+      for (const r of rowsByType) counts[r.change_type] = r.n;
+
+      logInfo(
+        `BMF changes: ${BMF_CHANGE_TYPES.map((t) => `${counts[t]} ${t}`).join(", ")}`,
+      );
+      return counts;
+    } finally {
+      db.sqlExec("DROP TABLE IF EXISTS bmf_staging");
+    }
+  }
+
+  private insertRows(table: "bmf_orgs" | "bmf_staging", rows: BmfRow[]): void {
+    const insertSql = `
+      INSERT OR REPLACE INTO ${table} (${CANDIDATE_COLUMNS})
+      VALUES (${CANDIDATE_COLUMN_LIST.map(() => "?").join(", ")})
+    `;
+
+    const insertBatch = this.db!.transaction((batch: BmfRow[]) => {
+      this.db!.runBulk(
+        insertSql,
+        batch.map((r) => [
+          r.ein,
+          r.name,
+          r.street,
+          r.city,
+          r.state,
+          r.zip,
+          r.ntee_code,
+          r.subsection,
+          r.ruling_date,
+          r.asset_amount,
+          r.income_amount,
+          r.revenue_amount,
+          r.foundation_code,
+          r.deductibility,
+          r.affiliation,
+          r.organization_type,
+          r.exempt_status,
+          r.tax_period,
+        ]),
+      );
+    });
+
+    // Insert in batches
+    for (let i = 0; i < rows.length; i += BATCH_INSERT_SIZE) {
+      insertBatch(rows.slice(i, i + BATCH_INSERT_SIZE));
+    }
+  }
+
+  private addColumnIfMissing(column: string, definition: string): void {
+    const exists = this.db!.prepare(
+      "SELECT 1 FROM pragma_table_info('bmf_orgs') WHERE name = ?",
+    ).get(column);
+    if (!exists) {
+      this.db!.sqlExec(
+        `ALTER TABLE bmf_orgs ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+
+  private requireZipCentroids(): ZipCentroidIndex {
+    if (!this.zipCentroids) {
+      throw new Error(
+        "ZIP centroid table not configured; radius and county filters are unavailable.",
+      );
+    }
+    return this.zipCentroids;
+  }
+
+  /** `zip IN (?, ...)`; an empty set matches nothing rather than erroring. */
+  private zipInClause(count: number): string {
+    return count === 0
+      ? "0"
+      : `zip IN (${Array.from({ length: count }, () => "?").join(", ")})`;
+  }
+
+  /**
+   * Rebuild the full-text name index from bmf_orgs, then the trigram table
+   * over its vocabulary. Called after every BMF load.
+   */
+  private buildNameIndex(): void {
+    const db = this.db!;
+    db.sqlExec(`
+      DROP TABLE IF EXISTS bmf_name_terms;
+      DROP TABLE IF EXISTS bmf_name_fts;
+      DROP TABLE IF EXISTS bmf_name_trigrams;
+    `);
+    db.sqlExec(NAME_INDEX_SCHEMA);
+    db.sqlExec("DROP INDEX idx_bmf_name_trigram");
+
+    const selectPage = db.prepare(
+      "SELECT ein, name FROM bmf_orgs WHERE ein > ? ORDER BY ein LIMIT ?",
+    );
+    const insertNames = db.transaction((rows: Array<[number, string]>) => {
+      db.runBulk("INSERT INTO bmf_name_fts (docid, name) VALUES (?, ?)", rows);
+    });
+
+    let after = "";
+    for (;;) {
+      const page = selectPage.all(after, NAME_INDEX_CHUNK) as unknown as Array<{
+        ein: string;
+        name: string;
+      }>;
+      if (page.length === 0) break;
+      insertNames(
+        page.map((r): [number, string] => [Number(r.ein), searchKey(r.name)]),
+      );
+      after = page[page.length - 1].ein;
+    }
+
+    const terms = (
+      db
+        .prepare("SELECT term FROM bmf_name_terms WHERE col = '*'")
+        .all() as unknown as Array<{ term: string }>
+    ).map((r) => r.term);
+
+    const insertTrigrams = db.transaction((rows: Array<[string, string]>) => {
+      db.runBulk(
+        "INSERT INTO bmf_name_trigrams (trigram, term) VALUES (?, ?)",
+        rows,
+      );
+    });
+    for (let i = 0; i < terms.length; i += BATCH_INSERT_SIZE) {
+      insertTrigrams(
+        terms
+          .slice(i, i + BATCH_INSERT_SIZE)
+          .flatMap((term) =>
+            trigrams(term).map((g): [string, string] => [g, term]),
+          ),
+      );
+    }
+    db.sqlExec(
+      "CREATE INDEX idx_bmf_name_trigram ON bmf_name_trigrams(trigram)",
+    );
+
+    logInfo(`Name search index built: ${terms.length} distinct terms`);
+  }
+
+  /**
+   * FTS MATCH expression requiring every token, each as an OR of itself and
+   * its closest indexed spellings: ("vincent" OR "vincnet") "de" ("paul").
+   */
+  private nameMatchExpression(tokens: string[]): string {
+    return tokens
+      .map((token) => {
+        const variants = [token, ...this.nearTerms(token)];
+        const quoted = variants.map((v) => `"${v}"`);
+        return quoted.length === 1 ? quoted[0] : `(${quoted.join(" OR ")})`;
+      })
+      .join(" ");
+  }
+
+  /** Indexed terms sharing a trigram with the token and close by Jaro-Winkler. */
+  private nearTerms(token: string): string[] {
+    if (!isFuzzyToken(token)) return [];
+
+    const grams = trigrams(token);
+    const placeholders = grams.map(() => "?").join(", ");
+    const candidates = this.db!.prepare(
+      `SELECT DISTINCT term FROM bmf_name_trigrams WHERE trigram IN (${placeholders})`,
+    ).all(...grams) as unknown as Array<{ term: string }>;
+
+    return candidates
+      .filter((c) => c.term !== token)
+      .map((c) => ({ term: c.term, score: jaroWinkler(token, c.term) }))
+      .filter((c) => c.score >= FUZZY_TERM_MIN)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_TERM_VARIANTS - 1)
+      .map((c) => c.term);
+  }
+
+  /**
+   * Score matching orgs against the query, best first. Very common words
+   * can match hundreds of thousands of orgs, so only the NAME_SEARCH_POOL
+   * shortest names -- the ones that can score highest -- are ranked.
+   */
+  private rankByRelevance(
+    where: string,
+    params: unknown[],
+    tokens: string[],
+  ): DiscoveryCandidate[] {
+    const pool = this.db!.prepare(
+      `SELECT ${CANDIDATE_COLUMNS}
+       FROM bmf_orgs ${where}
+       ORDER BY LENGTH(name), name
+       LIMIT ?`,
+    ).all(...params, NAME_SEARCH_POOL) as unknown as DiscoveryCandidate[];
+
+    return pool
+      .map((c) => ({ ...c, relevance: nameRelevance(tokens, c.name) }))
+      .sort(
+        (a, b) => b.relevance - a.relevance || a.name.localeCompare(b.name),
+      );
+  }
+
+  /**
+   * Open a hand-transferred BMF region file: {region}.csv, or {region}.zip
+   * holding the CSV as its first entry. Capped at MAX_DOWNLOAD_BYTES like a
+   * download, checking a ZIP's extracted size as well as its own.
+   */
+  private async openLocalRegion(
+    sourceDir: string,
+    region: string,
+  ): Promise<{ file: string; stream: Readable }> {
+    const csvPath = path.join(sourceDir, `${region}.csv`);
+    const zipPath = path.join(sourceDir, `${region}.zip`);
+    const file = fs.existsSync(csvPath)
+      ? csvPath
+      : fs.existsSync(zipPath)
+        ? zipPath
+        : null;
+    if (!file) {
+      throw new Error(
+        `file not found in ${sourceDir} (expected ${region}.csv or ${region}.zip)`,
+      );
+    }
+
+    const { size } = await fsp.stat(file);
+    if (size > MAX_DOWNLOAD_BYTES) {
+      throw new Error(
+        `${path.basename(file)} too large: ${size} bytes (limit: ${MAX_DOWNLOAD_BYTES})`,
+      );
+    }
+    if (file === csvPath) {
+      return { file, stream: fs.createReadStream(file) };
+    }
+
+    const directory = await unzipper.Open.file(file);
+    const entry = directory.files.find((f) => f.type === "File");
+    if (!entry) throw new Error(`${region}.zip is empty`);
+    if (entry.uncompressedSize > MAX_DOWNLOAD_BYTES) {
+      throw new Error(
+        `${region}.zip entry too large: ${entry.uncompressedSize} bytes (limit: ${MAX_DOWNLOAD_BYTES})`,
+      );
+    }
+    const content = await entry.buffer();
+    // The header size can be spoofed; check what was actually extracted
+    if (content.length > MAX_DOWNLOAD_BYTES) {
+      throw new Error(
+        `${region}.zip extracted content too large: ${content.length} bytes (limit: ${MAX_DOWNLOAD_BYTES})`,
+      );
+    }
+    return { file, stream: Readable.from([content]) };
+  }
+
+  private parseBmfStream(stream: Readable): Promise<BmfRow[]> {
     return new Promise((resolve, reject) => {
       const rows: BmfRow[] = [];
       const parser = parse({
@@ -383,11 +1083,22 @@ export class DiscoveryIndex {
           rows.push({
             ein,
             name: record.NAME || "",
+            street: record.STREET || "",
             city: record.CITY || "",
             state: record.STATE || "",
+            zip: zip5(record.ZIP || ""),
             ntee_code: record.NTEE_CD || "",
             subsection: parseInt(record.SUBSECTION || "0", 10) || 0,
             ruling_date: record.RULING || "",
+            asset_amount: parseAmount(record.ASSET_AMT),
+            income_amount: parseAmount(record.INCOME_AMT),
+            revenue_amount: parseAmount(record.REVENUE_AMT),
+            foundation_code: parseInt(record.FOUNDATION || "0", 10) || 0,
+            deductibility: parseInt(record.DEDUCTIBILITY || "0", 10) || 0,
+            affiliation: parseInt(record.AFFILIATION || "0", 10) || 0,
+            organization_type: parseInt(record.ORGANIZATION || "0", 10) || 0,
+            exempt_status: parseInt(record.STATUS || "0", 10) || 0,
+            tax_period: record.TAX_PERIOD || "",
           });
         }
       });
@@ -413,3 +1124,10 @@ export class DiscoveryIndex {
     await fsp.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
   }
 }
+
+/** BMF amount column: blank means the org reported none (small filers). */
+function parseAmount(value: string | undefined): number | null {
+  if (!value || value.trim() === "") return null;
+  const n = parseInt(value, 10);
+  return isNaN(n) ? null : n;
+}
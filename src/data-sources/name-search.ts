@@ -0,0 +1,89 @@
+/**
+ * Name search helpers for the BMF discovery index.
+ *
+ * Unlike OFAC matching, name search is a recall problem: "St Vincent de Paul"
+ * should find "SAINT VINCENT DE PAUL SOCIETY" and "Habitat for Humanaty"
+ * should still find Habitat. Names are reduced to search tokens
+ * (normalizeName + a few canonical abbreviations), typo'd tokens are expanded
+ * through a trigram table over the indexed vocabulary, and the candidates
+ * are ranked with Jaro-Winkler.
+ */
+
+import { normalizeName } from "./name-normalizer.js";
+import { jaroWinkler } from "./jaro-winkler.js";
+
+// Spelled-out and abbreviated forms the BMF uses interchangeably. Both the
+// indexed names and the query map to the short form.
+const CANONICAL_TOKENS: Record<string, string> = {
+  saint: "st",
+  sainte: "ste",
+  mount: "mt",
+  fort: "ft",
+  centre: "center",
+  ctr: "center",
+  intl: "international",
+  natl: "national",
+  assoc: "association",
+  assn: "association",
+  fdn: "foundation",
+  fndn: "foundation",
+};
+
+// Shorter tokens ("st", "of", "de") only match exactly -- a one-letter typo
+// in a two-letter word isn't distinguishable from a different word.
+const MIN_FUZZY_TOKEN_LENGTH = 4;
+
+/** Split a name into canonical search tokens. */
+export function searchTokens(name: string): string[] {
+  const normalized = normalizeName(name);
+  if (!normalized) return [];
+  return normalized.split(" ").map((token) => CANONICAL_TOKENS[token] ?? token);
+}
+
+/** The name as stored in the full-text index: its search tokens, space-joined. */
+export function searchKey(name: string): string {
+  return searchTokens(name).join(" ");
+}
+
+/**
+ * Padded character trigrams of a token ("paul" → "  p", " pa", "pau",
+ * "aul", "ul "). Padding gives short words enough trigrams to match on.
+ */
+export function trigrams(token: string): string[] {
+  const padded = `  ${token} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.substring(i, i + 3));
+  }
+  return [...grams];
+}
+
+/** Whether a query token is long enough to be expanded to near spellings. */
+export function isFuzzyToken(token: string): boolean {
+  return token.length >= MIN_FUZZY_TOKEN_LENGTH;
+}
+
+/**
+ * Relevance of a name to a query, 0.0-1.0. Mostly token coverage (each query
+ * token's best Jaro-Winkler match among the name's tokens), blended with a
+ * whole-string comparison so closer overall names ("Red Cross" vs "American
+ * Red Cross Chapter") rank first.
+ */
+export function nameRelevance(queryTokens: string[], name: string): number {
+  const nameTokens = searchTokens(name);
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+
+  let coverage = 0;
+  for (const q of queryTokens) {
+    let best = 0;
+    for (const n of nameTokens) {
+      best = Math.max(best, jaroWinkler(q, n));
+      if (best === 1) break;
+    }
+    coverage += best;
+  }
+  coverage /= queryTokens.length;
+
+  const whole = jaroWinkler(queryTokens.join(" "), nameTokens.join(" "));
+  return Math.round((0.7 * coverage + 0.3 * whole) * 1000) / 1000;
+}
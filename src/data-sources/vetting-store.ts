@@ -1,5 +1,8 @@
 import path from "path";
-import { ScreeningResult } from "../domain/nonprofit/types.js";
+import {
+  ScreeningInputs,
+  ScreeningResult,
+} from "../domain/nonprofit/types.js";
 import { logInfo, logWarn } from "../core/logging.js";
 import { SqliteDatabase } from "./sqlite-adapter.js";
 
@@ -15,9 +18,12 @@ export interface VettedRecord {
   result_json: string;
   vetted_at: string;
   vetted_by: string;
+  profile: string; // screening profile that produced the result
+  inputs_json: string | null; // ScreeningInputs; null for rows saved before inputs were kept
 }
 
 export interface ListVettedOptions {
+  ein?: string;
   recommendation?: "PASS" | "REVIEW" | "REJECT";
   since?: string;
   limit?: number;
@@ -34,9 +40,13 @@ const DB_FILENAME = "vetting.db";
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
 
+/** Called after a new screening row has been written and persisted. */
+export type ResultSavedListener = (record: VettedRecord) => void;
+
 export class VettingStore {
   private db: SqliteDatabase | null = null;
   private dataDir: string;
+  private listeners = new Set<ResultSavedListener>();
 
   constructor(dataDir: string) {
     this.dataDir = dataDir;
@@ -61,7 +71,9 @@ export class VettingStore {
         red_flag_count INTEGER NOT NULL DEFAULT 0,
         result_json    TEXT NOT NULL,
         vetted_at      TEXT NOT NULL DEFAULT (datetime('now')),
-        vetted_by      TEXT NOT NULL DEFAULT 'kofi'
+        vetted_by      TEXT NOT NULL DEFAULT 'kofi',
+        profile        TEXT NOT NULL DEFAULT 'default',
+        inputs_json    TEXT
       );
 
       CREATE INDEX IF NOT EXISTS idx_vetting_ein ON vetting_results(ein);
@@ -69,19 +81,27 @@ export class VettingStore {
       CREATE INDEX IF NOT EXISTS idx_vetting_vetted_at ON vetting_results(vetted_at);
     `);
 
+    // Columns added after the table was first shipped
+    this.addColumnIfMissing("profile", "TEXT NOT NULL DEFAULT 'default'");
+    this.addColumnIfMissing("inputs_json", "TEXT");
+
     this.db.persist();
     logInfo("VettingStore initialized");
   }
 
-  saveResult(result: ScreeningResult, vettedBy: string = "kofi"): VettedRecord {
+  saveResult(
+    result: ScreeningResult,
+    inputs?: ScreeningInputs,
+    vettedBy: string = "kofi",
+  ): VettedRecord {
     this.ensureOpen();
 
     const ein = result.ein.replace(/[-\s]/g, "");
     const resultJson = JSON.stringify(result);
 
     const stmt = this.db!.prepare(`
-      INSERT INTO vetting_results (ein, name, recommendation, score, passed, gate_blocked, red_flag_count, result_json, vetted_by)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO vetting_results (ein, name, recommendation, score, passed, gate_blocked, red_flag_count, result_json, vetted_by, profile, inputs_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const info = stmt.run(
@@ -94,6 +114,8 @@ export class VettingStore {
       result.red_flags.length,
       resultJson,
       vettedBy,
+      result.profile ?? "default",
+      inputs ? JSON.stringify(inputs) : null,
     );
 
     const row = this.db!.prepare(
@@ -102,26 +124,89 @@ export class VettingStore {
 
     this.db!.persist();
 
-    return this.mapRow(row);
+    const record = this.mapRow(row);
+    this.notifySaved(record);
+    return record;
+  }
+
+  /**
+   * Register a listener for newly saved results (e.g. MCP resource
+   * subscriptions). Returns a function that removes the listener.
+   */
+  onResultSaved(listener: ResultSavedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
-  getLatestByEin(ein: string): VettedRecord | null {
+  /** Latest screening of an EIN, optionally restricted to one screening profile. */
+  getLatestByEin(ein: string, profile?: string): VettedRecord | null {
     this.ensureOpen();
 
     const normalized = ein.replace(/[-\s]/g, "");
-    const row = this.db!.prepare(
-      "SELECT * FROM vetting_results WHERE ein = ? ORDER BY vetted_at DESC, id DESC LIMIT 1",
-    ).get(normalized) as unknown as RawVettedRow | undefined;
+    const row = (
+      profile !== undefined
+        ? this.db!.prepare(
+            "SELECT * FROM vetting_results WHERE ein = ? AND profile = ? ORDER BY vetted_at DESC, id DESC LIMIT 1",
+          ).get(normalized, profile)
+        : this.db!.prepare(
+            "SELECT * FROM vetting_results WHERE ein = ? ORDER BY vetted_at DESC, id DESC LIMIT 1",
+          ).get(normalized)
+    ) as unknown as RawVettedRow | undefined;
 
     return row ? this.mapRow(row) : null;
   }
 
+  /** Every screening recorded for an EIN, most recent first. */
+  getHistoryByEin(ein: string, limit?: number): VettedRecord[] {
+    this.ensureOpen();
+
+    const normalized = ein.replace(/[-\s]/g, "");
+    const sql =
+      "SELECT * FROM vetting_results WHERE ein = ? ORDER BY vetted_at DESC, id DESC";
+    const rows = (
+      limit !== undefined
+        ? this.db!.prepare(`${sql} LIMIT ?`).all(normalized, Math.max(1, limit))
+        : this.db!.prepare(sql).all(normalized)
+    ) as unknown as RawVettedRow[];
+
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * The latest screening of every EIN ever vetted (for portfolio-wide sweeps),
+   * optionally restricted to screenings made under one profile.
+   */
+  listLatestPerEin(profile?: string): VettedRecord[] {
+    this.ensureOpen();
+
+    const profileFilter = profile !== undefined ? "AND w.profile = ?" : "";
+    const rows = this.db!.prepare(`
+      SELECT * FROM vetting_results v
+      WHERE v.id = (
+        SELECT w.id FROM vetting_results w
+        WHERE w.ein = v.ein ${profileFilter}
+        ORDER BY w.vetted_at DESC, w.id DESC
+        LIMIT 1
+      )
+      ORDER BY v.ein
+    `).all(...(profile !== undefined ? [profile] : [])) as unknown as RawVettedRow[];
+
+    return rows.map((row) => this.mapRow(row));
+  }
+
   listVetted(options?: ListVettedOptions): VettedRecord[] {
     this.ensureOpen();
 
     const conditions: string[] = [];
     const params: unknown[] = [];
 
+    if (options?.ein) {
+      conditions.push("ein = ?");
+      params.push(options.ein.replace(/[-\s]/g, ""));
+    }
+
     if (options?.recommendation) {
       conditions.push("recommendation = ?");
       params.push(options.recommendation);
@@ -200,6 +285,30 @@ export class VettingStore {
     return this.db!;
   }
 
+  private notifySaved(record: VettedRecord): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(record);
+      } catch (err) {
+        // A misbehaving listener must not fail the screening that saved the row
+        logWarn(
+          `VettingStore listener failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+  }
+
+  private addColumnIfMissing(column: string, definition: string): void {
+    const exists = this.db!.prepare(
+      "SELECT 1 FROM pragma_table_info('vetting_results') WHERE name = ?",
+    ).get(column);
+    if (!exists) {
+      this.db!.sqlExec(
+        `ALTER TABLE vetting_results ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+
   private ensureOpen(): void {
     if (!this.db) {
       throw new Error("VettingStore not initialized. Call initialize() first.");
@@ -219,6 +328,8 @@ export class VettingStore {
       result_json: row.result_json,
       vetted_at: row.vetted_at,
       vetted_by: row.vetted_by,
+      profile: row.profile,
+      inputs_json: row.inputs_json,
     };
   }
 }
@@ -236,4 +347,6 @@ interface RawVettedRow {
   result_json: string;
   vetted_at: string;
   vetted_by: string;
+  profile: string;
+  inputs_json: string | null;
 }
@@ -0,0 +1,213 @@
+import { logInfo } from "../core/logging.js";
+import { SqliteDatabase } from "./sqlite-adapter.js";
+
+export interface WatchlistEntry {
+  ein: string;
+  name: string;
+  note: string | null;
+  added_at: string;
+  last_rescreened_at: string | null;
+}
+
+export type AlertType = "recommendation_change" | "new_high_flag" | "new_revocation";
+
+export interface AlertRecord {
+  id: number;
+  ein: string;
+  name: string;
+  alert_type: AlertType;
+  detail: string;
+  from_vetting_id: number | null;
+  to_vetting_id: number;
+  created_at: string;
+}
+
+export interface NewAlert {
+  ein: string;
+  name: string;
+  alert_type: AlertType;
+  detail: string;
+  from_vetting_id: number | null;
+  to_vetting_id: number;
+}
+
+export interface ListAlertsOptions {
+  ein?: string;
+  alert_type?: AlertType;
+  since?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * WatchlistStore persists monitored EINs and the change alerts raised when a
+ * re-screen moves them. Shares the same SQLite database as VettingStore
+ * (vetting.db).
+ */
+export class WatchlistStore {
+  private db: SqliteDatabase | null = null;
+
+  /**
+   * Initialize with an existing open SqliteDatabase instance.
+   * This shares the db with VettingStore to avoid multiple WASM instances.
+   */
+  initialize(db: SqliteDatabase): void {
+    this.db = db;
+
+    this.db.sqlExec(`
+      CREATE TABLE IF NOT EXISTS watchlist (
+        ein                TEXT PRIMARY KEY,
+        name               TEXT NOT NULL,
+        note               TEXT,
+        added_at           TEXT NOT NULL DEFAULT (datetime('now')),
+        last_rescreened_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS alerts (
+        id              INTEGER PRIMARY KEY AUTOINCREMENT,
+        ein             TEXT NOT NULL,
+        name            TEXT NOT NULL,
+        alert_type      TEXT NOT NULL CHECK(alert_type IN ('recommendation_change','new_high_flag','new_revocation')),
+        detail          TEXT NOT NULL,
+        from_vetting_id INTEGER,
+        to_vetting_id   INTEGER NOT NULL,
+        created_at      TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_alerts_ein ON alerts(ein);
+      CREATE INDEX IF NOT EXISTS idx_alerts_created_at ON alerts(created_at);
+    `);
+
+    this.db.persist();
+    logInfo("WatchlistStore initialized");
+  }
+
+  /** Add an EIN (or update its name/note if already watched). */
+  addWatch(ein: string, name: string, note?: string): WatchlistEntry {
+    this.ensureOpen();
+
+    const normalized = ein.replace(/[-\s]/g, "");
+    this.db!.prepare(`
+      INSERT INTO watchlist (ein, name, note) VALUES (?, ?, ?)
+      ON CONFLICT(ein) DO UPDATE SET name = excluded.name, note = excluded.note
+    `).run(normalized, name, note ?? null);
+
+    this.db!.persist();
+    return this.getWatch(normalized)!;
+  }
+
+  /** Returns false when the EIN wasn't on the watchlist. */
+  removeWatch(ein: string): boolean {
+    this.ensureOpen();
+
+    const normalized = ein.replace(/[-\s]/g, "");
+    const existed = this.getWatch(normalized) !== null;
+    if (existed) {
+      this.db!.prepare("DELETE FROM watchlist WHERE ein = ?").run(normalized);
+      this.db!.persist();
+    }
+    return existed;
+  }
+
+  getWatch(ein: string): WatchlistEntry | null {
+    this.ensureOpen();
+
+    const normalized = ein.replace(/[-\s]/g, "");
+    const row = this.db!.prepare(
+      "SELECT * FROM watchlist WHERE ein = ?",
+    ).get(normalized) as unknown as WatchlistEntry | undefined;
+
+    return row ?? null;
+  }
+
+  listWatched(): WatchlistEntry[] {
+    this.ensureOpen();
+
+    return this.db!.prepare(
+      "SELECT * FROM watchlist ORDER BY added_at ASC, rowid ASC",
+    ).all() as unknown as WatchlistEntry[];
+  }
+
+  markRescreened(ein: string): void {
+    this.ensureOpen();
+
+    this.db!.prepare(
+      "UPDATE watchlist SET last_rescreened_at = datetime('now') WHERE ein = ?",
+    ).run(ein.replace(/[-\s]/g, ""));
+    this.db!.persist();
+  }
+
+  recordAlert(alert: NewAlert): AlertRecord {
+    this.ensureOpen();
+
+    const info = this.db!.prepare(`
+      INSERT INTO alerts (ein, name, alert_type, detail, from_vetting_id, to_vetting_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      alert.ein.replace(/[-\s]/g, ""),
+      alert.name,
+      alert.alert_type,
+      alert.detail,
+      alert.from_vetting_id,
+      alert.to_vetting_id,
+    );
+
+    const row = this.db!.prepare("SELECT * FROM alerts WHERE id = ?").get(
+      info.lastInsertRowid,
+    ) as unknown as AlertRecord;
+
+    this.db!.persist();
+    return row;
+  }
+
+  listAlerts(options?: ListAlertsOptions): AlertRecord[] {
+    this.ensureOpen();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options?.ein) {
+      conditions.push("ein = ?");
+      params.push(options.ein.replace(/[-\s]/g, ""));
+    }
+
+    if (options?.alert_type) {
+      conditions.push("alert_type = ?");
+      params.push(options.alert_type);
+    }
+
+    if (options?.since) {
+      if (!/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/.test(options.since)) {
+        throw new Error(
+          `Invalid since date format: "${options.since}". Expected ISO 8601 (e.g., "2026-01-01").`,
+        );
+      }
+      conditions.push("created_at >= ?");
+      params.push(options.since);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = Math.max(
+      1,
+      Math.min(options?.limit ?? DEFAULT_LIMIT, MAX_LIMIT),
+    );
+
+    return this.db!.prepare(
+      `SELECT * FROM alerts ${where} ORDER BY created_at DESC, id DESC LIMIT ?`,
+    ).all(...params, limit) as unknown as AlertRecord[];
+  }
+
+  close(): void {
+    // Don't close the db here — VettingStore owns it.
+    this.db = null;
+  }
+
+  private ensureOpen(): void {
+    if (!this.db) {
+      throw new Error("WatchlistStore not initialized. Call initialize() first.");
+    }
+  }
+}
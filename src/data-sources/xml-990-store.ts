@@ -52,6 +52,9 @@ export class Xml990Store {
       CREATE INDEX IF NOT EXISTS idx_xml_extract_ein_year ON xml_990_extracts(ein, tax_year);
     `);
 
+    // Extracts cached before versioning count as version 1
+    this.addColumnIfMissing("extract_version", "INTEGER NOT NULL DEFAULT 1");
+
     this.db.persist();
     logInfo("Xml990Store initialized");
   }
@@ -77,16 +80,20 @@ export class Xml990Store {
     );
   }
 
+  /** Store an extract, replacing any earlier parse of the same filing. */
   saveExtract(data: Xml990ExtractedData): void {
     this.ensureOpen();
 
     const ein = data.ein.replace(/[-\s]/g, "");
     const extractJson = JSON.stringify(data);
 
+    this.db!.prepare("DELETE FROM xml_990_extracts WHERE object_id = ?").run(
+      data.objectId,
+    );
     this.db!.prepare(`
-      INSERT INTO xml_990_extracts (ein, tax_year, object_id, extract_json)
-      VALUES (?, ?, ?, ?)
-    `).run(ein, data.taxYear, data.objectId, extractJson);
+      INSERT INTO xml_990_extracts (ein, tax_year, object_id, extract_json, extract_version)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(ein, data.taxYear, data.objectId, extractJson, data.extractVersion ?? 1);
 
     // Update parsed_at on metadata
     this.db!.prepare(`
@@ -124,13 +131,39 @@ export class Xml990Store {
     return rows.map((row) => JSON.parse(row.extract_json) as Xml990ExtractedData);
   }
 
-  hasExtract(ein: string, objectId: string): boolean {
+  /**
+   * Get the extract for one tax year. When several filings exist for the
+   * year (e.g. an amended return), the most recently stored one wins.
+   */
+  getExtractByYear(ein: string, taxYear: number): Xml990ExtractedData | null {
     this.ensureOpen();
 
     const normalized = ein.replace(/[-\s]/g, "");
     const row = this.db!.prepare(
-      "SELECT 1 FROM xml_990_extracts WHERE ein = ? AND object_id = ? LIMIT 1",
-    ).get(normalized, objectId) as Record<string, unknown> | undefined;
+      "SELECT extract_json FROM xml_990_extracts WHERE ein = ? AND tax_year = ? ORDER BY id DESC LIMIT 1",
+    ).get(normalized, taxYear) as { extract_json: string } | undefined;
+
+    if (!row) return null;
+
+    try {
+      return JSON.parse(row.extract_json) as Xml990ExtractedData;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Corrupt extract JSON for EIN ${ein}: ${msg}`);
+    }
+  }
+
+  /**
+   * Whether the filing has been extracted, optionally by a parser at least
+   * as new as minVersion (older extracts lack fields and should be re-parsed).
+   */
+  hasExtract(ein: string, objectId: string, minVersion = 1): boolean {
+    this.ensureOpen();
+
+    const normalized = ein.replace(/[-\s]/g, "");
+    const row = this.db!.prepare(
+      "SELECT 1 FROM xml_990_extracts WHERE ein = ? AND object_id = ? AND extract_version >= ? LIMIT 1",
+    ).get(normalized, objectId, minVersion) as Record<string, unknown> | undefined;
 
     return row !== undefined;
   }
@@ -154,6 +187,17 @@ export class Xml990Store {
     }
   }
 
+  private addColumnIfMissing(column: string, definition: string): void {
+    const exists = this.db!.prepare(
+      "SELECT 1 FROM pragma_table_info('xml_990_extracts') WHERE name = ?",
+    ).get(column);
+    if (!exists) {
+      this.db!.sqlExec(
+        `ALTER TABLE xml_990_extracts ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+
   private ensureOpen(): void {
     if (!this.db) {
       throw new Error("Xml990Store not initialized. Call initialize() first.");
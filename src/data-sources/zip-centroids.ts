@@ -0,0 +1,130 @@
+import fs from "fs";
+import { parse } from "csv-parse/sync";
+import { logInfo } from "../core/logging.js";
+
+/**
+ * ZIP code centroids for place-based discovery.
+ *
+ * Backed by a bundled CSV (zip,lat,lon,state,county_fips,county) generated
+ * by scripts/build-zip-centroids.ts, either from the Census ZCTA files (each
+ * ZIP gets the county holding most of its land area) or from the GeoNames
+ * postal code dump, which the bundled table uses. ZIPs missing from the
+ * table (military APO/FPO codes, brand-new ZIPs) never match a radius or
+ * county filter.
+ */
+
+export interface ZipCentroid {
+  zip: string;
+  lat: number;
+  lon: number;
+  state: string;
+  county_fips: string;
+  county: string; // e.g. "Alameda" (GeoNames) or "Alameda County" (Census)
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+export class ZipCentroidIndex {
+  private csvPath: string;
+  private byZip: Map<string, ZipCentroid> | null = null;
+
+  constructor(csvPath: string) {
+    this.csvPath = csvPath;
+  }
+
+  /** Centroid for a ZIP (ZIP+4 accepted), or null if unknown. */
+  lookup(zip: string): ZipCentroid | null {
+    return this.load().get(zip5(zip)) ?? null;
+  }
+
+  /** ZIPs whose centroid lies within radiusMiles of the origin, with distances. */
+  within(origin: ZipCentroid, radiusMiles: number): Map<string, number> {
+    const found = new Map<string, number>();
+    for (const centroid of this.load().values()) {
+      const miles = haversineMiles(origin, centroid);
+      if (miles <= radiusMiles) found.set(centroid.zip, miles);
+    }
+    return found;
+  }
+
+  /**
+   * ZIPs in a county, given as a 5-digit FIPS code or a name ("Alameda",
+   * "Alameda County"). Names repeat across states, so pass state to pick one.
+   */
+  inCounty(county: string, state?: string): string[] {
+    const wanted = county
+      .trim()
+      .toLowerCase()
+      .replace(/\s+county$/, "");
+    const isFips = /^\d{5}$/.test(wanted);
+    const stateCode = state?.toUpperCase();
+
+    const zips: string[] = [];
+    for (const c of this.load().values()) {
+      if (stateCode && c.state !== stateCode) continue;
+      const matches = isFips
+        ? c.county_fips === wanted
+        : c.county.toLowerCase().replace(/\s+county$/, "") === wanted;
+      if (matches) zips.push(c.zip);
+    }
+    return zips;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private load(): Map<string, ZipCentroid> {
+    if (this.byZip) return this.byZip;
+
+    if (!fs.existsSync(this.csvPath)) {
+      throw new Error(
+        `ZIP centroid table not found at ${this.csvPath}. Generate it with: npx tsx scripts/build-zip-centroids.ts`,
+      );
+    }
+
+    const records = parse(fs.readFileSync(this.csvPath, "utf-8"), {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    }) as Record<string, string>[];
+
+    const byZip = new Map<string, ZipCentroid>();
+    for (const r of records) {
+      const lat = parseFloat(r.lat);
+      const lon = parseFloat(r.lon);
+      if (!/^\d{5}$/.test(r.zip) || isNaN(lat) || isNaN(lon)) continue;
+      byZip.set(r.zip, {
+        zip: r.zip,
+        lat,
+        lon,
+        state: r.state,
+        county_fips: r.county_fips,
+        county: r.county,
+      });
+    }
+
+    logInfo(`ZIP centroids loaded: ${byZip.size} ZIPs`);
+    this.byZip = byZip;
+    return byZip;
+  }
+}
+
+/** First five digits of a ZIP or ZIP+4 ("94607-1234" → "94607"). */
+export function zip5(zip: string): string {
+  return zip.trim().substring(0, 5);
+}
+
+/** Great-circle distance in miles. */
+export function haversineMiles(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number },
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
@@ -28,9 +28,13 @@ export class DiscoveryPipeline {
   /**
    * Discover nonprofits matching the given filters.
    * Applies portfolio-fit NTEE scope by default (portfolioFitOnly defaults true).
+   * A screening profile's portfolio fit replaces the platform default.
    */
-  discover(filters: DiscoveryFilters): DiscoveryResult {
-    const resolvedFilters = this.resolveFilters(filters);
+  discover(
+    filters: DiscoveryFilters,
+    portfolioFit: PortfolioFitConfig = this.portfolioFitConfig,
+  ): DiscoveryResult {
+    const resolvedFilters = this.resolveFilters(filters, portfolioFit);
 
     // If user requested specific NTEE categories but none survived the
     // portfolio-fit intersection, return empty rather than unfiltered results.
@@ -61,7 +65,10 @@ export class DiscoveryPipeline {
    * Resolve user-provided filters with platform defaults.
    * Merges portfolio-fit NTEE scope when portfolioFitOnly is true.
    */
-  private resolveFilters(filters: DiscoveryFilters): DiscoveryFilters {
+  private resolveFilters(
+    filters: DiscoveryFilters,
+    portfolioFit: PortfolioFitConfig,
+  ): DiscoveryFilters {
     const resolved: DiscoveryFilters = { ...filters };
 
     // Default to 501(c)(3). Subsection 0 means "all" (no filter).
@@ -79,10 +86,10 @@ export class DiscoveryPipeline {
     // Apply portfolio-fit NTEE scope (default: true)
     const applyPortfolioFit = resolved.portfolioFitOnly !== false;
 
-    if (applyPortfolioFit && this.portfolioFitConfig.enabled) {
+    if (applyPortfolioFit && portfolioFit.enabled) {
       resolved.nteeCategories = this.mergeNteeFilters(
         resolved.nteeCategories,
-        this.portfolioFitConfig.allowedNteeCategories,
+        portfolioFit.allowedNteeCategories,
       );
 
       // Portfolio-fit excluded NTEE categories (Q, T, V, X, Y, Z by default)
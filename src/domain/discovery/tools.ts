@@ -1,28 +1,65 @@
-import type { DiscoveryFilters, DiscoveryResult } from "./types.js";
+import type {
+  BmfChange,
+  BmfChangeType,
+  DiscoveryFilters,
+  DiscoveryResult,
+} from "./types.js";
 import type { DiscoveryPipeline } from "./pipeline.js";
 import type { DiscoveryIndex } from "../../data-sources/discovery-index.js";
+import type { VettingStore } from "../../data-sources/vetting-store.js";
+import {
+  DEFAULT_PROFILE,
+  unknownProfileError,
+  type ScreeningProfiles,
+} from "../nonprofit/screening-profiles.js";
 
 export interface DiscoverNonprofitsArgs {
   state?: string;
   city?: string;
+  zip?: string;
+  near_zip?: string;
+  radius_miles?: number;
+  county?: string;
   ntee_categories?: string[];
   ntee_exclude?: string[];
   subsection?: number;
   min_ruling_year?: number;
   max_ruling_year?: number;
+  min_revenue?: number;
+  max_revenue?: number;
+  min_assets?: number;
+  max_assets?: number;
+  foundation_codes?: number[];
+  public_charity_only?: boolean;
   name_contains?: string;
   portfolio_fit_only?: boolean;
   limit?: number;
   offset?: number;
+  profile?: string; // screening profile whose portfolio fit scopes the search
 }
 
 export interface RefreshDiscoveryIndexResult {
   success: boolean;
   row_count?: number;
   duration_ms?: number;
+  mode?: "full" | "incremental";
+  changes?: Record<BmfChangeType, number> | null;
   error?: string;
 }
 
+export interface ListBmfChangesArgs {
+  ein?: string;
+  change_types?: string[];
+  since?: string;
+  vetted_only?: boolean;
+  limit?: number;
+}
+
+export interface ListBmfChangesResult {
+  changes: BmfChange[];
+  total: number;
+}
+
 /**
  * Discover nonprofits from the IRS BMF index.
  * Maps MCP tool args (snake_case) to pipeline filters (camelCase).
@@ -30,6 +67,7 @@ export interface RefreshDiscoveryIndexResult {
 export function discoverNonprofits(
   pipeline: DiscoveryPipeline,
   args: DiscoverNonprofitsArgs,
+  profiles?: ScreeningProfiles,
 ): {
   success: boolean;
   data?: DiscoveryResult;
@@ -39,31 +77,62 @@ export function discoverNonprofits(
   const filters: DiscoveryFilters = {
     state: args.state,
     city: args.city,
+    zip: args.zip,
+    nearZip: args.near_zip,
+    radiusMiles: args.radius_miles,
+    county: args.county,
     nteeCategories: args.ntee_categories,
     nteeExclude: args.ntee_exclude,
     subsection: args.subsection,
     minRulingYear: args.min_ruling_year,
     maxRulingYear: args.max_ruling_year,
+    minRevenue: args.min_revenue,
+    maxRevenue: args.max_revenue,
+    minAssets: args.min_assets,
+    maxAssets: args.max_assets,
+    foundationCodes: args.foundation_codes,
+    publicCharityOnly: args.public_charity_only,
     nameContains: args.name_contains,
     portfolioFitOnly: args.portfolio_fit_only,
     limit: args.limit,
     offset: args.offset,
   };
 
-  const result = pipeline.discover(filters);
+  const profileName = args.profile ?? DEFAULT_PROFILE;
+  const profile = profiles?.get(profileName);
+  if (!profile && profileName !== DEFAULT_PROFILE) {
+    return {
+      success: false,
+      error: unknownProfileError(profileName, profiles),
+      attribution: "IRS Exempt Organizations Business Master File (BMF)",
+    };
+  }
 
-  return {
-    success: true,
-    data: result,
-    attribution: "IRS Exempt Organizations Business Master File (BMF)",
-  };
+  try {
+    const result = pipeline.discover(filters, profile?.portfolioFit);
+    return {
+      success: true,
+      data: result,
+      attribution: "IRS Exempt Organizations Business Master File (BMF)",
+    };
+  } catch (err) {
+    // Unknown ZIP/county or a missing ZIP centroid table
+    return {
+      success: false,
+      error: `Discovery query failed: ${err instanceof Error ? err.message : String(err)}`,
+      attribution: "IRS Exempt Organizations Business Master File (BMF)",
+    };
+  }
 }
 
 /**
- * Refresh (rebuild) the discovery index by downloading fresh BMF data.
+ * Refresh the discovery index by downloading fresh BMF data, or from files in
+ * sourceDir. After the first build this applies only the differences and
+ * reports what changed.
  */
 export async function refreshDiscoveryIndex(
   discoveryIndex: DiscoveryIndex,
+  sourceDir?: string,
 ): Promise<{
   success: boolean;
   data?: RefreshDiscoveryIndexResult;
@@ -71,13 +140,15 @@ export async function refreshDiscoveryIndex(
   attribution: string;
 }> {
   try {
-    const result = await discoveryIndex.buildIndex();
+    const result = await discoveryIndex.buildIndex(sourceDir);
     return {
       success: true,
       data: {
         success: true,
         row_count: result.rowCount,
         duration_ms: result.duration,
+        mode: result.mode,
+        changes: result.changes,
       },
       attribution: "IRS Exempt Organizations Business Master File (BMF)",
     };
@@ -89,3 +160,53 @@ export async function refreshDiscoveryIndex(
     };
   }
 }
+
+/**
+ * List BMF changes recorded by incremental refreshes. vetted_only limits the
+ * log to orgs that have been screened, so portfolio orgs that were renamed,
+ * reclassified or dropped from the BMF stand out.
+ */
+export function listBmfChanges(
+  discoveryIndex: DiscoveryIndex,
+  args: ListBmfChangesArgs,
+  vettingStore?: VettingStore,
+): {
+  success: boolean;
+  data?: ListBmfChangesResult;
+  error?: string;
+  attribution: string;
+} {
+  let eins: string[] | undefined;
+  if (args.vetted_only) {
+    if (!vettingStore) {
+      return {
+        success: false,
+        error:
+          "VettingStore not available. Check server logs for initialization errors.",
+        attribution: "",
+      };
+    }
+    eins = vettingStore.listLatestPerEin().map((r) => r.ein);
+  }
+
+  try {
+    const data = discoveryIndex.getChanges({
+      ein: args.ein,
+      eins,
+      changeTypes: args.change_types as BmfChangeType[] | undefined,
+      since: args.since,
+      limit: args.limit,
+    });
+    return {
+      success: true,
+      data,
+      attribution: "IRS Exempt Organizations Business Master File (BMF)",
+    };
+  } catch (err) {
+    return {
+      success: false,
+      error: `BMF change query failed: ${err instanceof Error ? err.message : String(err)}`,
+      attribution: "IRS Exempt Organizations Business Master File (BMF)",
+    };
+  }
+}
@@ -11,11 +11,22 @@
 export interface BmfRow {
   ein: string;
   name: string;
+  street: string;
   city: string;
   state: string;
+  zip: string; // 5-digit ZIP
   ntee_code: string;
   subsection: number; // 3 = 501(c)(3)
   ruling_date: string; // YYYYMM format
+  asset_amount: number | null; // Latest return's total assets (null = not reported)
+  income_amount: number | null; // Latest return's gross income
+  revenue_amount: number | null; // Latest return's total revenue (Form 990 line 12)
+  foundation_code: number; // 509(a) class: 2-4 private foundation, 10-24 public charity
+  deductibility: number; // 1 = contributions deductible, 2 = not, 4 = by treaty
+  affiliation: number; // 3 = independent, 9 = subordinate of a group ruling
+  organization_type: number; // 1 = corporation, 2 = trust, 3 = co-op, 4 = partnership, 5 = association
+  exempt_status: number; // 1 = unconditional exemption, 2 = conditional, 12 = 4947(a)(2) trust, 25 = terminating PF
+  tax_period: string; // YYYYMM of the latest return on file
 }
 
 /**
@@ -25,11 +36,24 @@ export interface BmfRow {
 export interface DiscoveryCandidate {
   ein: string;
   name: string;
+  street: string;
   city: string;
   state: string;
+  zip: string;
   ntee_code: string;
   subsection: number;
   ruling_date: string;
+  asset_amount: number | null;
+  income_amount: number | null;
+  revenue_amount: number | null;
+  foundation_code: number;
+  deductibility: number;
+  affiliation: number;
+  organization_type: number;
+  exempt_status: number;
+  tax_period: string;
+  relevance?: number; // 0.0-1.0 name match score, set only for nameSearch queries
+  distance_miles?: number; // From the nearZip centroid, set only for radius queries
 }
 
 /**
@@ -39,12 +63,23 @@ export interface DiscoveryCandidate {
 export interface DiscoveryFilters {
   state?: string; // 2-letter state code
   city?: string; // City name (case-insensitive)
+  zip?: string; // Exact 5-digit ZIP (ZIP+4 accepted)
+  nearZip?: string; // Center of a radius search (needs the ZIP centroid table)
+  radiusMiles?: number; // Radius around nearZip (default: 10, max: 100)
+  county?: string; // County FIPS code or name, e.g. "06001" or "Alameda"
   nteeCategories?: string[]; // NTEE prefix matching (e.g., ["B", "N2"])
   nteeExclude?: string[]; // NTEE prefixes to exclude
   subsection?: number; // Filter by subsection (default: 3 for 501(c)(3))
   minRulingYear?: number; // Org must have ruling date >= this year
   maxRulingYear?: number; // Org must have ruling date <= this year
+  minRevenue?: number; // BMF revenue_amount >= this (unreported revenue never matches)
+  maxRevenue?: number; // BMF revenue_amount <= this
+  minAssets?: number; // BMF asset_amount >= this
+  maxAssets?: number; // BMF asset_amount <= this
+  foundationCodes?: number[]; // Exact BMF foundation codes (e.g., [15, 16])
+  publicCharityOnly?: boolean; // Foundation codes 10-24 only (excludes private foundations)
   nameContains?: string; // Substring match on org name
+  nameSearch?: string; // Fuzzy full-text name search, ranked by relevance
   portfolioFitOnly?: boolean; // Apply platform portfolio-fit filter (default: true)
   limit?: number; // Max results (default: 100, max: 500)
   offset?: number; // Pagination offset (default: 0)
@@ -71,6 +106,8 @@ export interface DiscoveryIndexConfig {
   bmfRegions: string[]; // Which BMF region files to download (default: all 4)
   dataMaxAgeDays: number; // Staleness threshold for auto-refresh
   maxOrgsPerQuery: number; // Hard cap on query results
+  zipCentroidsPath?: string; // Bundled ZIP centroid CSV for radius/county filters
+  minBmfRows?: number; // Row floor below which a refresh is rejected (default 500K)
 }
 
 /**
@@ -84,3 +121,36 @@ export interface DiscoveryManifest {
     source_urls: string[];
   };
 }
+
+/**
+ * How an org changed between two BMF refreshes.
+ * Recorded by incremental index refreshes; full rebuilds record nothing.
+ */
+export type BmfChangeType =
+  | "new_org"
+  | "name_change"
+  | "ntee_change"
+  | "subsection_change"
+  | "dropped";
+
+export interface BmfChange {
+  id: number;
+  ein: string;
+  change_type: BmfChangeType;
+  name: string; // Current name (last known name for dropped orgs)
+  old_value: string | null; // Previous name/NTEE/subsection; null for new/dropped
+  new_value: string | null;
+  detected_at: string; // ISO timestamp of the refresh that saw the change
+}
+
+/**
+ * Outcome of DiscoveryIndex.buildIndex(). The first build (or one after the
+ * configured regions change) is a full rebuild; later ones diff against the
+ * existing index and count what changed.
+ */
+export interface BmfRefreshResult {
+  rowCount: number;
+  duration: number;
+  mode: "full" | "incremental";
+  changes: Record<BmfChangeType, number> | null; // null for full rebuilds
+}
@@ -1,20 +1,61 @@
 import type { NonprofitProfile } from "../nonprofit/types.js";
+import { yearsFromTaxPeriod } from "../nonprofit/date-utils.js";
 import type { GateCheckResult } from "./gate-types.js";
 
 /**
  * Gate 3: 990 Tax Filing Exists
  *
  * At least one Form 990 must be on file. Without it, we have no data
- * to evaluate the organization in the scoring engine.
+ * to evaluate the organization in the scoring engine. Orgs under the 990-N
+ * threshold never file an XML return, so a 990-N e-Postcard from an org that
+ * hasn't terminated also counts — it proves the org is active, and the
+ * scoring checks handle the missing financials. Only if it is recent,
+ * though: an e-Postcard older than `maxEpostcardAgeYears` (the recent_990
+ * FAIL line, filing990ReviewMax) proves nothing about the org today.
  */
-export function checkFilingExists(profile: NonprofitProfile): GateCheckResult {
+export function checkFilingExists(
+  profile: NonprofitProfile,
+  maxEpostcardAgeYears: number,
+  now: number = Date.now(),
+): GateCheckResult {
   const hasFiling = profile.filing_count > 0 && profile.latest_990 !== null;
 
+  if (hasFiling) {
+    return {
+      gate: "filing_exists",
+      verdict: "PASS",
+      detail: `${profile.filing_count} 990 filing(s) on record`,
+    };
+  }
+
+  const epostcard = profile.latest_990n;
+  const epostcardAge = epostcard
+    ? yearsFromTaxPeriod(epostcard.tax_period_end, now)
+    : Infinity;
+  if (
+    epostcard &&
+    !epostcard.terminated &&
+    epostcardAge <= maxEpostcardAgeYears
+  ) {
+    return {
+      gate: "filing_exists",
+      verdict: "PASS",
+      detail: `990-N e-Postcard on record for tax year ${epostcard.tax_year} (small filer — no financial detail)`,
+    };
+  }
+
+  let detail = "No 990 tax filings on record — cannot evaluate financials";
+  if (epostcard?.terminated) {
+    detail = `Most recent 990-N (tax year ${epostcard.tax_year}) reports the organization has terminated`;
+  } else if (epostcard) {
+    detail = Number.isFinite(epostcardAge)
+      ? `Most recent 990-N is for tax year ${epostcard.tax_year} (${epostcardAge.toFixed(1)} years old) — too stale to show the organization is active`
+      : `Most recent 990-N (tax year ${epostcard.tax_year}) has an unreadable tax period — cannot confirm the organization is active`;
+  }
+
   return {
     gate: "filing_exists",
-    verdict: hasFiling ? "PASS" : "FAIL",
-    detail: hasFiling
-      ? `${profile.filing_count} 990 filing(s) on record`
-      : "No 990 tax filings on record — cannot evaluate financials",
+    verdict: "FAIL",
+    detail,
   };
 }
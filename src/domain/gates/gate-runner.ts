@@ -1,9 +1,10 @@
 import type {
   NonprofitProfile,
   PortfolioFitConfig,
+  RevocationLookup,
+  SanctionsLookup,
+  VettingThresholds,
 } from "../nonprofit/types.js";
-import type { IrsRevocationClient } from "../red-flags/irs-revocation-client.js";
-import type { OfacSdnClient } from "../red-flags/ofac-sdn-client.js";
 import type { GateLayerResult } from "./gate-types.js";
 import { checkVerified501c3 } from "./verified-501c3.js";
 import { checkOfacSanctions } from "./ofac-sanctions.js";
@@ -20,13 +21,15 @@ import { checkPortfolioFit } from "./portfolio-fit.js";
  */
 export function runPreScreenGates(
   profile: NonprofitProfile,
-  irsClient: IrsRevocationClient,
-  ofacClient: OfacSdnClient,
+  irsClient: RevocationLookup,
+  ofacClient: SanctionsLookup,
   portfolioFitConfig: PortfolioFitConfig,
+  thresholds: VettingThresholds,
+  now: number = Date.now(),
 ): GateLayerResult {
   const gate1 = checkVerified501c3(profile, irsClient);
   const gate2 = checkOfacSanctions(profile.name, ofacClient);
-  const gate3 = checkFilingExists(profile);
+  const gate3 = checkFilingExists(profile, thresholds.filing990ReviewMax, now);
   const gate4 = checkPortfolioFit(profile, portfolioFitConfig);
 
   const gates = [gate1, gate2, gate3, gate4];
@@ -1,4 +1,4 @@
-import type { OfacSdnClient } from "../red-flags/ofac-sdn-client.js";
+import type { SanctionsLookup } from "../nonprofit/types.js";
 import type { GateCheckResult } from "./gate-types.js";
 
 /**
@@ -16,7 +16,7 @@ import type { GateCheckResult } from "./gate-types.js";
  */
 export function checkOfacSanctions(
   orgName: string,
-  ofacClient: OfacSdnClient,
+  ofacClient: SanctionsLookup,
 ): GateCheckResult {
   const result = ofacClient.check(orgName);
 
@@ -1,6 +1,11 @@
-import type { NonprofitProfile } from "../nonprofit/types.js";
-import type { IrsRevocationClient } from "../red-flags/irs-revocation-client.js";
-import type { GateCheckResult, GateSubCheck } from "./gate-types.js";
+import type { NonprofitProfile, RevocationLookup } from "../nonprofit/types.js";
+import type {
+  GateCheckResult,
+  GateLayerResult,
+  GateSubCheck,
+} from "./gate-types.js";
+
+export const REVOCATION_CHECK_LABEL = "IRS revocation check";
 
 /**
  * Gate 1: Verified 501(c)(3) Status
@@ -14,7 +19,7 @@ import type { GateCheckResult, GateSubCheck } from "./gate-types.js";
  */
 export function checkVerified501c3(
   profile: NonprofitProfile,
-  irsClient: IrsRevocationClient,
+  irsClient: RevocationLookup,
 ): GateCheckResult {
   const subChecks: GateSubCheck[] = [];
 
@@ -32,7 +37,7 @@ export function checkVerified501c3(
   const irsResult = irsClient.check(profile.ein);
   const notRevoked = !irsResult.revoked;
   subChecks.push({
-    label: "IRS revocation check",
+    label: REVOCATION_CHECK_LABEL,
     passed: notRevoked,
     detail: irsResult.detail,
   });
@@ -59,3 +64,16 @@ export function checkVerified501c3(
     sub_checks: subChecks,
   };
 }
+
+/**
+ * The revocation sub-check from a recorded gate layer, used to tell whether
+ * a revocation is new since the last screening. Undefined for results saved
+ * before the gate ran.
+ */
+export function findRevocationSubCheck(
+  gates: GateLayerResult,
+): GateSubCheck | undefined {
+  return gates.gates
+    .find((g) => g.gate === "verified_501c3")
+    ?.sub_checks?.find((sc) => sc.label === REVOCATION_CHECK_LABEL);
+}
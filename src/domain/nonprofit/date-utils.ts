@@ -75,6 +75,17 @@ export function formatTaxPeriod(taxPrd: number): string {
   return `${year}-${month}`;
 }
 
+/**
+ * Years elapsed between a "YYYY-MM" tax period and `now` (epoch ms).
+ * Returns Infinity when the period can't be parsed.
+ */
+export function yearsFromTaxPeriod(taxPeriod: string, now: number): number {
+  const [year, month] = taxPeriod.split("-").map(Number);
+  if (!Number.isFinite(year) || !Number.isFinite(month)) return Infinity;
+  const filingDate = new Date(year, month - 1, 1);
+  return (now - filingDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+}
+
 /**
  * Calculate overhead ratio (expenses / revenue).
  * Returns null if calculation not possible.
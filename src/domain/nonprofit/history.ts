@@ -0,0 +1,269 @@
+// ============================================================================
+// Screening History
+//
+// Reads back every persisted screening for an EIN and diffs two of them:
+// score delta, recommendation change, gates flipped, red flags added or
+// removed, and scoring checks whose result changed.
+// ============================================================================
+
+import type {
+  ToolResponse,
+  ScreeningResult,
+  ScreeningDiff,
+  ScreeningChanges,
+  ScreeningHistoryEntry,
+  ScreeningHistoryResult,
+  GateFlip,
+  CheckChange,
+  RedFlag,
+} from "./types.js";
+import type {
+  VettedRecord,
+  VettingStore,
+} from "../../data-sources/vetting-store.js";
+import { formatEin } from "./date-utils.js";
+import { logDebug, logError } from "../../core/logging.js";
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+export interface ScreeningHistoryOptions {
+  /**
+   * Older screening to diff from (defaults to the one before `toId` made
+   * under the same profile, so a profile switch isn't reported as a change).
+   */
+  fromId?: number;
+  /** Newer screening to diff to (defaults to the latest). */
+  toId?: number;
+  /** Max screenings listed (default 20, max 100). The diff may use any row. */
+  limit?: number;
+  /** Only list and diff screenings made under this profile. */
+  profile?: string;
+}
+
+/**
+ * Compare two screening results. Red flags are matched by type and severity,
+ * so a flag whose detail text changed (e.g. a new decline percentage) is not
+ * reported as added/removed.
+ */
+export function diffScreenings(
+  from: ScreeningResult,
+  to: ScreeningResult,
+): ScreeningChanges {
+  const score_delta =
+    from.score !== null && to.score !== null ? to.score - from.score : null;
+
+  const gates_flipped = diffGates(from, to);
+  const checks_changed = diffChecks(from, to);
+
+  const fromFlags = new Map(from.red_flags.map((f) => [flagKey(f), f]));
+  const toFlags = new Map(to.red_flags.map((f) => [flagKey(f), f]));
+  const red_flags_added = [...toFlags]
+    .filter(([k]) => !fromFlags.has(k))
+    .map(([, f]) => f);
+  const red_flags_removed = [...fromFlags]
+    .filter(([k]) => !toFlags.has(k))
+    .map(([, f]) => f);
+
+  const recommendation_changed = from.recommendation !== to.recommendation;
+
+  return {
+    score_delta,
+    recommendation_from: from.recommendation,
+    recommendation_to: to.recommendation,
+    recommendation_changed,
+    gates_flipped,
+    red_flags_added,
+    red_flags_removed,
+    checks_changed,
+    identical:
+      !recommendation_changed &&
+      from.score === to.score &&
+      gates_flipped.length === 0 &&
+      red_flags_added.length === 0 &&
+      red_flags_removed.length === 0 &&
+      checks_changed.length === 0,
+  };
+}
+
+/**
+ * List every screening recorded for an EIN (most recent first) and diff two
+ * of them — by default the latest against the previous one under the same
+ * profile.
+ */
+export function getScreeningHistory(
+  ein: string,
+  vettingStore: VettingStore | undefined,
+  opts: ScreeningHistoryOptions = {},
+): ToolResponse<ScreeningHistoryResult> {
+  try {
+    logDebug(`getScreeningHistory for EIN: ${ein}`);
+
+    if (!ein) {
+      return {
+        success: false,
+        error: "EIN parameter is required",
+        attribution: "",
+      };
+    }
+    if (!vettingStore) {
+      return {
+        success: false,
+        error:
+          "VettingStore not available. Check server logs for initialization errors.",
+        attribution: "",
+      };
+    }
+
+    const history = vettingStore
+      .getHistoryByEin(ein)
+      .filter((r) => opts.profile === undefined || r.profile === opts.profile);
+    if (history.length === 0) {
+      const under =
+        opts.profile !== undefined ? ` under profile "${opts.profile}"` : "";
+      return {
+        success: false,
+        error: `No screenings recorded for EIN: ${ein}${under}. Run screen_nonprofit first.`,
+        attribution: "",
+      };
+    }
+
+    const to =
+      opts.toId !== undefined ? findRecord(history, opts.toId) : history[0];
+    if (!to) {
+      return {
+        success: false,
+        error: `Screening ${opts.toId} not found for EIN: ${ein}`,
+        attribution: "",
+      };
+    }
+
+    let from: VettedRecord | undefined;
+    if (opts.fromId !== undefined) {
+      from = findRecord(history, opts.fromId);
+      if (!from) {
+        return {
+          success: false,
+          error: `Screening ${opts.fromId} not found for EIN: ${ein}`,
+          attribution: "",
+        };
+      }
+    } else {
+      // history is newest first, so later rows are earlier screenings
+      from = history
+        .slice(history.indexOf(to) + 1)
+        .find((r) => r.profile === to.profile);
+    }
+
+    const limit = Math.max(
+      1,
+      Math.min(opts.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT),
+    );
+
+    return {
+      success: true,
+      data: {
+        ein: formatEin(to.ein),
+        name: history[0].name,
+        total: history.length,
+        screenings: history.slice(0, limit).map(toHistoryEntry),
+        diff: from && from !== to ? buildDiff(from, to) : null,
+      },
+      attribution: "",
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("getScreeningHistory failed:", message);
+    return {
+      success: false,
+      error: `getScreeningHistory failed: ${message}`,
+      attribution: "",
+    };
+  }
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+function buildDiff(from: VettedRecord, to: VettedRecord): ScreeningDiff {
+  const changes = diffScreenings(
+    JSON.parse(from.result_json) as ScreeningResult,
+    JSON.parse(to.result_json) as ScreeningResult,
+  );
+  return {
+    from_id: from.id,
+    to_id: to.id,
+    from_vetted_at: from.vetted_at,
+    to_vetted_at: to.vetted_at,
+    from_profile: from.profile,
+    to_profile: to.profile,
+    ...changes,
+  };
+}
+
+function findRecord(
+  history: VettedRecord[],
+  id: number,
+): VettedRecord | undefined {
+  return history.find((r) => r.id === id);
+}
+
+function toHistoryEntry(record: VettedRecord): ScreeningHistoryEntry {
+  return {
+    id: record.id,
+    recommendation: record.recommendation,
+    score: record.score,
+    passed: record.passed,
+    gate_blocked: record.gate_blocked,
+    red_flag_count: record.red_flag_count,
+    vetted_at: record.vetted_at,
+    vetted_by: record.vetted_by,
+    profile: record.profile,
+  };
+}
+
+function flagKey(flag: RedFlag): string {
+  return `${flag.severity}:${flag.type}`;
+}
+
+function diffGates(from: ScreeningResult, to: ScreeningResult): GateFlip[] {
+  const fromGates = new Map(from.gates.gates.map((g) => [g.gate, g]));
+  const toGates = new Map(to.gates.gates.map((g) => [g.gate, g]));
+  const names = new Set([...fromGates.keys(), ...toGates.keys()]);
+
+  const flips: GateFlip[] = [];
+  for (const gate of names) {
+    const before = fromGates.get(gate);
+    const after = toGates.get(gate);
+    if (before?.verdict === after?.verdict) continue;
+    flips.push({
+      gate,
+      from: before?.verdict ?? null,
+      to: after?.verdict ?? null,
+      detail: (after ?? before)!.detail,
+    });
+  }
+  return flips;
+}
+
+function diffChecks(from: ScreeningResult, to: ScreeningResult): CheckChange[] {
+  const fromChecks = new Map((from.checks ?? []).map((c) => [c.name, c]));
+  const toChecks = new Map((to.checks ?? []).map((c) => [c.name, c]));
+  const names = new Set([...fromChecks.keys(), ...toChecks.keys()]);
+
+  const changes: CheckChange[] = [];
+  for (const name of names) {
+    const before = fromChecks.get(name);
+    const after = toChecks.get(name);
+    if (before?.result === after?.result) continue;
+    changes.push({
+      name,
+      from: before?.result ?? null,
+      to: after?.result ?? null,
+      from_detail: before?.detail ?? null,
+      to_detail: after?.detail ?? null,
+    });
+  }
+  return changes;
+}
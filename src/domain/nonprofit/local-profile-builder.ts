@@ -13,6 +13,8 @@ import type {
 import type {
   NonprofitProfile,
   Latest990Summary,
+  LargestContractorSummary,
+  EpostcardSummary,
 } from "./types/profile.js";
 import type { Filing990Summary } from "./types/filings.js";
 import {
@@ -32,11 +34,13 @@ export interface LocalProfileResult {
  * @param candidate  - BMF org record (structural data)
  * @param filings    - GivingTuesday filing index entries for this EIN
  * @param extract    - Parsed XML 990 extract (latest filing), or null if none
+ * @param epostcard  - Most recent 990-N e-Postcard, or null if none on file
  */
 export function buildProfileFromLocal(
   candidate: DiscoveryCandidate,
   filings: GtFilingIndexEntry[],
   extract: Xml990ExtractedData | null,
+  epostcard: EpostcardSummary | null = null,
 ): LocalProfileResult {
   let latest990: Latest990Summary | null = null;
 
@@ -61,12 +65,31 @@ export function buildProfileFromLocal(
       form_type: extract.formType,
       total_revenue: revenue,
       total_expenses: expenses,
-      total_assets: 0, // Part X not yet parsed (BON-82)
-      total_liabilities: 0, // Part X not yet parsed (BON-82)
+      total_assets: extract.partX?.totalAssetsEOY ?? 0,
+      total_liabilities: extract.partX?.totalLiabilitiesEOY ?? 0,
       overhead_ratio: overheadRatio,
       officer_compensation_ratio: officerCompRatio,
       program_revenue: extract.partVIII?.programServiceRevenue,
       contributions: extract.partVIII?.contributions,
+      cash_and_equivalents: extract.partX?.cashAndEquivalents,
+      unrestricted_net_assets: extract.partX?.unrestrictedNetAssets,
+      net_assets: extract.partX?.netAssetsEOY,
+      public_support_pct: extract.scheduleA?.publicSupportPctCY,
+      public_support_passed: extract.scheduleA?.passedPublicSupportTest,
+      largest_contractor: findLargestContractor(extract),
+      governance: extract.partVI
+        ? {
+            voting_members: extract.partVI.votingMembersCount,
+            independent_members: extract.partVI.independentMembersCount,
+            family_or_business_relationship: extract.partVI.familyOrBusinessRelationship,
+            delegation_of_management: extract.partVI.delegationOfMgmtDuties,
+            conflict_of_interest_policy: extract.partVI.conflictOfInterestPolicy,
+            whistleblower_policy: extract.partVI.whistleblowerPolicy,
+            document_retention_policy: extract.partVI.documentRetentionPolicy,
+            ceo_compensation_process: extract.partVI.compensationProcessCEO,
+            material_diversion: extract.partVI.materialDiversionOfAssets,
+          }
+        : null,
     };
   }
 
@@ -86,6 +109,7 @@ export function buildProfileFromLocal(
     subsection: String(candidate.subsection).padStart(2, "0"),
     ntee_code: candidate.ntee_code || "",
     latest_990: latest990,
+    latest_990n: epostcard,
     filing_count: filings.length,
   };
 
@@ -94,8 +118,8 @@ export function buildProfileFromLocal(
 
 /**
  * Build a minimal Filing990Summary[] adapter for the revenue decline check
- * in detectRedFlags(). Only populates the fields used by that check:
- * `tax_prd` (YYYYMM number) and `totrevenue`.
+ * in detectRedFlags(). Populates `tax_prd` (YYYYMM number), `totrevenue`,
+ * and the Part X balance sheet totals when the extract has them.
  */
 export function buildFilingsAdapter(
   filings: GtFilingIndexEntry[],
@@ -116,8 +140,9 @@ export function buildFilingsAdapter(
         formtype: extract.formType === "990" ? 0 : extract.formType === "990EZ" ? 2 : 3,
         totrevenue: extract.partVIII?.totalRevenue ?? 0,
         totfuncexpns: extract.partIX?.totalExpenses ?? 0,
-        totassetsend: 0,
-        totliabend: 0,
+        totassetsend: extract.partX?.totalAssetsEOY ?? 0,
+        totliabend: extract.partX?.totalLiabilitiesEOY ?? 0,
+        totnetassetend: extract.partX?.netAssetsEOY,
       };
     })
     .filter((f): f is Filing990Summary => f !== null)
@@ -153,6 +178,34 @@ function computeOfficerCompensationRatio(
   return Number.isFinite(ratio) ? ratio : null;
 }
 
+/**
+ * Pick the highest-paid independent contractor and express their pay as a
+ * share of total expenses. Null when the filing lists no contractors.
+ */
+function findLargestContractor(
+  extract: Xml990ExtractedData,
+): LargestContractorSummary | null {
+  const contractors = extract.contractors ?? [];
+  if (contractors.length === 0) return null;
+
+  const largest = contractors.reduce((max, c) =>
+    c.compensation > max.compensation ? c : max,
+  );
+
+  const totalExpenses = extract.partIX?.totalExpenses;
+  const share =
+    totalExpenses && totalExpenses > 0
+      ? largest.compensation / totalExpenses
+      : null;
+
+  return {
+    name: largest.name,
+    services: largest.services,
+    compensation: largest.compensation,
+    expense_share: share !== null && Number.isFinite(share) ? share : null,
+  };
+}
+
 /**
  * Convert GivingTuesday TaxPeriod ("2022-06-30") to YYYYMM number (202206).
  */
@@ -78,6 +78,11 @@ export const CHECK_MESSAGES: Record<
     REVIEW: { factor: "Financial data slightly dated", weight: "neutral" },
     FAIL: { factor: "Financial data too old or missing", weight: "negative" },
   },
+  operating_reserves: {
+    PASS: { factor: "Adequate operating reserves", weight: "positive" },
+    REVIEW: { factor: "Thin or unknown operating reserves", weight: "neutral" },
+    FAIL: { factor: "Less than one month of reserves", weight: "negative" },
+  },
 };
 
 // ============================================================================
@@ -90,9 +95,15 @@ export const RED_FLAG_FACTORS: Partial<Record<RedFlagType, string>> = {
   very_high_overhead: "Unsustainable spend rate",
   very_low_revenue: "Very small operation",
   revenue_decline: "Significant revenue decline",
+  persistent_deficit: "Expenses have exceeded revenue for several consecutive years",
+  net_asset_erosion: "Net assets have fallen substantially over recent filings",
   too_new: "Organization is less than 1 year old",
   high_officer_compensation: "High officer/director compensation ratio",
   court_records: "Federal court cases on record",
+  public_support_failure: "Failed public support test (private foundation risk)",
+  contractor_concentration: "Single contractor receives a large share of expenses",
+  material_diversion: "Diversion of assets reported on Form 990",
+  minority_independent_board: "Independent members are not a board majority",
 };
 
 // ============================================================================
@@ -106,6 +117,7 @@ export function generateSummary(
   checks: CriterionCheck[],
   redFlags: RedFlag[],
   yearsOperating: number | null,
+  scorePassMin?: number,
 ): ScreeningSummary {
   const config = VERDICT_CONFIG[recommendation];
 
@@ -158,9 +170,58 @@ export function generateSummary(
     justification,
     key_factors: keyFactors,
     next_steps: [...config.next_steps],
+    path_to_pass:
+      recommendation === "PASS"
+        ? []
+        : buildPathToPass(score, checks, redFlags, scorePassMin),
   };
 }
 
+/**
+ * "What would it take to pass?" — the score gap, any red flags that cap the
+ * recommendation regardless of score, and each non-PASS check's
+ * counterfactual, biggest point gain first.
+ */
+function buildPathToPass(
+  score: number,
+  checks: CriterionCheck[],
+  redFlags: RedFlag[],
+  scorePassMin: number | undefined,
+): string[] {
+  const lines: string[] = [];
+
+  if (scorePassMin !== undefined && score < scorePassMin) {
+    const gap = scorePassMin - score;
+    lines.push(
+      `Score ${score}/100 is ${gap} point${gap === 1 ? "" : "s"} short of PASS (${scorePassMin})`,
+    );
+  }
+
+  const high = redFlags.filter((f) => f.severity === "HIGH");
+  const medium = redFlags.filter((f) => f.severity === "MEDIUM");
+  if (high.length > 0) {
+    lines.push(
+      `HIGH red flags force REJECT regardless of score: ${high.map((f) => f.type).join(", ")}`,
+    );
+  } else if (medium.length > 0) {
+    lines.push(
+      `MEDIUM red flags cap the result at REVIEW: ${medium.map((f) => f.type).join(", ")}`,
+    );
+  }
+
+  const counterfactuals = checks
+    .map((c) => ({ name: c.name, cf: c.explanation?.counterfactual }))
+    .filter(
+      (c): c is { name: string; cf: NonNullable<typeof c.cf> } => !!c.cf,
+    )
+    .sort((a, b) => b.cf.points_gained - a.cf.points_gained);
+  for (const { name, cf } of counterfactuals) {
+    lines.push(`${name}: ${cf.detail}`);
+  }
+
+  return lines;
+}
+
 // ============================================================================
 // Gate Failure Summary Generator
 // ============================================================================
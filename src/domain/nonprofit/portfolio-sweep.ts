@@ -0,0 +1,162 @@
+// ============================================================================
+// Post-Refresh Portfolio Sweep
+//
+// Re-runs only the cheap local gates — checkVerified501c3, checkOfacSanctions
+// and the OFAC fuzzy near-match — against the latest saved screening of every
+// vetted EIN, and reports what changed. No filing fetches, no re-scoring, no
+// new vetting rows: a full re-screen is the watchlist runner's job.
+// ============================================================================
+
+import type {
+  PortfolioSweepHit,
+  PortfolioSweepResult,
+  ScreeningResult,
+} from "./types.js";
+import type {
+  VettedRecord,
+  VettingStore,
+} from "../../data-sources/vetting-store.js";
+import type { DiscoveryIndex } from "../../data-sources/discovery-index.js";
+import type { DiscoveryCandidate } from "../discovery/types.js";
+import type { IrsRevocationClient } from "../red-flags/irs-revocation-client.js";
+import type { OfacSdnClient } from "../red-flags/ofac-sdn-client.js";
+import {
+  checkVerified501c3,
+  findRevocationSubCheck,
+} from "../gates/verified-501c3.js";
+import { checkOfacSanctions } from "../gates/ofac-sanctions.js";
+import { buildProfileFromLocal } from "./local-profile-builder.js";
+import { formatEin } from "./date-utils.js";
+import { logInfo, logWarn } from "../../core/logging.js";
+
+export interface PortfolioSweepDeps {
+  vettingStore: VettingStore;
+  discoveryIndex: DiscoveryIndex;
+  irsClient: IrsRevocationClient;
+  ofacClient: OfacSdnClient;
+}
+
+export interface PortfolioSweepSources {
+  irs: boolean;
+  ofac: boolean;
+}
+
+/**
+ * Check every vetted EIN against the freshly loaded IRS/OFAC data. Only the
+ * refreshed sources are checked; hits are changes relative to the org's
+ * latest saved screening.
+ */
+export function sweepVettedPortfolio(
+  deps: PortfolioSweepDeps,
+  sources: PortfolioSweepSources,
+): PortfolioSweepResult {
+  const records = deps.vettingStore.listLatestPerEin();
+  const result: PortfolioSweepResult = {
+    checked: records.length,
+    irs_checked: sources.irs,
+    ofac_checked: sources.ofac,
+    newly_revoked: [],
+    newly_sanctioned: [],
+    new_ofac_near_matches: [],
+  };
+
+  const candidates = sources.irs
+    ? lookupCandidates(deps.discoveryIndex, records)
+    : new Map<string, DiscoveryCandidate>();
+
+  for (const record of records) {
+    const previous = JSON.parse(record.result_json) as ScreeningResult;
+
+    if (sources.irs) {
+      const revocation = checkRevocation(record, candidates, deps.irsClient);
+      const wasRevoked =
+        findRevocationSubCheck(previous.gates)?.passed === false;
+      if (revocation.revoked && !wasRevoked) {
+        result.newly_revoked.push(toHit(record, revocation.detail));
+      }
+    }
+
+    if (sources.ofac) {
+      const gate = checkOfacSanctions(record.name, deps.ofacClient);
+      const wasSanctioned = previous.gates.gates.some(
+        (g) => g.gate === "ofac_sanctions" && g.verdict === "FAIL",
+      );
+      if (gate.verdict === "FAIL") {
+        if (!wasSanctioned) {
+          result.newly_sanctioned.push(toHit(record, gate.detail));
+        }
+        continue;
+      }
+
+      const fuzzy = deps.ofacClient.fuzzyCheck(record.name);
+      const wasNearMatch = previous.red_flags.some(
+        (f) => f.type === "ofac_near_match",
+      );
+      if (fuzzy.found && !wasNearMatch) {
+        const best = fuzzy.matches[0];
+        result.new_ofac_near_matches.push(
+          toHit(
+            record,
+            `Possible OFAC near-match: "${best.name}" (${(best.similarity * 100).toFixed(1)}% similar)`,
+          ),
+        );
+      }
+    }
+  }
+
+  logInfo(
+    `Portfolio sweep: ${result.checked} vetted orgs, ${result.newly_revoked.length} newly revoked, ` +
+      `${result.newly_sanctioned.length} newly sanctioned, ${result.new_ofac_near_matches.length} new OFAC near-matches`,
+  );
+  return result;
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+function lookupCandidates(
+  discoveryIndex: DiscoveryIndex,
+  records: VettedRecord[],
+): Map<string, DiscoveryCandidate> {
+  try {
+    return discoveryIndex.getByEins(records.map((r) => r.ein));
+  } catch (err) {
+    logWarn(
+      `Portfolio sweep: BMF lookup unavailable, checking revocation list only: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return new Map();
+  }
+}
+
+/**
+ * Run the 501(c)(3) gate from the BMF record when we have it. Without one
+ * (index not built, org dropped from the BMF) fall back to the revocation
+ * list alone — the only part of the gate the refreshed data can change.
+ */
+function checkRevocation(
+  record: VettedRecord,
+  candidates: Map<string, DiscoveryCandidate>,
+  irsClient: IrsRevocationClient,
+): { revoked: boolean; detail: string } {
+  const candidate = candidates.get(record.ein);
+  if (!candidate) {
+    const irs = irsClient.check(record.ein);
+    return { revoked: irs.revoked, detail: irs.detail };
+  }
+
+  const { profile } = buildProfileFromLocal(candidate, [], null);
+  const gate = checkVerified501c3(profile, irsClient);
+  const sub = findRevocationSubCheck({ all_passed: false, gates: [gate] });
+  return { revoked: sub?.passed === false, detail: sub?.detail ?? gate.detail };
+}
+
+function toHit(record: VettedRecord, detail: string): PortfolioSweepHit {
+  return {
+    ein: formatEin(record.ein),
+    name: record.name,
+    last_recommendation: record.recommendation,
+    last_vetted_at: record.vetted_at,
+    detail,
+  };
+}
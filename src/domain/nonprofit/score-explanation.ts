@@ -0,0 +1,128 @@
+// ============================================================================
+// Score Explanation
+//
+// Builds the per-check CheckExplanation the scoring checks attach to their
+// results. Each check describes its input as a value plus PASS/REVIEW/FAIL
+// bands taken from the resolved thresholds; the counterfactual is then the
+// nearest point of the next band up, which is always one of the threshold
+// bounds (a value on a boundary belongs to the better band).
+// ============================================================================
+
+import type {
+  CheckBand,
+  CheckCounterfactual,
+  CheckExplanation,
+  CheckResult,
+  VettingThresholds,
+} from "./types.js";
+import { getSectorOverrides } from "./sector-thresholds.js";
+
+/** Share of a check's weight each result earns (see calculateScore). */
+const RESULT_SHARE: Record<CheckResult, number> = {
+  PASS: 1,
+  REVIEW: 0.5,
+  FAIL: 0,
+};
+
+const NEXT_BAND: Record<CheckResult, CheckResult | null> = {
+  FAIL: "REVIEW",
+  REVIEW: "PASS",
+  PASS: null,
+};
+
+export interface ExplainCheckInput {
+  value: number | null;
+  unit: CheckExplanation["unit"];
+  bands: CheckBand[];
+  result: CheckResult;
+  weight: number;
+  /** Resolved thresholds the check was scored against. */
+  t: VettingThresholds;
+  nteeCode: string;
+  /** Threshold keys the bands are built from. */
+  keys: Array<keyof VettingThresholds>;
+  /** Phrase for the input change, e.g. "Revenue of $25K or more". */
+  describe: (target: number, change: number) => string;
+}
+
+export function explainCheck(input: ExplainCheckInput): CheckExplanation {
+  const { value, result, weight } = input;
+  return {
+    value,
+    unit: input.unit,
+    bands: input.bands,
+    sector_override: sectorOverride(input.t, input.nteeCode, input.keys),
+    points: weight * RESULT_SHARE[result],
+    max_points: weight,
+    counterfactual:
+      value === null ? null : counterfactual(input, value, result, weight),
+  };
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+function counterfactual(
+  input: ExplainCheckInput,
+  value: number,
+  result: CheckResult,
+  weight: number,
+): CheckCounterfactual | null {
+  const to = NEXT_BAND[result];
+  if (!to) return null;
+
+  // Nearest point of any band with the target result (revenue and spend
+  // rate have one on each side)
+  let target: number | null = null;
+  for (const band of input.bands) {
+    if (band.result !== to) continue;
+    const nearest = Math.min(
+      Math.max(value, band.min ?? -Infinity),
+      band.max ?? Infinity,
+    );
+    if (target === null || Math.abs(nearest - value) < Math.abs(target - value)) {
+      target = nearest;
+    }
+  }
+  if (target === null) return null;
+
+  const change = round(target - value);
+  const points_gained = weight * (RESULT_SHARE[to] - RESULT_SHARE[result]);
+  return {
+    to,
+    value: target,
+    change,
+    points_gained,
+    detail: `${input.describe(target, change)} would move this check to ${to} (+${points_gained} pts)`,
+  };
+}
+
+/**
+ * The check's bounds that came from the org's sector. Compared against the
+ * thresholds actually used, so unresolved base thresholds report none.
+ */
+function sectorOverride(
+  t: VettingThresholds,
+  nteeCode: string,
+  keys: Array<keyof VettingThresholds>,
+): CheckExplanation["sector_override"] {
+  const sector = getSectorOverrides(nteeCode);
+  if (!sector) return null;
+
+  const thresholds: Partial<VettingThresholds> = {};
+  for (const key of keys) {
+    const override = sector.overrides[key];
+    if (override !== undefined && t[key] === override) {
+      thresholds[key] = override;
+    }
+  }
+  return Object.keys(thresholds).length > 0
+    ? { sector: sector.sector, thresholds }
+    : null;
+}
+
+/** Trim float noise (0.7 - 0.55 = 0.1499…) without losing ratio precision. */
+function round(n: number): number {
+  return Math.round(n * 10_000) / 10_000;
+}
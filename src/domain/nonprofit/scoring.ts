@@ -9,16 +9,21 @@ import {
   VettingThresholds,
   CourtRecordsResult,
   PortfolioFitConfig,
+  RevocationLookup,
+  SanctionsLookup,
   CourtCaseSummary,
+  GovernanceAssessment,
+  GovernancePractice,
+  GovernanceSummary,
 } from "./types.js";
 import { generateSummary, generateGateFailureSummary } from "./messages.js";
+import { explainCheck } from "./score-explanation.js";
+import { yearsFromTaxPeriod } from "./date-utils.js";
 import { resolveCourtName } from "../red-flags/court-names.js";
-import type { IrsRevocationClient } from "../red-flags/irs-revocation-client.js";
-import type { OfacSdnClient } from "../red-flags/ofac-sdn-client.js";
 import { runPreScreenGates } from "../gates/gate-runner.js";
 
 // ============================================================================
-// Criterion Check Functions (4 checks, 501c3 moved to gate layer)
+// Criterion Check Functions (5 checks, 501c3 moved to gate layer)
 // ============================================================================
 
 /**
@@ -56,6 +61,22 @@ export function checkYearsOperating(
     result,
     detail,
     weight: t.weightYearsOperating,
+    explanation: explainCheck({
+      value: years !== null && years >= 0 ? years : null,
+      unit: "years",
+      bands: [
+        { result: "FAIL", min: null, max: t.yearsReviewMin },
+        { result: "REVIEW", min: t.yearsReviewMin, max: t.yearsPassMin },
+        { result: "PASS", min: t.yearsPassMin, max: null },
+      ],
+      result,
+      weight: t.weightYearsOperating,
+      t,
+      nteeCode: profile.ntee_code,
+      keys: ["yearsReviewMin", "yearsPassMin"],
+      describe: (target, change) =>
+        `Reaching ${target} years operating (${change} more year${change === 1 ? "" : "s"})`,
+    }),
   };
 }
 
@@ -64,6 +85,8 @@ export function checkYearsOperating(
  * PASS: revenuePassMin - revenuePassMax
  * REVIEW: revenueFailMin - revenuePassMin or revenuePassMax - revenueReviewMax
  * FAIL: < revenueFailMin or > revenueReviewMax or $0/missing
+ * Missing revenue from an active 990-N filer is REVIEW — receipts are under
+ * $50K but the exact figure is never reported.
  */
 export function checkRevenueRange(
   profile: NonprofitProfile,
@@ -74,7 +97,10 @@ export function checkRevenueRange(
   let result: CheckResult;
   let detail: string;
 
-  if (revenue === undefined || revenue === null) {
+  if ((revenue === undefined || revenue === null) && isActive990nFiler(profile)) {
+    result = "REVIEW";
+    detail = "Files 990-N e-Postcard (gross receipts under $50K) - no revenue detail reported";
+  } else if (revenue === undefined || revenue === null) {
     result = "FAIL";
     detail = "No revenue data available";
   } else if (revenue < 0) {
@@ -106,6 +132,29 @@ export function checkRevenueRange(
     result,
     detail,
     weight: t.weightRevenueRange,
+    explanation: explainCheck({
+      value: revenue ?? null,
+      unit: "usd",
+      bands: [
+        { result: "FAIL", min: null, max: t.revenueFailMin },
+        { result: "REVIEW", min: t.revenueFailMin, max: t.revenuePassMin },
+        { result: "PASS", min: t.revenuePassMin, max: t.revenuePassMax },
+        { result: "REVIEW", min: t.revenuePassMax, max: t.revenueReviewMax },
+        { result: "FAIL", min: t.revenueReviewMax, max: null },
+      ],
+      result,
+      weight: t.weightRevenueRange,
+      t,
+      nteeCode: profile.ntee_code,
+      keys: [
+        "revenueFailMin",
+        "revenuePassMin",
+        "revenuePassMax",
+        "revenueReviewMax",
+      ],
+      describe: (target, change) =>
+        `Revenue of $${formatNumber(target)} or ${change > 0 ? "more" : "less"} (${change > 0 ? "+" : "-"}$${formatNumber(Math.abs(change))})`,
+    }),
   };
 }
 
@@ -158,6 +207,44 @@ export function checkSpendRate(
     result,
     detail,
     weight: t.weightSpendRate,
+    explanation: explainCheck({
+      value:
+        ratio === undefined || ratio === null || Number.isNaN(ratio)
+          ? null
+          : ratio,
+      unit: "ratio",
+      bands: [
+        { result: "FAIL", min: null, max: t.expenseRatioLowReview },
+        {
+          result: "REVIEW",
+          min: t.expenseRatioLowReview,
+          max: t.expenseRatioPassMin,
+        },
+        {
+          result: "PASS",
+          min: t.expenseRatioPassMin,
+          max: t.expenseRatioPassMax,
+        },
+        {
+          result: "REVIEW",
+          min: t.expenseRatioPassMax,
+          max: t.expenseRatioHighReview,
+        },
+        { result: "FAIL", min: t.expenseRatioHighReview, max: null },
+      ],
+      result,
+      weight: t.weightSpendRate,
+      t,
+      nteeCode: profile.ntee_code,
+      keys: [
+        "expenseRatioLowReview",
+        "expenseRatioPassMin",
+        "expenseRatioPassMax",
+        "expenseRatioHighReview",
+      ],
+      describe: (target, change) =>
+        `A spend rate of ${formatPercent(target)} or ${change > 0 ? "more" : "less"} (currently ${formatPercent(target - change)})`,
+    }),
   };
 }
 
@@ -166,28 +253,40 @@ export function checkSpendRate(
  * PASS: Filed within filing990PassMax years
  * REVIEW: Filed within filing990ReviewMax years
  * FAIL: Older or no filings
+ * A 990-N e-Postcard counts as a filing when it is newer than the last 990.
  */
 export function checkRecent990(
   profile: NonprofitProfile,
   t: VettingThresholds,
+  now: number = Date.now(),
 ): CriterionCheck {
-  const taxPeriod = profile.latest_990?.tax_period;
+  let taxPeriod =
+    profile.filing_count > 0 ? profile.latest_990?.tax_period : undefined;
+  let formType = profile.latest_990?.form_type;
+
+  // A 990-N newer than the last full return is still evidence of activity
+  const epostcard = isActive990nFiler(profile) ? profile.latest_990n : null;
+  if (epostcard && (!taxPeriod || epostcard.tax_period_end > taxPeriod)) {
+    taxPeriod = epostcard.tax_period_end;
+    formType = "990N";
+  }
 
   let result: CheckResult;
   let detail: string;
+  let yearsAgo: number | null = null;
 
-  if (!taxPeriod || profile.filing_count === 0) {
+  if (!taxPeriod) {
     result = "FAIL";
     detail = "No 990 filings on record";
   } else {
-    const yearsAgo = yearsFromTaxPeriod(taxPeriod);
+    yearsAgo = yearsFromTaxPeriod(taxPeriod, now);
 
     if (!Number.isFinite(yearsAgo)) {
       result = "FAIL";
       detail = `Most recent 990 from ${taxPeriod} - tax period could not be parsed`;
     } else if (yearsAgo <= t.filing990PassMax) {
       result = "PASS";
-      detail = `Most recent 990 from ${taxPeriod} (${profile.latest_990?.form_type})`;
+      detail = `Most recent 990 from ${taxPeriod} (${formType})`;
     } else if (yearsAgo <= t.filing990ReviewMax) {
       result = "REVIEW";
       detail = `Most recent 990 from ${taxPeriod} - data is ${yearsAgo.toFixed(1)} years old`;
@@ -203,9 +302,114 @@ export function checkRecent990(
     result,
     detail,
     weight: t.weightRecent990,
+    explanation: explainCheck({
+      value:
+        yearsAgo !== null && Number.isFinite(yearsAgo)
+          ? Math.round(yearsAgo * 100) / 100
+          : null,
+      unit: "years",
+      bands: [
+        { result: "PASS", min: null, max: t.filing990PassMax },
+        {
+          result: "REVIEW",
+          min: t.filing990PassMax,
+          max: t.filing990ReviewMax,
+        },
+        { result: "FAIL", min: t.filing990ReviewMax, max: null },
+      ],
+      result,
+      weight: t.weightRecent990,
+      t,
+      nteeCode: profile.ntee_code,
+      keys: ["filing990PassMax", "filing990ReviewMax"],
+      describe: (target, change) =>
+        `A filing for a tax period within ${target} year${target === 1 ? "" : "s"} (latest is ${(target - change).toFixed(1)} years old)`,
+    }),
+  };
+}
+
+/**
+ * Check 6: Operating Reserves
+ * Months of expenses covered by liquid reserves from the Part X balance sheet:
+ * cash + savings, capped at net assets without donor restrictions (cash the
+ * org holds for a restricted purpose isn't a cushion).
+ * PASS: >= reservesPassMinMonths
+ * REVIEW: >= reservesReviewMinMonths, or balance sheet unavailable
+ * FAIL: < reservesReviewMinMonths
+ */
+export function checkOperatingReserves(
+  profile: NonprofitProfile,
+  t: VettingThresholds,
+): CriterionCheck {
+  const months = calculateReserveMonths(profile);
+
+  let result: CheckResult;
+  let detail: string;
+
+  if (months === null) {
+    result = "REVIEW";
+    detail = "Cannot calculate operating reserves - balance sheet data unavailable";
+  } else if (months < t.reservesReviewMinMonths) {
+    result = "FAIL";
+    detail = `${formatMonths(months)} of operating reserves - at risk of folding mid-grant`;
+  } else if (months < t.reservesPassMinMonths) {
+    result = "REVIEW";
+    detail = `${formatMonths(months)} of operating reserves - thin cushion`;
+  } else {
+    result = "PASS";
+    detail = `${formatMonths(months)} of operating reserves`;
+  }
+
+  const monthlyExpenses = (profile.latest_990?.total_expenses ?? 0) / 12;
+
+  return {
+    name: "operating_reserves",
+    passed: result === "PASS",
+    result,
+    detail,
+    weight: t.weightOperatingReserves,
+    explanation: explainCheck({
+      value: months !== null ? Math.round(months * 100) / 100 : null,
+      unit: "months",
+      bands: [
+        { result: "FAIL", min: null, max: t.reservesReviewMinMonths },
+        {
+          result: "REVIEW",
+          min: t.reservesReviewMinMonths,
+          max: t.reservesPassMinMonths,
+        },
+        { result: "PASS", min: t.reservesPassMinMonths, max: null },
+      ],
+      result,
+      weight: t.weightOperatingReserves,
+      t,
+      nteeCode: profile.ntee_code,
+      keys: ["reservesReviewMinMonths", "reservesPassMinMonths"],
+      describe: (target, change) =>
+        `${formatMonths(target)} of reserves (about $${formatNumber(change * monthlyExpenses)} more unrestricted cash)`,
+    }),
   };
 }
 
+/**
+ * Months of operating expenses covered by liquid unrestricted reserves.
+ * Returns null when the balance sheet or expenses are missing.
+ */
+export function calculateReserveMonths(
+  profile: NonprofitProfile,
+): number | null {
+  const latest = profile.latest_990;
+  const cash = latest?.cash_and_equivalents;
+  const expenses = latest?.total_expenses;
+  if (cash == null || !expenses || expenses <= 0) return null;
+
+  const unrestricted = latest?.unrestricted_net_assets;
+  const reserves = unrestricted != null ? Math.min(cash, unrestricted) : cash;
+
+  const months = reserves / (expenses / 12);
+  return Number.isFinite(months) ? months : null;
+}
+
 // ============================================================================
 // Scoring Calculation
 // ============================================================================
@@ -272,7 +476,8 @@ export function detectRedFlags(
   filings: Filing990Summary[] | undefined,
   t: VettingThresholds,
   courtResult?: CourtRecordsResult,
-  ofacClient?: OfacSdnClient,
+  ofacClient?: SanctionsLookup,
+  now: number = Date.now(),
 ): RedFlag[] {
   const flags: RedFlag[] = [];
 
@@ -292,7 +497,7 @@ export function detectRedFlags(
   if (profile.latest_990) {
     const taxPeriod = profile.latest_990.tax_period;
     if (taxPeriod) {
-      const yearsAgo = yearsFromTaxPeriod(taxPeriod);
+      const yearsAgo = yearsFromTaxPeriod(taxPeriod, now);
       if (yearsAgo > t.redFlagStale990Years) {
         flags.push({
           severity: "HIGH",
@@ -369,6 +574,53 @@ export function detectRedFlags(
     }
   }
 
+  // Contractor concentration — one vendor absorbing most of the budget can
+  // mean the charity is a pass-through for a related business
+  const contractor = profile.latest_990?.largest_contractor;
+  if (
+    contractor?.expense_share != null &&
+    contractor.expense_share > t.redFlagContractorShare
+  ) {
+    flags.push({
+      severity: "MEDIUM",
+      type: "contractor_concentration",
+      detail: `Contractor ${contractor.name} received $${formatNumber(contractor.compensation)} (${formatPercent(contractor.expense_share)} of total expenses) - exceeds ${formatPercent(t.redFlagContractorShare)} threshold`,
+    });
+  }
+
+  // Governance (Part VI) — diversion of assets is disqualifying; a board
+  // without an independent majority needs a human to look at who controls it
+  const governance = profile.latest_990?.governance;
+  if (governance?.material_diversion === true) {
+    flags.push({
+      severity: "HIGH",
+      type: "material_diversion",
+      detail:
+        "Form 990 Part VI reports a significant diversion of assets during the year",
+    });
+  }
+  if (governance && hasIndependentMajority(governance) === false) {
+    flags.push({
+      severity: "MEDIUM",
+      type: "minority_independent_board",
+      detail: `Only ${governance.independent_members} of ${governance.voting_members} voting board members are independent - no independent majority`,
+    });
+  }
+
+  // Public support test (Schedule A) — failing it means the IRS can
+  // reclassify the org as a private foundation
+  if (profile.latest_990?.public_support_passed === false) {
+    const pct = profile.latest_990.public_support_pct;
+    flags.push({
+      severity: "HIGH",
+      type: "public_support_failure",
+      detail:
+        pct != null
+          ? `Failed Schedule A public support test (${formatPercent(pct)} public support) - private foundation reclassification risk`
+          : "Failed Schedule A public support test - private foundation reclassification risk",
+    });
+  }
+
   // Revenue decline check (requires multiple filings from consecutive periods)
   if (filings && filings.length >= 2) {
     const sorted = [...filings].sort((a, b) => b.tax_prd - a.tax_prd);
@@ -377,10 +629,7 @@ export function detectRedFlags(
 
     // Only compare filings within 18 months of each other (tax_prd is YYYYMM).
     // Filings >18 months apart may reflect a gap, not a true decline.
-    const periodGapMonths =
-      (Math.floor(latest.tax_prd / 100) - Math.floor(previous.tax_prd / 100)) *
-        12 +
-      ((latest.tax_prd % 100) - (previous.tax_prd % 100));
+    const periodGapMonths = monthsBetween(latest.tax_prd, previous.tax_prd);
 
     if (
       periodGapMonths <= 18 &&
@@ -404,6 +653,40 @@ export function detectRedFlags(
     }
   }
 
+  // Multi-year patterns: one deficit year is noise, a run of them is not
+  if (filings && filings.length >= 2) {
+    const sorted = [...filings].sort((a, b) => b.tax_prd - a.tax_prd);
+
+    const deficitYears = countConsecutiveDeficits(sorted);
+    if (deficitYears >= t.redFlagDeficitYears) {
+      flags.push({
+        severity: "MEDIUM",
+        type: "persistent_deficit",
+        detail: `Expenses exceeded revenue in each of the last ${deficitYears} filings`,
+      });
+    }
+
+    // Earliest vs latest net assets across whatever history is available
+    const withNetAssets = sorted.filter(
+      (f) => f.totnetassetend !== undefined && f.totnetassetend !== null,
+    );
+    if (withNetAssets.length >= 2) {
+      const latestNet = withNetAssets[0].totnetassetend!;
+      const earliest = withNetAssets[withNetAssets.length - 1];
+      const earliestNet = earliest.totnetassetend!;
+      if (earliestNet > 0) {
+        const erosion = (earliestNet - latestNet) / earliestNet;
+        if (erosion > t.redFlagNetAssetErosionPercent) {
+          flags.push({
+            severity: "MEDIUM",
+            type: "net_asset_erosion",
+            detail: `Net assets fell ${formatPercent(erosion)} since tax year ${earliest.tax_prd_yr} ($${formatNumber(earliestNet)} → $${formatNumber(latestNet)})`,
+          });
+        }
+      }
+    }
+  }
+
   // Court records (requires CourtListener API result)
   if (courtResult && courtResult.found && courtResult.caseCount > 0) {
     const cases: CourtCaseSummary[] = courtResult.cases.map((c) => ({
@@ -436,23 +719,133 @@ export function detectRedFlags(
   return flags;
 }
 
+// ============================================================================
+// Governance Assessment (Part VI)
+// ============================================================================
+
+// Practice weights (sum = 100). Reported separately from the financial score.
+const GOVERNANCE_WEIGHTS = {
+  conflict_of_interest_policy: 25,
+  independent_board_majority: 25,
+  whistleblower_policy: 15,
+  ceo_compensation_process: 15,
+  document_retention_policy: 10,
+  no_family_or_business_relationships: 10,
+} as const;
+
+/**
+ * True when independent voting members are a strict majority of the board.
+ * Null when either count is missing or the board size is zero.
+ */
+export function hasIndependentMajority(
+  governance: GovernanceSummary,
+): boolean | null {
+  const voting = governance.voting_members;
+  const independent = governance.independent_members;
+  if (voting == null || independent == null || voting <= 0) return null;
+  return independent * 2 > voting;
+}
+
+/**
+ * Score Part VI governance practices 0-100.
+ * Unanswered questions are excluded from the denominator rather than
+ * counted against the org. Returns null when Part VI was not reported.
+ */
+export function assessGovernance(
+  profile: NonprofitProfile,
+): GovernanceAssessment | null {
+  const g = profile.latest_990?.governance;
+  if (!g) return null;
+
+  const independentMajority = hasIndependentMajority(g);
+  const practice = (
+    name: keyof typeof GOVERNANCE_WEIGHTS,
+    inPlace: boolean | null,
+    detail: string,
+  ): GovernancePractice => ({
+    name,
+    in_place: inPlace,
+    weight: GOVERNANCE_WEIGHTS[name],
+    detail: inPlace === null ? "Not reported" : detail,
+  });
+
+  const practices: GovernancePractice[] = [
+    practice(
+      "conflict_of_interest_policy",
+      g.conflict_of_interest_policy,
+      g.conflict_of_interest_policy
+        ? "Written conflict of interest policy"
+        : "No written conflict of interest policy",
+    ),
+    practice(
+      "independent_board_majority",
+      independentMajority,
+      `${g.independent_members} of ${g.voting_members} voting members independent`,
+    ),
+    practice(
+      "whistleblower_policy",
+      g.whistleblower_policy,
+      g.whistleblower_policy
+        ? "Written whistleblower policy"
+        : "No written whistleblower policy",
+    ),
+    practice(
+      "ceo_compensation_process",
+      g.ceo_compensation_process,
+      g.ceo_compensation_process
+        ? "Documented process for setting CEO compensation"
+        : "No documented process for setting CEO compensation",
+    ),
+    practice(
+      "document_retention_policy",
+      g.document_retention_policy,
+      g.document_retention_policy
+        ? "Written document retention policy"
+        : "No written document retention policy",
+    ),
+    practice(
+      "no_family_or_business_relationships",
+      g.family_or_business_relationship === null
+        ? null
+        : !g.family_or_business_relationship,
+      g.family_or_business_relationship
+        ? "Family or business relationships among officers/directors"
+        : "No family or business relationships among officers/directors",
+    ),
+  ];
+
+  const answered = practices.filter((p) => p.in_place !== null);
+  const possible = answered.reduce((sum, p) => sum + p.weight, 0);
+  const earned = answered
+    .filter((p) => p.in_place)
+    .reduce((sum, p) => sum + p.weight, 0);
+
+  return {
+    score: possible > 0 ? Math.round((earned / possible) * 100) : null,
+    practices,
+  };
+}
+
 // ============================================================================
 // Scoring-Only Helper (used by runFullScreening)
 // ============================================================================
 
 /**
- * Run the 4 scoring checks and return checks + score.
+ * Run the 5 scoring checks and return checks + score.
  * Separated from the orchestrator for testability.
+ * `now` (epoch ms) is the clock filing age is measured against.
  */
 export function runScoringChecks(
   profile: NonprofitProfile,
   t: VettingThresholds,
+  now: number = Date.now(),
 ): { checks: CriterionCheck[]; score: number } {
   const checks: CriterionCheck[] = [
     checkYearsOperating(profile, t),
     checkRevenueRange(profile, t),
     checkSpendRate(profile, t),
-    checkRecent990(profile, t),
+    checkRecent990(profile, t, now),
+    checkOperatingReserves(profile, t),
   ];
 
   const score = calculateScore(checks);
@@ -467,15 +860,18 @@ export function runScoringChecks(
  * Run full screening pipeline: gates → scoring → red flags.
  *
  * If gates block, returns REJECT with null score/checks.
+ * Deterministic given its arguments — `now` (epoch ms) pins the clock
+ * filing age is measured against, so replay_screening can reproduce it.
  */
 export function runFullScreening(
   profile: NonprofitProfile,
   filings: Filing990Summary[] | undefined,
   t: VettingThresholds,
-  irsClient: IrsRevocationClient,
-  ofacClient: OfacSdnClient,
+  irsClient: RevocationLookup,
+  ofacClient: SanctionsLookup,
   portfolioFitConfig: PortfolioFitConfig,
   courtResult?: CourtRecordsResult,
+  now: number = Date.now(),
 ): ScreeningResult {
   // Layer 1: Pre-screen gates
   const gateResult = runPreScreenGates(
@@ -483,6 +879,8 @@ export function runFullScreening(
     irsClient,
     ofacClient,
     portfolioFitConfig,
+    t,
+    now,
   );
 
   if (!gateResult.all_passed) {
@@ -507,14 +905,22 @@ export function runFullScreening(
         `Gate failure: ${gateResult.blocking_gate ?? "unknown gate"}`,
       ],
       red_flags: [],
+      governance: null,
     };
   }
 
-  // Layer 2: Scoring engine (4 checks x 25 pts)
-  const { checks, score } = runScoringChecks(profile, t);
+  // Layer 2: Scoring engine (5 weighted checks, 100 pts)
+  const { checks, score } = runScoringChecks(profile, t, now);
 
   // Layer 3: Red flag overlay
-  const redFlags = detectRedFlags(profile, filings, t, courtResult, ofacClient);
+  const redFlags = detectRedFlags(
+    profile,
+    filings,
+    t,
+    courtResult,
+    ofacClient,
+    now,
+  );
 
   // Determine recommendation
   const recommendation = getRecommendation(score, redFlags, t);
@@ -531,6 +937,7 @@ export function runFullScreening(
     checks,
     redFlags,
     profile.years_operating,
+    t.scorePassMin,
   );
 
   return {
@@ -545,6 +952,7 @@ export function runFullScreening(
     recommendation,
     review_reasons,
     red_flags: redFlags,
+    governance: assessGovernance(profile),
   };
 }
 
@@ -556,7 +964,7 @@ export function runRedFlagCheck(
   filings: Filing990Summary[] | undefined,
   t: VettingThresholds,
   courtResult?: CourtRecordsResult,
-  ofacClient?: OfacSdnClient,
+  ofacClient?: SanctionsLookup,
 ): RedFlagResult {
   const flags = detectRedFlags(profile, filings, t, courtResult, ofacClient);
 
@@ -597,11 +1005,32 @@ function buildReviewReasons(
   return reasons;
 }
 
-function yearsFromTaxPeriod(taxPeriod: string): number {
-  const [year, month] = taxPeriod.split("-").map(Number);
-  if (!Number.isFinite(year) || !Number.isFinite(month)) return Infinity;
-  const filingDate = new Date(year, month - 1, 1);
-  return (Date.now() - filingDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+/**
+ * Run of deficit filings starting at the most recent (filings sorted newest
+ * first). A gap of more than 18 months ends the run — a missing year may
+ * have been a surplus.
+ */
+function countConsecutiveDeficits(sorted: Filing990Summary[]): number {
+  let count = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const f = sorted[i];
+    if (i > 0 && monthsBetween(sorted[i - 1].tax_prd, f.tax_prd) > 18) break;
+    if (!(f.totfuncexpns > f.totrevenue)) break;
+    count++;
+  }
+  return count;
+}
+
+/** Months from `earlier` to `later`, both YYYYMM. */
+function monthsBetween(later: number, earlier: number): number {
+  return (
+    (Math.floor(later / 100) - Math.floor(earlier / 100)) * 12 +
+    ((later % 100) - (earlier % 100))
+  );
+}
+
+function isActive990nFiler(profile: NonprofitProfile): boolean {
+  return !!profile.latest_990n && !profile.latest_990n.terminated;
 }
 
 function formatNumber(num: number): string {
@@ -619,3 +1048,7 @@ function formatNumber(num: number): string {
 function formatPercent(ratio: number): string {
   return `${(ratio * 100).toFixed(1)}%`;
 }
+
+function formatMonths(months: number): string {
+  return `${months.toFixed(1)} month${months.toFixed(1) === "1.0" ? "" : "s"}`;
+}
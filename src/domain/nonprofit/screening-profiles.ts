@@ -0,0 +1,276 @@
+// ============================================================================
+// Screening Profiles
+//
+// Named per-funder overrides of the env-driven thresholds (including check
+// weights) and portfolio-fit policy, loaded once at startup from a JSON file:
+//
+//   {
+//     "conservative": {
+//       "description": "Larger, established orgs only",
+//       "thresholds": { "scorePassMin": 85, "yearsPassMin": 5 },
+//       "portfolioFit": { "allowedNteeCategories": ["B", "E"] }
+//     }
+//   }
+//
+// Omitted fields inherit from the env config. "default" is reserved for the
+// env config itself. Sector (NTEE) adjustments still apply on top.
+// ============================================================================
+
+import fs from "fs";
+import type {
+  PortfolioFitConfig,
+  ScreeningProfile,
+  VettingThresholds,
+} from "./types.js";
+import { validateThresholds } from "../../core/config.js";
+import { validateSectorOverrides } from "./sector-thresholds.js";
+import { logInfo } from "../../core/logging.js";
+
+export const DEFAULT_PROFILE = "default";
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const PROFILE_KEYS = new Set(["description", "thresholds", "portfolioFit"]);
+
+export type ScreeningProfiles = Map<string, ScreeningProfile>;
+
+interface ProfileBase {
+  thresholds: VettingThresholds;
+  portfolioFit: PortfolioFitConfig;
+}
+
+/**
+ * Read profiles from `filePath`. A missing file is not an error — only the
+ * default profile is available. Invalid profiles throw at startup.
+ */
+export function loadScreeningProfiles(
+  filePath: string,
+  base: ProfileBase,
+): ScreeningProfiles {
+  if (!fs.existsSync(filePath)) {
+    return parseScreeningProfiles({}, base);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `Invalid screening profiles file ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const profiles = parseScreeningProfiles(raw, base);
+  logInfo(`Loaded ${profiles.size - 1} screening profile(s) from ${filePath}`);
+  return profiles;
+}
+
+/**
+ * Validate raw profile definitions and merge each onto the base config.
+ * Collects every problem and throws once, like validateThresholds.
+ */
+export function parseScreeningProfiles(
+  raw: unknown,
+  base: ProfileBase,
+): ScreeningProfiles {
+  const profiles: ScreeningProfiles = new Map([
+    [
+      DEFAULT_PROFILE,
+      {
+        name: DEFAULT_PROFILE,
+        description:
+          "Server-wide thresholds and portfolio fit from environment variables",
+        thresholds: base.thresholds,
+        portfolioFit: base.portfolioFit,
+      },
+    ],
+  ]);
+
+  if (!isPlainObject(raw)) {
+    throw new Error(
+      "Invalid screening profiles: expected a JSON object keyed by profile name",
+    );
+  }
+
+  const errors: string[] = [];
+  for (const [name, def] of Object.entries(raw)) {
+    const profileErrors: string[] = [];
+    const profile = parseProfile(name, def, base, profileErrors);
+    if (profile) profiles.set(name, profile);
+    errors.push(...profileErrors.map((e) => `${name}: ${e}`));
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid screening profiles:\n  - ${errors.join("\n  - ")}`,
+    );
+  }
+  return profiles;
+}
+
+/** Error message for a profile name that isn't configured. */
+export function unknownProfileError(
+  name: string,
+  profiles: ScreeningProfiles | undefined,
+): string {
+  const available = profiles ? [...profiles.keys()] : [DEFAULT_PROFILE];
+  return `Unknown screening profile "${name}". Available: ${available.join(", ")}`;
+}
+
+/** Threshold fields where `thresholds` differs from `defaults`. */
+export function thresholdOverrides(
+  thresholds: VettingThresholds,
+  defaults: VettingThresholds,
+): Partial<VettingThresholds> {
+  const overrides: Partial<VettingThresholds> = {};
+  for (const key of Object.keys(defaults) as Array<keyof VettingThresholds>) {
+    if (thresholds[key] !== defaults[key]) {
+      overrides[key] = thresholds[key];
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Merge raw threshold overrides (e.g. parsed JSON) onto `base`, pushing a
+ * message to `errors` for unknown keys and non-numeric values. Invariants
+ * are left to validateThresholds().
+ */
+export function applyThresholdOverrides(
+  base: VettingThresholds,
+  raw: unknown,
+  errors: string[],
+): VettingThresholds {
+  const thresholds = { ...base };
+  if (raw === undefined) return thresholds;
+  if (!isPlainObject(raw)) {
+    errors.push("thresholds must be an object");
+    return thresholds;
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in base)) {
+      errors.push(`unknown threshold "${key}"`);
+    } else if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`threshold "${key}" must be a finite number`);
+    } else {
+      thresholds[key as keyof VettingThresholds] = value;
+    }
+  }
+  return thresholds;
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+function parseProfile(
+  name: string,
+  def: unknown,
+  base: ProfileBase,
+  errors: string[],
+): ScreeningProfile | null {
+  if (name === DEFAULT_PROFILE) {
+    errors.push(`"${DEFAULT_PROFILE}" is reserved for the environment config`);
+    return null;
+  }
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    errors.push(
+      "name must be 1-40 lowercase letters, digits, '-' or '_' (starting with a letter or digit)",
+    );
+    return null;
+  }
+  if (!isPlainObject(def)) {
+    errors.push("profile must be an object");
+    return null;
+  }
+
+  for (const key of Object.keys(def)) {
+    if (!PROFILE_KEYS.has(key)) errors.push(`unknown field "${key}"`);
+  }
+
+  if (def.description !== undefined && typeof def.description !== "string") {
+    errors.push("description must be a string");
+  }
+
+  const thresholds = applyThresholdOverrides(
+    base.thresholds,
+    def.thresholds,
+    errors,
+  );
+
+  const portfolioFit = parsePortfolioFit(
+    def.portfolioFit,
+    base.portfolioFit,
+    errors,
+  );
+
+  if (errors.length > 0) return null;
+
+  try {
+    validateThresholds(thresholds);
+    validateSectorOverrides(thresholds);
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : String(err));
+    return null;
+  }
+
+  return {
+    name,
+    description: typeof def.description === "string" ? def.description : "",
+    thresholds,
+    portfolioFit,
+  };
+}
+
+function parsePortfolioFit(
+  raw: unknown,
+  base: PortfolioFitConfig,
+  errors: string[],
+): PortfolioFitConfig {
+  const fit = { ...base };
+  if (raw === undefined) return fit;
+  if (!isPlainObject(raw)) {
+    errors.push("portfolioFit must be an object");
+    return fit;
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "enabled") {
+      if (typeof value !== "boolean") {
+        errors.push("portfolioFit.enabled must be a boolean");
+      } else {
+        fit.enabled = value;
+      }
+    } else if (key === "allowedNteeCategories") {
+      if (!isStringArray(value)) {
+        errors.push(
+          "portfolioFit.allowedNteeCategories must be an array of strings",
+        );
+      } else {
+        fit.allowedNteeCategories = value
+          .map((s) => s.trim().toUpperCase())
+          .filter(Boolean);
+      }
+    } else if (key === "excludedEins" || key === "includedEins") {
+      const eins = isStringArray(value)
+        ? value.map((s) => s.trim().replace(/[-\s]/g, "")).filter(Boolean)
+        : null;
+      if (!eins || eins.some((ein) => !/^\d{9}$/.test(ein))) {
+        errors.push(`portfolioFit.${key} must be an array of 9-digit EINs`);
+      } else {
+        fit[key] = eins;
+      }
+    } else {
+      errors.push(`unknown portfolioFit field "${key}"`);
+    }
+  }
+  return fit;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
@@ -0,0 +1,216 @@
+// ============================================================================
+// Screening Replay
+//
+// Every screening saves a snapshot of its inputs: the profile and filings it
+// scored, the resolved thresholds and portfolio-fit policy, the answers the
+// IRS revocation and OFAC lookups gave, the data manifest timestamps, and the
+// clock filing age was measured against. replayScreening() feeds that
+// snapshot back through runFullScreening() — no network, no live lists — to
+// show an auditor the decision follows from the data and rules at the time.
+// ============================================================================
+
+import type {
+  IrsRevocationResult,
+  OfacFuzzyResult,
+  OfacSanctionsResult,
+  ReplayScreeningResult,
+  RevocationLookup,
+  SanctionsLookup,
+  ScreeningInputs,
+  ScreeningResult,
+  ToolResponse,
+} from "./types.js";
+import type { VettingStore } from "../../data-sources/vetting-store.js";
+import { runFullScreening } from "./scoring.js";
+import { diffScreenings } from "./history.js";
+import { formatEin } from "./date-utils.js";
+import { logDebug, logError } from "../../core/logging.js";
+
+type RecordedAnswers = Pick<
+  ScreeningInputs,
+  "irs_revocation" | "ofac_sanctions" | "ofac_fuzzy"
+>;
+
+export interface RecordingLookups {
+  irs: RevocationLookup;
+  ofac: SanctionsLookup;
+  /** Answers given so far. Throws if a gate lookup never ran. */
+  answers(): RecordedAnswers;
+}
+
+/**
+ * Wrap the live lookups so each answer is kept for the input snapshot.
+ * The snapshot then holds exactly what the screening saw, even if a data
+ * refresh swaps the lists mid-screening.
+ */
+export function recordLookups(
+  irs: RevocationLookup,
+  ofac: SanctionsLookup,
+): RecordingLookups {
+  let irsRevocation: IrsRevocationResult | undefined;
+  let ofacSanctions: OfacSanctionsResult | undefined;
+  let ofacFuzzy: OfacFuzzyResult | null = null;
+
+  return {
+    irs: {
+      check: (ein) => (irsRevocation = irs.check(ein)),
+    },
+    ofac: {
+      check: (name) => (ofacSanctions = ofac.check(name)),
+      fuzzyCheck: (name) => (ofacFuzzy = ofac.fuzzyCheck(name)),
+    },
+    answers() {
+      if (!irsRevocation || !ofacSanctions) {
+        throw new Error("IRS/OFAC gate lookups were not run");
+      }
+      return {
+        irs_revocation: irsRevocation,
+        ofac_sanctions: ofacSanctions,
+        ofac_fuzzy: ofacFuzzy,
+      };
+    },
+  };
+}
+
+/** Lookups that answer from a saved snapshot instead of the live lists. */
+export function replayLookups(inputs: ScreeningInputs): {
+  irs: RevocationLookup;
+  ofac: SanctionsLookup;
+} {
+  return {
+    irs: { check: () => inputs.irs_revocation },
+    ofac: {
+      check: () => inputs.ofac_sanctions,
+      fuzzyCheck: () => {
+        if (!inputs.ofac_fuzzy) {
+          throw new Error(
+            "snapshot has no OFAC near-match lookup, but replay needed one",
+          );
+        }
+        return inputs.ofac_fuzzy;
+      },
+    },
+  };
+}
+
+/**
+ * Re-run a saved screening from its input snapshot and compare the result
+ * with what was saved. Defaults to the latest screening for the EIN.
+ */
+export function replayScreening(
+  ein: string,
+  vettingStore: VettingStore | undefined,
+  opts: { screeningId?: number } = {},
+): ToolResponse<ReplayScreeningResult> {
+  try {
+    logDebug(`replayScreening for EIN: ${ein}`);
+
+    if (!ein) {
+      return {
+        success: false,
+        error: "EIN parameter is required",
+        attribution: "",
+      };
+    }
+    if (!vettingStore) {
+      return {
+        success: false,
+        error:
+          "VettingStore not available. Check server logs for initialization errors.",
+        attribution: "",
+      };
+    }
+
+    const history = vettingStore.getHistoryByEin(ein);
+    if (history.length === 0) {
+      return {
+        success: false,
+        error: `No screenings recorded for EIN: ${ein}. Run screen_nonprofit first.`,
+        attribution: "",
+      };
+    }
+
+    const record =
+      opts.screeningId !== undefined
+        ? history.find((r) => r.id === opts.screeningId)
+        : history[0];
+    if (!record) {
+      return {
+        success: false,
+        error: `Screening ${opts.screeningId} not found for EIN: ${ein}`,
+        attribution: "",
+      };
+    }
+
+    const inputs = record.inputs_json
+      ? (JSON.parse(record.inputs_json) as Partial<ScreeningInputs>)
+      : null;
+    if (!inputs || !hasFullSnapshot(inputs)) {
+      return {
+        success: false,
+        error: `Screening ${record.id} was saved without a full input snapshot and can't be replayed. Re-screen with force_refresh: true to record one.`,
+        attribution: "",
+      };
+    }
+
+    const lookups = replayLookups(inputs);
+    const replayed = runFullScreening(
+      inputs.profile,
+      inputs.filings ?? undefined,
+      inputs.thresholds,
+      lookups.irs,
+      lookups.ofac,
+      inputs.portfolio_fit,
+      inputs.court ?? undefined,
+      new Date(inputs.screened_at).getTime(),
+    );
+    const saved = JSON.parse(record.result_json) as ScreeningResult;
+
+    return {
+      success: true,
+      data: {
+        ein: formatEin(record.ein),
+        name: record.name,
+        screening_id: record.id,
+        vetted_at: record.vetted_at,
+        profile: record.profile,
+        reproduced:
+          JSON.stringify(scoredFields(saved)) ===
+          JSON.stringify(scoredFields(replayed)),
+        diff: diffScreenings(saved, replayed),
+        result: replayed,
+        inputs,
+      },
+      attribution: "",
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("replayScreening failed:", message);
+    return {
+      success: false,
+      error: `replayScreening failed: ${message}`,
+      attribution: "",
+    };
+  }
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/** Screenings saved before full snapshots carry only profile/filings/court. */
+function hasFullSnapshot(
+  inputs: Partial<ScreeningInputs>,
+): inputs is ScreeningInputs {
+  return inputs.screened_at !== undefined && inputs.thresholds !== undefined;
+}
+
+/**
+ * The part of a saved result runFullScreening produces. `trend` and
+ * `profile` are added around it by the pipeline; JSON round-tripping drops
+ * undefined fields, so both sides are compared as JSON.
+ */
+function scoredFields(result: ScreeningResult): ScreeningResult {
+  const { trend: _trend, profile: _profile, ...rest } = result;
+  return JSON.parse(JSON.stringify(rest)) as ScreeningResult;
+}
@@ -98,6 +98,18 @@ export function resolveThresholds(
   return { ...base, ...overrides };
 }
 
+/**
+ * The sector overrides resolveThresholds() applies for an NTEE code, or
+ * null when the code's sector uses the base thresholds unchanged.
+ */
+export function getSectorOverrides(
+  nteeCode: string,
+): { sector: string; overrides: Partial<VettingThresholds> } | null {
+  const category = getNteeMajorCategory(nteeCode);
+  const overrides = category ? SECTOR_OVERRIDES[category] : undefined;
+  return category && overrides ? { sector: category, overrides } : null;
+}
+
 /**
  * Get the list of supported NTEE major categories with sector overrides.
  * Useful for documentation and debugging.
@@ -106,9 +118,17 @@ export function getSupportedSectors(): string[] {
   return Object.keys(SECTOR_OVERRIDES).sort();
 }
 
+/**
+ * Validate every sector override merged onto the given base thresholds.
+ * Screening profiles call this too — a profile's base must still be valid
+ * once sector adjustments are layered on top.
+ */
+export function validateSectorOverrides(base: VettingThresholds): void {
+  for (const [, overrides] of Object.entries(SECTOR_OVERRIDES)) {
+    validateThresholds({ ...base, ...overrides });
+  }
+}
+
 // Validate all sector overrides at module load time.
 // Throws on invalid — caught at startup, not per-request.
-const _baseForValidation = loadThresholds();
-for (const [, overrides] of Object.entries(SECTOR_OVERRIDES)) {
-  validateThresholds({ ..._baseForValidation, ...overrides });
-}
+validateSectorOverrides(loadThresholds());
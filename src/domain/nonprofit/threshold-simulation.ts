@@ -0,0 +1,221 @@
+// ============================================================================
+// Threshold What-If Simulation
+//
+// Re-scores the latest saved screening of every vetted EIN from its saved
+// inputs (runScoringChecks → detectRedFlags → getRecommendation, no network)
+// under base thresholds and under base + overrides, and reports which orgs
+// would change recommendation. Gates don't depend on thresholds, so
+// gate-blocked screenings stay REJECT.
+// ============================================================================
+
+import type {
+  RecommendationCounts,
+  RecommendationTransition,
+  ScreeningInputs,
+  ScreeningResult,
+  SimulatedMove,
+  ThresholdSimulationResult,
+  ToolResponse,
+  VettingThresholds,
+} from "./types.js";
+import type {
+  VettedRecord,
+  VettingStore,
+} from "../../data-sources/vetting-store.js";
+import { validateThresholds } from "../../core/config.js";
+import {
+  runScoringChecks,
+  detectRedFlags,
+  getRecommendation,
+} from "./scoring.js";
+import {
+  resolveThresholds,
+  validateSectorOverrides,
+} from "./sector-thresholds.js";
+import {
+  applyThresholdOverrides,
+  thresholdOverrides,
+} from "./screening-profiles.js";
+import { formatEin } from "./date-utils.js";
+import { logError } from "../../core/logging.js";
+
+const DEFAULT_MOVED_LIMIT = 50;
+const MAX_MOVED_LIMIT = 500;
+
+export interface SimulateThresholdsOptions {
+  /** Screening profile whose saved screenings and thresholds are the baseline. */
+  profile: string;
+  baseThresholds: VettingThresholds;
+  /** Max moved orgs to list (counts always cover the whole portfolio). */
+  limit?: number;
+}
+
+interface Rescore {
+  recommendation: ScreeningResult["recommendation"];
+  score: number | null;
+}
+
+/**
+ * Simulate `overrides` (a partial VettingThresholds, typically parsed tool
+ * input) against the stored portfolio.
+ */
+export function simulateThresholds(
+  vettingStore: VettingStore,
+  overrides: unknown,
+  opts: SimulateThresholdsOptions,
+): ToolResponse<ThresholdSimulationResult> {
+  if (overrides === undefined) {
+    return {
+      success: false,
+      error: "overrides parameter is required",
+      attribution: "",
+    };
+  }
+
+  try {
+    const errors: string[] = [];
+    const scenario = applyThresholdOverrides(
+      opts.baseThresholds,
+      overrides,
+      errors,
+    );
+    if (errors.length === 0) {
+      try {
+        validateThresholds(scenario);
+        validateSectorOverrides(scenario);
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Invalid threshold overrides: ${errors.join("; ")}`,
+        attribution: "",
+      };
+    }
+
+    const records = vettingStore.listLatestPerEin(opts.profile);
+    const result: ThresholdSimulationResult = {
+      profile: opts.profile,
+      overrides: thresholdOverrides(scenario, opts.baseThresholds),
+      screenings: records.length,
+      simulated: 0,
+      skipped_no_inputs: 0,
+      before: emptyCounts(),
+      after: emptyCounts(),
+      transitions: [],
+      moved_total: 0,
+      moved: [],
+      drifted: 0,
+    };
+
+    const moved: SimulatedMove[] = [];
+    for (const record of records) {
+      if (!record.inputs_json) {
+        result.skipped_no_inputs++;
+        continue;
+      }
+
+      const saved = JSON.parse(record.result_json) as ScreeningResult;
+      const inputs = JSON.parse(record.inputs_json) as ScreeningInputs;
+      const before = rescore(saved, inputs, opts.baseThresholds);
+      const after = rescore(saved, inputs, scenario);
+
+      result.simulated++;
+      result.before[before.recommendation]++;
+      result.after[after.recommendation]++;
+      if (before.recommendation !== saved.recommendation) result.drifted++;
+
+      if (before.recommendation !== after.recommendation) {
+        moved.push(toMove(record, before, after));
+      }
+    }
+
+    moved.sort(
+      (a, b) =>
+        Math.abs((b.score_after ?? 0) - (b.score_before ?? 0)) -
+          Math.abs((a.score_after ?? 0) - (a.score_before ?? 0)) ||
+        a.ein.localeCompare(b.ein),
+    );
+    const limit = Math.max(
+      1,
+      Math.min(opts.limit ?? DEFAULT_MOVED_LIMIT, MAX_MOVED_LIMIT),
+    );
+    result.moved_total = moved.length;
+    result.moved = moved.slice(0, limit);
+    result.transitions = countTransitions(moved);
+
+    return { success: true, data: result, attribution: "" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("simulateThresholds failed:", message);
+    return {
+      success: false,
+      error: `simulateThresholds failed: ${message}`,
+      attribution: "",
+    };
+  }
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/**
+ * Re-run the scoring and red-flag layers the way runFullScreening does.
+ * The OFAC near-match flag needs the live SDN list and doesn't depend on
+ * thresholds, so it is carried over from the saved result.
+ */
+function rescore(
+  saved: ScreeningResult,
+  inputs: ScreeningInputs,
+  base: VettingThresholds,
+): Rescore {
+  if (saved.gate_blocked) {
+    return { recommendation: "REJECT", score: null };
+  }
+
+  const t = resolveThresholds(base, inputs.profile.ntee_code);
+  const { score } = runScoringChecks(inputs.profile, t);
+  const redFlags = [
+    ...detectRedFlags(
+      inputs.profile,
+      inputs.filings ?? undefined,
+      t,
+      inputs.court ?? undefined,
+    ),
+    ...saved.red_flags.filter((f) => f.type === "ofac_near_match"),
+  ];
+  return { recommendation: getRecommendation(score, redFlags, t), score };
+}
+
+function emptyCounts(): RecommendationCounts {
+  return { PASS: 0, REVIEW: 0, REJECT: 0 };
+}
+
+function toMove(
+  record: VettedRecord,
+  before: Rescore,
+  after: Rescore,
+): SimulatedMove {
+  return {
+    ein: formatEin(record.ein),
+    name: record.name,
+    from: before.recommendation,
+    to: after.recommendation,
+    score_before: before.score,
+    score_after: after.score,
+  };
+}
+
+function countTransitions(moved: SimulatedMove[]): RecommendationTransition[] {
+  const counts = new Map<string, RecommendationTransition>();
+  for (const m of moved) {
+    const key = `${m.from}→${m.to}`;
+    const entry = counts.get(key) ?? { from: m.from, to: m.to, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
@@ -11,30 +11,45 @@
 import type {
   ToolResponse,
   ScreeningResult,
+  ScreeningInputs,
   NonprofitProfile,
   VettingThresholds,
   PortfolioFitConfig,
   CourtRecordsResult,
+  DataManifest,
   Filing990Summary,
   RedFlagResult,
+  GrantsMadeResult,
+  GrantRecipientSummary,
+  FinancialTrendsResult,
 } from "./types.js";
 import type { GtFilingIndexEntry, Xml990ExtractedData } from "./types/xml-990.js";
 import type { IrsRevocationClient } from "../red-flags/irs-revocation-client.js";
 import type { OfacSdnClient } from "../red-flags/ofac-sdn-client.js";
+import type { EpostcardClient } from "../red-flags/epostcard-client.js";
 import type { CourtListenerClient } from "../red-flags/courtlistener-client.js";
 import type { DiscoveryIndex } from "../../data-sources/discovery-index.js";
 import type { Xml990Store } from "../../data-sources/xml-990-store.js";
 import type { GivingTuesdayClient } from "../../data-sources/givingtuesday-client.js";
 import type { ConcordanceIndex } from "../../data-sources/concordance.js";
-import { Xml990Parser } from "./xml-parser.js";
+import { Xml990Parser, XML_EXTRACT_VERSION } from "./xml-parser.js";
 import { buildProfileFromLocal, buildFilingsAdapter } from "./local-profile-builder.js";
 import { runFullScreening, runRedFlagCheck } from "./scoring.js";
+import { recordLookups } from "./screening-replay.js";
+import { computeFinancialTrends, MAX_TREND_YEARS } from "./trends.js";
 import { resolveThresholds } from "./sector-thresholds.js";
+import { formatEin } from "./date-utils.js";
 import { logDebug, logError } from "../../core/logging.js";
 
 const ATTRIBUTION =
   "Data provided by IRS BMF + GivingTuesday Data Commons (ODbL 1.0)";
 
+/** Grants >= this share of total expenses marks the org as a pass-through. */
+export const PASS_THROUGH_GRANT_RATIO = 0.5;
+
+const DEFAULT_GRANT_RECIPIENTS = 50;
+const MAX_GRANT_RECIPIENTS = 500;
+
 export interface LocalScreeningDeps {
   discoveryIndex: DiscoveryIndex;
   givingTuesdayClient: GivingTuesdayClient;
@@ -44,7 +59,16 @@ export interface LocalScreeningDeps {
   irsClient: IrsRevocationClient;
   ofacClient: OfacSdnClient;
   portfolioFitConfig: PortfolioFitConfig;
+  /** 990-N e-Postcard lookup; absent means small filers look filing-less. */
+  epostcardClient?: EpostcardClient;
   courtClient?: CourtListenerClient;
+  /** IRS/OFAC/990-N download timestamps, recorded in the input snapshot. */
+  dataManifest?: DataManifest;
+}
+
+/** Screening response plus the input snapshot the pipeline persists. */
+export interface ScreeningResponse extends ToolResponse<ScreeningResult> {
+  inputs?: ScreeningInputs;
 }
 
 // ============================================================================
@@ -54,7 +78,7 @@ export interface LocalScreeningDeps {
 interface LocalProfileResolution {
   profile: NonprofitProfile;
   filings: GtFilingIndexEntry[];
-  filingsAdapter: Filing990Summary[] | undefined;
+  latestObjectId: string | null; // XML extract behind profile.latest_990
 }
 
 /**
@@ -65,7 +89,9 @@ interface LocalProfileResolution {
  * 2. Fetch GivingTuesday filing index
  * 3. Get or build latest XML extract (fetch+parse on cache miss)
  * 4. buildProfileFromLocal()
- * 5. buildRevenueDeclineAdapter()
+ *
+ * Multi-filing history is left to the callers that need it
+ * (ensureRecentFilings).
  */
 async function resolveLocalProfile(
   ein: string,
@@ -92,21 +118,25 @@ async function resolveLocalProfile(
   // 2. GivingTuesday filing index
   const filings = await deps.givingTuesdayClient.getFilingIndex(ein);
 
-  // 3. Latest XML extract (fetch+parse on cache miss)
-  let latestExtract = deps.xml990Store.getLatestExtract(ein);
-  if (!latestExtract && filings.length > 0) {
-    latestExtract = await fetchAndParseNthFiling(ein, filings, 0, deps);
-  }
+  // 3. Latest XML extract (fetch+parse on cache miss or outdated extract)
+  const latestExtract = await getLatestExtract(ein, filings, deps);
 
-  // 4. Build profile
-  const { profile } = buildProfileFromLocal(candidate, filings, latestExtract);
-
-  // 5. Revenue decline adapter
-  const filingsAdapter = buildRevenueDeclineAdapter(ein, filings, deps);
+  // 4. Build profile (990-N covers orgs too small to file an XML return)
+  const epostcard = deps.epostcardClient?.lookup(ein) ?? null;
+  const { profile } = buildProfileFromLocal(
+    candidate,
+    filings,
+    latestExtract,
+    epostcard,
+  );
 
   return {
     success: true,
-    data: { profile, filings, filingsAdapter },
+    data: {
+      profile,
+      filings,
+      latestObjectId: latestExtract?.objectId ?? null,
+    },
     attribution: ATTRIBUTION,
   };
 }
@@ -122,7 +152,7 @@ async function resolveLocalProfile(
 export async function screenNonprofitLocal(
   ein: string,
   deps: LocalScreeningDeps,
-): Promise<ToolResponse<ScreeningResult>> {
+): Promise<ScreeningResponse> {
   try {
     logDebug(`screenNonprofitLocal for EIN: ${ein}`);
 
@@ -131,20 +161,50 @@ export async function screenNonprofitLocal(
       return { success: false, error: resolved.error!, attribution: ATTRIBUTION };
     }
 
-    const { profile, filingsAdapter } = resolved.data;
+    const { profile, filings, latestObjectId } = resolved.data;
+    const thresholds = resolveThresholds(deps.thresholds, profile.ntee_code);
+    const filingsAdapter = await ensureRecentFilings(
+      ein,
+      filings,
+      thresholds.redFlagDeficitYears,
+      deps,
+    );
     const courtResult = await tryCourtLookup(deps, profile.name);
 
+    const screenedAt = new Date();
+    const lookups = recordLookups(deps.irsClient, deps.ofacClient);
     const result = runFullScreening(
       profile,
       filingsAdapter,
-      resolveThresholds(deps.thresholds, profile.ntee_code),
-      deps.irsClient,
-      deps.ofacClient,
+      thresholds,
+      lookups.irs,
+      lookups.ofac,
       deps.portfolioFitConfig,
       courtResult,
+      screenedAt.getTime(),
     );
 
-    return { success: true, data: result, attribution: ATTRIBUTION };
+    // Trend uses cached extracts only — screening shouldn't pull 5 XMLs
+    // (ensureRecentFilings above pulls redFlagDeficitYears at most)
+    const trend = computeFinancialTrends(deps.xml990Store.getAllExtracts(ein));
+
+    return {
+      success: true,
+      data: { ...result, trend },
+      attribution: ATTRIBUTION,
+      inputs: {
+        profile,
+        filings: filingsAdapter ?? null,
+        court: courtResult ?? null,
+        screened_at: screenedAt.toISOString(),
+        thresholds,
+        portfolio_fit: deps.portfolioFitConfig,
+        ...lookups.answers(),
+        data_manifest: deps.dataManifest ?? {},
+        filing_object_ids: filings.map((f) => f.ObjectId),
+        latest_object_id: latestObjectId,
+      },
+    };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logError("screenNonprofitLocal failed:", message);
@@ -187,9 +247,9 @@ export async function getNonprofitProfileLocal(
 /**
  * Get red flags for a nonprofit using local data.
  *
- * Revenue decline fix: If filingsAdapter is undefined (only 1 XML cached)
- * but the GT filing index has 2+ entries, fetch+parse the second-most-recent
- * XML filing to enable revenue decline detection.
+ * Like screening, fetches the most recent redFlagDeficitYears XML filings
+ * that aren't cached yet, so revenue decline and the multi-year flags have
+ * enough history to fire.
  */
 export async function getRedFlagsLocal(
   ein: string,
@@ -204,20 +264,20 @@ export async function getRedFlagsLocal(
     }
 
     const { profile, filings } = resolved.data;
-    let { filingsAdapter } = resolved.data;
-
-    // Revenue decline fix: ensure 2+ XML extracts for decline detection
-    if (!filingsAdapter && filings.length >= 2) {
-      await fetchAndParseNthFiling(ein, filings, 1, deps);
-      filingsAdapter = buildRevenueDeclineAdapter(ein, filings, deps);
-    }
+    const thresholds = resolveThresholds(deps.thresholds, profile.ntee_code);
+    const filingsAdapter = await ensureRecentFilings(
+      ein,
+      filings,
+      thresholds.redFlagDeficitYears,
+      deps,
+    );
 
     const courtResult = await tryCourtLookup(deps, profile.name);
 
     const result = runRedFlagCheck(
       profile,
       filingsAdapter,
-      resolveThresholds(deps.thresholds, profile.ntee_code),
+      thresholds,
       courtResult,
       deps.ofacClient,
     );
@@ -234,6 +294,158 @@ export async function getRedFlagsLocal(
   }
 }
 
+/**
+ * List Schedule I grants from the latest XML 990, with recipient EINs
+ * cross-linked against the BMF discovery index. Answers "is this org a
+ * pass-through intermediary, and who actually receives the money?"
+ */
+export async function getGrantsMadeLocal(
+  ein: string,
+  deps: LocalScreeningDeps,
+  options: { limit?: number } = {},
+): Promise<ToolResponse<GrantsMadeResult>> {
+  try {
+    logDebug(`getGrantsMadeLocal for EIN: ${ein}`);
+
+    if (!ein) {
+      return {
+        success: false,
+        error: "EIN parameter is required",
+        attribution: ATTRIBUTION,
+      };
+    }
+
+    const candidate = deps.discoveryIndex.getByEin(ein);
+    if (!candidate) {
+      return {
+        success: false,
+        error: `Organization not found in BMF index with EIN: ${ein}`,
+        attribution: ATTRIBUTION,
+      };
+    }
+
+    let extract = deps.xml990Store.getLatestExtract(ein);
+    if (!isCurrentExtract(extract)) {
+      const filings = await deps.givingTuesdayClient.getFilingIndex(ein);
+      extract = await getLatestExtract(ein, filings, deps);
+    }
+
+    const grants = extract?.scheduleI?.grants ?? [];
+    const recipientEins = grants
+      .map((g) => g.recipientEin)
+      .filter((e): e is string => e !== null);
+    const bmfMatches =
+      recipientEins.length > 0
+        ? deps.discoveryIndex.getByEins(recipientEins)
+        : new Map();
+
+    const recipients: GrantRecipientSummary[] = grants
+      .map((g) => {
+        const bmf = g.recipientEin ? bmfMatches.get(g.recipientEin) : undefined;
+        return {
+          name: g.recipientName,
+          ein: g.recipientEin ? formatEin(g.recipientEin) : null,
+          city: g.city,
+          state: g.state,
+          amount: g.cashGrantAmount + g.nonCashAmount,
+          purpose: g.purpose,
+          in_bmf: bmf !== undefined,
+          ...(bmf && { bmf_name: bmf.name, ntee_code: bmf.ntee_code }),
+        };
+      })
+      .sort((a, b) => b.amount - a.amount);
+
+    const totalGrants = recipients.reduce((sum, r) => sum + r.amount, 0);
+    const totalExpenses = extract?.partIX?.totalExpenses ?? 0;
+    const ratio = totalExpenses > 0 ? totalGrants / totalExpenses : null;
+    const limit = Math.max(
+      1,
+      Math.min(options.limit ?? DEFAULT_GRANT_RECIPIENTS, MAX_GRANT_RECIPIENTS),
+    );
+
+    return {
+      success: true,
+      data: {
+        ein: formatEin(candidate.ein),
+        name: candidate.name,
+        tax_year: extract?.taxYear ?? null,
+        form_type: extract?.formType ?? null,
+        total_grants: totalGrants,
+        recipient_count: recipients.length,
+        grants_to_expenses_ratio: ratio,
+        pass_through: ratio !== null && ratio >= PASS_THROUGH_GRANT_RATIO,
+        recipients: recipients.slice(0, limit),
+      },
+      attribution: ATTRIBUTION,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("getGrantsMadeLocal failed:", message);
+    return {
+      success: false,
+      error: `getGrantsMadeLocal failed: ${message}`,
+      attribution: ATTRIBUTION,
+    };
+  }
+}
+
+/**
+ * Multi-year financial trends (CAGR, volatility, deficit streaks) across
+ * the org's most recent filings. Fetches and caches any of the last
+ * MAX_TREND_YEARS filings not yet extracted, so the first call per EIN
+ * can be slow.
+ */
+export async function getFinancialTrendsLocal(
+  ein: string,
+  deps: LocalScreeningDeps,
+): Promise<ToolResponse<FinancialTrendsResult>> {
+  try {
+    logDebug(`getFinancialTrendsLocal for EIN: ${ein}`);
+
+    if (!ein) {
+      return {
+        success: false,
+        error: "EIN parameter is required",
+        attribution: ATTRIBUTION,
+      };
+    }
+
+    const candidate = deps.discoveryIndex.getByEin(ein);
+    if (!candidate) {
+      return {
+        success: false,
+        error: `Organization not found in BMF index with EIN: ${ein}`,
+        attribution: ATTRIBUTION,
+      };
+    }
+
+    const filings = await deps.givingTuesdayClient.getFilingIndex(ein);
+    const toFetch = Math.min(filings.length, MAX_TREND_YEARS);
+    for (let n = 0; n < toFetch; n++) {
+      await fetchAndParseNthFiling(ein, filings, n, deps);
+    }
+
+    return {
+      success: true,
+      data: {
+        ein: formatEin(candidate.ein),
+        name: candidate.name,
+        filings_on_index: filings.length,
+        trends: computeFinancialTrends(deps.xml990Store.getAllExtracts(ein)),
+      },
+      attribution: ATTRIBUTION,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("getFinancialTrendsLocal failed:", message);
+    return {
+      success: false,
+      error: `getFinancialTrendsLocal failed: ${message}`,
+      attribution: ATTRIBUTION,
+    };
+  }
+}
+
 // ============================================================================
 // Internal Helpers
 // ============================================================================
@@ -286,8 +498,10 @@ async function fetchAndParseNthFiling(
     const target = ranked[n];
     if (!target) return null;
 
-    // Skip if already extracted
-    if (deps.xml990Store.hasExtract(ein, target.ObjectId)) return null;
+    // Skip if already extracted by this parser version
+    if (deps.xml990Store.hasExtract(ein, target.ObjectId, XML_EXTRACT_VERSION)) {
+      return null;
+    }
 
     const xml = await deps.givingTuesdayClient.downloadXml(target);
     const parser = new Xml990Parser(deps.concordance);
@@ -314,6 +528,44 @@ async function fetchAndParseNthFiling(
   }
 }
 
+/**
+ * Fetch+parse whichever of the `count` most recent filings aren't extracted
+ * yet, then rebuild the filings adapter. The profile only needs the latest
+ * filing, but persistent_deficit needs redFlagDeficitYears of them (revenue
+ * decline needs two, and redFlagDeficitYears is at least 2).
+ */
+async function ensureRecentFilings(
+  ein: string,
+  filings: GtFilingIndexEntry[],
+  count: number,
+  deps: LocalScreeningDeps,
+): Promise<Filing990Summary[] | undefined> {
+  for (let n = 1; n < Math.min(count, filings.length); n++) {
+    await fetchAndParseNthFiling(ein, filings, n, deps);
+  }
+  return buildRevenueDeclineAdapter(ein, filings, deps);
+}
+
+/**
+ * Cached latest extract, fetched and parsed on a cache miss. An extract
+ * written by an older parser (missing e.g. Part X or Schedule I) is re-parsed;
+ * if that fails the outdated extract is still better than none.
+ */
+async function getLatestExtract(
+  ein: string,
+  filings: GtFilingIndexEntry[],
+  deps: LocalScreeningDeps,
+): Promise<Xml990ExtractedData | null> {
+  const cached = deps.xml990Store.getLatestExtract(ein);
+  if (isCurrentExtract(cached) || filings.length === 0) return cached;
+
+  return (await fetchAndParseNthFiling(ein, filings, 0, deps)) ?? cached;
+}
+
+function isCurrentExtract(extract: Xml990ExtractedData | null): boolean {
+  return extract !== null && (extract.extractVersion ?? 1) >= XML_EXTRACT_VERSION;
+}
+
 /**
  * Build a Filing990Summary[] adapter from all available XML extracts
  * for the revenue decline check in detectRedFlags().
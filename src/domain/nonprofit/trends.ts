@@ -0,0 +1,140 @@
+// ============================================================================
+// Financial Trends
+//
+// Multi-year trajectory from cached XML 990 extracts: compound growth,
+// volatility, and deficit streaks. Complements the single year-over-year
+// revenue decline flag in detectRedFlags().
+// ============================================================================
+
+import type { Xml990ExtractedData } from "./types/xml-990.js";
+import type {
+  FinancialTrends,
+  MetricTrend,
+  TrendYearPoint,
+} from "./types/trends.js";
+
+/** Fewer tax years than this gives a growth rate, not a trend. */
+export const MIN_TREND_YEARS = 3;
+/** Older filings say little about the org funders would be backing today. */
+export const MAX_TREND_YEARS = 5;
+
+/**
+ * Compute multi-year trends from an EIN's extracts (any order, duplicates
+ * allowed). Returns null when fewer than MIN_TREND_YEARS distinct tax years
+ * are available.
+ */
+export function computeFinancialTrends(
+  extracts: Xml990ExtractedData[],
+): FinancialTrends | null {
+  const points = toYearPoints(extracts);
+  if (points.length < MIN_TREND_YEARS) return null;
+
+  const { current, longest } = deficitStreaks(points);
+
+  return {
+    years_analyzed: points.length,
+    first_tax_year: points[0].tax_year,
+    last_tax_year: points[points.length - 1].tax_year,
+    revenue: metricTrend(points, (p) => p.total_revenue),
+    expenses: metricTrend(points, (p) => p.total_expenses),
+    contributions: metricTrend(points, (p) => p.contributions),
+    current_deficit_streak: current,
+    longest_deficit_streak: longest,
+    points,
+  };
+}
+
+/**
+ * One point per tax year (full 990 preferred over EZ/PF when an org filed
+ * both, e.g. an amended return), most recent MAX_TREND_YEARS, oldest first.
+ */
+function toYearPoints(extracts: Xml990ExtractedData[]): TrendYearPoint[] {
+  const byYear = new Map<number, Xml990ExtractedData>();
+  for (const ex of extracts) {
+    if (!Number.isFinite(ex.taxYear)) continue;
+    const existing = byYear.get(ex.taxYear);
+    if (!existing || (existing.formType !== "990" && ex.formType === "990")) {
+      byYear.set(ex.taxYear, ex);
+    }
+  }
+
+  return [...byYear.values()]
+    .sort((a, b) => a.taxYear - b.taxYear)
+    .slice(-MAX_TREND_YEARS)
+    .map((ex) => {
+      const revenue = ex.partVIII?.totalRevenue ?? null;
+      const expenses = ex.partIX?.totalExpenses ?? null;
+      return {
+        tax_year: ex.taxYear,
+        form_type: ex.formType,
+        total_revenue: revenue,
+        total_expenses: expenses,
+        contributions: ex.partVIII?.contributions ?? null,
+        surplus: revenue !== null && expenses !== null ? revenue - expenses : null,
+      };
+    });
+}
+
+function metricTrend(
+  points: TrendYearPoint[],
+  value: (p: TrendYearPoint) => number | null,
+): MetricTrend {
+  const series = points
+    .map((p) => ({ year: p.tax_year, value: value(p) }))
+    .filter((s): s is { year: number; value: number } => s.value !== null);
+
+  if (series.length === 0) {
+    return { start_value: null, end_value: null, cagr: null, volatility: null };
+  }
+
+  const first = series[0];
+  const last = series[series.length - 1];
+  const span = last.year - first.year;
+
+  // CAGR is undefined from a zero/negative base or across a single year
+  const cagr =
+    series.length >= 2 && span > 0 && first.value > 0 && last.value >= 0
+      ? Math.pow(last.value / first.value, 1 / span) - 1
+      : null;
+
+  const growthRates: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const prev = series[i - 1].value;
+    if (prev > 0) growthRates.push(series[i].value / prev - 1);
+  }
+
+  return {
+    start_value: first.value,
+    end_value: last.value,
+    cagr,
+    volatility: growthRates.length >= 2 ? stdDev(growthRates) : null,
+  };
+}
+
+function deficitStreaks(points: TrendYearPoint[]): {
+  current: number;
+  longest: number;
+} {
+  let run = 0;
+  let longest = 0;
+  for (let i = 0; i < points.length; i++) {
+    // A gap year (no filing cached) or one missing Part VIII/IX breaks the
+    // streak — we can't assume a deficit
+    const contiguous = i === 0 || points[i].tax_year === points[i - 1].tax_year + 1;
+    const surplus = points[i].surplus;
+    if (surplus !== null && surplus < 0) {
+      run = contiguous ? run + 1 : 1;
+    } else {
+      run = 0;
+    }
+    longest = Math.max(longest, run);
+  }
+  return { current: run, longest };
+}
+
+function stdDev(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
@@ -24,6 +24,18 @@ export interface IrsRevocationResult {
   legalName?: string;
 }
 
+// IRS 990-N (e-Postcard) Types
+
+export interface EpostcardRow {
+  ein: string;
+  taxYear: number;
+  legalName: string;
+  grossReceiptsUnderLimit: boolean; // "gross receipts not greater than $50,000"
+  terminated: boolean;
+  taxPeriodBegin: string;
+  taxPeriodEnd: string;
+}
+
 // OFAC SDN Types
 
 export interface OfacSdnRow {
@@ -67,6 +79,18 @@ export interface OfacFuzzyResult {
   matches: OfacFuzzyMatch[];
 }
 
+// Lookups the screening layers make against the IRS/OFAC lists. The CSV-backed
+// clients implement these; replay_screening answers them from a saved snapshot.
+
+export interface RevocationLookup {
+  check(ein: string): IrsRevocationResult;
+}
+
+export interface SanctionsLookup {
+  check(name: string): OfacSanctionsResult;
+  fuzzyCheck(name: string): OfacFuzzyResult;
+}
+
 // CourtListener Types
 
 export interface CourtListenerCase {
@@ -98,4 +122,8 @@ export interface DataManifest {
     sdn_count: number;
     alt_count: number;
   };
+  epostcard?: {
+    downloaded_at: string;
+    row_count: number;
+  };
 }
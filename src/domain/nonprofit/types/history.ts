@@ -0,0 +1,73 @@
+// Screening History & Diff
+//
+// Every screen_nonprofit run persists a row in vetting.db. History lists
+// those rows for one EIN; a diff explains what moved between two of them
+// ("why did this org go from PASS to REVIEW?").
+
+import type { GateVerdict } from "../../gates/gate-types.js";
+import type { RedFlag } from "./red-flags.js";
+import type { CheckResult } from "./screening.js";
+
+export interface ScreeningHistoryEntry {
+  id: number;
+  recommendation: "PASS" | "REVIEW" | "REJECT";
+  score: number | null;
+  passed: boolean;
+  gate_blocked: boolean;
+  red_flag_count: number;
+  vetted_at: string;
+  vetted_by: string;
+  profile: string;
+}
+
+export interface GateFlip {
+  gate: string;
+  from: GateVerdict | null; // null when the gate wasn't reached/recorded
+  to: GateVerdict | null;
+  detail: string; // detail from the newer screening (or older, if absent)
+}
+
+export interface CheckChange {
+  name: string;
+  from: CheckResult | null; // null when the check wasn't run (gate-blocked)
+  to: CheckResult | null;
+  from_detail: string | null;
+  to_detail: string | null;
+}
+
+export interface ScreeningDiff {
+  from_id: number;
+  to_id: number;
+  from_vetted_at: string;
+  to_vetted_at: string;
+  from_profile: string;
+  to_profile: string; // differs from from_profile only when both ids were given
+  score_delta: number | null; // to - from; null when either side was gate-blocked
+  recommendation_from: "PASS" | "REVIEW" | "REJECT";
+  recommendation_to: "PASS" | "REVIEW" | "REJECT";
+  recommendation_changed: boolean;
+  gates_flipped: GateFlip[];
+  red_flags_added: RedFlag[];
+  red_flags_removed: RedFlag[];
+  checks_changed: CheckChange[];
+  identical: boolean; // nothing above changed
+}
+
+/** A diff between two results, without the row ids/timestamps. */
+export type ScreeningChanges = Omit<
+  ScreeningDiff,
+  | "from_id"
+  | "to_id"
+  | "from_vetted_at"
+  | "to_vetted_at"
+  | "from_profile"
+  | "to_profile"
+>;
+
+export interface ScreeningHistoryResult {
+  ein: string;
+  name: string;
+  total: number;
+  screenings: ScreeningHistoryEntry[]; // most recent first
+  diff: ScreeningDiff | null; // null with fewer than two screenings
+}
@@ -5,3 +5,8 @@ export * from "./red-flags.js";
 export * from "./data-sources.js";
 export * from "./responses.js";
 export * from "./xml-990.js";
+export * from "./trends.js";
+export * from "./history.js";
+export * from "./portfolio-sweep.js";
+export * from "./simulation.js";
+export * from "./replay.js";
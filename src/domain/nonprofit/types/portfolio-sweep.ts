@@ -0,0 +1,23 @@
+// Post-Refresh Portfolio Sweep
+//
+// After refresh_data loads a new IRS revocation list or OFAC SDN file, every
+// previously vetted EIN is re-checked against the cheap local gates only (no
+// filing fetches, no re-scoring). Hits are changes since the org's latest
+// saved screening.
+
+export interface PortfolioSweepHit {
+  ein: string;
+  name: string;
+  last_recommendation: "PASS" | "REVIEW" | "REJECT";
+  last_vetted_at: string;
+  detail: string;
+}
+
+export interface PortfolioSweepResult {
+  checked: number;
+  irs_checked: boolean;
+  ofac_checked: boolean;
+  newly_revoked: PortfolioSweepHit[];
+  newly_sanctioned: PortfolioSweepHit[]; // Entity-type SDN exact/alias match
+  new_ofac_near_matches: PortfolioSweepHit[]; // fuzzy name match, not previously flagged
+}
@@ -6,6 +6,7 @@ export interface NonprofitSearchResult {
   city: string;
   state: string;
   ntee_code: string;
+  relevance: number; // 0.0-1.0 name match score
 }
 
 export interface NonprofitAddress {
@@ -25,6 +26,33 @@ export interface Latest990Summary {
   officer_compensation_ratio: number | null; // null when data unavailable
   program_revenue?: number;
   contributions?: number;
+  cash_and_equivalents?: number; // Part X: cash + savings/temporary investments
+  unrestricted_net_assets?: number | null; // Part X: without donor restrictions
+  net_assets?: number;
+  public_support_pct?: number | null; // Schedule A: decimal, current year
+  public_support_passed?: boolean | null; // Schedule A: null when undeterminable
+  largest_contractor?: LargestContractorSummary | null; // highest-paid independent contractor
+  governance?: GovernanceSummary | null; // Part VI answers, null when not reported
+}
+
+// Form 990 Part VI governance answers (null = question left blank)
+export interface GovernanceSummary {
+  voting_members: number | null;
+  independent_members: number | null;
+  family_or_business_relationship: boolean | null;
+  delegation_of_management: boolean | null;
+  conflict_of_interest_policy: boolean | null;
+  whistleblower_policy: boolean | null;
+  document_retention_policy: boolean | null;
+  ceo_compensation_process: boolean | null;
+  material_diversion: boolean | null;
+}
+
+export interface LargestContractorSummary {
+  name: string;
+  services: string | null;
+  compensation: number;
+  expense_share: number | null; // compensation / total expenses, null when expenses unavailable
 }
 
 export interface NonprofitProfile {
@@ -36,5 +64,41 @@ export interface NonprofitProfile {
   subsection: string;
   ntee_code: string;
   latest_990: Latest990Summary | null;
+  latest_990n?: EpostcardSummary | null; // most recent 990-N e-Postcard, if any
   filing_count: number;
 }
+
+// Form 990-N (e-Postcard) — filed by orgs with gross receipts normally
+// <= $50K. Carries no financial detail, only proof the org is still active.
+export interface EpostcardSummary {
+  tax_year: number;
+  tax_period_end: string; // "YYYY-MM"
+  gross_receipts_under_limit: boolean;
+  terminated: boolean;
+}
+
+// Schedule I grants made, cross-linked against the BMF discovery index
+
+export interface GrantRecipientSummary {
+  name: string;
+  ein: string | null;
+  city: string | null;
+  state: string | null;
+  amount: number; // cash + non-cash
+  purpose: string | null;
+  in_bmf: boolean; // recipient EIN found in the discovery index
+  bmf_name?: string;
+  ntee_code?: string;
+}
+
+export interface GrantsMadeResult {
+  ein: string;
+  name: string;
+  tax_year: number | null;
+  form_type: string | null;
+  total_grants: number;
+  recipient_count: number;
+  grants_to_expenses_ratio: number | null; // share of total expenses re-granted
+  pass_through: boolean; // ratio at or above PASS_THROUGH_GRANT_RATIO
+  recipients: GrantRecipientSummary[];
+}
@@ -8,10 +8,16 @@ export type RedFlagType =
   | "very_high_overhead"
   | "very_low_revenue"
   | "revenue_decline"
+  | "persistent_deficit"
+  | "net_asset_erosion"
   | "too_new"
   | "high_officer_compensation"
   | "court_records"
-  | "ofac_near_match";
+  | "ofac_near_match"
+  | "public_support_failure"
+  | "contractor_concentration"
+  | "material_diversion"
+  | "minority_independent_board";
 
 export interface CourtCaseSummary {
   dateFiled: string | null;
@@ -0,0 +1,20 @@
+// Screening Replay
+//
+// replay_screening re-runs runFullScreening from the input snapshot saved
+// with a screening — same profile, filings, resolved thresholds, IRS/OFAC
+// answers and clock — and reports whether it reproduces the saved result.
+
+import type { ScreeningInputs, ScreeningResult } from "./screening.js";
+import type { ScreeningChanges } from "./history.js";
+
+export interface ReplayScreeningResult {
+  ein: string;
+  name: string;
+  screening_id: number;
+  vetted_at: string;
+  profile: string;
+  reproduced: boolean; // replayed result identical to the saved one
+  diff: ScreeningChanges; // saved → replayed
+  result: ScreeningResult; // replayed result
+  inputs: ScreeningInputs; // the snapshot it was replayed from
+}
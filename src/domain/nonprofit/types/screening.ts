@@ -11,6 +11,16 @@
 // to distinguish human-led analysis from automated screening.
 
 import type { RedFlag } from "./red-flags.js";
+import type { FinancialTrends } from "./trends.js";
+import type { NonprofitProfile } from "./profile.js";
+import type { Filing990Summary } from "./filings.js";
+import type {
+  CourtRecordsResult,
+  DataManifest,
+  IrsRevocationResult,
+  OfacFuzzyResult,
+  OfacSanctionsResult,
+} from "./data-sources.js";
 
 export type CheckResult = "PASS" | "REVIEW" | "FAIL";
 
@@ -20,6 +30,41 @@ export interface CriterionCheck {
   result: CheckResult;
   detail: string;
   weight: number;
+  explanation?: CheckExplanation; // absent on screenings saved before explanations
+}
+
+// Score Explanation
+//
+// Why a check landed where it did: the raw input, the bands it was judged
+// against (from the resolved thresholds, sector adjustments included), the
+// points it earned, and the smallest change to the input that would lift it
+// one band ("what would it take to pass?").
+
+export interface CheckBand {
+  result: CheckResult;
+  min: number | null; // null = unbounded; a value on a boundary
+  max: number | null; // belongs to the better of the two bands
+}
+
+export interface CheckCounterfactual {
+  to: CheckResult; // the next band up
+  value: number; // input value that reaches it
+  change: number; // value - current value
+  points_gained: number;
+  detail: string;
+}
+
+export interface CheckExplanation {
+  value: number | null; // null when the input is missing
+  unit: "years" | "usd" | "ratio" | "months";
+  bands: CheckBand[];
+  sector_override: {
+    sector: string; // NTEE major category
+    thresholds: Partial<VettingThresholds>; // this check's sector-adjusted bounds
+  } | null;
+  points: number;
+  max_points: number;
+  counterfactual: CheckCounterfactual | null; // null at PASS or with no value to move
 }
 
 export interface ScreeningSummary {
@@ -27,6 +72,22 @@ export interface ScreeningSummary {
   justification: string;
   key_factors: string[]; // Prefixed: "+" positive, "-" negative, "~" neutral/warning
   next_steps: string[];
+  path_to_pass?: string[]; // what would lift a non-PASS result; empty at PASS
+}
+
+// Governance practices from Form 990 Part VI — reported alongside the
+// financial score, not weighted into it
+
+export interface GovernancePractice {
+  name: string;
+  in_place: boolean | null; // null when the filing left the question blank
+  weight: number;
+  detail: string;
+}
+
+export interface GovernanceAssessment {
+  score: number | null; // 0-100 over answered practices, null when none answered
+  practices: GovernancePractice[];
 }
 
 export interface ScreeningResult {
@@ -41,16 +102,41 @@ export interface ScreeningResult {
   recommendation: "PASS" | "REVIEW" | "REJECT";
   review_reasons: string[];
   red_flags: RedFlag[];
+  governance: GovernanceAssessment | null; // null when gate-blocked or no Part VI
+  trend?: FinancialTrends | null; // multi-year trajectory from cached filings; informational
+  profile?: string; // named screening profile; absent for the default profile
+}
+
+// Screening input snapshot saved alongside each screening. profile/filings/
+// court let stored results be re-scored offline (simulate_thresholds); the
+// rest pins every other input runFullScreening saw, so replay_screening can
+// reproduce the decision with the data and rules in force at the time.
+// Screenings saved before the full snapshot have only profile/filings/court.
+
+export interface ScreeningInputs {
+  profile: NonprofitProfile;
+  filings: Filing990Summary[] | null; // multi-year adapter for trend red flags
+  court: CourtRecordsResult | null; // null when CourtListener isn't configured
+  screened_at: string; // ISO clock for filing-age checks
+  thresholds: VettingThresholds; // after profile + sector (NTEE) resolution
+  portfolio_fit: PortfolioFitConfig;
+  irs_revocation: IrsRevocationResult;
+  ofac_sanctions: OfacSanctionsResult;
+  ofac_fuzzy: OfacFuzzyResult | null; // null when gate-blocked (never looked up)
+  data_manifest: DataManifest; // IRS/OFAC/990-N download timestamps
+  filing_object_ids: string[]; // GivingTuesday filing index at screening time
+  latest_object_id: string | null; // XML extract behind profile.latest_990
 }
 
 // Vetting Thresholds (Configurable via Environment Variables)
 
 export interface VettingThresholds {
-  // Check weights (4 checks x 25 = 100; 501c3 moved to gate layer)
+  // Check weights (5 checks, sum = 100; 501c3 moved to gate layer)
   weightYearsOperating: number;
   weightRevenueRange: number;
   weightSpendRate: number;
   weightRecent990: number;
+  weightOperatingReserves: number;
 
   // Years operating
   yearsPassMin: number; // >= this = PASS
@@ -72,6 +158,10 @@ export interface VettingThresholds {
   filing990PassMax: number; // <= this = PASS
   filing990ReviewMax: number; // <= this = REVIEW
 
+  // Operating reserves (months of expenses covered by liquid unrestricted reserves)
+  reservesPassMinMonths: number; // >= this = PASS
+  reservesReviewMinMonths: number; // >= this = REVIEW, below = FAIL
+
   // Score-based recommendation cutoffs
   scorePassMin: number; // >= this = PASS
   scoreReviewMin: number; // >= this = REVIEW
@@ -82,11 +172,16 @@ export interface VettingThresholds {
   redFlagLowExpenseRatio: number; // below this = MEDIUM flag
   redFlagVeryLowRevenue: number; // below this = MEDIUM flag
   redFlagRevenueDeclinePercent: number; // decline > this = MEDIUM flag
+  redFlagDeficitYears: number; // this many consecutive deficit filings = MEDIUM flag
+  redFlagNetAssetErosionPercent: number; // net assets down > this over history = MEDIUM flag
   redFlagTooNewYears: number; // operating < this = MEDIUM flag
 
   // Officer compensation thresholds (decimal: 0.40 = 40%)
   redFlagHighCompensation: number; // above this = HIGH flag
   redFlagModerateCompensation: number; // above this = MEDIUM flag
+
+  // Contractor concentration (decimal: 0.50 = 50% of total expenses)
+  redFlagContractorShare: number; // single contractor above this = MEDIUM flag
 }
 
 // Portfolio-Fit Config (Platform Eligibility Policy)
@@ -97,3 +192,12 @@ export interface PortfolioFitConfig {
   excludedEins: string[]; // Hard block (checked first, always wins)
   includedEins: string[]; // Hard allow (skips NTEE check)
 }
+
+// Screening Profiles (per-funder threshold + portfolio-fit overrides)
+
+export interface ScreeningProfile {
+  name: string;
+  description: string;
+  thresholds: VettingThresholds; // env base merged with the profile's overrides
+  portfolioFit: PortfolioFitConfig;
+}
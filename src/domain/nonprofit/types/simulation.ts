@@ -0,0 +1,46 @@
+// Threshold What-If Simulation
+//
+// simulate_thresholds re-scores the latest saved screening of every vetted
+// EIN under a partial VettingThresholds override and reports which orgs
+// would change recommendation. Both sides are re-scored today from the saved
+// inputs, so movement reflects the override alone — not data aging since
+// the original screening.
+
+import type { VettingThresholds } from "./screening.js";
+
+type Recommendation = "PASS" | "REVIEW" | "REJECT";
+
+export interface RecommendationCounts {
+  PASS: number;
+  REVIEW: number;
+  REJECT: number;
+}
+
+export interface SimulatedMove {
+  ein: string;
+  name: string;
+  from: Recommendation;
+  to: Recommendation;
+  score_before: number | null;
+  score_after: number | null;
+}
+
+export interface RecommendationTransition {
+  from: Recommendation;
+  to: Recommendation;
+  count: number;
+}
+
+export interface ThresholdSimulationResult {
+  profile: string;
+  overrides: Partial<VettingThresholds>;
+  screenings: number; // latest screening per EIN under the profile
+  simulated: number; // screenings with saved inputs (gate-blocked included)
+  skipped_no_inputs: number; // saved before inputs were persisted — re-screen to include
+  before: RecommendationCounts;
+  after: RecommendationCounts;
+  transitions: RecommendationTransition[];
+  moved_total: number;
+  moved: SimulatedMove[]; // capped by limit, biggest score change first
+  drifted: number; // baseline re-score differs from the saved recommendation
+}
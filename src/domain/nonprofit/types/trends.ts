@@ -0,0 +1,40 @@
+// Multi-Year Financial Trends
+//
+// Computed from every cached XML 990 extract for an EIN (one point per tax
+// year, most recent MAX_TREND_YEARS). Reported alongside screening results —
+// informational, not weighted into the score.
+
+export interface TrendYearPoint {
+  tax_year: number;
+  form_type: string;
+  total_revenue: number | null; // null when the extract has no Part VIII
+  total_expenses: number | null; // null when the extract has no Part IX
+  contributions: number | null; // null when the extract has no Part VIII
+  surplus: number | null; // revenue - expenses (negative = deficit); null unless both parsed
+}
+
+export interface MetricTrend {
+  start_value: number | null; // earliest year in the window
+  end_value: number | null; // latest year in the window
+  cagr: number | null; // decimal (0.05 = 5%/yr); null when start <= 0 or too few points
+  volatility: number | null; // std dev of year-over-year growth rates (decimal)
+}
+
+export interface FinancialTrends {
+  years_analyzed: number;
+  first_tax_year: number;
+  last_tax_year: number;
+  revenue: MetricTrend;
+  expenses: MetricTrend;
+  contributions: MetricTrend;
+  current_deficit_streak: number; // consecutive deficit years ending at the latest filing
+  longest_deficit_streak: number;
+  points: TrendYearPoint[]; // oldest first
+}
+
+export interface FinancialTrendsResult {
+  ein: string;
+  name: string;
+  filings_on_index: number; // filings listed in the GivingTuesday index
+  trends: FinancialTrends | null; // null when fewer than MIN_TREND_YEARS tax years are available
+}
@@ -65,7 +65,13 @@ export interface Xml990ExtractedData {
   partIX: PartIXData | null;
   partVI: PartVIData | null;
   partVII: PartVIIEntry[];
+  contractors: ContractorEntry[]; // Part VII Section B (990) / Part VIII (990-PF)
+  highestCompensatedEmployees: HighestCompensatedEmployeeEntry[]; // 990-EZ / 990-PF
   partVIII: PartVIIIData | null;
+  partX: PartXData | null;
+  scheduleA: ScheduleAData | null;
+  scheduleI: ScheduleIData | null;
+  extractVersion?: number; // XML_EXTRACT_VERSION of the parser; absent before versioning (= 1)
   extractedAt: string;
 }
 
@@ -104,6 +110,23 @@ export interface PartVIIEntry {
   otherCompensation: number;
 }
 
+/** Five highest-paid independent contractors receiving more than $100K. */
+export interface ContractorEntry {
+  name: string;
+  services: string | null;
+  compensation: number;
+}
+
+/** Highest-paid employees other than officers, directors, and trustees. */
+export interface HighestCompensatedEmployeeEntry {
+  name: string;
+  title: string;
+  avgHoursPerWeek: number | null;
+  compensation: number;
+  benefits: number;
+  expenseAccount: number;
+}
+
 export interface PartVIIIData {
   contributions: number;
   programServiceRevenue: number;
@@ -114,3 +137,59 @@ export interface PartVIIIData {
   programRevenueSelfSufficiency: number | null;
   ratiosValid: boolean;
 }
+
+export interface PartXData {
+  cashNonInterestBearing: number;
+  savingsAndTempInvestments: number;
+  pledgesAndGrantsReceivable: number;
+  accountsReceivable: number;
+  landBuildingsEquipmentNet: number;
+  totalAssetsBOY: number | null;
+  totalAssetsEOY: number;
+  totalLiabilitiesBOY: number | null;
+  totalLiabilitiesEOY: number;
+  unrestrictedNetAssets: number | null; // "without donor restrictions" on 2018+ forms
+  restrictedNetAssets: number | null; // "with donor restrictions" (temp + perm on older forms)
+  netAssetsEOY: number;
+  cashAndEquivalents: number; // cash + savings/temporary investments
+  debtRatio: number | null; // totalLiabilitiesEOY / totalAssetsEOY
+  ratiosValid: boolean;
+}
+
+/**
+ * Schedule A public support computation. Part II covers 509(a)(1) /
+ * 170(b)(1)(A)(vi) orgs, Part III covers 509(a)(2) orgs — a filer completes
+ * at most one of them.
+ */
+export interface ScheduleAData {
+  supportSchedule: "170" | "509" | null; // which Part was completed
+  publicSupportTotal: number | null;
+  totalSupport: number | null;
+  publicSupportPctCY: number | null; // decimal: 0.35 = 35%
+  publicSupportPctPY: number | null;
+  firstFiveYears: boolean | null; // new orgs are exempt from the test
+  thirtyThreePctTestCY: boolean | null;
+  thirtyThreePctTestPY: boolean | null;
+  tenPctFactsAndCircumstancesCY: boolean | null; // Part II only
+  tenPctFactsAndCircumstancesPY: boolean | null; // Part II only
+  privateFoundationStatus: boolean | null; // "did not qualify" checkbox
+  passedPublicSupportTest: boolean | null; // null when undeterminable
+}
+
+/** Schedule I Part II: grants to domestic organizations and governments. */
+export interface ScheduleIGrant {
+  recipientName: string;
+  recipientEin: string | null; // 9 digits, null when missing or malformed
+  city: string | null;
+  state: string | null;
+  ircSection: string | null; // e.g. "501(c)(3)"
+  cashGrantAmount: number;
+  nonCashAmount: number;
+  purpose: string | null;
+}
+
+export interface ScheduleIData {
+  grants: ScheduleIGrant[];
+  totalCashGrants: number;
+  totalNonCashAssistance: number;
+}
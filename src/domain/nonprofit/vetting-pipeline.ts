@@ -1,18 +1,26 @@
 import type {
   VettingThresholds,
   PortfolioFitConfig,
+  ScreeningProfile,
   ScreeningResult,
   ToolResponse,
 } from "./types.js";
 import type { VettingStore } from "../../data-sources/vetting-store.js";
+import type { CsvDataStore } from "../../data-sources/csv-data-store.js";
 import type { IrsRevocationClient } from "../red-flags/irs-revocation-client.js";
 import type { OfacSdnClient } from "../red-flags/ofac-sdn-client.js";
+import type { EpostcardClient } from "../red-flags/epostcard-client.js";
 import type { CourtListenerClient } from "../red-flags/courtlistener-client.js";
 import type { DiscoveryIndex } from "../../data-sources/discovery-index.js";
 import type { Xml990Store } from "../../data-sources/xml-990-store.js";
 import type { GivingTuesdayClient } from "../../data-sources/givingtuesday-client.js";
 import type { ConcordanceIndex } from "../../data-sources/concordance.js";
 import { screenNonprofitLocal } from "./tools.js";
+import {
+  DEFAULT_PROFILE,
+  unknownProfileError,
+  type ScreeningProfiles,
+} from "./screening-profiles.js";
 import { logError } from "../../core/logging.js";
 
 const ATTRIBUTION =
@@ -25,15 +33,20 @@ export interface VettingPipelineConfig {
   concordance: ConcordanceIndex;
   thresholds: VettingThresholds;
   portfolioFit: PortfolioFitConfig;
+  profiles?: ScreeningProfiles; // named profiles; thresholds/portfolioFit are the default
   irsClient: IrsRevocationClient;
   ofacClient: OfacSdnClient;
+  epostcardClient?: EpostcardClient;
   courtClient?: CourtListenerClient;
+  dataStore?: CsvDataStore; // source of the data manifest in input snapshots
   vettingStore?: VettingStore;
   cacheMaxAgeDays: number;
 }
 
 export interface RunScreeningOptions {
   forceRefresh?: boolean;
+  /** Named screening profile; defaults to the env-configured thresholds. */
+  profile?: string;
 }
 
 export interface ScreeningPipelineResult {
@@ -53,15 +66,42 @@ export class VettingPipeline {
     this.config = config;
   }
 
+  /** Resolve a profile name (undefined = default). Null when unknown. */
+  getProfile(name?: string): ScreeningProfile | null {
+    if (name === undefined || name === DEFAULT_PROFILE) {
+      return (
+        this.config.profiles?.get(DEFAULT_PROFILE) ?? {
+          name: DEFAULT_PROFILE,
+          description: "",
+          thresholds: this.config.thresholds,
+          portfolioFit: this.config.portfolioFit,
+        }
+      );
+    }
+    return this.config.profiles?.get(name) ?? null;
+  }
+
   async runScreening(
     ein: string,
     opts: RunScreeningOptions = {},
   ): Promise<ScreeningPipelineResult> {
     const { vettingStore } = this.config;
 
-    // 1. Check cache (unless forceRefresh)
+    const profile = this.getProfile(opts.profile);
+    if (!profile) {
+      return {
+        response: {
+          success: false,
+          error: unknownProfileError(opts.profile!, this.config.profiles),
+          attribution: ATTRIBUTION,
+        },
+        cached: false,
+      };
+    }
+
+    // 1. Check cache (unless forceRefresh) — cached results are per profile
     if (!opts.forceRefresh && vettingStore) {
-      const cached = vettingStore.getLatestByEin(ein);
+      const cached = vettingStore.getLatestByEin(ein, profile.name);
       if (cached) {
         const parsedTime = new Date(cached.vetted_at + "Z").getTime();
         if (!Number.isNaN(parsedTime)) {
@@ -94,17 +134,24 @@ export class VettingPipeline {
       givingTuesdayClient: this.config.givingTuesdayClient,
       xml990Store: this.config.xml990Store,
       concordance: this.config.concordance,
-      thresholds: this.config.thresholds,
+      thresholds: profile.thresholds,
       irsClient: this.config.irsClient,
       ofacClient: this.config.ofacClient,
-      portfolioFitConfig: this.config.portfolioFit,
+      epostcardClient: this.config.epostcardClient,
+      portfolioFitConfig: profile.portfolioFit,
       courtClient: this.config.courtClient,
+      dataManifest: this.config.dataStore?.manifest,
     });
 
+    // Named profiles are recorded on the result (and its saved row)
+    if (response.success && response.data && profile.name !== DEFAULT_PROFILE) {
+      response.data = { ...response.data, profile: profile.name };
+    }
+
     // 3. Persist result (non-blocking)
     if (response.success && response.data && vettingStore) {
       try {
-        vettingStore.saveResult(response.data);
+        vettingStore.saveResult(response.data, response.inputs);
       } catch (err) {
         logError(
           "Failed to save vetting result:",
@@ -0,0 +1,202 @@
+// ============================================================================
+// Watchlist Re-screening
+//
+// Walks watched EINs through VettingPipeline.runScreening (forceRefresh) and
+// records change alerts: recommendation change, new HIGH red flag, new IRS
+// revocation. Runs on a timer for EINs whose cached screening is older than
+// vettingCacheMaxAgeDays, and for every watched EIN after an IRS/OFAC refresh.
+// ============================================================================
+
+import type { ScreeningResult } from "./types.js";
+import type { VettingStore } from "../../data-sources/vetting-store.js";
+import type {
+  NewAlert,
+  WatchlistStore,
+} from "../../data-sources/watchlist-store.js";
+import type { VettingPipeline } from "./vetting-pipeline.js";
+import { diffScreenings } from "./history.js";
+import { findRevocationSubCheck } from "../gates/verified-501c3.js";
+import { DEFAULT_PROFILE } from "./screening-profiles.js";
+import { logInfo, logWarn, logError } from "../../core/logging.js";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface WatchlistRunnerConfig {
+  watchlistStore: WatchlistStore;
+  vettingStore: VettingStore;
+  vettingPipeline: VettingPipeline;
+  cacheMaxAgeDays: number;
+}
+
+export interface RescreenOptions {
+  /** Re-screen every watched EIN regardless of cache age (e.g. after a data refresh). */
+  all?: boolean;
+  /** Logged with the run summary. */
+  reason?: string;
+}
+
+export interface RescreenSummary {
+  watched: number;
+  rescreened: number;
+  skipped: number; // cache still fresh
+  failed: number;
+  alerts: NewAlert[];
+}
+
+export class WatchlistRunner {
+  private config: WatchlistRunnerConfig;
+  private running = false;
+  private queuedAll: RescreenOptions | null = null;
+
+  constructor(config: WatchlistRunnerConfig) {
+    this.config = config;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Re-screen due watched EINs. Returns null if a run is already in
+   * progress (the timer and a data refresh can overlap). An `all` run asked
+   * for meanwhile is queued to start when the current one ends: that run
+   * only covers due EINs and may have screened them against the old data.
+   */
+  async run(opts: RescreenOptions = {}): Promise<RescreenSummary | null> {
+    if (this.running) {
+      if (opts.all) {
+        this.queuedAll = opts;
+        logInfo("Watchlist re-screen in progress; full re-screen queued");
+      } else {
+        logWarn("Watchlist re-screen already in progress; skipping");
+      }
+      return null;
+    }
+    this.running = true;
+
+    try {
+      const { watchlistStore, vettingStore, vettingPipeline } = this.config;
+      const watched = watchlistStore.listWatched();
+      const summary: RescreenSummary = {
+        watched: watched.length,
+        rescreened: 0,
+        skipped: 0,
+        failed: 0,
+        alerts: [],
+      };
+
+      // Watched EINs are re-screened under the default profile; compare like with like
+      for (const entry of watched) {
+        const previous = vettingStore.getLatestByEin(entry.ein, DEFAULT_PROFILE);
+        if (!opts.all && previous && !this.isStale(previous.vetted_at)) {
+          summary.skipped++;
+          continue;
+        }
+
+        try {
+          const { response } = await vettingPipeline.runScreening(entry.ein, {
+            forceRefresh: true,
+          });
+          const latest = vettingStore.getLatestByEin(entry.ein, DEFAULT_PROFILE);
+          if (!response.success || !latest || latest.id === previous?.id) {
+            summary.failed++;
+            logWarn(
+              `Watchlist re-screen of ${entry.ein} failed: ${response.error ?? "result not saved"}`,
+            );
+            continue;
+          }
+
+          summary.rescreened++;
+          watchlistStore.markRescreened(entry.ein);
+
+          const alerts = detectAlerts(
+            previous ? (JSON.parse(previous.result_json) as ScreeningResult) : null,
+            JSON.parse(latest.result_json) as ScreeningResult,
+          );
+          for (const alert of alerts) {
+            const full: NewAlert = {
+              ein: entry.ein,
+              name: latest.name,
+              from_vetting_id: previous?.id ?? null,
+              to_vetting_id: latest.id,
+              ...alert,
+            };
+            watchlistStore.recordAlert(full);
+            summary.alerts.push(full);
+          }
+        } catch (err) {
+          summary.failed++;
+          logError(
+            `Watchlist re-screen of ${entry.ein} failed:`,
+            err instanceof Error ? err.message : String(err),
+          );
+        }
+      }
+
+      logInfo(
+        `Watchlist re-screen${opts.reason ? ` (${opts.reason})` : ""}: ${summary.rescreened} re-screened, ${summary.skipped} fresh, ${summary.failed} failed, ${summary.alerts.length} alerts`,
+      );
+      return summary;
+    } finally {
+      this.running = false;
+      this.startQueued();
+    }
+  }
+
+  private startQueued(): void {
+    const opts = this.queuedAll;
+    if (!opts) return;
+    this.queuedAll = null;
+    this.run(opts).catch((err) =>
+      logError(
+        "Queued watchlist re-screen failed:",
+        err instanceof Error ? err.message : String(err),
+      ),
+    );
+  }
+
+  private isStale(vettedAt: string): boolean {
+    const parsed = new Date(vettedAt + "Z").getTime();
+    if (Number.isNaN(parsed)) return true;
+    return (Date.now() - parsed) / DAY_MS > this.config.cacheMaxAgeDays;
+  }
+}
+
+/**
+ * Alerts raised by moving from `previous` to `latest`. With no previous
+ * screening only the absolute conditions (revoked, HIGH flags) alert.
+ */
+export function detectAlerts(
+  previous: ScreeningResult | null,
+  latest: ScreeningResult,
+): Array<Pick<NewAlert, "alert_type" | "detail">> {
+  const alerts: Array<Pick<NewAlert, "alert_type" | "detail">> = [];
+
+  if (previous && previous.recommendation !== latest.recommendation) {
+    alerts.push({
+      alert_type: "recommendation_change",
+      detail: `Recommendation changed ${previous.recommendation} → ${latest.recommendation}`,
+    });
+  }
+
+  const newFlags = previous
+    ? diffScreenings(previous, latest).red_flags_added
+    : latest.red_flags;
+  for (const flag of newFlags) {
+    if (flag.severity === "HIGH") {
+      alerts.push({
+        alert_type: "new_high_flag",
+        detail: `${flag.type}: ${flag.detail}`,
+      });
+    }
+  }
+
+  const revocation = findRevocationSubCheck(latest.gates);
+  const wasRevoked =
+    previous !== null && findRevocationSubCheck(previous.gates)?.passed === false;
+  if (revocation && !revocation.passed && !wasRevoked) {
+    alerts.push({ alert_type: "new_revocation", detail: revocation.detail });
+  }
+
+  return alerts;
+}
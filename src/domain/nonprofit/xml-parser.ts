@@ -6,18 +6,48 @@ import type {
   PartIXData,
   PartVIData,
   PartVIIEntry,
+  ContractorEntry,
+  HighestCompensatedEmployeeEntry,
   PartVIIIData,
+  PartXData,
+  ScheduleAData,
+  ScheduleIData,
+  ScheduleIGrant,
 } from "./types.js";
 
+/**
+ * Version of the extract layout this parser produces, stored with each
+ * extract. Bump it when the parser starts pulling new fields so extracts
+ * cached by an older parser get re-parsed. 1 = Part VI/VII/VIII/IX only;
+ * 2 = adds Part X, Schedules A and I, contractors and 990-EZ/PF mapping.
+ */
+export const XML_EXTRACT_VERSION = 2;
+
 // Tags that can appear 0-N times (Part VII officers, Schedule I grantees, etc.)
 const REPEATING_GROUP_TAGS = new Set([
   "Form990PartVIISectionAGrp",
   "RecipientTable",
   "OfficerDirectorTrusteeEmplGrp",
   "CompensationOfHghstPdEmplGrp",
+  "CompensationHighestPaidEmplGrp",
   "ContractorCompensationGrp",
+  "CompensationOfHghstPdCntrctGrp",
+  "CompensationHighestPaidCntrctGrp",
 ]);
 
+// Contractor tables: 990 Part VII Section B, 990-EZ Part VI line 51, 990-PF Part VIII line 3
+const CONTRACTOR_GROUP_TAGS = [
+  "ContractorCompensationGrp",
+  "CompensationOfHghstPdCntrctGrp",
+  "CompensationHighestPaidCntrctGrp",
+];
+
+// Non-officer employee tables: 990-EZ Part VI line 50, 990-PF Part VIII line 2
+const HIGHEST_PAID_EMPLOYEE_GROUP_TAGS = [
+  "CompensationOfHghstPdEmplGrp",
+  "CompensationHighestPaidEmplGrp",
+];
+
 // ============================================================================
 // Type coercion functions
 // ============================================================================
@@ -54,6 +84,20 @@ const PART_IX_VARS: Record<string, string> = {
   fundraisingExpenses: "F9_09_TOT_FUNC_EXPNS_FNDRSNG",
 };
 
+// 990-EZ reports total expenses in Part I and program expenses in Part III
+// with no admin/fundraising split.
+const EZ_PART_IX_VARS: Record<string, string> = {
+  totalExpenses: "EZ_01_EXP_TOT",
+  programServicesExpenses: "EZ_03_PROG_SRVC_EXP_TOT",
+};
+
+// 990-PF Part I: column (a) total expenses; column (d) disbursements for
+// charitable purposes stands in for program services.
+const PF_PART_IX_VARS: Record<string, string> = {
+  totalExpenses: "PF_01_EXP_TOT_BOOKS",
+  programServicesExpenses: "PF_01_EXP_TOT_CHRTBL_DSBRS",
+};
+
 const PART_VI_VARS: Record<string, string> = {
   votingMembersCount: "F9_06_GVRN_NUM_VOTING_MMBRS",
   independentMembersCount: "F9_06_GVRN_NUM_IND_VOTING_MMBRS",
@@ -74,6 +118,122 @@ const PART_VIII_VARS: Record<string, string> = {
   totalRevenue: "F9_08_REV_TOT_TOT",
 };
 
+// 990-EZ Part I revenue lines 1-9. Dues, special events, and asset sales
+// have no Part VIII equivalent and land in otherRevenue as the remainder.
+const EZ_PART_VIII_VARS: Record<string, string> = {
+  contributions: "EZ_01_REV_CONTR",
+  programServiceRevenue: "EZ_01_REV_PROG_SRVC",
+  investmentIncome: "EZ_01_REV_INVST_INCM",
+  totalRevenue: "EZ_01_REV_TOT",
+};
+
+// 990-PF Part I column (a). Interest and dividends are separate lines.
+const PF_PART_VIII_VARS: Record<string, string> = {
+  contributions: "PF_01_REV_CONTR_RCVD_BOOKS",
+  interestIncome: "PF_01_REV_INT_SAV_BOOKS",
+  dividendIncome: "PF_01_REV_DIV_BOOKS",
+  totalRevenue: "PF_01_REV_TOT_BOOKS",
+};
+
+// Part X balance sheet. Net asset classes changed with the 2018 schema
+// (ASU 2016-14): "without/with donor restrictions" replaced the older
+// unrestricted / temporarily / permanently restricted lines.
+const PART_X_VARS: Record<string, string> = {
+  cashNonInterestBearing: "F9_10_ASSET_CASH_EOY",
+  savingsAndTempInvestments: "F9_10_ASSET_SAVING_EOY",
+  pledgesAndGrantsReceivable: "F9_10_ASSET_PLEDGE_NET_EOY",
+  accountsReceivable: "F9_10_ASSET_ACC_NET_EOY",
+  landBuildingsEquipmentNet: "F9_10_ASSET_LAND_BLDG_NET_EOY",
+  totalAssetsBOY: "F9_10_ASSET_TOT_BOY",
+  totalAssetsEOY: "F9_10_ASSET_TOT_EOY",
+  totalLiabilitiesBOY: "F9_10_LIAB_TOT_BOY",
+  totalLiabilitiesEOY: "F9_10_LIAB_TOT_EOY",
+  noDonorRestrictionNetAssets: "F9_10_NAFB_NO_DONOR_RESTR_EOY",
+  donorRestrictionNetAssets: "F9_10_NAFB_DONOR_RESTR_EOY",
+  unrestrictedNetAssets: "F9_10_NAFB_UNRESTRICT_EOY",
+  tempRestrictedNetAssets: "F9_10_NAFB_RESTRICT_TEMP_EOY",
+  permRestrictedNetAssets: "F9_10_NAFB_RESTRICT_PERM_EOY",
+  totalNetAssetsEOY: "F9_10_NAFB_TOT_EOY",
+};
+
+// 990-EZ Part II balance sheet. Line 22 combines cash, savings, and
+// investments; net assets are not split by donor restriction.
+const EZ_PART_X_VARS: Record<string, string> = {
+  cashNonInterestBearing: "EZ_02_CASH_SAV_INVST_EOY",
+  totalAssetsBOY: "EZ_02_ASSET_TOT_BOY",
+  totalAssetsEOY: "EZ_02_ASSET_TOT_EOY",
+  totalLiabilitiesBOY: "EZ_02_LIAB_TOT_BOY",
+  totalLiabilitiesEOY: "EZ_02_LIAB_TOT_EOY",
+  totalNetAssetsEOY: "EZ_02_NAFB_TOT_EOY",
+};
+
+// 990-PF Part II balance sheet, book value columns
+const PF_PART_X_VARS: Record<string, string> = {
+  cashNonInterestBearing: "PF_02_ASSET_CASH_EOY_BV",
+  savingsAndTempInvestments: "PF_02_ASSET_SAV_EOY_BV",
+  totalAssetsBOY: "PF_02_ASSET_TOT_BOY_BV",
+  totalAssetsEOY: "PF_02_ASSET_TOT_EOY_BV",
+  totalLiabilitiesBOY: "PF_02_LIAB_TOT_BOY",
+  totalLiabilitiesEOY: "PF_02_LIAB_TOT_EOY",
+  totalNetAssetsEOY: "PF_02_NAFB_TOT_EOY",
+};
+
+type FormKind = "990" | "990EZ" | "990PF";
+
+const PART_IX_VARS_BY_FORM: Record<FormKind, Record<string, string>> = {
+  "990": PART_IX_VARS,
+  "990EZ": EZ_PART_IX_VARS,
+  "990PF": PF_PART_IX_VARS,
+};
+
+const PART_VIII_VARS_BY_FORM: Record<FormKind, Record<string, string>> = {
+  "990": PART_VIII_VARS,
+  "990EZ": EZ_PART_VIII_VARS,
+  "990PF": PF_PART_VIII_VARS,
+};
+
+const PART_X_VARS_BY_FORM: Record<FormKind, Record<string, string>> = {
+  "990": PART_X_VARS,
+  "990EZ": EZ_PART_X_VARS,
+  "990PF": PF_PART_X_VARS,
+};
+
+// Schedule A public support test. Part II = 170(b)(1)(A)(vi) (33⅓% test with
+// a 10% facts-and-circumstances fallback), Part III = 509(a)(2) (33⅓% only).
+const SCHEDULE_A_PART_II_VARS: Record<string, string> = {
+  publicSupportTotal: "SA_02_PUB_SUP_TOT",
+  totalSupport: "SA_02_TOT_SUP_TOT",
+  publicSupportPctCY: "SA_02_PCT_PUB_SUP_CY",
+  publicSupportPctPY: "SA_02_PCT_PUB_SUP_PY",
+  firstFiveYears: "SA_02_FIRST_5_YEARS_X",
+  thirtyThreePctTestCY: "SA_02_33PCT_SUP_TEST_CY_X",
+  thirtyThreePctTestPY: "SA_02_33PCT_SUP_TEST_PY_X",
+  tenPctFactsAndCircumstancesCY: "SA_02_10PCT_FACTS_CIRC_CY_X",
+  tenPctFactsAndCircumstancesPY: "SA_02_10PCT_FACTS_CIRC_PY_X",
+  privateFoundationStatus: "SA_02_PRIV_FOUND_X",
+};
+
+const SCHEDULE_A_PART_III_VARS: Record<string, string> = {
+  publicSupportTotal: "SA_03_PUB_SUP_TOT",
+  totalSupport: "SA_03_TOT_SUP_TOT",
+  publicSupportPctCY: "SA_03_PCT_PUB_SUP_CY",
+  publicSupportPctPY: "SA_03_PCT_PUB_SUP_PY",
+  firstFiveYears: "SA_03_FIRST_5_YEARS_X",
+  thirtyThreePctTestCY: "SA_03_33PCT_SUP_TEST_CY_X",
+  thirtyThreePctTestPY: "SA_03_33PCT_SUP_TEST_PY_X",
+  privateFoundationStatus: "SA_03_PRIV_FOUND_X",
+};
+
+const SCHEDULE_A_NUMERIC_FIELDS = new Set([
+  "publicSupportTotal",
+  "totalSupport",
+  "publicSupportPctCY",
+  "publicSupportPctPY",
+]);
+
+const PUBLIC_SUPPORT_TEST_PCT = 1 / 3;
+const FACTS_AND_CIRCUMSTANCES_MIN_PCT = 0.1;
+
 // Part VII uses repeating groups — handled separately
 
 // ============================================================================
@@ -116,6 +276,21 @@ export class Xml990Parser {
       returnData["IRS990PF"] ??
       null
     ) as Record<string, unknown> | null;
+    const formKind: FormKind =
+      returnData["IRS990"] !== undefined ? "990"
+        : returnData["IRS990EZ"] !== undefined ? "990EZ"
+          : returnData["IRS990PF"] !== undefined ? "990PF"
+            : "990";
+
+    // Schedules are siblings of the form node under ReturnData
+    const scheduleA = (returnData["IRS990ScheduleA"] ?? null) as Record<
+      string,
+      unknown
+    > | null;
+    const scheduleI = (returnData["IRS990ScheduleI"] ?? null) as Record<
+      string,
+      unknown
+    > | null;
 
     const extract: Xml990ExtractedData = {
       ein: metadata.ein,
@@ -123,17 +298,27 @@ export class Xml990Parser {
       objectId: metadata.objectId,
       formType: metadata.formType,
       schemaVersion: metadata.schemaVersion,
-      partIX: this.extractPartIX(form990, metadata.schemaVersion),
+      partIX: this.extractPartIX(form990, metadata.schemaVersion, formKind),
       partVI: this.extractPartVI(form990, metadata.schemaVersion),
       partVII: this.extractPartVII(form990, metadata.schemaVersion),
-      partVIII: this.extractPartVIII(form990, metadata.schemaVersion),
+      contractors: this.extractContractors(form990),
+      highestCompensatedEmployees: this.extractHighestCompensatedEmployees(form990),
+      partVIII: this.extractPartVIII(form990, metadata.schemaVersion, formKind),
+      partX: this.extractPartX(form990, metadata.schemaVersion, formKind),
+      scheduleA: this.extractScheduleA(scheduleA, metadata.schemaVersion),
+      scheduleI: this.extractScheduleI(scheduleI),
+      extractVersion: XML_EXTRACT_VERSION,
       extractedAt: new Date().toISOString(),
     };
 
     logDebug(
       `Parsed EIN ${metadata.ein} (schema ${metadata.schemaVersion}): ` +
       `IX=${extract.partIX ? "yes" : "null"} VI=${extract.partVI ? "yes" : "null"} ` +
-      `VII=${extract.partVII.length} entries VIII=${extract.partVIII ? "yes" : "null"}`,
+      `VII=${extract.partVII.length} entries ` +
+      `contractors=${extract.contractors.length} employees=${extract.highestCompensatedEmployees.length} ` +
+      `VIII=${extract.partVIII ? "yes" : "null"} ` +
+      `X=${extract.partX ? "yes" : "null"} SchA=${extract.scheduleA ? "yes" : "null"} ` +
+      `SchI=${extract.scheduleI?.grants.length ?? 0} grants`,
     );
 
     // Warn if a full 990 produced an empty extract — likely a schema version mismatch
@@ -156,35 +341,39 @@ export class Xml990Parser {
       data.partIX === null &&
       data.partVI === null &&
       data.partVII.length === 0 &&
-      data.partVIII === null
+      (data.contractors ?? []).length === 0 &&
+      (data.highestCompensatedEmployees ?? []).length === 0 &&
+      data.partVIII === null &&
+      (data.partX ?? null) === null &&
+      (data.scheduleA ?? null) === null &&
+      (data.scheduleI ?? null) === null
     );
   }
 
   private extractPartIX(
     form990: Record<string, unknown> | null,
     schemaVersion: string,
+    formKind: FormKind,
   ): PartIXData | null {
     if (!form990) return null;
 
-    const totalExpenses = this.resolveNumeric(form990, PART_IX_VARS.totalExpenses, schemaVersion);
-    const programServicesExpenses = this.resolveNumeric(form990, PART_IX_VARS.programServicesExpenses, schemaVersion);
-    const managementAndGeneralExpenses = this.resolveNumeric(form990, PART_IX_VARS.managementAndGeneralExpenses, schemaVersion);
-    const fundraisingExpenses = this.resolveNumeric(form990, PART_IX_VARS.fundraisingExpenses, schemaVersion);
+    const vars = PART_IX_VARS_BY_FORM[formKind];
+    const v = this.resolveNumericVars(form990, vars, schemaVersion);
 
-    // If all values are null, Part IX isn't present (likely 990-EZ)
-    if (
-      totalExpenses === null &&
-      programServicesExpenses === null &&
-      managementAndGeneralExpenses === null &&
-      fundraisingExpenses === null
-    ) {
+    // If all values are null, the expense lines aren't present (schema gap)
+    if (Object.values(v).every((value) => value === null)) {
       return null;
     }
 
-    const total = totalExpenses ?? 0;
-    const program = programServicesExpenses ?? 0;
-    const admin = managementAndGeneralExpenses ?? 0;
-    const fundraising = fundraisingExpenses ?? 0;
+    const total = v.totalExpenses ?? 0;
+    const program = v.programServicesExpenses ?? 0;
+    const fundraising = v.fundraisingExpenses ?? 0;
+    // 990-EZ/PF don't split out admin — everything outside program services
+    // counts as management and general
+    const admin =
+      "managementAndGeneralExpenses" in vars
+        ? v.managementAndGeneralExpenses ?? 0
+        : Math.max(0, total - program - fundraising);
     const ratiosValid = total > 0;
 
     return {
@@ -252,38 +441,75 @@ export class Xml990Parser {
       .filter((e): e is PartVIIEntry => e !== null);
   }
 
+  private extractContractors(
+    form990: Record<string, unknown> | null,
+  ): ContractorEntry[] {
+    return this.findGroupEntries(form990, CONTRACTOR_GROUP_TAGS)
+      .map((entry) => this.parseContractorEntry(entry))
+      .filter((e): e is ContractorEntry => e !== null);
+  }
+
+  private extractHighestCompensatedEmployees(
+    form990: Record<string, unknown> | null,
+  ): HighestCompensatedEmployeeEntry[] {
+    return this.findGroupEntries(form990, HIGHEST_PAID_EMPLOYEE_GROUP_TAGS)
+      .map((entry) => this.parseHighestCompensatedEmployee(entry))
+      .filter((e): e is HighestCompensatedEmployeeEntry => e !== null);
+  }
+
+  /**
+   * Return the entries of the first repeating group found under any of the
+   * given tag names. A single entry that slipped past isArray is wrapped.
+   */
+  private findGroupEntries(
+    node: Record<string, unknown> | null,
+    groupTags: string[],
+  ): Record<string, unknown>[] {
+    if (!node) return [];
+
+    for (const tag of groupTags) {
+      const found = this.findNestedValue(node, tag);
+      if (found === undefined || found === null) continue;
+      const entries = (Array.isArray(found) ? found : [found]).filter(
+        (e): e is Record<string, unknown> => typeof e === "object" && e !== null,
+      );
+      if (entries.length > 0) return entries;
+    }
+
+    return [];
+  }
+
   private extractPartVIII(
     form990: Record<string, unknown> | null,
     schemaVersion: string,
+    formKind: FormKind,
   ): PartVIIIData | null {
     if (!form990) return null;
 
-    const contributions = this.resolveNumeric(form990, PART_VIII_VARS.contributions, schemaVersion);
-    const programServiceRevenue = this.resolveNumeric(form990, PART_VIII_VARS.programServiceRevenue, schemaVersion);
-    const investmentIncome = this.resolveNumeric(form990, PART_VIII_VARS.investmentIncome, schemaVersion);
-    const otherRevenue = this.resolveNumeric(form990, PART_VIII_VARS.otherRevenue, schemaVersion);
-    const totalRevenue = this.resolveNumeric(form990, PART_VIII_VARS.totalRevenue, schemaVersion);
+    const vars = PART_VIII_VARS_BY_FORM[formKind];
+    const v = this.resolveNumericVars(form990, vars, schemaVersion);
 
-    if (
-      contributions === null &&
-      programServiceRevenue === null &&
-      investmentIncome === null &&
-      otherRevenue === null &&
-      totalRevenue === null
-    ) {
+    if (Object.values(v).every((value) => value === null)) {
       return null;
     }
 
-    const total = totalRevenue ?? 0;
-    const contribs = contributions ?? 0;
-    const progRev = programServiceRevenue ?? 0;
+    const total = v.totalRevenue ?? 0;
+    const contribs = v.contributions ?? 0;
+    const progRev = v.programServiceRevenue ?? 0;
+    const investment =
+      v.investmentIncome ?? (v.interestIncome ?? 0) + (v.dividendIncome ?? 0);
+    // Forms without a Part VIII "other revenue" line get the remainder
+    const other =
+      "otherRevenue" in vars
+        ? v.otherRevenue ?? 0
+        : Math.max(0, total - contribs - progRev - investment);
     const ratiosValid = total > 0;
 
     return {
       contributions: contribs,
       programServiceRevenue: progRev,
-      investmentIncome: investmentIncome ?? 0,
-      otherRevenue: otherRevenue ?? 0,
+      investmentIncome: investment,
+      otherRevenue: other,
       totalRevenue: total,
       contributionDependence: ratiosValid ? contribs / total : null,
       programRevenueSelfSufficiency: ratiosValid ? progRev / total : null,
@@ -291,10 +517,178 @@ export class Xml990Parser {
     };
   }
 
+  private extractPartX(
+    form990: Record<string, unknown> | null,
+    schemaVersion: string,
+    formKind: FormKind,
+  ): PartXData | null {
+    if (!form990) return null;
+
+    const v = this.resolveNumericVars(
+      form990,
+      PART_X_VARS_BY_FORM[formKind],
+      schemaVersion,
+    );
+
+    // If all values are null, the balance sheet isn't present (schema gap)
+    if (Object.values(v).every((value) => value === null)) {
+      return null;
+    }
+
+    const totalAssets = v.totalAssetsEOY ?? 0;
+    const totalLiabilities = v.totalLiabilitiesEOY ?? 0;
+    const cash = v.cashNonInterestBearing ?? 0;
+    const savings = v.savingsAndTempInvestments ?? 0;
+
+    // Prefer the post-2018 net asset classes, fall back to the legacy lines
+    const unrestricted =
+      v.noDonorRestrictionNetAssets ?? v.unrestrictedNetAssets ?? null;
+    const restricted =
+      v.donorRestrictionNetAssets ??
+      (v.tempRestrictedNetAssets == null && v.permRestrictedNetAssets == null
+        ? null
+        : (v.tempRestrictedNetAssets ?? 0) + (v.permRestrictedNetAssets ?? 0));
+
+    const ratiosValid = totalAssets > 0;
+
+    return {
+      cashNonInterestBearing: cash,
+      savingsAndTempInvestments: savings,
+      pledgesAndGrantsReceivable: v.pledgesAndGrantsReceivable ?? 0,
+      accountsReceivable: v.accountsReceivable ?? 0,
+      landBuildingsEquipmentNet: v.landBuildingsEquipmentNet ?? 0,
+      totalAssetsBOY: v.totalAssetsBOY ?? null,
+      totalAssetsEOY: totalAssets,
+      totalLiabilitiesBOY: v.totalLiabilitiesBOY ?? null,
+      totalLiabilitiesEOY: totalLiabilities,
+      unrestrictedNetAssets: unrestricted,
+      restrictedNetAssets: restricted,
+      netAssetsEOY: v.totalNetAssetsEOY ?? totalAssets - totalLiabilities,
+      cashAndEquivalents: cash + savings,
+      debtRatio: ratiosValid ? totalLiabilities / totalAssets : null,
+      ratiosValid,
+    };
+  }
+
+  private extractScheduleA(
+    scheduleA: Record<string, unknown> | null,
+    schemaVersion: string,
+  ): ScheduleAData | null {
+    if (!scheduleA) return null;
+
+    // A filer completes Part II or Part III, never both
+    const partII = this.resolveScheduleAVars(scheduleA, SCHEDULE_A_PART_II_VARS, schemaVersion);
+    const partIII = partII
+      ? null
+      : this.resolveScheduleAVars(scheduleA, SCHEDULE_A_PART_III_VARS, schemaVersion);
+    const v = partII ?? partIII;
+
+    // Part I-only filers (churches, schools, hospitals) have no support test
+    if (!v) return null;
+
+    const supportSchedule = partII ? "170" : "509";
+    const data: ScheduleAData = {
+      supportSchedule,
+      publicSupportTotal: (v.publicSupportTotal as number | null) ?? null,
+      totalSupport: (v.totalSupport as number | null) ?? null,
+      publicSupportPctCY: (v.publicSupportPctCY as number | null) ?? null,
+      publicSupportPctPY: (v.publicSupportPctPY as number | null) ?? null,
+      firstFiveYears: (v.firstFiveYears as boolean | null) ?? null,
+      thirtyThreePctTestCY: (v.thirtyThreePctTestCY as boolean | null) ?? null,
+      thirtyThreePctTestPY: (v.thirtyThreePctTestPY as boolean | null) ?? null,
+      tenPctFactsAndCircumstancesCY:
+        (v.tenPctFactsAndCircumstancesCY as boolean | null) ?? null,
+      tenPctFactsAndCircumstancesPY:
+        (v.tenPctFactsAndCircumstancesPY as boolean | null) ?? null,
+      privateFoundationStatus: (v.privateFoundationStatus as boolean | null) ?? null,
+      passedPublicSupportTest: null,
+    };
+    data.passedPublicSupportTest = Xml990Parser.evaluatePublicSupportTest(data);
+
+    return data;
+  }
+
+  /**
+   * Determine whether the filer met its public support test.
+   * Checked boxes on the return win; the percentage is only used when the
+   * filer left every test box blank. Returns null when it can't be decided
+   * (e.g. 10-33⅓% under Part II without the facts-and-circumstances box).
+   */
+  static evaluatePublicSupportTest(data: ScheduleAData): boolean | null {
+    if (data.firstFiveYears) return true;
+    if (
+      data.thirtyThreePctTestCY ||
+      data.thirtyThreePctTestPY ||
+      data.tenPctFactsAndCircumstancesCY ||
+      data.tenPctFactsAndCircumstancesPY
+    ) {
+      return true;
+    }
+    if (data.privateFoundationStatus) return false;
+
+    const pct = data.publicSupportPctCY;
+    if (pct === null) return null;
+    if (pct >= PUBLIC_SUPPORT_TEST_PCT) return true;
+    if (data.supportSchedule === "509") return false;
+    return pct < FACTS_AND_CIRCUMSTANCES_MIN_PCT ? false : null;
+  }
+
+  private extractScheduleI(
+    scheduleI: Record<string, unknown> | null,
+  ): ScheduleIData | null {
+    if (!scheduleI) return null;
+
+    // Schedule I grantees are a repeating group, like Part VII
+    const found = this.findNestedValue(scheduleI, "RecipientTable");
+    if (!Array.isArray(found) || found.length === 0) return null;
+
+    const grants = found
+      .filter((e): e is Record<string, unknown> => typeof e === "object" && e !== null)
+      .map((entry) => this.parseScheduleIGrant(entry))
+      .filter((g): g is ScheduleIGrant => g !== null);
+
+    if (grants.length === 0) return null;
+
+    return {
+      grants,
+      totalCashGrants: grants.reduce((sum, g) => sum + g.cashGrantAmount, 0),
+      totalNonCashAssistance: grants.reduce((sum, g) => sum + g.nonCashAmount, 0),
+    };
+  }
+
+  private resolveScheduleAVars(
+    scheduleA: Record<string, unknown>,
+    vars: Record<string, string>,
+    schemaVersion: string,
+  ): Record<string, number | boolean | null> | null {
+    const v: Record<string, number | boolean | null> = {};
+    for (const [field, variableName] of Object.entries(vars)) {
+      v[field] = SCHEDULE_A_NUMERIC_FIELDS.has(field)
+        ? this.resolveNumeric(scheduleA, variableName, schemaVersion)
+        : this.resolveBoolean(scheduleA, variableName, schemaVersion);
+    }
+
+    // Booleans coerce missing checkboxes to null, so all-null means Part absent
+    return Object.values(v).every((value) => value === null) ? null : v;
+  }
+
   // ---------------------------------------------------------------------------
   // Internal helpers
   // ---------------------------------------------------------------------------
 
+  /** Resolve every variable in a field → variable map to numbers. */
+  private resolveNumericVars(
+    obj: Record<string, unknown>,
+    vars: Record<string, string>,
+    schemaVersion: string,
+  ): Record<string, number | null> {
+    const values: Record<string, number | null> = {};
+    for (const [field, variableName] of Object.entries(vars)) {
+      values[field] = this.resolveNumeric(obj, variableName, schemaVersion);
+    }
+    return values;
+  }
+
   private resolveNumeric(
     obj: Record<string, unknown>,
     variableName: string,
@@ -327,12 +721,21 @@ export class Xml990Parser {
       }
     }
 
-    // Direct tag fallback: try the last segment of each xpath
+    // Direct tag fallback: try the last segment of each xpath. Leaves inside
+    // a *Grp element (EOYAmt, TotalAmt, ...) are shared by many groups, so
+    // anchor on the group first to avoid picking up a sibling's value.
     for (const entry of entries) {
       const segments = entry.xpath.split("/").filter(Boolean);
       const lastSegment = segments[segments.length - 1];
+      const parentSegment = segments[segments.length - 2];
       if (lastSegment) {
-        const value = this.findNestedValue(obj, lastSegment);
+        const value = parentSegment?.endsWith("Grp")
+          ? this.findNestedValue(
+              this.findNestedValue(obj, parentSegment),
+              lastSegment,
+              1,
+            )
+          : this.findNestedValue(obj, lastSegment);
         if (value !== undefined && value !== null) {
           return value;
         }
@@ -434,6 +837,104 @@ export class Xml990Parser {
     };
   }
 
+  private parseContractorEntry(
+    entry: Record<string, unknown>,
+  ): ContractorEntry | null {
+    // Contractors are usually businesses; sole proprietors are reported by PersonNm
+    const name =
+      coerceText(this.findNestedValue(entry, "BusinessNameLine1Txt")) ??
+      coerceText(this.findNestedValue(entry, "BusinessNameLine1")) ??
+      coerceText(this.findNestedValue(entry, "PersonNm")) ??
+      coerceText(this.findNestedValue(entry, "NameIndividual")) ??
+      "";
+
+    const compensation = coerceNumeric(
+      entry["CompensationAmt"] ?? entry["Compensation"],
+    );
+
+    if (!name || compensation === null) return null;
+
+    return {
+      name,
+      services: coerceText(
+        entry["ServicesDesc"] ??
+        entry["ServiceTypeTxt"] ??
+        entry["DescriptionOfServices"] ??
+        entry["TypeOfService"],
+      ),
+      compensation,
+    };
+  }
+
+  private parseHighestCompensatedEmployee(
+    entry: Record<string, unknown>,
+  ): HighestCompensatedEmployeeEntry | null {
+    const name =
+      coerceText(entry["PersonNm"]) ??
+      coerceText(entry["Name"]) ??
+      "";
+
+    if (!name) return null;
+
+    return {
+      name,
+      title: coerceText(entry["TitleTxt"]) ?? coerceText(entry["Title"]) ?? "",
+      avgHoursPerWeek: coerceNumeric(
+        entry["AverageHrsPerWkDevotedToPosRt"] ??
+        entry["AverageHoursPerWeekRt"] ??
+        entry["AverageHoursPerWeek"],
+      ),
+      compensation: coerceNumeric(
+        entry["CompensationAmt"] ?? entry["Compensation"],
+      ) ?? 0,
+      benefits: coerceNumeric(
+        entry["EmployeeBenefitsAmt"] ??
+        entry["EmployeeBenefitProgramAmt"] ??
+        entry["ContriToEmplBenefitPlansEtc"],
+      ) ?? 0,
+      expenseAccount: coerceNumeric(
+        entry["ExpenseAccountAmt"] ??
+        entry["ExpenseAccountOtherAllwncAmt"] ??
+        entry["ExpenseAccount"],
+      ) ?? 0,
+    };
+  }
+
+  private parseScheduleIGrant(
+    entry: Record<string, unknown>,
+  ): ScheduleIGrant | null {
+    // 2013+ schemas use *Txt/*Amt suffixes; 2009-2012 used bare names
+    const recipientName =
+      coerceText(this.findNestedValue(entry, "BusinessNameLine1Txt")) ??
+      coerceText(this.findNestedValue(entry, "BusinessNameLine1")) ??
+      "";
+
+    if (!recipientName) return null;
+
+    const rawEin = coerceText(entry["RecipientEIN"] ?? entry["EINOfRecipient"]);
+    const ein = rawEin?.replace(/[-\s]/g, "") ?? null;
+
+    return {
+      recipientName,
+      recipientEin: ein && /^\d{9}$/.test(ein) ? ein : null,
+      city: coerceText(
+        this.findNestedValue(entry, "CityNm") ?? this.findNestedValue(entry, "City"),
+      ),
+      state: coerceText(
+        this.findNestedValue(entry, "StateAbbreviationCd") ??
+        this.findNestedValue(entry, "State"),
+      ),
+      ircSection: coerceText(entry["IRCSectionDesc"] ?? entry["IRCSection"]),
+      cashGrantAmount: coerceNumeric(
+        entry["CashGrantAmt"] ?? entry["AmountOfCashGrant"],
+      ) ?? 0,
+      nonCashAmount: coerceNumeric(
+        entry["NonCashAssistanceAmt"] ?? entry["AmountOfNonCashAssistance"],
+      ) ?? 0,
+      purpose: coerceText(entry["PurposeOfGrantTxt"] ?? entry["PurposeOfGrant"]),
+    };
+  }
+
   private getReturnData(
     parsed: Record<string, unknown>,
   ): Record<string, unknown> | null {
@@ -459,7 +960,13 @@ export class Xml990Parser {
       partIX: null,
       partVI: null,
       partVII: [],
+      contractors: [],
+      highestCompensatedEmployees: [],
       partVIII: null,
+      partX: null,
+      scheduleA: null,
+      scheduleI: null,
+      extractVersion: XML_EXTRACT_VERSION,
       extractedAt: new Date().toISOString(),
     };
   }
@@ -0,0 +1,42 @@
+import { CsvDataStore } from "../../data-sources/csv-data-store.js";
+import { EpostcardSummary } from "../nonprofit/types.js";
+
+export class EpostcardClient {
+  private store: CsvDataStore;
+
+  constructor(store: CsvDataStore) {
+    this.store = store;
+  }
+
+  /**
+   * Most recent 990-N e-Postcard for an EIN, or null if the org has never
+   * filed one (or the EIN is malformed).
+   */
+  lookup(ein: string): EpostcardSummary | null {
+    const normalized = ein.replace(/[-\s]/g, "");
+    if (!/^\d{9}$/.test(normalized)) return null;
+
+    const row = this.store.lookupEpostcard(normalized);
+    if (!row) return null;
+
+    return {
+      tax_year: row.taxYear,
+      tax_period_end:
+        toYearMonth(row.taxPeriodEnd) ?? `${row.taxYear}-12`,
+      gross_receipts_under_limit: row.grossReceiptsUnderLimit,
+      terminated: row.terminated,
+    };
+  }
+}
+
+/**
+ * The e-Postcard file writes dates as MM-DD-YYYY; older extracts used
+ * YYYY-MM-DD. Either becomes "YYYY-MM" to match Latest990Summary.tax_period.
+ */
+function toYearMonth(date: string): string | null {
+  const mdy = /^(\d{2})[-/](\d{2})[-/](\d{4})$/.exec(date);
+  if (mdy) return `${mdy[3]}-${mdy[1]}`;
+  const ymd = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (ymd) return `${ymd[1]}-${ymd[2]}`;
+  return null;
+}
@@ -1,16 +1,19 @@
 #!/usr/bin/env node
 import { startServer } from "./server/index.js";
+import { parseTransportArgs } from "./core/config.js";
 import { logError } from "./core/logging.js";
 
 const shouldAutoStart =
   process.env.VITEST !== "true" && process.env.NODE_ENV !== "test";
 
 if (shouldAutoStart) {
-  startServer().catch((error) => {
-    const message = error instanceof Error ? error.message : String(error);
-    logError("Server error:", message);
-    process.exit(1);
-  });
+  Promise.resolve()
+    .then(() => startServer(parseTransportArgs(process.argv.slice(2))))
+    .catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logError("Server error:", message);
+      process.exit(1);
+    });
 }
 
 export { startServer };
@@ -1,14 +1,26 @@
 import path from "path";
-import { loadConfig, loadGivingTuesdayConfig, type AppConfig } from "../core/config.js";
+import {
+  loadConfig,
+  loadGivingTuesdayConfig,
+  type AppConfig,
+  type TransportConfig,
+} from "../core/config.js";
 import { CsvDataStore } from "../data-sources/csv-data-store.js";
 import { VettingStore } from "../data-sources/vetting-store.js";
 import { IrsRevocationClient } from "../domain/red-flags/irs-revocation-client.js";
 import { OfacSdnClient } from "../domain/red-flags/ofac-sdn-client.js";
+import { EpostcardClient } from "../domain/red-flags/epostcard-client.js";
 import { CourtListenerClient } from "../domain/red-flags/courtlistener-client.js";
 import { DiscoveryIndex } from "../data-sources/discovery-index.js";
 import { DiscoveryPipeline } from "../domain/discovery/pipeline.js";
 import { VettingPipeline } from "../domain/nonprofit/vetting-pipeline.js";
+import {
+  loadScreeningProfiles,
+  type ScreeningProfiles,
+} from "../domain/nonprofit/screening-profiles.js";
 import { SearchHistoryStore } from "../data-sources/search-history-store.js";
+import { WatchlistStore } from "../data-sources/watchlist-store.js";
+import { WatchlistRunner } from "../domain/nonprofit/watchlist-runner.js";
 import { GivingTuesdayClient } from "../data-sources/givingtuesday-client.js";
 import { Xml990Store } from "../data-sources/xml-990-store.js";
 import { ConcordanceIndex } from "../data-sources/concordance.js";
@@ -17,14 +29,18 @@ import { logInfo, logError } from "../core/logging.js";
 
 export interface ServerContext {
   config: AppConfig;
+  screeningProfiles: ScreeningProfiles;
   dataStore: CsvDataStore;
   irsClient: IrsRevocationClient;
   ofacClient: OfacSdnClient;
+  epostcardClient: EpostcardClient;
   courtClient: CourtListenerClient | undefined;
   vettingStore: VettingStore | undefined;
   discoveryIndex: DiscoveryIndex;
   vettingPipeline: VettingPipeline;
   searchHistoryStore: SearchHistoryStore | undefined;
+  watchlistStore: WatchlistStore | undefined;
+  watchlistRunner: WatchlistRunner | undefined;
   discoveryPipeline: DiscoveryPipeline;
   discoveryReady: boolean;
   givingTuesdayClient: GivingTuesdayClient;
@@ -36,16 +52,24 @@ export interface ServerContext {
  * Create and initialize the full server context.
  * All instantiation + async init happens here (not at module import time).
  */
-export async function createServerContext(): Promise<ServerContext> {
+export async function createServerContext(
+  transportOverrides?: Partial<TransportConfig>,
+): Promise<ServerContext> {
   // sql.js WASM must load before any SQLite operations
   await ensureSqlJs();
 
-  const config = loadConfig();
+  const config = loadConfig(transportOverrides);
   const { thresholds: _, portfolioFit } = config;
+  // Invalid profiles fail startup, same as invalid env thresholds
+  const screeningProfiles = loadScreeningProfiles(
+    config.screeningProfilesPath,
+    config,
+  );
 
   const dataStore = new CsvDataStore(config.redFlag);
   const irsClient = new IrsRevocationClient(dataStore);
   const ofacClient = new OfacSdnClient(dataStore);
+  const epostcardClient = new EpostcardClient(dataStore);
 
   const courtClient = config.redFlag.courtlistenerApiToken
     ? new CourtListenerClient(config.redFlag)
@@ -53,6 +77,7 @@ export async function createServerContext(): Promise<ServerContext> {
 
   let vettingStore: VettingStore | undefined;
   let searchHistoryStore: SearchHistoryStore | undefined;
+  let watchlistStore: WatchlistStore | undefined;
 
   const discoveryIndex = new DiscoveryIndex(config.discovery);
   const discoveryPipeline = new DiscoveryPipeline(discoveryIndex, portfolioFit);
@@ -114,6 +139,17 @@ export async function createServerContext(): Promise<ServerContext> {
         err instanceof Error ? err.message : String(err),
       );
     }
+
+    try {
+      const store = new WatchlistStore();
+      store.initialize(vettingStore.getDatabase());
+      watchlistStore = store;
+    } catch (err) {
+      logError(
+        "WatchlistStore initialization failed (watchlist disabled):",
+        err instanceof Error ? err.message : String(err),
+      );
+    }
   }
 
   // Initialize local data pipeline for screening
@@ -150,22 +186,39 @@ export async function createServerContext(): Promise<ServerContext> {
     concordance,
     thresholds: config.thresholds,
     portfolioFit: config.portfolioFit,
+    profiles: screeningProfiles,
     irsClient,
     ofacClient,
+    epostcardClient,
     courtClient,
+    dataStore,
     vettingStore,
     cacheMaxAgeDays: config.vettingCacheMaxAgeDays,
   });
 
+  const watchlistRunner =
+    watchlistStore && vettingStore
+      ? new WatchlistRunner({
+          watchlistStore,
+          vettingStore,
+          vettingPipeline,
+          cacheMaxAgeDays: config.vettingCacheMaxAgeDays,
+        })
+      : undefined;
+
   return {
     config,
+    screeningProfiles,
     dataStore,
     irsClient,
     ofacClient,
+    epostcardClient,
     courtClient,
     vettingStore,
     vettingPipeline,
     searchHistoryStore,
+    watchlistStore,
+    watchlistRunner,
     discoveryIndex,
     discoveryPipeline,
     discoveryReady,
@@ -4,42 +4,122 @@ import {
   argStringOpt,
   argNumber,
   formatToolResponse,
+  resolveImportDir,
 } from "./tool-registry.js";
+import type { ServerContext } from "./context.js";
+import type { PortfolioSweepResult } from "../domain/nonprofit/types.js";
+import { getScreeningHistory } from "../domain/nonprofit/history.js";
+import { replayScreening } from "../domain/nonprofit/screening-replay.js";
+import { sweepVettedPortfolio } from "../domain/nonprofit/portfolio-sweep.js";
+import { simulateThresholds } from "../domain/nonprofit/threshold-simulation.js";
+import { unknownProfileError } from "../domain/nonprofit/screening-profiles.js";
+import { logError, getErrorMessage } from "../core/logging.js";
+
+interface RefreshedSources {
+  irs_refreshed: boolean;
+  ofac_refreshed: boolean;
+}
+
+/**
+ * Re-check every vetted EIN against the fresh IRS/OFAC data with the cheap
+ * local gates. Null when nothing relevant was refreshed or the sweep failed
+ * (the refresh itself still succeeded).
+ */
+function runPortfolioSweep(
+  ctx: ServerContext,
+  refreshed: RefreshedSources,
+): PortfolioSweepResult | null {
+  if (!ctx.vettingStore || (!refreshed.irs_refreshed && !refreshed.ofac_refreshed)) {
+    return null;
+  }
+  try {
+    return sweepVettedPortfolio(
+      {
+        vettingStore: ctx.vettingStore,
+        discoveryIndex: ctx.discoveryIndex,
+        irsClient: ctx.irsClient,
+        ofacClient: ctx.ofacClient,
+      },
+      { irs: refreshed.irs_refreshed, ofac: refreshed.ofac_refreshed },
+    );
+  } catch (err) {
+    logError("Post-refresh portfolio sweep failed:", getErrorMessage(err));
+    return null;
+  }
+}
+
+/**
+ * New IRS revocation or OFAC data can change any watched org's gates, so
+ * re-screen the whole watchlist in the background (it can take minutes).
+ * If a run is already going, the full re-screen is queued behind it.
+ */
+function startWatchlistRescreen(
+  ctx: ServerContext,
+  refreshed: RefreshedSources,
+): "started" | "queued" | "not_needed" {
+  const runner = ctx.watchlistRunner;
+  if (!runner || (!refreshed.irs_refreshed && !refreshed.ofac_refreshed)) {
+    return "not_needed";
+  }
+  const queued = runner.isRunning();
+
+  runner
+    .run({ all: true, reason: "IRS/OFAC data refresh" })
+    .catch((err) =>
+      logError("Post-refresh watchlist re-screen failed:", getErrorMessage(err)),
+    );
+  return queued ? "queued" : "started";
+}
 
 export function getToolDefinitions(): ToolDefinition[] {
   return [
     {
       name: "refresh_data",
       description:
-        "Re-download IRS revocation list and/or OFAC SDN data. Use when data may be stale.",
+        "Re-download IRS revocation list, OFAC SDN data, and/or the IRS 990-N e-Postcard list. Use when data may be stale. Pass source_dir to import already-downloaded files instead (for machines without network access). After an IRS or OFAC refresh, every previously vetted org is re-checked against the new data (501(c)(3)/revocation and OFAC gates plus OFAC near-match) and newly revoked or sanctioned orgs are reported in portfolio_sweep.",
       inputSchema: {
         type: "object",
         properties: {
           source: {
             type: "string",
-            enum: ["irs", "ofac", "all"],
+            enum: ["irs", "ofac", "epostcard", "all"],
+            description:
+              'Which data source to refresh: "irs", "ofac", "epostcard", or "all"',
+          },
+          source_dir: {
+            type: "string",
             description:
-              'Which data source to refresh: "irs", "ofac", or "all"',
+              "Directory on the server holding the files to import instead of downloading: data-download-revocation.zip (or the extracted .txt), sdn.csv and alt.csv, data-download-epostcard.zip (or .txt). Must be inside the server's OFFLINE_IMPORT_DIR (relative paths are taken from it). Missing or undersized files fail the refresh.",
           },
         },
         required: ["source"],
       },
       handler: async (args, ctx) => {
         const source = argString(args, "source");
-        if (!["irs", "ofac", "all"].includes(source)) {
+        if (!["irs", "ofac", "epostcard", "all"].includes(source)) {
           return formatToolResponse({
             success: false,
-            error: 'Invalid source. Must be "irs", "ofac", or "all".',
+            error: 'Invalid source. Must be "irs", "ofac", "epostcard", or "all".',
             attribution: "",
           });
         }
         try {
+          const sourceDir = resolveImportDir(
+            argStringOpt(args, "source_dir"),
+            ctx.config.offlineImportDir,
+          );
           const result = await ctx.dataStore.refresh(
-            source as "irs" | "ofac" | "all",
+            source as "irs" | "ofac" | "epostcard" | "all",
+            sourceDir,
           );
           return formatToolResponse({
             success: true,
-            data: { refreshed: source, ...result },
+            data: {
+              refreshed: source,
+              ...result,
+              portfolio_sweep: runPortfolioSweep(ctx, result),
+              watchlist_rescreen: startWatchlistRescreen(ctx, result),
+            },
             attribution: "",
           });
         } catch (err) {
@@ -105,6 +185,7 @@ export function getToolDefinitions(): ToolDefinition[] {
               red_flag_count: r.red_flag_count,
               vetted_at: r.vetted_at,
               vetted_by: r.vetted_by,
+              profile: r.profile,
             })),
             stats,
           },
@@ -112,5 +193,127 @@ export function getToolDefinitions(): ToolDefinition[] {
         });
       },
     },
+    {
+      name: "get_screening_history",
+      description:
+        "List every saved screening for an EIN (most recent first) and diff two of them: score delta, recommendation change, gates flipped, red flags added/removed, and scoring checks whose result changed. Each screening lists the profile it was made under. Defaults to diffing the latest screening against the previous one under the same profile; pass from_id/to_id (screening ids from the list) to compare any two, or profile to look at one profile only.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description: "Employer Identification Number (e.g., 95-3135649)",
+          },
+          from_id: {
+            type: "number",
+            description:
+              "Older screening id to diff from (default: the previous one under to_id's profile).",
+          },
+          to_id: {
+            type: "number",
+            description: "Newer screening id to diff to (default: latest).",
+          },
+          profile: {
+            type: "string",
+            description:
+              'Only list and diff screenings made under this screening profile (e.g., "default").',
+          },
+          limit: {
+            type: "number",
+            description: "Max screenings to list (default 20, max 100).",
+          },
+        },
+        required: ["ein"],
+      },
+      handler: async (args, ctx) =>
+        formatToolResponse(
+          getScreeningHistory(argString(args, "ein"), ctx.vettingStore, {
+            fromId: argNumber(args, "from_id"),
+            toId: argNumber(args, "to_id"),
+            limit: argNumber(args, "limit"),
+            profile: argStringOpt(args, "profile"),
+          }),
+        ),
+    },
+    {
+      name: "replay_screening",
+      description:
+        "Audit a past decision: re-run a saved screening from the input snapshot stored with it (profile, filings, resolved thresholds, IRS revocation/OFAC answers, data manifest timestamps, filing ObjectIds, and the screening clock) with no network calls or live data, and report whether it reproduces the saved result. Returns the snapshot, the replayed result, and a diff against the saved one. Screenings saved before snapshots were recorded can't be replayed.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description: "Employer Identification Number (e.g., 95-3135649)",
+          },
+          screening_id: {
+            type: "number",
+            description:
+              "Screening id from get_screening_history (default: latest).",
+          },
+        },
+        required: ["ein"],
+      },
+      handler: async (args, ctx) =>
+        formatToolResponse(
+          replayScreening(argString(args, "ein"), ctx.vettingStore, {
+            screeningId: argNumber(args, "screening_id"),
+          }),
+        ),
+    },
+    {
+      name: "simulate_thresholds",
+      description:
+        "What-if analysis before changing a threshold or weight: re-scores the latest saved screening of every vetted org from its saved inputs (no network calls) under the current thresholds and under the given overrides, and reports how many orgs would move between PASS/REVIEW/REJECT and which ones. Gate-blocked orgs stay REJECT. Screenings saved before inputs were persisted are skipped (re-screen to include them).",
+      inputSchema: {
+        type: "object",
+        properties: {
+          overrides: {
+            type: "object",
+            description:
+              'Partial VettingThresholds to try, e.g. {"scorePassMin": 80} or {"weightSpendRate": 20, "weightOperatingReserves": 25}. Weights must still sum to 100.',
+          },
+          profile: {
+            type: "string",
+            description:
+              'Screening profile whose thresholds and saved screenings are the baseline. Default: "default".',
+          },
+          limit: {
+            type: "number",
+            description:
+              "Max moved orgs to list, biggest score change first (default 50, max 500). Counts always cover every org.",
+          },
+        },
+        required: ["overrides"],
+      },
+      handler: async (args, ctx) => {
+        if (!ctx.vettingStore) {
+          return formatToolResponse({
+            success: false,
+            error:
+              "VettingStore not available. Check server logs for initialization errors.",
+            attribution: "",
+          });
+        }
+
+        const profileName = argStringOpt(args, "profile");
+        const profile = ctx.vettingPipeline.getProfile(profileName);
+        if (!profile) {
+          return formatToolResponse({
+            success: false,
+            error: unknownProfileError(profileName!, ctx.screeningProfiles),
+            attribution: "",
+          });
+        }
+
+        return formatToolResponse(
+          simulateThresholds(ctx.vettingStore, args?.overrides, {
+            profile: profile.name,
+            baseThresholds: profile.thresholds,
+            limit: argNumber(args, "limit"),
+          }),
+        );
+      },
+    },
   ];
 }
@@ -4,8 +4,10 @@ import {
   argStringOpt,
   argStringArray,
   argNumber,
+  argNumberArray,
   argBoolOpt,
   formatToolResponse,
+  resolveImportDir,
 } from "./tool-registry.js";
 
 export function getToolDefinitions(): ToolDefinition[] {
@@ -13,7 +15,7 @@ export function getToolDefinitions(): ToolDefinition[] {
     {
       name: "discover_nonprofits",
       description:
-        "Browse and filter nonprofits from IRS Business Master File (~1.8M orgs). Zero API calls, sub-second response. Filter by state, city, NTEE category, ruling year, or name. Returns candidates ready for screen_nonprofit. Default: 501(c)(3) orgs within platform portfolio scope.",
+        "Browse and filter nonprofits from IRS Business Master File (~1.8M orgs). Zero API calls, sub-second response. Filter by state, city, ZIP, county, distance from a ZIP, NTEE category, ruling year, revenue/asset range, foundation code, or name. Returns candidates ready for screen_nonprofit. Default: 501(c)(3) orgs within platform portfolio scope.",
       inputSchema: {
         type: "object",
         properties: {
@@ -25,6 +27,25 @@ export function getToolDefinitions(): ToolDefinition[] {
             type: "string",
             description: "Filter by city name (case-insensitive).",
           },
+          zip: {
+            type: "string",
+            description: 'Filter by 5-digit ZIP code (e.g., "94607").',
+          },
+          near_zip: {
+            type: "string",
+            description:
+              "Only orgs within radius_miles of this ZIP's centroid. Each result gets distance_miles.",
+          },
+          radius_miles: {
+            type: "number",
+            description:
+              "Radius around near_zip in miles (default 10, max 100).",
+          },
+          county: {
+            type: "string",
+            description:
+              'County name or 5-digit FIPS code (e.g., "Alameda" or "06001"). Pair a name with state to disambiguate.',
+          },
           ntee_categories: {
             type: "array",
             items: { type: "string" },
@@ -49,6 +70,34 @@ export function getToolDefinitions(): ToolDefinition[] {
             type: "number",
             description: "Maximum ruling year (e.g., 2020).",
           },
+          min_revenue: {
+            type: "number",
+            description:
+              "Minimum total revenue in USD, from the BMF's latest return (orgs with no reported revenue are excluded).",
+          },
+          max_revenue: {
+            type: "number",
+            description: "Maximum total revenue in USD.",
+          },
+          min_assets: {
+            type: "number",
+            description: "Minimum total assets in USD.",
+          },
+          max_assets: {
+            type: "number",
+            description: "Maximum total assets in USD.",
+          },
+          foundation_codes: {
+            type: "array",
+            items: { type: "number" },
+            description:
+              "BMF foundation codes to include (e.g., [15, 16] for publicly supported charities; 2-4 are private foundations).",
+          },
+          public_charity_only: {
+            type: "boolean",
+            description:
+              "Only public charities (foundation codes 10-24), excluding private foundations.",
+          },
           name_contains: {
             type: "string",
             description: "Substring match on organization name.",
@@ -58,6 +107,11 @@ export function getToolDefinitions(): ToolDefinition[] {
             description:
               "Apply platform portfolio-fit NTEE filter. Default: true.",
           },
+          profile: {
+            type: "string",
+            description:
+              'Screening profile whose portfolio-fit NTEE scope to apply (see list_screening_profiles). Default: "default".',
+          },
           limit: {
             type: "number",
             description: "Max results to return (default 100, max 500).",
@@ -81,20 +135,32 @@ export function getToolDefinitions(): ToolDefinition[] {
         const queryArgs = {
           state: argStringOpt(args, "state"),
           city: argStringOpt(args, "city"),
+          zip: argStringOpt(args, "zip"),
+          near_zip: argStringOpt(args, "near_zip"),
+          radius_miles: argNumber(args, "radius_miles"),
+          county: argStringOpt(args, "county"),
           ntee_categories: argStringArray(args, "ntee_categories"),
           ntee_exclude: argStringArray(args, "ntee_exclude"),
           subsection: argNumber(args, "subsection"),
           min_ruling_year: argNumber(args, "min_ruling_year"),
           max_ruling_year: argNumber(args, "max_ruling_year"),
+          min_revenue: argNumber(args, "min_revenue"),
+          max_revenue: argNumber(args, "max_revenue"),
+          min_assets: argNumber(args, "min_assets"),
+          max_assets: argNumber(args, "max_assets"),
+          foundation_codes: argNumberArray(args, "foundation_codes"),
+          public_charity_only: argBoolOpt(args, "public_charity_only"),
           name_contains: argStringOpt(args, "name_contains"),
           portfolio_fit_only: argBoolOpt(args, "portfolio_fit_only"),
           limit: argNumber(args, "limit"),
           offset: argNumber(args, "offset"),
+          profile: argStringOpt(args, "profile"),
         };
 
         const result = discoveryTools.discoverNonprofits(
           ctx.discoveryPipeline,
           queryArgs,
+          ctx.screeningProfiles,
         );
 
         // Log discovery query (non-blocking)
@@ -116,14 +182,34 @@ export function getToolDefinitions(): ToolDefinition[] {
     {
       name: "refresh_discovery_index",
       description:
-        "Re-download IRS BMF data and rebuild the discovery index. Takes ~3-5 minutes. Use when the index is stale or on first setup.",
+        "Re-download IRS BMF data and update the discovery index. Takes ~3-5 minutes. Use when the index is stale or on first setup. After the first build only the differences are applied, and new, renamed, reclassified and dropped orgs are logged (see list_bmf_changes). Pass source_dir to load already-downloaded files on machines without network access.",
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          source_dir: {
+            type: "string",
+            description:
+              'Directory on the server holding the BMF region files ({region}.csv or {region}.zip, e.g., "eo1.csv") to load instead of downloading from irs.gov. Must be inside the server\'s OFFLINE_IMPORT_DIR (relative paths are taken from it).',
+          },
+        },
       },
-      handler: async (_args, ctx) => {
+      handler: async (args, ctx) => {
+        let sourceDir: string | undefined;
+        try {
+          sourceDir = resolveImportDir(
+            argStringOpt(args, "source_dir"),
+            ctx.config.offlineImportDir,
+          );
+        } catch (err) {
+          return formatToolResponse({
+            success: false,
+            error: `Index refresh failed: ${err instanceof Error ? err.message : String(err)}`,
+            attribution: "IRS Exempt Organizations Business Master File (BMF)",
+          });
+        }
         const result = await discoveryTools.refreshDiscoveryIndex(
           ctx.discoveryIndex,
+          sourceDir,
         );
         if (result.success) {
           ctx.discoveryReady = true;
@@ -131,5 +217,61 @@ export function getToolDefinitions(): ToolDefinition[] {
         return formatToolResponse(result);
       },
     },
+    {
+      name: "list_bmf_changes",
+      description:
+        "List IRS BMF changes detected by discovery index refreshes: new orgs, name changes, NTEE changes, subsection changes, and orgs dropped from the BMF. Newest first. Use vetted_only to watch screened orgs.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description: "Only changes for this EIN.",
+          },
+          change_types: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [
+                "new_org",
+                "name_change",
+                "ntee_change",
+                "subsection_change",
+                "dropped",
+              ],
+            },
+            description: "Only these change types.",
+          },
+          since: {
+            type: "string",
+            description:
+              'Only changes detected on or after this date (ISO 8601, e.g., "2026-01-01").',
+          },
+          vetted_only: {
+            type: "boolean",
+            description: "Only orgs that have been screened. Default: false.",
+          },
+          limit: {
+            type: "number",
+            description: "Max changes to return (default 100, max 500).",
+          },
+        },
+      },
+      handler: async (args, ctx) => {
+        return formatToolResponse(
+          discoveryTools.listBmfChanges(
+            ctx.discoveryIndex,
+            {
+              ein: argStringOpt(args, "ein"),
+              change_types: argStringArray(args, "change_types"),
+              since: argStringOpt(args, "since"),
+              vetted_only: argBoolOpt(args, "vetted_only"),
+              limit: argNumber(args, "limit"),
+            },
+            ctx.vettingStore,
+          ),
+        );
+      },
+    },
   ];
 }
@@ -0,0 +1,336 @@
+// ============================================================================
+// HTTP Transport
+//
+// Serves MCP over Streamable HTTP (POST/GET/DELETE /mcp) and the legacy
+// HTTP+SSE protocol (GET /sse + POST /messages) so a team can share one
+// server — one ServerContext, one vetting cache, one audit history.
+//
+// Each session gets its own MCP Server instance (the SDK binds a Server to
+// a single transport); all of them share the caller-supplied context.
+// Streamable HTTP sessions a client abandons without DELETE are closed once
+// idle past sessionIdleMs; legacy SSE sessions end with their stream.
+// ============================================================================
+
+import http from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { URL } from "node:url";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logInfo, logWarn, logError, getErrorMessage } from "../core/logging.js";
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+const MAX_BODY_BYTES = 1024 * 1024; // JSON-RPC requests are small; 1MB is generous
+const IDLE_SWEEP_MS = 60_000;
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken: string;
+  /** Build a fresh MCP Server for a new session. */
+  createServer: (sessionId: string) => Server;
+  /**
+   * Close Streamable HTTP sessions with no request for this long. A session
+   * with an open request (e.g. a GET notification stream) is never idle.
+   * 0 or unset keeps sessions until the client deletes them.
+   */
+  sessionIdleMs?: number;
+}
+
+export interface HttpTransportHandle {
+  /** Bound port (useful when started with port 0). */
+  port: number;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+interface Session {
+  transport: SessionTransport;
+  server: Server;
+  remote: string;
+  lastActivity: number;
+  openRequests: number;
+}
+
+/**
+ * Constant-time bearer token check. Returns false for a missing header,
+ * a non-Bearer scheme, or a mismatched token.
+ */
+export function isAuthorized(
+  header: string | undefined,
+  expectedToken: string,
+): boolean {
+  if (!header) return false;
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  if (!match) return false;
+
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(expectedToken);
+  if (given.length !== expected.length) return false;
+  return timingSafeEqual(given, expected);
+}
+
+export async function startHttpTransport(
+  opts: HttpTransportOptions,
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+
+  const openSession = (
+    sessionId: string,
+    transport: SessionTransport,
+    server: Server,
+    remote: string,
+    kind: string,
+  ) => {
+    sessions.set(sessionId, {
+      transport,
+      server,
+      remote,
+      lastActivity: Date.now(),
+      openRequests: 0,
+    });
+    logInfo(
+      `[session ${sessionId}] opened (${kind}) from ${remote} — ${sessions.size} active`,
+    );
+  };
+
+  const closeSession = (sessionId: string | undefined) => {
+    if (!sessionId || !sessions.has(sessionId)) return;
+    sessions.delete(sessionId);
+    logInfo(`[session ${sessionId}] closed — ${sessions.size} active`);
+  };
+
+  const handleStreamable = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    remote: string,
+  ) => {
+    const sessionId = headerValue(req, "mcp-session-id");
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      session.openRequests++;
+      session.lastActivity = Date.now();
+      res.once("close", () => {
+        session.openRequests--;
+        session.lastActivity = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "No valid session ID provided");
+      return;
+    }
+
+    // New session: the transport assigns the ID while handling initialize
+    const newId = randomUUID();
+    const server = opts.createServer(newId);
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => newId,
+        onsessioninitialized: (id: string): void =>
+          openSession(id, transport, server, remote, "streamable-http"),
+      });
+    transport.onclose = () => closeSession(transport.sessionId);
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const evictIdleSessions = async (idleMs: number) => {
+    const now = Date.now();
+    for (const [id, session] of [...sessions]) {
+      if (
+        !(session.transport instanceof StreamableHTTPServerTransport) ||
+        session.openRequests > 0 ||
+        now - session.lastActivity < idleMs
+      ) {
+        continue;
+      }
+      logInfo(
+        `[session ${id}] idle for ${Math.round((now - session.lastActivity) / 1000)}s; closing`,
+      );
+      try {
+        await session.transport.close();
+      } catch (error) {
+        logWarn(`[session ${id}] close failed: ${getErrorMessage(error)}`);
+      }
+      closeSession(id);
+    }
+  };
+
+  const handleSseOpen = async (
+    res: http.ServerResponse,
+    remote: string,
+  ) => {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const server = opts.createServer(transport.sessionId);
+    openSession(transport.sessionId, transport, server, remote, "sse");
+    res.on("close", () => closeSession(transport.sessionId));
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+  ) => {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const remote = req.socket.remoteAddress ?? "unknown";
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    // Health check stays open so load balancers don't need the token
+    if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+      sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      return;
+    }
+
+    if (!isAuthorized(headerValue(req, "authorization"), opts.authToken)) {
+      logWarn(`Rejected unauthenticated ${req.method} ${url.pathname} from ${remote}`);
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJsonRpcError(res, 401, "Unauthorized");
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === MCP_PATH) {
+      handled = handleStreamable(req, res, remote);
+    } else if (url.pathname === SSE_PATH && req.method === "GET") {
+      handled = handleSseOpen(res, remote);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      handled = handleSseMessage(req, res, url);
+    } else {
+      sendJsonRpcError(res, 404, "Not found");
+      return;
+    }
+
+    handled.catch((error) => {
+      const message = getErrorMessage(error);
+      logError(`HTTP ${req.method} ${url.pathname} failed:`, message);
+      if (!res.headersSent) {
+        const status = error instanceof BodyError ? error.status : 500;
+        sendJsonRpcError(res, status, status === 500 ? "Internal error" : message);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(opts.port, opts.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : opts.port;
+
+  const idleMs = opts.sessionIdleMs ?? 0;
+  const idleSweep =
+    idleMs > 0
+      ? setInterval(
+          () => void evictIdleSessions(idleMs),
+          Math.min(idleMs, IDLE_SWEEP_MS),
+        )
+      : undefined;
+  idleSweep?.unref();
+
+  return {
+    port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(idleSweep);
+      for (const [id, session] of [...sessions]) {
+        try {
+          await session.transport.close();
+        } catch (error) {
+          logWarn(`[session ${id}] close failed: ${getErrorMessage(error)}`);
+        }
+      }
+      sessions.clear();
+      const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      // Every session is closed; don't wait on sockets clients left open
+      httpServer.closeAllConnections();
+      await closed;
+    },
+  };
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+class BodyError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+function headerValue(
+  req: http.IncomingMessage,
+  name: string,
+): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyError(`Request body exceeds ${MAX_BODY_BYTES} bytes`, 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new BodyError("Request body is not valid JSON", 400);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  message: string,
+): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
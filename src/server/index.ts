@@ -4,31 +4,52 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { logInfo } from "../core/logging.js";
-import { createServerContext } from "./context.js";
+import type { TransportConfig } from "../core/config.js";
+import {
+  logInfo,
+  logDebug,
+  logError,
+  getErrorMessage,
+} from "../core/logging.js";
+import { createServerContext, type ServerContext } from "./context.js";
 import { ToolRegistry } from "./tool-registry.js";
+import { startHttpTransport } from "./http-transport.js";
+import { registerPromptHandlers } from "./prompts.js";
+import {
+  ResourceSubscriptions,
+  registerResourceHandlers,
+} from "./resources.js";
 import { getToolDefinitions as getNonprofitTools } from "./nonprofit-tools.js";
 import { getToolDefinitions as getDiscoveryTools } from "./discovery-tools.js";
 import { getToolDefinitions as getDataManagementTools } from "./data-management-tools.js";
 import { getToolDefinitions as getSearchHistoryTools } from "./search-history-tools.js";
+import { getToolDefinitions as getWatchlistTools } from "./watchlist-tools.js";
 
 const SERVER_NAME = "nonprofit-vetting-mcp";
 const SERVER_VERSION = "1.2.0";
 
-export async function startServer(): Promise<void> {
-  const ctx = await createServerContext();
-
-  // Build tool registry from domain modules
-  const registry = new ToolRegistry();
-  registry.register(getNonprofitTools());
-  registry.register(getDiscoveryTools());
-  registry.register(getDataManagementTools());
-  registry.register(getSearchHistoryTools());
-
+/**
+ * Build an MCP Server bound to the shared registry, context and resource
+ * subscriptions. In HTTP mode there is one per session; `sessionId` tags its
+ * log lines.
+ */
+function createMcpServer(
+  registry: ToolRegistry,
+  ctx: ServerContext,
+  subscriptions: ResourceSubscriptions,
+  sessionId?: string,
+): Server {
   const server = new Server(
     { name: SERVER_NAME, version: SERVER_VERSION },
-    { capabilities: { tools: {} } },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
+    },
   );
+  const logPrefix = sessionId ? `[session ${sessionId}] ` : "";
 
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: registry.listTools(),
@@ -36,6 +57,8 @@ export async function startServer(): Promise<void> {
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
+    if (sessionId) logInfo(`${logPrefix}tools/call ${name}`);
+    else logDebug(`tools/call ${name}`);
     try {
       return await registry.callTool(name, args, ctx);
     } catch (error) {
@@ -47,17 +70,91 @@ export async function startServer(): Promise<void> {
     }
   });
 
+  registerResourceHandlers(server, ctx, subscriptions);
+  registerPromptHandlers(server);
+
+  return server;
+}
+
+export async function startServer(
+  transportOverrides?: Partial<TransportConfig>,
+): Promise<void> {
+  const ctx = await createServerContext(transportOverrides);
+  const transportConfig = ctx.config.transport;
+
+  // Build tool registry from domain modules
+  const registry = new ToolRegistry();
+  registry.register(getNonprofitTools());
+  registry.register(getDiscoveryTools());
+  registry.register(getDataManagementTools());
+  registry.register(getSearchHistoryTools());
+  registry.register(getWatchlistTools());
+
+  // Shared across sessions so a re-screen in one notifies subscribers in all
+  const subscriptions = new ResourceSubscriptions(ctx.vettingStore);
+
+  let closeTransport: (() => Promise<void>) | undefined;
+
+  // Periodic re-screen of watched EINs whose cached screening has expired,
+  // plus one pass at startup so a restart doesn't push due EINs back a full
+  // interval. Both only re-screen what is due.
+  const rescreenHours = ctx.config.watchlistRescreenHours;
+  const rescreen = (reason: string) =>
+    ctx
+      .watchlistRunner!.run({ reason })
+      .catch((err) =>
+        logError(`Watchlist re-screen (${reason}) failed:`, getErrorMessage(err)),
+      );
+  const rescreenEnabled = !!ctx.watchlistRunner && rescreenHours > 0;
+  const startupRescreen = rescreenEnabled
+    ? setTimeout(() => rescreen("startup"), 0)
+    : undefined;
+  const rescreenTimer = rescreenEnabled
+    ? setInterval(
+        () => rescreen("scheduled"),
+        rescreenHours * 60 * 60 * 1000,
+      )
+    : undefined;
+  startupRescreen?.unref();
+  rescreenTimer?.unref();
+
   // Graceful shutdown
-  const shutdown = () => {
+  const shutdown = async () => {
     logInfo("Shutting down...");
+    if (startupRescreen) clearTimeout(startupRescreen);
+    if (rescreenTimer) clearInterval(rescreenTimer);
+    await closeTransport?.();
+    subscriptions.close();
     ctx.searchHistoryStore?.close();
+    ctx.watchlistStore?.close();
     ctx.discoveryIndex.close();
     ctx.vettingStore?.close();
     process.exit(0);
   };
-  process.on("SIGINT", shutdown);
-  process.on("SIGTERM", shutdown);
+  const onSignal = () =>
+    void shutdown().catch((err) => {
+      logError("Shutdown failed:", getErrorMessage(err));
+      process.exit(1);
+    });
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  if (transportConfig.mode === "http") {
+    const handle = await startHttpTransport({
+      host: transportConfig.host,
+      port: transportConfig.port,
+      authToken: transportConfig.authToken!,
+      sessionIdleMs: transportConfig.sessionIdleMinutes * 60_000,
+      createServer: (sessionId) => createMcpServer(registry, ctx, subscriptions, sessionId),
+    });
+    closeTransport = handle.close;
+    logInfo(
+      `${SERVER_NAME} v${SERVER_VERSION} listening on http://${transportConfig.host}:${handle.port} (Streamable HTTP at /mcp, legacy SSE at /sse)`,
+    );
+    return;
+  }
 
+  const server = createMcpServer(registry, ctx, subscriptions);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   logInfo(`${SERVER_NAME} v${SERVER_VERSION} running on stdio`);
@@ -1,6 +1,8 @@
 import {
   getNonprofitProfileLocal,
   getRedFlagsLocal,
+  getGrantsMadeLocal,
+  getFinancialTrendsLocal,
   type LocalScreeningDeps,
 } from "../domain/nonprofit/tools.js";
 import { compactScreening, compactRedFlags } from "./response-formatter.js";
@@ -9,10 +11,16 @@ import {
   argString,
   argStringOpt,
   argBool,
+  argNumber,
   argStringArray,
   formatToolResponse,
 } from "./tool-registry.js";
 import type { ServerContext } from "./context.js";
+import {
+  DEFAULT_PROFILE,
+  thresholdOverrides,
+  unknownProfileError,
+} from "../domain/nonprofit/screening-profiles.js";
 import type { NonprofitSearchResult } from "../domain/nonprofit/types/profile.js";
 import { formatEin } from "../domain/nonprofit/date-utils.js";
 
@@ -25,6 +33,7 @@ function buildLocalDeps(ctx: ServerContext): LocalScreeningDeps {
     thresholds: ctx.config.thresholds,
     irsClient: ctx.irsClient,
     ofacClient: ctx.ofacClient,
+    epostcardClient: ctx.epostcardClient,
     portfolioFitConfig: ctx.config.portfolioFit,
     courtClient: ctx.courtClient,
   };
@@ -35,7 +44,7 @@ export function getToolDefinitions(): ToolDefinition[] {
     {
       name: "search_nonprofit",
       description:
-        "Search for nonprofits by name. Returns matching organizations with EIN, name, city, state, and NTEE code. Data from IRS Business Master File.",
+        "Search for nonprofits by name. Tolerates abbreviations (St/Saint, Mt/Mount) and typos; results are ranked by a 0-1 relevance score. Returns matching organizations with EIN, name, city, state, NTEE code, and relevance. Data from IRS Business Master File.",
       inputSchema: {
         type: "object",
         properties: {
@@ -79,7 +88,7 @@ export function getToolDefinitions(): ToolDefinition[] {
         }
 
         const discoveryResult = ctx.discoveryIndex.query({
-          nameContains: query,
+          nameSearch: query,
           state: state ?? undefined,
           city: city ?? undefined,
           portfolioFitOnly: false,
@@ -93,6 +102,7 @@ export function getToolDefinitions(): ToolDefinition[] {
             city: c.city || "",
             state: c.state || "",
             ntee_code: c.ntee_code || "",
+            relevance: c.relevance ?? 0,
           }));
 
         const queryArgs = { query, state, city };
@@ -147,7 +157,7 @@ export function getToolDefinitions(): ToolDefinition[] {
     {
       name: "screen_nonprofit",
       description:
-        "Run automated financial screening. Three layers: (1) Pre-screen gates — verified 501(c)(3), OFAC sanctions, 990 filing exists, portfolio fit (NTEE category). (2) Scoring engine — years, revenue, expense ratio, 990 recency (100 pts). (3) Red flag overlay. Thresholds: 75+ PASS, 50-74 REVIEW, <50 REJECT. Results are saved and cached — re-screening returns the cached result unless force_refresh is true.",
+        "Run automated financial screening. Three layers: (1) Pre-screen gates — verified 501(c)(3), OFAC sanctions, 990 filing exists, portfolio fit (NTEE category). (2) Scoring engine — years, revenue, expense ratio, 990 recency, operating reserves (100 pts). (3) Red flag overlay. Also reports a Part VI governance score (0-100, informational — not part of the 100 pts) and, when 3+ years of filings are cached, a multi-year financial trend. Thresholds: 75+ PASS, 50-74 REVIEW, <50 REJECT. Results are saved and cached — re-screening returns the cached result unless force_refresh is true.",
       inputSchema: {
         type: "object",
         properties: {
@@ -161,6 +171,11 @@ export function getToolDefinitions(): ToolDefinition[] {
             description:
               "Skip cached result and re-run the full vetting pipeline. Default: false.",
           },
+          profile: {
+            type: "string",
+            description:
+              'Named screening profile (threshold overrides, check weights, portfolio fit) to screen under — see list_screening_profiles. Cached results are kept per profile. Default: "default".',
+          },
           verbose: {
             type: "boolean",
             description:
@@ -174,8 +189,10 @@ export function getToolDefinitions(): ToolDefinition[] {
         const forceRefresh = argBool(args, "force_refresh");
         const verbose = args?.verbose !== false; // default true for backward compat
 
+        const profile = argStringOpt(args, "profile");
+
         const { response, cached, cachedNote } =
-          await ctx.vettingPipeline.runScreening(ein, { forceRefresh });
+          await ctx.vettingPipeline.runScreening(ein, { forceRefresh, profile });
 
         // Check error FIRST — before attempting to format data
         if (!response.success || response.error) {
@@ -212,7 +229,7 @@ export function getToolDefinitions(): ToolDefinition[] {
     {
       name: "get_red_flags",
       description:
-        "Get red flags and warnings for a nonprofit. Checks for: stale data, high overhead, very low revenue, revenue decline, high officer compensation, and court records. Returns list of flags with severity (HIGH/MEDIUM) and details. Data from IRS BMF + GivingTuesday Data Commons.",
+        "Get red flags and warnings for a nonprofit. Checks for: stale data, high overhead, very low revenue, revenue decline, persistent deficits, net asset erosion, high officer compensation, contractor concentration, diversion of assets, board independence, failed public support test, and court records. Returns list of flags with severity (HIGH/MEDIUM) and details. Data from IRS BMF + GivingTuesday Data Commons.",
       inputSchema: {
         type: "object",
         properties: {
@@ -245,6 +262,56 @@ export function getToolDefinitions(): ToolDefinition[] {
         return formatToolResponse(response);
       },
     },
+    {
+      name: "get_grants_made",
+      description:
+        "List grants a nonprofit made to other organizations (Form 990 Schedule I) from its latest e-filed 990. Shows recipients, amounts, and purpose, cross-linked to the IRS BMF index by recipient EIN, plus the share of total expenses re-granted — useful for spotting pass-through intermediaries. Data from GivingTuesday Data Commons + IRS BMF.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description:
+              'Employer Identification Number (EIN). Accepts formats: "12-3456789" or "123456789"',
+          },
+          limit: {
+            type: "number",
+            description:
+              "Max recipients to return, largest grants first. Default: 50, max: 500.",
+          },
+        },
+        required: ["ein"],
+      },
+      handler: async (args, ctx) =>
+        formatToolResponse(
+          await getGrantsMadeLocal(argString(args, "ein"), buildLocalDeps(ctx), {
+            limit: argNumber(args, "limit"),
+          }),
+        ),
+    },
+    {
+      name: "get_financial_trends",
+      description:
+        "Multi-year financial trajectory for a nonprofit across its last 5 e-filed 990s: compound annual growth (CAGR) and year-over-year volatility for revenue, expenses, and contributions, plus consecutive-deficit streaks. Needs at least 3 tax years of filings. Missing filings are downloaded and cached on first call. Data from GivingTuesday Data Commons + IRS BMF.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description:
+              'Employer Identification Number (EIN). Accepts formats: "12-3456789" or "123456789"',
+          },
+        },
+        required: ["ein"],
+      },
+      handler: async (args, ctx) =>
+        formatToolResponse(
+          await getFinancialTrendsLocal(
+            argString(args, "ein"),
+            buildLocalDeps(ctx),
+          ),
+        ),
+    },
     {
       name: "batch_screening",
       description:
@@ -263,6 +330,11 @@ export function getToolDefinitions(): ToolDefinition[] {
             description:
               "Skip cached results and re-run vetting for all EINs. Default: false.",
           },
+          profile: {
+            type: "string",
+            description:
+              'Named screening profile applied to every EIN — see list_screening_profiles. Default: "default".',
+          },
           verbose: {
             type: "boolean",
             description:
@@ -275,6 +347,7 @@ export function getToolDefinitions(): ToolDefinition[] {
         const MAX_BATCH = 25;
         const eins = argStringArray(args, "eins") ?? [];
         const forceRefresh = argBool(args, "force_refresh");
+        const profile = argStringOpt(args, "profile");
         const verbose = args?.verbose === true; // default false for batch
 
         if (eins.length === 0) {
@@ -293,6 +366,14 @@ export function getToolDefinitions(): ToolDefinition[] {
           });
         }
 
+        if (profile !== undefined && !ctx.vettingPipeline.getProfile(profile)) {
+          return formatToolResponse({
+            success: false,
+            error: unknownProfileError(profile, ctx.screeningProfiles),
+            attribution: "IRS BMF + GivingTuesday Data Commons (ODbL 1.0)",
+          });
+        }
+
         const results: Array<{
           ein: string;
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -307,7 +388,7 @@ export function getToolDefinitions(): ToolDefinition[] {
           try {
             const { response, cached } = await ctx.vettingPipeline.runScreening(
               ein,
-              { forceRefresh },
+              { forceRefresh, profile },
             );
 
             if (cached) stats.cached++;
@@ -350,5 +431,29 @@ export function getToolDefinitions(): ToolDefinition[] {
         });
       },
     },
+    {
+      name: "list_screening_profiles",
+      description:
+        'List the named screening profiles available to screen_nonprofit, batch_screening and discover_nonprofits via their profile argument. Each profile shows the thresholds/check weights it overrides relative to "default" (the server-wide env config) and its portfolio-fit policy (NTEE allowlist, excluded/included EINs).',
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+      handler: async (_args, ctx) => {
+        const defaults = ctx.config.thresholds;
+        const profiles = [...ctx.screeningProfiles.values()].map((p) => ({
+          name: p.name,
+          description: p.description,
+          threshold_overrides:
+            p.name === DEFAULT_PROFILE ? {} : thresholdOverrides(p.thresholds, defaults),
+          portfolio_fit: p.portfolioFit,
+        }));
+        return formatToolResponse({
+          success: true,
+          data: { profiles, total: profiles.length },
+          attribution: "",
+        });
+      },
+    },
   ];
 }
@@ -0,0 +1,216 @@
+// ============================================================================
+// MCP Prompts
+//
+// Canned, versioned multi-step workflows so every analyst runs the same
+// discover → screen → red-flag sequence and produces the same report shape.
+// Bump a prompt's version whenever its wording or output format changes so
+// memos can be traced back to the template that produced them.
+// ============================================================================
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  version: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  render: (args: Record<string, string>) => string;
+}
+
+const DEFAULT_VET_LIMIT = 10;
+const MAX_VET_LIMIT = 25;
+
+const RECOMMENDATION_KEY = `Recommendations: PASS = meets all criteria; REVIEW = needs a human look before funding; REJECT = failed a gate or has a HIGH-severity red flag.`;
+
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: "vet_local_orgs",
+    version: "1.0.0",
+    description:
+      "Discover nonprofits in a city (optionally one NTEE category), screen the top candidates, and summarize them in a ranked table.",
+    arguments: [
+      { name: "city", description: "City name (case-insensitive)", required: true },
+      { name: "state", description: "2-letter state code, e.g. CA", required: true },
+      {
+        name: "ntee_category",
+        description: "NTEE major-group letter, e.g. B (education) or P (human services)",
+        required: false,
+      },
+      {
+        name: "limit",
+        description: `How many candidates to screen (default ${DEFAULT_VET_LIMIT}, max ${MAX_VET_LIMIT})`,
+        required: false,
+      },
+    ],
+    render: (args) => {
+      const state = args.state.toUpperCase();
+      const limit = parseLimit(args.limit);
+      const ntee = args.ntee_category?.trim().toUpperCase();
+      const discoverArgs = JSON.stringify({
+        city: args.city,
+        state,
+        ...(ntee ? { ntee_categories: [ntee] } : {}),
+        limit,
+      });
+      return [
+        `Vet grassroots nonprofits in ${args.city}, ${state}${ntee ? ` (NTEE category ${ntee})` : ""}.`,
+        "",
+        `1. Call discover_nonprofits with ${discoverArgs}. If the index is empty, call refresh_discovery_index first and retry.`,
+        `2. For each candidate returned (at most ${limit}), call screen_nonprofit with its EIN.`,
+        "3. For every candidate whose recommendation is REVIEW or REJECT, call get_red_flags with its EIN.",
+        "",
+        "Report:",
+        "- A table sorted by score (highest first): name, EIN, city, NTEE code, recommendation, score, top red flag.",
+        "- One sentence per REVIEW org naming what a reviewer should check.",
+        "- Counts of PASS / REVIEW / REJECT.",
+        "",
+        RECOMMENDATION_KEY,
+        "Do not speculate beyond the tool output; cite the check or flag behind each conclusion.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "due_diligence_memo",
+    version: "1.0.0",
+    description:
+      "Screen one nonprofit and write a structured due-diligence memo for a funder.",
+    arguments: [
+      { name: "ein", description: "Employer Identification Number (9 digits)", required: true },
+      {
+        name: "funder_context",
+        description: "Optional notes about the funder or proposed grant (size, purpose)",
+        required: false,
+      },
+    ],
+    render: (args) =>
+      [
+        `Prepare a due-diligence memo for the nonprofit with EIN ${args.ein}.`,
+        ...(args.funder_context ? [`Funder context: ${args.funder_context}`] : []),
+        "",
+        `1. Call screen_nonprofit with {"ein": "${args.ein}"}.`,
+        `2. Call get_red_flags with {"ein": "${args.ein}"}.`,
+        `3. Call get_financial_trends with {"ein": "${args.ein}"} for the multi-year picture.`,
+        "",
+        "Memo sections:",
+        "1. Summary — name, EIN, location, recommendation, score, one-paragraph verdict.",
+        "2. Eligibility gates — each gate and whether it passed.",
+        "3. Financial health — each scoring check with its value and result; revenue/expense trend.",
+        "4. Red flags — each flag with severity and the evidence behind it.",
+        "5. Open questions — what a program officer should ask the organization before funding.",
+        "",
+        RECOMMENDATION_KEY,
+        "Quote figures exactly as returned; do not round or estimate missing data.",
+      ].join("\n"),
+  },
+  {
+    name: "compare_nonprofits",
+    version: "1.0.0",
+    description:
+      "Screen two nonprofits side by side and explain which is the stronger funding candidate.",
+    arguments: [
+      { name: "ein_a", description: "EIN of the first organization", required: true },
+      { name: "ein_b", description: "EIN of the second organization", required: true },
+    ],
+    render: (args) =>
+      [
+        `Compare the nonprofits with EINs ${args.ein_a} and ${args.ein_b}.`,
+        "",
+        "1. Call screen_nonprofit for each EIN.",
+        "2. Call get_red_flags for each EIN.",
+        "",
+        "Report:",
+        "- A side-by-side table: recommendation, score, years operating, revenue, expense ratio, months of reserves, latest 990, red flag count.",
+        "- Where the two differ materially, and which check or flag drives the difference.",
+        "- A one-paragraph conclusion naming the stronger candidate, or saying neither is fundable if both are REJECT.",
+        "",
+        RECOMMENDATION_KEY,
+      ].join("\n"),
+  },
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPT_DEFINITIONS.map((p) => ({
+    name: p.name,
+    description: `${p.description} (v${p.version})`,
+    arguments: p.arguments,
+    _meta: { version: p.version },
+  }));
+}
+
+/**
+ * Render a prompt by name. Throws InvalidParams for an unknown prompt, a
+ * missing required argument, or a malformed EIN.
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+): GetPromptResult {
+  const prompt = PROMPT_DEFINITIONS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const arg of prompt.arguments) {
+    const value = args?.[arg.name]?.trim();
+    if (value) {
+      values[arg.name] = value;
+    } else if (arg.required) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Prompt ${name} requires argument: ${arg.name}`,
+      );
+    }
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    if (key.startsWith("ein") && !/^\d{9}$/.test(value.replace(/-/g, ""))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid ${key}: "${value}". Expected 9 digits (e.g., 95-3135649).`,
+      );
+    }
+  }
+
+  return {
+    description: `${prompt.description} (v${prompt.version})`,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: prompt.render(values) },
+      },
+    ],
+    _meta: { version: prompt.version },
+  };
+}
+
+/** Install prompts/* request handlers. The Server must declare `prompts: {}`. */
+export function registerPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments),
+  );
+}
+
+function parseLimit(raw: string | undefined): number {
+  const n = raw ? parseInt(raw, 10) : NaN;
+  if (!Number.isFinite(n) || n < 1) return DEFAULT_VET_LIMIT;
+  return Math.min(n, MAX_VET_LIMIT);
+}
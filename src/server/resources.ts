@@ -0,0 +1,327 @@
+// ============================================================================
+// MCP Resources
+//
+// Read-only views over persisted data so clients can attach a screening
+// report (or the BMF record / 990 extract behind it) as context instead of
+// re-calling screen_nonprofit:
+//
+//   vetting://results/{ein}          latest screening for an EIN
+//   vetting://results/{ein}/history  every screening recorded for an EIN
+//   discovery://org/{ein}            BMF record from the discovery index
+//   xml990://{ein}/{taxYear}         cached XML 990 extract for one tax year
+//
+// Subscriptions are tracked per MCP Server (one per HTTP session) and fanned
+// out from VettingStore save events, so a re-screen in one session notifies
+// every session subscribed to that EIN. Only the vetting:// URIs change at
+// runtime, so only they can be subscribed to; updates name the 9-digit form.
+// ============================================================================
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  VettedRecord,
+  VettingStore,
+} from "../data-sources/vetting-store.js";
+import { logDebug, getErrorMessage } from "../core/logging.js";
+import type { ServerContext } from "./context.js";
+
+const JSON_MIME = "application/json";
+
+/** MCP spec error code for an unknown resource URI. */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** resources/list advertises at most this many recently vetted EINs. */
+const MAX_LISTED_RESULTS = 100;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "vetting://results/{ein}",
+    name: "Latest screening result",
+    description:
+      "Most recent persisted screen_nonprofit result for an EIN (recommendation, score, gates, checks, red flags).",
+    mimeType: JSON_MIME,
+  },
+  {
+    uriTemplate: "vetting://results/{ein}/history",
+    name: "Screening history",
+    description:
+      "Every screening recorded for an EIN, most recent first (summary fields only).",
+    mimeType: JSON_MIME,
+  },
+  {
+    uriTemplate: "discovery://org/{ein}",
+    name: "Discovery index record",
+    description:
+      "IRS Business Master File record for an EIN from the local discovery index.",
+    mimeType: JSON_MIME,
+  },
+  {
+    uriTemplate: "xml990://{ein}/{taxYear}",
+    name: "XML 990 extract",
+    description:
+      "Cached Part VIII/IX/X and Schedule extract parsed from an e-filed 990 for one tax year.",
+    mimeType: JSON_MIME,
+  },
+];
+
+type ParsedUri =
+  | { kind: "result"; ein: string }
+  | { kind: "history"; ein: string }
+  | { kind: "org"; ein: string }
+  | { kind: "xml990"; ein: string; taxYear: number };
+
+const URI_PATTERNS: Array<{
+  pattern: RegExp;
+  parse: (m: RegExpExecArray) => ParsedUri;
+}> = [
+  {
+    pattern: /^vetting:\/\/results\/([\d-]+)$/,
+    parse: (m) => ({ kind: "result", ein: m[1] }),
+  },
+  {
+    pattern: /^vetting:\/\/results\/([\d-]+)\/history$/,
+    parse: (m) => ({ kind: "history", ein: m[1] }),
+  },
+  {
+    pattern: /^discovery:\/\/org\/([\d-]+)$/,
+    parse: (m) => ({ kind: "org", ein: m[1] }),
+  },
+  {
+    pattern: /^xml990:\/\/([\d-]+)\/(\d{4})$/,
+    parse: (m) => ({ kind: "xml990", ein: m[1], taxYear: parseInt(m[2], 10) }),
+  },
+];
+
+/**
+ * Parse a resource URI. Returns null for an unrecognized scheme/path or an
+ * EIN that isn't 9 digits once hyphens are stripped.
+ */
+export function parseResourceUri(uri: string): ParsedUri | null {
+  for (const { pattern, parse } of URI_PATTERNS) {
+    const match = pattern.exec(uri);
+    if (!match) continue;
+    const parsed = parse(match);
+    const ein = parsed.ein.replace(/-/g, "");
+    if (!/^\d{9}$/.test(ein)) return null;
+    return { ...parsed, ein };
+  }
+  return null;
+}
+
+export function resultUri(ein: string): string {
+  return `vetting://results/${ein}`;
+}
+
+export function historyUri(ein: string): string {
+  return `vetting://results/${ein}/history`;
+}
+
+/**
+ * Canonical URI to track a subscription under, so a hyphenated EIN matches
+ * the URIs notified on save. discovery:// and xml990:// resources are only
+ * replaced by index rebuilds and 990 fetches, which never notify, so they
+ * are rejected rather than accepted and left silent.
+ */
+function subscriptionUri(uri: string): string {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Unknown resource URI: ${uri}`);
+  }
+  switch (parsed.kind) {
+    case "result":
+      return resultUri(parsed.ein);
+    case "history":
+      return historyUri(parsed.ein);
+    default:
+      throw new McpError(
+        RESOURCE_NOT_FOUND,
+        `Resource does not support subscriptions: ${uri}`,
+      );
+  }
+}
+
+/**
+ * Concrete resources for resources/list: the latest screening of each
+ * recently vetted EIN. The other URIs are reachable via the templates.
+ */
+export function listResources(ctx: ServerContext): Resource[] {
+  if (!ctx.vettingStore) return [];
+
+  const seen = new Set<string>();
+  const resources: Resource[] = [];
+  for (const record of ctx.vettingStore.listVetted({ limit: MAX_LISTED_RESULTS })) {
+    if (seen.has(record.ein)) continue;
+    seen.add(record.ein);
+    resources.push({
+      uri: resultUri(record.ein),
+      name: `${record.name} (${record.ein})`,
+      description: `${record.recommendation}${record.score !== null ? `, score ${record.score}` : ""} — vetted ${record.vetted_at}`,
+      mimeType: JSON_MIME,
+    });
+  }
+  return resources;
+}
+
+export function readResource(uri: string, ctx: ServerContext): ReadResourceResult {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Unknown resource URI: ${uri}`);
+  }
+
+  const body = loadResource(parsed, ctx);
+  if (body === null) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+
+  return {
+    contents: [{ uri, mimeType: JSON_MIME, text: JSON.stringify(body, null, 2) }],
+  };
+}
+
+function loadResource(parsed: ParsedUri, ctx: ServerContext): unknown {
+  switch (parsed.kind) {
+    case "result": {
+      const record = requireVettingStore(ctx).getLatestByEin(parsed.ein);
+      if (!record) return null;
+      const { result_json, ...summary } = record;
+      return { ...summary, result: JSON.parse(result_json) as unknown };
+    }
+    case "history": {
+      const records = requireVettingStore(ctx).getHistoryByEin(parsed.ein);
+      if (records.length === 0) return null;
+      return {
+        ein: parsed.ein,
+        name: records[0].name,
+        screenings: records.map(({ result_json: _, ...summary }) => summary),
+      };
+    }
+    case "org":
+      return ctx.discoveryIndex.getByEin(parsed.ein);
+    case "xml990":
+      return ctx.xml990Store.getExtractByYear(parsed.ein, parsed.taxYear);
+  }
+}
+
+function requireVettingStore(ctx: ServerContext): VettingStore {
+  if (!ctx.vettingStore) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      "Vetting persistence is disabled (VettingStore failed to initialize)",
+    );
+  }
+  return ctx.vettingStore;
+}
+
+// ============================================================================
+// Subscriptions
+// ============================================================================
+
+/**
+ * Tracks which URIs each connected Server has subscribed to and sends
+ * notifications/resources/updated when a new screening row is saved. Every
+ * connected Server also gets notifications/resources/list_changed, since the
+ * listing is ordered by recency.
+ */
+export class ResourceSubscriptions {
+  private subscriptions = new Map<Server, Set<string>>();
+  private detachStore: (() => void) | undefined;
+
+  constructor(vettingStore: VettingStore | undefined) {
+    this.detachStore = vettingStore?.onResultSaved((record) =>
+      this.notifySaved(record),
+    );
+  }
+
+  /** Start tracking a Server; it is forgotten when its transport closes. */
+  track(server: Server): void {
+    this.subscriptions.set(server, new Set());
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      this.subscriptions.delete(server);
+      previousOnClose?.();
+    };
+  }
+
+  subscribe(server: Server, uri: string): void {
+    this.subscriptions.get(server)?.add(uri);
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    this.subscriptions.get(server)?.delete(uri);
+  }
+
+  subscriberCount(uri: string): number {
+    let count = 0;
+    for (const uris of this.subscriptions.values()) {
+      if (uris.has(uri)) count++;
+    }
+    return count;
+  }
+
+  close(): void {
+    this.detachStore?.();
+    this.detachStore = undefined;
+    this.subscriptions.clear();
+  }
+
+  private notifySaved(record: VettedRecord): void {
+    const changed = [resultUri(record.ein), historyUri(record.ein)];
+    for (const [server, uris] of this.subscriptions) {
+      for (const uri of changed) {
+        if (uris.has(uri)) {
+          server
+            .sendResourceUpdated({ uri })
+            .catch((err) => logDebug(`resources/updated ${uri} not sent: ${getErrorMessage(err)}`));
+        }
+      }
+      server
+        .sendResourceListChanged()
+        .catch((err) => logDebug(`resources/list_changed not sent: ${getErrorMessage(err)}`));
+    }
+  }
+}
+
+/**
+ * Install resources/* request handlers on a Server. The Server must declare
+ * `resources: { subscribe: true, listChanged: true }` in its capabilities.
+ */
+export function registerResourceHandlers(
+  server: Server,
+  ctx: ServerContext,
+  subscriptions: ResourceSubscriptions,
+): void {
+  subscriptions.track(server);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listResources(ctx),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    readResource(request.params.uri, ctx),
+  );
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.subscribe(server, subscriptionUri(request.params.uri));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(server, subscriptionUri(request.params.uri));
+    return {};
+  });
+}
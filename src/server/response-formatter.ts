@@ -13,6 +13,9 @@ export interface CompactScreening {
   recommendation: "PASS" | "REVIEW" | "REJECT";
   score: number | null;
   gate_blocked: boolean;
+  public_support_failure: boolean;
+  governance_score: number | null;
+  revenue_cagr: number | null;
   flags: Array<{
     severity: string;
     type: string;
@@ -20,6 +23,8 @@ export interface CompactScreening {
     cases?: CourtCaseSummary[];
   }>;
   next_steps: string[];
+  path_to_pass?: string[];
+  profile?: string;
 }
 
 /**
@@ -44,6 +49,11 @@ export function compactScreening(result: ScreeningResult): CompactScreening {
     recommendation: result.recommendation,
     score: result.score,
     gate_blocked: result.gate_blocked,
+    public_support_failure: result.red_flags.some(
+      (f) => f.type === "public_support_failure",
+    ),
+    governance_score: result.governance?.score ?? null,
+    revenue_cagr: result.trend?.revenue.cagr ?? null,
     flags: result.red_flags.map((f) => ({
       severity: f.severity,
       type: f.type,
@@ -51,6 +61,10 @@ export function compactScreening(result: ScreeningResult): CompactScreening {
       ...(f.cases && { cases: f.cases }),
     })),
     next_steps: result.summary.next_steps,
+    ...(result.summary.path_to_pass?.length && {
+      path_to_pass: result.summary.path_to_pass,
+    }),
+    ...(result.profile && { profile: result.profile }),
   };
 }
 
@@ -1,3 +1,5 @@
+import fs from "fs";
+import path from "path";
 import type { ServerContext } from "./context.js";
 
 export interface ToolResponse {
@@ -68,6 +70,56 @@ export function argStringArray(
   return val.filter((v): v is string => typeof v === "string");
 }
 
+export function argNumberArray(
+  args: Record<string, unknown> | undefined,
+  key: string,
+): number[] | undefined {
+  const val = args?.[key];
+  if (!Array.isArray(val)) return undefined;
+  return val.filter((v): v is number => typeof v === "number");
+}
+
+/**
+ * Resolve a source_dir argument inside the configured import root
+ * (OFFLINE_IMPORT_DIR); relative paths are taken from the root. Symlinks are
+ * resolved first, so a link can't lead outside it. Throws when no root is
+ * configured or the directory is missing or outside the root.
+ */
+export function resolveImportDir(
+  sourceDir: string | undefined,
+  importRoot: string | undefined,
+): string | undefined {
+  if (sourceDir === undefined) return undefined;
+  if (!importRoot) {
+    throw new Error(
+      "source_dir imports are disabled: set OFFLINE_IMPORT_DIR to the directory transferred files are copied into",
+    );
+  }
+
+  let root: string;
+  try {
+    root = fs.realpathSync(path.resolve(importRoot));
+  } catch {
+    throw new Error(`OFFLINE_IMPORT_DIR not found: ${importRoot}`);
+  }
+  let dir: string;
+  try {
+    dir = fs.realpathSync(path.resolve(root, sourceDir));
+  } catch {
+    throw new Error(`source_dir not found: ${sourceDir}`);
+  }
+
+  const relative = path.relative(root, dir);
+  if (
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(`source_dir must be inside OFFLINE_IMPORT_DIR (${root})`);
+  }
+  return dir;
+}
+
 /**
  * Format any ToolResponse-shaped object into an MCP content response.
  */
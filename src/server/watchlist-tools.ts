@@ -0,0 +1,208 @@
+import type { ToolDefinition } from "./tool-registry.js";
+import {
+  argString,
+  argStringOpt,
+  argNumber,
+  argBool,
+  formatToolResponse,
+} from "./tool-registry.js";
+import type { AlertType } from "../data-sources/watchlist-store.js";
+import { formatEin } from "../domain/nonprofit/date-utils.js";
+
+const UNAVAILABLE = {
+  success: false,
+  error:
+    "Watchlist not available. Check server logs for VettingStore/WatchlistStore initialization errors.",
+  attribution: "",
+};
+
+export function getToolDefinitions(): ToolDefinition[] {
+  return [
+    {
+      name: "watch_nonprofit",
+      description:
+        "Add a nonprofit to the watchlist for continuous post-funding monitoring. Watched orgs are re-screened when their cached screening expires and after every IRS/OFAC data refresh; recommendation changes, new HIGH red flags, and new IRS revocations are recorded as alerts (see list_alerts).",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description: "Employer Identification Number (e.g., 95-3135649)",
+          },
+          note: {
+            type: "string",
+            description: "Optional note (e.g., grant ID or program officer).",
+          },
+        },
+        required: ["ein"],
+      },
+      handler: async (args, ctx) => {
+        if (!ctx.watchlistStore) return formatToolResponse(UNAVAILABLE);
+        const ein = argString(args, "ein");
+        if (!ein) {
+          return formatToolResponse({
+            success: false,
+            error: "EIN parameter is required",
+            attribution: "",
+          });
+        }
+        const org = ctx.discoveryIndex.getByEin(ein);
+        if (!org) {
+          return formatToolResponse({
+            success: false,
+            error: `Organization not found in BMF index with EIN: ${ein}`,
+            attribution: "",
+          });
+        }
+        const entry = ctx.watchlistStore.addWatch(
+          org.ein,
+          org.name,
+          argStringOpt(args, "note"),
+        );
+        return formatToolResponse({
+          success: true,
+          data: { ...entry, ein: formatEin(entry.ein) },
+          attribution: "",
+        });
+      },
+    },
+    {
+      name: "unwatch_nonprofit",
+      description:
+        "Remove a nonprofit from the watchlist. Its past alerts are kept.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description: "Employer Identification Number (e.g., 95-3135649)",
+          },
+        },
+        required: ["ein"],
+      },
+      handler: async (args, ctx) => {
+        if (!ctx.watchlistStore) return formatToolResponse(UNAVAILABLE);
+        const ein = argString(args, "ein");
+        if (!ctx.watchlistStore.removeWatch(ein)) {
+          return formatToolResponse({
+            success: false,
+            error: `EIN ${ein} is not on the watchlist`,
+            attribution: "",
+          });
+        }
+        return formatToolResponse({
+          success: true,
+          data: { removed: formatEin(ein) },
+          attribution: "",
+        });
+      },
+    },
+    {
+      name: "list_watchlist",
+      description:
+        "List watched nonprofits with their latest recommendation and when they were last re-screened.",
+      inputSchema: { type: "object", properties: {} },
+      handler: async (_args, ctx) => {
+        if (!ctx.watchlistStore) return formatToolResponse(UNAVAILABLE);
+        const watched = ctx.watchlistStore.listWatched().map((entry) => {
+          const latest = ctx.vettingStore?.getLatestByEin(entry.ein) ?? null;
+          return {
+            ...entry,
+            ein: formatEin(entry.ein),
+            recommendation: latest?.recommendation ?? null,
+            score: latest?.score ?? null,
+            vetted_at: latest?.vetted_at ?? null,
+          };
+        });
+        return formatToolResponse({
+          success: true,
+          data: {
+            watched,
+            total: watched.length,
+            rescreen_in_progress: ctx.watchlistRunner?.isRunning() ?? false,
+          },
+          attribution: "",
+        });
+      },
+    },
+    {
+      name: "list_alerts",
+      description:
+        "List change alerts raised by watchlist re-screening, most recent first: recommendation_change, new_high_flag, new_revocation. Filter by EIN, alert type, or date.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ein: {
+            type: "string",
+            description: "Only alerts for this EIN.",
+          },
+          alert_type: {
+            type: "string",
+            enum: ["recommendation_change", "new_high_flag", "new_revocation"],
+            description: "Filter by alert type.",
+          },
+          since: {
+            type: "string",
+            description:
+              "Only show alerts raised after this ISO date (e.g., 2026-01-01).",
+          },
+          limit: {
+            type: "number",
+            description: "Max results to return (default 20, max 100).",
+          },
+        },
+      },
+      handler: async (args, ctx) => {
+        if (!ctx.watchlistStore) return formatToolResponse(UNAVAILABLE);
+        const alerts = ctx.watchlistStore.listAlerts({
+          ein: argStringOpt(args, "ein"),
+          alert_type: argStringOpt(args, "alert_type") as AlertType | undefined,
+          since: argStringOpt(args, "since"),
+          limit: argNumber(args, "limit"),
+        });
+        return formatToolResponse({
+          success: true,
+          data: {
+            alerts: alerts.map((a) => ({ ...a, ein: formatEin(a.ein) })),
+            total: alerts.length,
+          },
+          attribution: "",
+        });
+      },
+    },
+    {
+      name: "rescreen_watchlist",
+      description:
+        "Re-screen watched nonprofits now instead of waiting for the schedule. By default only orgs whose cached screening has expired; set all: true to re-screen every watched org. Returns counts and any alerts raised.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          all: {
+            type: "boolean",
+            description:
+              "Re-screen every watched org regardless of cache age (default false).",
+          },
+        },
+      },
+      handler: async (args, ctx) => {
+        if (!ctx.watchlistRunner) return formatToolResponse(UNAVAILABLE);
+        const summary = await ctx.watchlistRunner.run({
+          all: argBool(args, "all"),
+          reason: "manual",
+        });
+        if (!summary) {
+          return formatToolResponse({
+            success: false,
+            error: "A watchlist re-screen is already in progress. Try again shortly.",
+            attribution: "",
+          });
+        }
+        return formatToolResponse({
+          success: true,
+          data: summary,
+          attribution: "",
+        });
+      },
+    },
+  ];
+}
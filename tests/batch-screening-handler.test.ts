@@ -87,6 +87,48 @@ describe("batch_screening handler", () => {
     expect(parsed.error).toContain("26");
   });
 
+  it("rejects an unknown profile before screening any EIN", async () => {
+    const ctx = makeMockCtx({
+      screeningProfiles: new Map(),
+      vettingPipeline: {
+        runScreening: vi.fn(),
+        getProfile: vi.fn().mockReturnValue(null),
+      } as unknown as ServerContext["vettingPipeline"],
+    });
+    const result = await tool.handler(
+      { eins: ["12-3456789"], profile: "aggressive" },
+      ctx,
+    );
+    const parsed = parseResponse(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toMatch(/Unknown screening profile "aggressive"/);
+    expect(ctx.vettingPipeline.runScreening).not.toHaveBeenCalled();
+  });
+
+  it("passes the profile through to every screening", async () => {
+    const ctx = makeMockCtx({
+      vettingPipeline: {
+        runScreening: vi.fn().mockResolvedValue({
+          response: { success: true, data: makeScreeningResult({ profile: "lenient" }), attribution: "test" },
+          cached: false,
+        }),
+        getProfile: vi.fn().mockReturnValue({ name: "lenient" }),
+      } as unknown as ServerContext["vettingPipeline"],
+    });
+    const result = await tool.handler(
+      { eins: ["12-3456789", "98-7654321"], profile: "lenient" },
+      ctx,
+    );
+    const parsed = parseResponse(result);
+
+    expect(ctx.vettingPipeline.runScreening).toHaveBeenCalledWith("98-7654321", {
+      forceRefresh: false,
+      profile: "lenient",
+    });
+    expect(parsed.data.results[0].result.profile).toBe("lenient");
+  });
+
   it("returns compact output by default", async () => {
     const ctx = makeMockCtx();
     const mockRunTier1 = vi.mocked(ctx.vettingPipeline.runScreening);
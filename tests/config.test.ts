@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import {
   validateThresholds,
   loadPortfolioFitConfig,
+  loadTransportConfig,
+  parseTransportArgs,
 } from "../src/core/config.js";
 import { DEFAULT_THRESHOLDS, makeThresholds } from "./fixtures.js";
 
@@ -18,23 +20,47 @@ describe("validateThresholds", () => {
   });
 
   it("rejects negative weights", () => {
-    // Keep sum at 100 but with a negative: -10 + 45 + 35 + 30 = 100
+    // Keep sum at 100 but with a negative: -10 + 35 + 30 + 30 + 15 = 100
     const t = makeThresholds({
       weightYearsOperating: -10,
-      weightRevenueRange: 45,
+      weightRevenueRange: 35,
     });
     expect(() => validateThresholds(t)).toThrow(/non-negative/);
   });
 
   it("accepts zero weight (disabling a check)", () => {
-    // sum still 100: 0 + 35 + 35 + 30 = 100
+    // sum still 100: 0 + 25 + 30 + 30 + 15 = 100
     const t = makeThresholds({
       weightYearsOperating: 0,
-      weightRevenueRange: 35,
+      weightRevenueRange: 25,
     });
     expect(() => validateThresholds(t)).not.toThrow();
   });
 
+  it("counts the operating reserves weight toward the sum", () => {
+    const t = makeThresholds({ weightOperatingReserves: 0 }); // sum = 85
+    expect(() => validateThresholds(t)).toThrow(/Weights must sum to 100, got 85/);
+  });
+
+  it("names the reserves weight when four-weight overrides already sum to 100", () => {
+    const t = makeThresholds({
+      weightYearsOperating: 10,
+      weightRevenueRange: 20,
+      weightSpendRate: 35,
+      weightRecent990: 35,
+    }); // pre-reserves overrides + default reserves 15 = 115
+    expect(() => validateThresholds(t)).toThrow(/got 115 \(.*VETTING_WEIGHT_RESERVES=15\)/);
+    expect(() => validateThresholds(t)).toThrow(/lower the other four/);
+  });
+
+  it("rejects reservesReviewMinMonths > reservesPassMinMonths", () => {
+    const t = makeThresholds({
+      reservesReviewMinMonths: 6,
+      reservesPassMinMonths: 3,
+    });
+    expect(() => validateThresholds(t)).toThrow(/reservesReviewMinMonths/);
+  });
+
   // --- Revenue range ordering ---
 
   it("rejects revenueFailMin > revenuePassMin", () => {
@@ -120,6 +146,35 @@ describe("validateThresholds", () => {
     expect(() => validateThresholds(t)).toThrow(/redFlagModerateCompensation/);
   });
 
+  it("rejects redFlagDeficitYears below 2 or non-integer", () => {
+    expect(() =>
+      validateThresholds(makeThresholds({ redFlagDeficitYears: 1 })),
+    ).toThrow(/redFlagDeficitYears/);
+    expect(() =>
+      validateThresholds(makeThresholds({ redFlagDeficitYears: 2.5 })),
+    ).toThrow(/redFlagDeficitYears/);
+  });
+
+  it("rejects redFlagNetAssetErosionPercent outside (0, 1]", () => {
+    expect(() =>
+      validateThresholds(makeThresholds({ redFlagNetAssetErosionPercent: 0 })),
+    ).toThrow(/redFlagNetAssetErosionPercent/);
+    expect(() =>
+      validateThresholds(
+        makeThresholds({ redFlagNetAssetErosionPercent: 1.5 }),
+      ),
+    ).toThrow(/redFlagNetAssetErosionPercent/);
+  });
+
+  it("rejects redFlagContractorShare outside (0, 1]", () => {
+    expect(() =>
+      validateThresholds(makeThresholds({ redFlagContractorShare: 0 })),
+    ).toThrow(/redFlagContractorShare/);
+    expect(() =>
+      validateThresholds(makeThresholds({ redFlagContractorShare: 1.2 })),
+    ).toThrow(/redFlagContractorShare/);
+  });
+
   // --- Multiple errors ---
 
   it("reports multiple errors at once", () => {
@@ -261,3 +316,105 @@ describe("loadPortfolioFitConfig", () => {
     expect(config.excludedEins).toEqual(["953135649"]);
   });
 });
+
+describe("loadTransportConfig", () => {
+  const ENV_KEYS = [
+    "MCP_TRANSPORT",
+    "MCP_HTTP_HOST",
+    "MCP_HTTP_PORT",
+    "MCP_AUTH_TOKEN",
+    "MCP_SESSION_IDLE_MINUTES",
+  ];
+  const saved: Record<string, string | undefined> = {};
+  const TOKEN = "0123456789abcdef0123";
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  it("defaults to stdio on localhost:3000", () => {
+    expect(loadTransportConfig()).toEqual({
+      mode: "stdio",
+      host: "127.0.0.1",
+      port: 3000,
+      authToken: undefined,
+      sessionIdleMinutes: 30,
+    });
+  });
+
+  it("reads http mode from env", () => {
+    process.env.MCP_TRANSPORT = "HTTP";
+    process.env.MCP_HTTP_HOST = "0.0.0.0";
+    process.env.MCP_HTTP_PORT = "8080";
+    process.env.MCP_AUTH_TOKEN = TOKEN;
+    process.env.MCP_SESSION_IDLE_MINUTES = "0";
+    expect(loadTransportConfig()).toEqual({
+      mode: "http",
+      host: "0.0.0.0",
+      port: 8080,
+      authToken: TOKEN,
+      sessionIdleMinutes: 0,
+    });
+  });
+
+  it("lets CLI overrides win over env", () => {
+    process.env.MCP_HTTP_PORT = "8080";
+    process.env.MCP_AUTH_TOKEN = TOKEN;
+    const config = loadTransportConfig({ mode: "http", port: 9000 });
+    expect(config.mode).toBe("http");
+    expect(config.port).toBe(9000);
+  });
+
+  it("requires an auth token in http mode", () => {
+    expect(() => loadTransportConfig({ mode: "http" })).toThrow(
+      /MCP_AUTH_TOKEN is required/,
+    );
+    process.env.MCP_AUTH_TOKEN = "short";
+    expect(() => loadTransportConfig({ mode: "http" })).toThrow(
+      /at least 16 characters/,
+    );
+  });
+
+  it("rejects an unknown mode or out-of-range port", () => {
+    expect(() =>
+      loadTransportConfig({ mode: "grpc" as "http" }),
+    ).toThrow(/mode must be/);
+    expect(() => loadTransportConfig({ port: 70000 })).toThrow(/port must be/);
+    expect(() => loadTransportConfig({ port: NaN })).toThrow(/port must be/);
+    expect(() => loadTransportConfig({ sessionIdleMinutes: -1 })).toThrow(
+      /MCP_SESSION_IDLE_MINUTES/,
+    );
+  });
+});
+
+describe("parseTransportArgs", () => {
+  it("returns no overrides for an empty argv", () => {
+    expect(parseTransportArgs([])).toEqual({});
+  });
+
+  it("parses space- and equals-separated flags", () => {
+    expect(
+      parseTransportArgs(["--transport", "http", "--host=0.0.0.0", "--port", "8080"]),
+    ).toEqual({ mode: "http", host: "0.0.0.0", port: 8080 });
+  });
+
+  it("treats --http as --transport http and ignores unknown flags", () => {
+    expect(parseTransportArgs(["--verbose", "--http"])).toEqual({
+      mode: "http",
+    });
+  });
+
+  it("throws when a flag is missing its value", () => {
+    expect(() => parseTransportArgs(["--port"])).toThrow(/Missing value for --port/);
+  });
+});
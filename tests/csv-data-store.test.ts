@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import path from "path";
+import { Readable, Writable } from "stream";
 import { CsvDataStore } from "../src/data-sources/csv-data-store.js";
 import type { RedFlagConfig } from "../src/core/config.js";
 
@@ -21,10 +22,12 @@ vi.mock("unzipper", () => ({
   },
 }));
 
-// Mock fs (sync methods)
+// Mock fs (sync methods and streams)
 vi.mock("fs", () => ({
   default: {
     existsSync: vi.fn().mockReturnValue(false),
+    createReadStream: vi.fn(),
+    createWriteStream: vi.fn(),
   },
 }));
 
@@ -34,6 +37,9 @@ vi.mock("fs/promises", () => ({
     mkdir: vi.fn().mockResolvedValue(undefined),
     readFile: vi.fn(),
     writeFile: vi.fn().mockResolvedValue(undefined),
+    stat: vi.fn().mockResolvedValue({ size: 1000 }),
+    rename: vi.fn().mockResolvedValue(undefined),
+    rm: vi.fn().mockResolvedValue(undefined),
   },
 }));
 
@@ -124,6 +130,10 @@ function makeManifest(overrides?: Record<string, unknown>): string {
       sdn_count: 12000,
       alt_count: 8000,
     },
+    epostcard: {
+      downloaded_at: new Date().toISOString(),
+      row_count: 900000,
+    },
     ...overrides,
   });
 }
@@ -141,6 +151,28 @@ function setupIrsDisk(csvContent: string) {
   );
 }
 
+/**
+ * Generate a minimal IRS e-Postcard (990-N) file.
+ * Format: EIN|TaxYear|Name|GrossReceiptsUnder50K|Terminated|PeriodBegin|PeriodEnd|Website|...
+ */
+function makeEpostcardFile(lines: string[]): string {
+  return lines.join("\n");
+}
+
+/** Set up mocks so IRS/OFAC load from disk and the e-Postcard file has the given content */
+function setupEpostcardDisk(content: string) {
+  (fs.existsSync as ReturnType<typeof vi.fn>).mockReturnValue(true);
+  (fsp.readFile as ReturnType<typeof vi.fn>).mockImplementation(
+    (filePath: string) => {
+      if (filePath.includes("manifest")) return Promise.resolve(makeManifest());
+      if (filePath.includes("irs-epostcard")) return Promise.resolve(content);
+      if (filePath.includes("irs-revocation"))
+        return Promise.resolve(makeIrsCsv(10));
+      return Promise.resolve("");
+    },
+  );
+}
+
 /** Set up mocks so parseOfacFromDisk succeeds */
 function setupOfacDisk(sdnCsv: string, altCsv: string) {
   (fs.existsSync as ReturnType<typeof vi.fn>).mockReturnValue(true);
@@ -163,6 +195,18 @@ function setupOfacDisk(sdnCsv: string, altCsv: string) {
 describe("CsvDataStore", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Streamed reads see whatever the fsp.readFile mock returns for the path
+    (fs.createReadStream as ReturnType<typeof vi.fn>).mockImplementation(
+      (filePath: string) =>
+        Readable.from(
+          (async function* () {
+            yield Buffer.from((await fsp.readFile(filePath)) ?? "");
+          })(),
+        ),
+    );
+    (fs.createWriteStream as ReturnType<typeof vi.fn>).mockImplementation(
+      () => new Writable({ write: (_chunk, _encoding, done) => done() }),
+    );
   });
 
   afterEach(() => {
@@ -373,6 +417,92 @@ describe("CsvDataStore", () => {
     });
   });
 
+  // ---------- e-Postcard Parsing ----------
+
+  describe("e-Postcard parsing (via initialize from disk)", () => {
+    it("parses pipe-delimited 990-N rows", async () => {
+      setupEpostcardDisk(
+        makeEpostcardFile([
+          "123456789|2023|SMALL ORG|T|F|01-01-2023|12-31-2023|www.small.org|JANE DOE",
+        ]),
+      );
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      expect(store.epostcardRowCount).toBe(1);
+      expect(store.lookupEpostcard("12-3456789")).toEqual({
+        ein: "123456789",
+        taxYear: 2023,
+        legalName: "SMALL ORG",
+        grossReceiptsUnderLimit: true,
+        terminated: false,
+        taxPeriodBegin: "01-01-2023",
+        taxPeriodEnd: "12-31-2023",
+      });
+    });
+
+    it("keeps only the most recent tax year per EIN", async () => {
+      setupEpostcardDisk(
+        makeEpostcardFile([
+          "123456789|2023|SMALL ORG|T|F|01-01-2023|12-31-2023",
+          "123456789|2021|SMALL ORG|T|F|01-01-2021|12-31-2021",
+          "123456789|2022|SMALL ORG|T|T|01-01-2022|12-31-2022",
+        ]),
+      );
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      const row = store.lookupEpostcard("123456789");
+      expect(row?.taxYear).toBe(2023);
+      expect(row?.terminated).toBe(false);
+    });
+
+    it("skips header, short rows, and invalid EINs", async () => {
+      setupEpostcardDisk(
+        makeEpostcardFile([
+          "EIN|Tax Year|Name|Gross Receipts|Terminated|Begin|End",
+          "987654321|2023|TOO FEW",
+          "ABC123456|2023|LETTERS|T|F|01-01-2023|12-31-2023",
+          "111111111|20XX|BAD YEAR|T|F|01-01-2023|12-31-2023",
+          "123456789|2023|GOOD ORG|T|F|01-01-2023|12-31-2023",
+        ]),
+      );
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      expect(store.epostcardRowCount).toBe(1);
+      expect(store.lookupEpostcard("123456789")).toBeDefined();
+    });
+
+    it("does not block initialization when the e-Postcard download fails", async () => {
+      (fs.existsSync as ReturnType<typeof vi.fn>).mockImplementation(
+        (p: string) => !p.includes("irs-epostcard"),
+      );
+      (fsp.readFile as ReturnType<typeof vi.fn>).mockImplementation(
+        (filePath: string) => {
+          if (filePath.includes("manifest"))
+            return Promise.resolve(makeManifest({ epostcard: undefined }));
+          if (filePath.includes("irs-revocation"))
+            return Promise.resolve(makeIrsCsv(10));
+          return Promise.resolve("");
+        },
+      );
+      (axios.get as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new Error("Network down"),
+      );
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      expect(axios.get).toHaveBeenCalledWith(
+        expect.stringContaining("epostcard"),
+        expect.anything(),
+      );
+      expect(store.irsRowCount).toBe(10);
+      expect(store.epostcardRowCount).toBe(0);
+    });
+  });
+
   // ---------- lookupEin ----------
 
   describe("lookupEin", () => {
@@ -485,6 +615,7 @@ describe("CsvDataStore", () => {
 
       // Should NOT have called axios (used disk cache)
       expect(axios.get).not.toHaveBeenCalled();
+      expect(store.manifest.irs_revocation?.row_count).toBe(500000);
     });
   });
 
@@ -552,6 +683,210 @@ describe("CsvDataStore", () => {
     });
   });
 
+  // ---------- Offline import ----------
+
+  describe("refresh from source_dir", () => {
+    const IMPORT_DIR = "/mnt/transfer";
+    const bigSdn = makeOfacSdnCsv(
+      Array.from({ length: 5000 }, (_, i) => ({
+        entNum: String(i),
+        name: `IMPORTED ENTITY ${i}`,
+      })),
+    );
+
+    /** Disk-cached data for initialize(), plus the given files in IMPORT_DIR */
+    function setupImportDir(files: Record<string, string>) {
+      const cachedSdn = makeOfacSdnCsv([{ entNum: "1", name: "X" }]);
+      (fs.existsSync as ReturnType<typeof vi.fn>).mockImplementation(
+        (filePath: string) =>
+          filePath.startsWith(IMPORT_DIR)
+            ? path.basename(filePath) in files
+            : true,
+      );
+      (fsp.readFile as ReturnType<typeof vi.fn>).mockImplementation(
+        (filePath: string) => {
+          if (filePath.startsWith(IMPORT_DIR)) {
+            return Promise.resolve(files[path.basename(filePath)]);
+          }
+          if (filePath.includes("manifest"))
+            return Promise.resolve(makeManifest());
+          if (filePath.includes("irs-revocation"))
+            return Promise.resolve(makeIrsCsv(10));
+          if (filePath.includes("sdn.csv")) return Promise.resolve(cachedSdn);
+          if (filePath.includes("alt.csv"))
+            return Promise.resolve(makeOfacAltCsv([]));
+          return Promise.resolve("");
+        },
+      );
+    }
+
+    it("imports OFAC lists from local files without network access", async () => {
+      setupImportDir({
+        "sdn.csv": bigSdn,
+        "alt.csv": makeOfacAltCsv([{ entNum: "7", altName: "SEVEN ALIAS" }]),
+      });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+      const result = await store.refresh("ofac", IMPORT_DIR);
+
+      expect(result.ofac_refreshed).toBe(true);
+      expect(axios.get).not.toHaveBeenCalled();
+      expect(store.lookupName("IMPORTED ENTITY 42")).toHaveLength(1);
+      expect(store.lookupName("SEVEN ALIAS")).toHaveLength(1);
+      expect(fsp.writeFile).toHaveBeenCalledWith(
+        path.join("/tmp/test-data", "sdn.csv"),
+        bigSdn,
+      );
+    });
+
+    it("imports the IRS list from the extracted file when no ZIP is present", async () => {
+      setupImportDir({
+        "data-download-revocation.txt": makeIrsCsv(500_000),
+      });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+      await store.refresh("irs", IMPORT_DIR);
+
+      expect(axios.get).not.toHaveBeenCalled();
+      expect(unzipper.Open.file).not.toHaveBeenCalled();
+      expect(store.irsRowCount).toBe(500_000);
+    });
+
+    it("extracts the IRS ZIP when present", async () => {
+      const irsCsv = makeIrsCsv(500_000);
+      setupImportDir({ "data-download-revocation.zip": "zip" });
+      (unzipper.Open.file as ReturnType<typeof vi.fn>).mockResolvedValue({
+        files: [
+          {
+            uncompressedSize: 1000,
+            buffer: () => Promise.resolve(Buffer.from(irsCsv)),
+          },
+        ],
+      });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+      await store.refresh("irs", IMPORT_DIR);
+
+      expect(unzipper.Open.file).toHaveBeenCalledWith(
+        path.join(IMPORT_DIR, "data-download-revocation.zip"),
+      );
+      expect(store.irsRowCount).toBe(500_000);
+    });
+
+    it("streams the e-Postcard file and caches it only once validated", async () => {
+      const epostcard = makeEpostcardFile(
+        Array.from(
+          { length: 200_000 },
+          (_, i) => `${300000000 + i}|2023|ORG ${i}|T|F|01-01-2023|12-31-2023`,
+        ),
+      );
+      setupImportDir({ "data-download-epostcard.txt": epostcard });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+      await store.refresh("epostcard", IMPORT_DIR);
+
+      expect(fs.createReadStream).toHaveBeenCalledWith(
+        path.join(IMPORT_DIR, "data-download-epostcard.txt"),
+      );
+      expect(store.epostcardRowCount).toBe(200_000);
+      expect(store.lookupEpostcard("300000042")?.legalName).toBe("ORG 42");
+      expect(fsp.rename).toHaveBeenCalledWith(
+        path.join("/tmp/test-data", "irs-epostcard.txt.partial"),
+        path.join("/tmp/test-data", "irs-epostcard.txt"),
+      );
+    });
+
+    it("discards a streamed e-Postcard ZIP entry that fails validation", async () => {
+      setupImportDir({ "data-download-epostcard.zip": "zip" });
+      (unzipper.Open.file as ReturnType<typeof vi.fn>).mockResolvedValue({
+        files: [
+          {
+            uncompressedSize: 1000,
+            stream: () =>
+              Readable.from([
+                "123456789|2023|ONLY ONE|T|F|01-01-2023|12-31-2023\n",
+              ]),
+          },
+        ],
+      });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      await expect(store.refresh("epostcard", IMPORT_DIR)).rejects.toThrow(
+        /e-Postcard data too small: 1 EINs/,
+      );
+      expect(fsp.rename).not.toHaveBeenCalled();
+      expect(fsp.rm).toHaveBeenCalledWith(
+        path.join("/tmp/test-data", "irs-epostcard.txt.partial"),
+        { force: true },
+      );
+    });
+
+    it("fails instead of falling back to cached data when a file is missing", async () => {
+      setupImportDir({ "sdn.csv": bigSdn });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      await expect(store.refresh("ofac", IMPORT_DIR)).rejects.toThrow(
+        /Cannot import OFAC data: OFAC ALT file not found/,
+      );
+      expect(store.lookupName("X")).toHaveLength(1); // cached data untouched
+    });
+
+    it("checks every requested file before loading any source", async () => {
+      setupImportDir({
+        "data-download-revocation.txt": makeIrsCsv(500_000),
+        "sdn.csv": bigSdn,
+        "data-download-epostcard.txt": "",
+      });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      await expect(store.refresh("all", IMPORT_DIR)).rejects.toThrow(
+        /Cannot import OFAC data: OFAC ALT file not found/,
+      );
+      expect(store.irsRowCount).toBe(10); // IRS list not swapped in
+      expect(fsp.readFile).not.toHaveBeenCalledWith(
+        path.join(IMPORT_DIR, "data-download-revocation.txt"),
+      );
+    });
+
+    it("applies the download row-count limit to imported files", async () => {
+      setupImportDir({
+        "sdn.csv": makeOfacSdnCsv([{ entNum: "1", name: "ONLY ONE" }]),
+        "alt.csv": makeOfacAltCsv([]),
+      });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      await expect(store.refresh("ofac", IMPORT_DIR)).rejects.toThrow(
+        /OFAC data too small/,
+      );
+    });
+
+    it("applies the download size limit to imported files", async () => {
+      setupImportDir({ "sdn.csv": bigSdn, "alt.csv": makeOfacAltCsv([]) });
+      (fsp.stat as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        size: 500 * 1024 * 1024,
+      });
+
+      const store = new CsvDataStore(makeConfig());
+      await store.initialize();
+
+      await expect(store.refresh("ofac", IMPORT_DIR)).rejects.toThrow(
+        /file too large/,
+      );
+    });
+  });
+
   // ---------- Mutex ----------
 
   describe("operation lock (mutex)", () => {
@@ -3,7 +3,7 @@
  *
  * Shows the 3-layer architecture in action:
  *   Layer 1: Gates (binary pre-screen)
- *   Layer 2: Scoring (4 weighted checks = 100 max)
+ *   Layer 2: Scoring (5 weighted checks = 100 max)
  *   Layer 3: Red Flags (anomaly overlay)
  *
  * Run with: npx vitest run tests/demo-pipeline.test.ts --reporter=verbose
@@ -29,7 +29,7 @@ describe("Full Screening Pipeline Demo", () => {
   // -----------------------------------------------------------------
   // Scenario 1: Healthy nonprofit → PASS (score 100)
   // -----------------------------------------------------------------
-  it("Healthy org: gates pass, all 4 checks score 25 → PASS at 100", () => {
+  it("Healthy org: gates pass, all 5 checks at full weight → PASS at 100", () => {
     const profile = makeProfile({
       name: "Homeboy Industries",
       years_operating: 15,
@@ -53,13 +53,14 @@ describe("Full Screening Pipeline Demo", () => {
     expect(result.gates.gates).toHaveLength(4);
     expect(result.gates.gates.every((g) => g.verdict === "PASS")).toBe(true);
 
-    // Scoring: 4 checks, all PASS
-    expect(result.checks).toHaveLength(4);
+    // Scoring: 5 checks, all PASS
+    expect(result.checks).toHaveLength(5);
     expect(result.checks!.map((c) => c.name)).toEqual([
       "years_operating",
       "revenue_range",
       "spend_rate",
       "recent_990",
+      "operating_reserves",
     ]);
     expect(result.checks!.every((c) => c.result === "PASS")).toBe(true);
     expect(result.score).toBe(100);
@@ -166,6 +167,7 @@ describe("Full Screening Pipeline Demo", () => {
         total_liabilities: 10_000,
         overhead_ratio: 0.7, // PASS (0.7 >= passMin 0.6)
         officer_compensation_ratio: null,
+        cash_and_equivalents: 14_000, // 3 months of 56K expenses → PASS
       },
     });
     const filings = [makeFiling({ totrevenue: 80_000, totfuncexpns: 56_000 })];
@@ -184,10 +186,11 @@ describe("Full Screening Pipeline Demo", () => {
     expect(result.gate_blocked).toBe(false);
 
     // years_operating = REVIEW (2 yrs, need 3 for PASS) → 5 pts (half of 10)
-    // revenue_range = PASS ($80K >= passMin $50K) → 25 pts
-    // spend_rate = PASS (0.7 >= passMin 0.6) → 35 pts
+    // revenue_range = PASS ($80K >= passMin $50K) → 15 pts
+    // spend_rate = PASS (0.7 >= passMin 0.6) → 30 pts
     // recent_990 = PASS (recent) → 30 pts
-    // Score: 5 + 25 + 35 + 30 = 95
+    // operating_reserves = PASS (3 months) → 15 pts
+    // Score: 5 + 15 + 30 + 30 + 15 = 95
     expect(result.score).toBe(95);
     expect(result.recommendation).toBe("PASS");
 
@@ -378,6 +378,38 @@ describe("Discovery E2E", () => {
     });
   });
 
+  describe("Scenario: County search without a ZIP centroid table", () => {
+    it("returns an error response instead of throwing", () => {
+      const result = discoveryTools.discoverNonprofits(pipeline, {
+        county: "Alameda",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(
+        /^Discovery query failed: ZIP centroid table not configured/,
+      );
+    });
+  });
+
+  describe("Scenario: BMF change log", () => {
+    it("is empty before any incremental refresh", () => {
+      const result = discoveryTools.listBmfChanges(index, {});
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ changes: [], total: 0 });
+    });
+
+    it("returns error responses for bad arguments", () => {
+      expect(
+        discoveryTools.listBmfChanges(index, { vetted_only: true }).error,
+      ).toMatch(/VettingStore not available/);
+      expect(
+        discoveryTools.listBmfChanges(index, { change_types: ["renamed"] })
+          .error,
+      ).toMatch(/^BMF change query failed: Unknown change type: renamed/);
+    });
+  });
+
   describe("Response shape matches MCP tool contract", () => {
     it("has success, data, attribution fields", () => {
       const result = discoveryTools.discoverNonprofits(pipeline, {
@@ -1,4 +1,12 @@
-import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
 import fs from "fs";
 import os from "os";
 import path from "path";
@@ -70,7 +78,17 @@ function makeConfig(dataDir: string): DiscoveryIndexConfig {
   };
 }
 
-function seedTestData(dataDir: string): void {
+function seedTestData(
+  dataDir: string,
+  orgs: Array<
+    (typeof TEST_ORGS)[number] & {
+      zip?: string;
+      revenue_amount?: number | null;
+      asset_amount?: number | null;
+      foundation_code?: number;
+    }
+  > = TEST_ORGS,
+): void {
   const dbPath = path.join(dataDir, "discovery-index.db");
   const db = SqliteDatabase.open(dbPath);
 
@@ -78,8 +96,13 @@ function seedTestData(dataDir: string): void {
     CREATE TABLE IF NOT EXISTS bmf_orgs (
       ein        TEXT PRIMARY KEY,
       name       TEXT NOT NULL,
+      street     TEXT NOT NULL DEFAULT '',
       city       TEXT NOT NULL DEFAULT '',
       state      TEXT NOT NULL DEFAULT '',
+      zip        TEXT NOT NULL DEFAULT '',
+      revenue_amount INTEGER,
+      asset_amount   INTEGER,
+      foundation_code INTEGER NOT NULL DEFAULT 0,
       ntee_code  TEXT NOT NULL DEFAULT '',
       subsection INTEGER NOT NULL DEFAULT 0,
       ruling_date TEXT NOT NULL DEFAULT ''
@@ -91,16 +114,20 @@ function seedTestData(dataDir: string): void {
   `);
 
   const stmt = db.prepare(`
-    INSERT INTO bmf_orgs (ein, name, city, state, ntee_code, subsection, ruling_date)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO bmf_orgs (ein, name, city, state, zip, revenue_amount, asset_amount, foundation_code, ntee_code, subsection, ruling_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  for (const org of TEST_ORGS) {
+  for (const org of orgs) {
     stmt.run(
       org.ein,
       org.name,
       org.city,
       org.state,
+      org.zip ?? "",
+      org.revenue_amount ?? null,
+      org.asset_amount ?? null,
+      org.foundation_code ?? 0,
       org.ntee_code,
       org.subsection,
       org.ruling_date,
@@ -162,6 +189,29 @@ describe("DiscoveryIndex", () => {
     db.close();
   });
 
+  it("initialize() adds address and financial columns to an index built before they existed", () => {
+    const db = SqliteDatabase.open(path.join(tmpDir, "discovery-index.db"));
+    db.sqlExec(`
+      CREATE TABLE bmf_orgs (
+        ein TEXT PRIMARY KEY, name TEXT NOT NULL, city TEXT NOT NULL DEFAULT '',
+        state TEXT NOT NULL DEFAULT '', ntee_code TEXT NOT NULL DEFAULT '',
+        subsection INTEGER NOT NULL DEFAULT 0, ruling_date TEXT NOT NULL DEFAULT ''
+      );
+      INSERT INTO bmf_orgs (ein, name) VALUES ('123456789', 'Legacy Org');
+    `);
+    db.close();
+
+    index.initialize();
+    expect(index.getByEin("123456789")).toMatchObject({
+      name: "Legacy Org",
+      street: "",
+      zip: "",
+      revenue_amount: null,
+      foundation_code: 0,
+      tax_period: "",
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Query: state filter
   // -------------------------------------------------------------------------
@@ -228,6 +278,283 @@ describe("DiscoveryIndex", () => {
     expect(result.candidates[0].ein).toBe("234567890");
   });
 
+  // -------------------------------------------------------------------------
+  // Query: fuzzy name search
+  // -------------------------------------------------------------------------
+
+  describe("nameSearch", () => {
+    const org = (ein: string, name: string, state = "MO") => ({
+      ein,
+      name,
+      city: "ST LOUIS",
+      state,
+      ntee_code: "P20",
+      subsection: 3,
+      ruling_date: "199001",
+    });
+    const NAME_ORGS = [
+      org("111111111", "SAINT VINCENT DE PAUL SOCIETY"),
+      org("222222222", "ST VINCENT DE PAUL"),
+      org("333333333", "VINCENT HOUSE INC"),
+      org("444444444", "HABITAT FOR HUMANITY OF GREATER ST LOUIS"),
+      org("555555555", "HABITAT FOR HUMANITY INC", "GA"),
+      org("666666666", "MOUNT ZION BAPTIST CHURCH"),
+    ];
+
+    it("matches across St/Saint and ranks closer names first", () => {
+      seedTestData(tmpDir, NAME_ORGS);
+      index.initialize();
+
+      const result = index.query({ nameSearch: "St Vincent de Paul" });
+      expect(result.total).toBe(2);
+      expect(result.candidates.map((c) => c.ein)).toEqual([
+        "222222222",
+        "111111111",
+      ]);
+      expect(result.candidates[0].relevance).toBe(1);
+      expect(result.candidates[1].relevance).toBeLessThan(1);
+      expect(result.filters_applied).toContain(
+        "nameSearch=St Vincent de Paul",
+      );
+    });
+
+    it("tolerates typos", () => {
+      seedTestData(tmpDir, NAME_ORGS);
+      index.initialize();
+
+      const result = index.query({ nameSearch: "Habitat for Humanaty" });
+      expect(result.total).toBe(2);
+      expect(result.candidates[0].name).toBe("HABITAT FOR HUMANITY INC");
+      expect(result.candidates[0].relevance).toBeGreaterThan(0.9);
+
+      expect(index.query({ nameSearch: "Mt Zoin Baptist" }).candidates).toEqual(
+        [expect.objectContaining({ ein: "666666666" })],
+      );
+    });
+
+    it("combines with other filters and paginates in relevance order", () => {
+      seedTestData(tmpDir, NAME_ORGS);
+      index.initialize();
+
+      expect(
+        index.query({ nameSearch: "habitat humanity", state: "GA" }).candidates,
+      ).toEqual([expect.objectContaining({ ein: "555555555" })]);
+
+      const page2 = index.query({
+        nameSearch: "vincent paul",
+        limit: 1,
+        offset: 1,
+      });
+      expect(page2.total).toBe(2);
+      expect(page2.candidates.map((c) => c.ein)).toEqual(["111111111"]);
+    });
+
+    it("returns nothing when no token matches or the query normalizes away", () => {
+      seedTestData(tmpDir, NAME_ORGS);
+      index.initialize();
+
+      expect(index.query({ nameSearch: "Red Cross" }).total).toBe(0);
+      expect(index.query({ nameSearch: "The ..." }).total).toBe(0);
+    });
+
+    it("leaves relevance unset for non-search queries", () => {
+      seedTestData(tmpDir, NAME_ORGS);
+      index.initialize();
+
+      const result = index.query({ nameContains: "VINCENT" });
+      expect(result.total).toBe(3);
+      expect(result.candidates[0].relevance).toBeUndefined();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Query: ZIP, radius and county
+  // -------------------------------------------------------------------------
+
+  describe("geographic filters", () => {
+    // Oakland 94607 → Berkeley 94704 is ~4.6 mi; Oakland → San Jose ~39 mi
+    const CENTROIDS = [
+      "zip,lat,lon,state,county_fips,county",
+      "94607,37.8066,-122.2950,CA,06001,Alameda County",
+      "94704,37.8665,-122.2578,CA,06001,Alameda County",
+      "95112,37.3469,-121.8833,CA,06085,Santa Clara County",
+      "73301,30.2672,-97.7431,TX,48453,Travis County",
+      "29001,33.7760,-80.1860,SC,45027,Clarendon County",
+      "",
+    ].join("\n");
+    const geo = (ein: string, name: string, zip: string, state = "CA") => ({
+      ein,
+      name,
+      city: "",
+      state,
+      zip,
+      ntee_code: "B20",
+      subsection: 3,
+      ruling_date: "200501",
+    });
+    const GEO_ORGS = [
+      geo("100000001", "Oakland Literacy", "94607"),
+      geo("100000002", "Berkeley Tutors", "94704"),
+      geo("100000003", "San Jose Readers", "95112"),
+      geo("100000004", "Austin Library Friends", "73301", "TX"),
+      geo("100000005", "PO Box Charity", "94649"), // no centroid
+    ];
+
+    function makeGeoIndex(withTable = true): DiscoveryIndex {
+      index.close();
+      const csvPath = path.join(tmpDir, "zip-centroids.csv");
+      if (withTable) fs.writeFileSync(csvPath, CENTROIDS);
+      index = new DiscoveryIndex({
+        ...makeConfig(tmpDir),
+        zipCentroidsPath: csvPath,
+      });
+      seedTestData(tmpDir, GEO_ORGS);
+      index.initialize();
+      return index;
+    }
+
+    it("filters by exact ZIP, accepting ZIP+4", () => {
+      const result = makeGeoIndex().query({ zip: "94704-1234" });
+      expect(result.candidates.map((c) => c.ein)).toEqual(["100000002"]);
+      expect(result.candidates[0].distance_miles).toBeUndefined();
+      expect(result.filters_applied).toContain("zip=94704");
+    });
+
+    it("finds orgs within a radius of a ZIP and reports distance", () => {
+      const result = makeGeoIndex().query({ nearZip: "94607", radiusMiles: 10 });
+      expect(result.total).toBe(2);
+      const byEin = new Map(result.candidates.map((c) => [c.ein, c]));
+      expect(byEin.get("100000001")!.distance_miles).toBe(0);
+      expect(byEin.get("100000002")!.distance_miles).toBeCloseTo(4.6, 0);
+      expect(result.filters_applied).toContain("near_zip=94607 radius=10mi");
+
+      expect(
+        index.query({ nearZip: "94607", radiusMiles: 50 }).total,
+      ).toBe(3);
+    });
+
+    it("defaults and caps the radius", () => {
+      makeGeoIndex();
+      expect(index.query({ nearZip: "94607" }).filters_applied).toContain(
+        "near_zip=94607 radius=10mi",
+      );
+      expect(
+        index.query({ nearZip: "94607", radiusMiles: 5000 }).total,
+      ).toBe(3); // capped at 100mi — Austin stays out
+    });
+
+    it("filters by county name or FIPS code", () => {
+      makeGeoIndex();
+      const byName = index.query({ county: "Alameda" });
+      expect(byName.candidates.map((c) => c.ein).sort()).toEqual([
+        "100000001",
+        "100000002",
+      ]);
+      expect(index.query({ county: "Santa Clara County" }).total).toBe(1);
+      expect(index.query({ county: "06001", state: "CA" }).total).toBe(2);
+    });
+
+    it("throws for unknown ZIPs and counties", () => {
+      makeGeoIndex();
+      expect(() => index.query({ nearZip: "00000" })).toThrow(
+        "ZIP code not found: 00000",
+      );
+      expect(() => index.query({ county: "Alameda", state: "TX" })).toThrow(
+        "County not found: Alameda (TX)",
+      );
+    });
+
+    it("needs the centroid table only for radius and county filters", () => {
+      makeGeoIndex(false);
+      expect(() => index.query({ county: "Alameda" })).toThrow(
+        /ZIP centroid table not found/,
+      );
+      expect(index.query({ zip: "94607" }).total).toBe(1);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Query: BMF financials and foundation code
+  // -------------------------------------------------------------------------
+
+  describe("financial and foundation filters", () => {
+    const fin = (
+      ein: string,
+      revenue_amount: number | null,
+      asset_amount: number | null,
+      foundation_code: number,
+    ) => ({
+      ein,
+      name: `Org ${ein}`,
+      city: "DENVER",
+      state: "CO",
+      ntee_code: "B20",
+      subsection: 3,
+      ruling_date: "200501",
+      revenue_amount,
+      asset_amount,
+      foundation_code,
+    });
+    const FIN_ORGS = [
+      fin("200000001", 50_000, 20_000, 15), // too small
+      fin("200000002", 250_000, 400_000, 16), // grassroots band
+      fin("200000003", 9_500_000, 30_000_000, 15), // grassroots band, big assets
+      fin("200000004", 40_000_000, 90_000_000, 12), // hospital
+      fin("200000005", 2_000_000, 60_000_000, 4), // private foundation
+      fin("200000006", null, null, 10), // church, no return on file
+    ];
+
+    beforeEach(() => {
+      seedTestData(tmpDir, FIN_ORGS);
+      index.initialize();
+    });
+
+    const eins = (result: { candidates: { ein: string }[] }) =>
+      result.candidates.map((c) => c.ein).sort();
+
+    it("filters by revenue range, excluding unreported revenue", () => {
+      const result = index.query({ minRevenue: 100_000, maxRevenue: 10_000_000 });
+      expect(eins(result)).toEqual(["200000002", "200000003", "200000005"]);
+      expect(result.filters_applied).toEqual(
+        expect.arrayContaining(["minRevenue=100000", "maxRevenue=10000000"]),
+      );
+      expect(index.query({ maxRevenue: 10_000_000 }).total).toBe(4);
+    });
+
+    it("filters by asset range", () => {
+      expect(eins(index.query({ minAssets: 25_000_000, maxAssets: 70_000_000 }))).toEqual(
+        ["200000003", "200000005"],
+      );
+    });
+
+    it("filters by foundation code", () => {
+      expect(eins(index.query({ foundationCodes: [15, 16] }))).toEqual([
+        "200000001",
+        "200000002",
+        "200000003",
+      ]);
+    });
+
+    it("excludes private foundations with publicCharityOnly", () => {
+      const result = index.query({
+        publicCharityOnly: true,
+        minRevenue: 100_000,
+        maxRevenue: 10_000_000,
+      });
+      expect(eins(result)).toEqual(["200000002", "200000003"]);
+      expect(result.filters_applied).toContain("public_charity_only");
+    });
+
+    it("returns the BMF financial fields on each candidate", () => {
+      expect(index.getByEin("200000002")).toMatchObject({
+        revenue_amount: 250_000,
+        asset_amount: 400_000,
+        foundation_code: 16,
+      });
+      expect(index.getByEin("200000006")!.revenue_amount).toBeNull();
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Query: combined filters
   // -------------------------------------------------------------------------
@@ -334,6 +661,26 @@ describe("DiscoveryIndex", () => {
     expect(result.candidates).toHaveLength(0);
   });
 
+  // -------------------------------------------------------------------------
+  // Batch EIN lookup
+  // -------------------------------------------------------------------------
+
+  it("getByEins() returns known orgs keyed by normalized EIN", () => {
+    seedTestData(tmpDir);
+    index.initialize();
+
+    const found = index.getByEins(["12-3456789", "345678901", "999999999"]);
+    expect(found.size).toBe(2);
+    expect(found.get("123456789")!.name).toBe("Oakland Education Fund");
+    expect(found.get("345678901")!.state).toBe("TX");
+    expect(found.has("999999999")).toBe(false);
+  });
+
+  it("getByEins() handles an empty list", () => {
+    index.initialize();
+    expect(index.getByEins([]).size).toBe(0);
+  });
+
   // -------------------------------------------------------------------------
   // Stats
   // -------------------------------------------------------------------------
@@ -400,6 +747,238 @@ describe("DiscoveryIndex", () => {
     expect(index.isReady()).toBe(true);
   });
 
+  // -------------------------------------------------------------------------
+  // Refresh: full build, then incremental diffs
+  // -------------------------------------------------------------------------
+
+  describe("BMF refresh", () => {
+    const bmfRow = (n: number, overrides: Record<string, unknown> = {}) => ({
+      ein: String(300000000 + n),
+      name: `COMMUNITY ORG ${n}`,
+      street: "",
+      city: "PORTLAND",
+      state: "OR",
+      zip: "97201",
+      ntee_code: "B20",
+      subsection: 3,
+      ruling_date: "200501",
+      asset_amount: 1000,
+      income_amount: 1000,
+      revenue_amount: 1000,
+      foundation_code: 15,
+      deductibility: 1,
+      affiliation: 3,
+      organization_type: 1,
+      exempt_status: 1,
+      tax_period: "202312",
+      ...overrides,
+    });
+    const BASE = Array.from({ length: 40 }, (_, i) => bmfRow(i));
+
+    const CSV_COLUMNS: Array<[string, string]> = [
+      ["EIN", "ein"],
+      ["NAME", "name"],
+      ["STREET", "street"],
+      ["CITY", "city"],
+      ["STATE", "state"],
+      ["ZIP", "zip"],
+      ["NTEE_CD", "ntee_code"],
+      ["SUBSECTION", "subsection"],
+      ["RULING", "ruling_date"],
+      ["ASSET_AMT", "asset_amount"],
+      ["INCOME_AMT", "income_amount"],
+      ["REVENUE_AMT", "revenue_amount"],
+      ["FOUNDATION", "foundation_code"],
+      ["DEDUCTIBILITY", "deductibility"],
+      ["AFFILIATION", "affiliation"],
+      ["ORGANIZATION", "organization_type"],
+      ["STATUS", "exempt_status"],
+      ["TAX_PERIOD", "tax_period"],
+    ];
+    let sourceDir: string;
+    let regions: string[];
+    let clock: number;
+
+    /**
+     * Refresh through the public entry point: write the rows as the first
+     * configured region's CSV (other regions empty) and import them with
+     * buildIndex(sourceDir), stepping the clock past the rebuild cooldown.
+     */
+    const build = async (rows: Array<Record<string, unknown>>) => {
+      const [first, ...rest] = regions;
+      const header = CSV_COLUMNS.map(([column]) => column).join(",");
+      const lines = rows.map((r) =>
+        CSV_COLUMNS.map(([, key]) => String(r[key] ?? "")).join(","),
+      );
+      fs.writeFileSync(
+        path.join(sourceDir, `${first}.csv`),
+        [header, ...lines].join("\n"),
+      );
+      for (const region of rest) {
+        fs.writeFileSync(path.join(sourceDir, `${region}.csv`), header);
+      }
+      clock += 10 * 60 * 1000;
+      vi.setSystemTime(clock);
+      return index.buildIndex(sourceDir);
+    };
+
+    const makeIndex = (overrides: Partial<DiscoveryIndexConfig> = {}) => {
+      const config = { ...makeConfig(tmpDir), minBmfRows: 1, ...overrides };
+      regions = config.bmfRegions;
+      index.close();
+      index = new DiscoveryIndex(config);
+      index.initialize();
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      clock = Date.now();
+      sourceDir = path.join(tmpDir, "transfer");
+      fs.mkdirSync(sourceDir);
+      makeIndex();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("does a full build the first time and records no changes", async () => {
+      const result = await build(BASE);
+      expect(result).toMatchObject({
+        rowCount: 40,
+        mode: "full",
+        changes: null,
+      });
+      expect(index.getChanges().total).toBe(0);
+    });
+
+    it("applies the diff in place and logs each kind of change", async () => {
+      await build(BASE);
+      const next = [
+        ...BASE.slice(0, 39).map((r, i) =>
+          i === 1
+            ? { ...r, name: "COMMUNITY ORG ONE" }
+            : i === 2
+              ? { ...r, ntee_code: "E20" }
+              : i === 3
+                ? { ...r, subsection: 4 }
+                : i === 4
+                  ? { ...r, revenue_amount: 5000 }
+                  : r,
+        ),
+        bmfRow(100),
+      ];
+
+      const result = await build(next);
+      expect(result.mode).toBe("incremental");
+      expect(result.rowCount).toBe(40);
+      expect(result.changes).toEqual({
+        new_org: 1,
+        name_change: 1,
+        ntee_change: 1,
+        subsection_change: 1,
+        dropped: 1,
+      });
+
+      expect(index.getByEin("300000039")).toBeNull();
+      expect(index.getByEin("300000100")!.name).toBe("COMMUNITY ORG 100");
+      expect(index.getByEin("300000004")!.revenue_amount).toBe(5000);
+      expect(index.getByEin("300000003")!.subsection).toBe(4);
+
+      const { changes } = index.getChanges({ ein: "30-0000001" });
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({
+        change_type: "name_change",
+        name: "COMMUNITY ORG ONE",
+        old_value: "COMMUNITY ORG 1",
+        new_value: "COMMUNITY ORG ONE",
+      });
+      expect(
+        index.getChanges({ changeTypes: ["subsection_change"] }).changes[0],
+      ).toMatchObject({ ein: "300000003", old_value: "3", new_value: "4" });
+      expect(
+        index.getChanges({ changeTypes: ["dropped"] }).changes[0],
+      ).toMatchObject({ ein: "300000039", name: "COMMUNITY ORG 39" });
+
+      // Name index follows the renames
+      expect(
+        index.query({ nameSearch: "community org one" }).candidates[0].ein,
+      ).toBe("300000001");
+    });
+
+    it("records nothing when the BMF is unchanged", async () => {
+      await build(BASE);
+      const result = await build(BASE);
+      expect(result.mode).toBe("incremental");
+      expect(Object.values(result.changes!).every((n) => n === 0)).toBe(true);
+      expect(index.getChanges().total).toBe(0);
+    });
+
+    it("refuses a refresh that would drop too much of the index", async () => {
+      await build(BASE);
+      await expect(build(BASE.slice(0, 30))).rejects.toThrow(
+        /would drop 10 of 40 orgs/,
+      );
+      expect(index.getStats().totalOrgs).toBe(40);
+      expect(index.getChanges().total).toBe(0);
+    });
+
+    it("rebuilds without a change log when the configured regions change", async () => {
+      await build(BASE);
+      makeIndex({ bmfRegions: ["eo1", "eo2"] });
+
+      const result = await build([...BASE, bmfRow(100)]);
+      expect(result.mode).toBe("full");
+      expect(index.getChanges().total).toBe(0);
+    });
+
+    it("filters changes by EIN set, type, date and limit", async () => {
+      await build(BASE);
+      await build([...BASE, bmfRow(100), bmfRow(101)]);
+
+      expect(index.getChanges().total).toBe(2);
+      expect(
+        index.getChanges({ eins: ["30-0000101"] }).changes.map((c) => c.ein),
+      ).toEqual(["300000101"]);
+      expect(index.getChanges({ changeTypes: ["dropped"] }).total).toBe(0);
+      expect(index.getChanges({ since: "2999-01-01" }).total).toBe(0);
+
+      const limited = index.getChanges({ limit: 1 });
+      expect(limited.changes).toHaveLength(1);
+      expect(limited.total).toBe(2);
+    });
+
+    it("reads region files from a local directory instead of irs.gov", async () => {
+      makeIndex({ minBmfRows: undefined });
+
+      await expect(index.buildIndex(sourceDir)).rejects.toThrow(
+        /Failed to import BMF region eo1: file not found in .*transfer \(expected eo1\.csv or eo1\.zip\)/,
+      );
+
+      fs.writeFileSync(
+        path.join(sourceDir, "eo1.csv"),
+        [
+          "EIN,NAME,CITY,STATE,NTEE_CD,SUBSECTION",
+          "300000001,LOCAL ORG ONE,SALEM,OR,B20,3",
+          "300000002,LOCAL ORG TWO,SALEM,OR,E20,3",
+        ].join("\n"),
+      );
+      // Parsed from disk, then held to the same row minimum as a download
+      await expect(index.buildIndex(sourceDir)).rejects.toThrow(
+        /BMF data too small: 2 rows/,
+      );
+    });
+
+    it("rejects unknown change types and malformed dates", () => {
+      expect(() =>
+        index.getChanges({ changeTypes: ["renamed" as never] }),
+      ).toThrow(/Unknown change type: renamed/);
+      expect(() => index.getChanges({ since: "last week" })).toThrow(
+        /Invalid since date/,
+      );
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Close
   // -------------------------------------------------------------------------
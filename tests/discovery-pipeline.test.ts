@@ -311,6 +311,17 @@ describe("DiscoveryPipeline", () => {
     });
   });
 
+  describe("with a per-call portfolio fit", () => {
+    it("uses the given NTEE allowlist instead of the platform default", () => {
+      const result = pipeline.discover(
+        {},
+        { ...DEFAULT_PORTFOLIO_FIT, allowedNteeCategories: ["X"] },
+      );
+      const eins = result.candidates.map((c) => c.ein);
+      expect(eins).toEqual(["999999999"]);
+    });
+  });
+
   describe("ruling year filters", () => {
     it("filters by minRulingYear", () => {
       const result = pipeline.discover({ minRulingYear: 2010 });
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { EpostcardClient } from "../src/domain/red-flags/epostcard-client.js";
+import { makeEpostcardRow, makeMockStore } from "./fixtures.js";
+
+function makeClient(lookupReturn?: ReturnType<typeof makeEpostcardRow>) {
+  const store = makeMockStore();
+  store.lookupEpostcard.mockReturnValue(lookupReturn);
+  return { client: new EpostcardClient(store as any), store };
+}
+
+describe("EpostcardClient", () => {
+  it("returns null for malformed EIN without querying the store", () => {
+    const { client, store } = makeClient(makeEpostcardRow());
+    expect(client.lookup("12-ABC6789")).toBeNull();
+    expect(store.lookupEpostcard).not.toHaveBeenCalled();
+  });
+
+  it("normalizes dashed EIN before lookup", () => {
+    const { client, store } = makeClient();
+    client.lookup("12-3456789");
+    expect(store.lookupEpostcard).toHaveBeenCalledWith("123456789");
+  });
+
+  it("returns null when the org has never filed a 990-N", () => {
+    const { client } = makeClient(undefined);
+    expect(client.lookup("123456789")).toBeNull();
+  });
+
+  it("converts MM-DD-YYYY period end to YYYY-MM", () => {
+    const { client } = makeClient(
+      makeEpostcardRow({ taxYear: 2023, taxPeriodEnd: "06-30-2024" }),
+    );
+    expect(client.lookup("123456789")).toEqual({
+      tax_year: 2023,
+      tax_period_end: "2024-06",
+      gross_receipts_under_limit: true,
+      terminated: false,
+    });
+  });
+
+  it("accepts ISO period end dates", () => {
+    const { client } = makeClient(
+      makeEpostcardRow({ taxPeriodEnd: "2023-09-30" }),
+    );
+    expect(client.lookup("123456789")?.tax_period_end).toBe("2023-09");
+  });
+
+  it("falls back to December of the tax year when period end is unparseable", () => {
+    const { client } = makeClient(
+      makeEpostcardRow({ taxYear: 2022, taxPeriodEnd: "" }),
+    );
+    expect(client.lookup("123456789")?.tax_period_end).toBe("2022-12");
+  });
+
+  it("passes through the terminated flag", () => {
+    const { client } = makeClient(makeEpostcardRow({ terminated: true }));
+    expect(client.lookup("123456789")?.terminated).toBe(true);
+  });
+});
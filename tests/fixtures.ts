@@ -5,8 +5,11 @@ import type {
   PortfolioFitConfig,
   Filing990Summary,
   Latest990Summary,
+  GovernanceSummary,
   IrsRevocationRow,
   IrsRevocationResult,
+  EpostcardRow,
+  EpostcardSummary,
   OfacSdnRow,
   OfacSanctionsResult,
   CourtListenerCase,
@@ -18,9 +21,15 @@ import type {
   PartIXData,
   PartVIData,
   PartVIIEntry,
+  ContractorEntry,
+  HighestCompensatedEmployeeEntry,
   PartVIIIData,
+  PartXData,
+  ScheduleAData,
+  ScheduleIData,
 } from "../src/domain/nonprofit/types.js";
 import { loadThresholds } from "../src/core/config.js";
+import { XML_EXTRACT_VERSION } from "../src/domain/nonprofit/xml-parser.js";
 
 /**
  * Canonical defaults from config.ts — single source of truth.
@@ -76,6 +85,27 @@ export function make990(
     total_liabilities: 200_000,
     overhead_ratio: 0.8,
     officer_compensation_ratio: null,
+    cash_and_equivalents: 200_000, // 6 months of 400K expenses
+    unrestricted_net_assets: 450_000,
+    net_assets: 800_000,
+    ...overrides,
+  };
+}
+
+/** Part VI answers for a well-governed org (independent majority, all policies). */
+export function makeGovernanceSummary(
+  overrides?: Partial<GovernanceSummary>,
+): GovernanceSummary {
+  return {
+    voting_members: 12,
+    independent_members: 10,
+    family_or_business_relationship: false,
+    delegation_of_management: false,
+    conflict_of_interest_policy: true,
+    whistleblower_policy: true,
+    document_retention_policy: true,
+    ceo_compensation_process: true,
+    material_diversion: false,
     ...overrides,
   };
 }
@@ -143,6 +173,35 @@ export function makeIrsRow(
   };
 }
 
+export function makeEpostcardRow(
+  overrides?: Partial<EpostcardRow>,
+): EpostcardRow {
+  const year = new Date().getFullYear() - 1;
+  return {
+    ein: "123456789",
+    taxYear: year,
+    legalName: "SMALL NEIGHBORHOOD ASSOCIATION",
+    grossReceiptsUnderLimit: true,
+    terminated: false,
+    taxPeriodBegin: `01-01-${year}`,
+    taxPeriodEnd: `12-31-${year}`,
+    ...overrides,
+  };
+}
+
+export function makeEpostcardSummary(
+  overrides?: Partial<EpostcardSummary>,
+): EpostcardSummary {
+  const year = new Date().getFullYear() - 1;
+  return {
+    tax_year: year,
+    tax_period_end: `${year}-12`,
+    gross_receipts_under_limit: true,
+    terminated: false,
+    ...overrides,
+  };
+}
+
 export function makeCleanIrsResult(): IrsRevocationResult {
   return {
     found: false,
@@ -251,12 +310,17 @@ export function makeFlaggedCourtResult(caseCount = 2): CourtRecordsResult {
 export function makeMockStore() {
   return {
     lookupEin: vi.fn().mockReturnValue(undefined),
+    lookupEpostcard: vi.fn().mockReturnValue(undefined),
     lookupName: vi.fn().mockReturnValue([]),
     fuzzyLookupName: vi.fn().mockReturnValue([]),
     initialize: vi.fn().mockResolvedValue(undefined),
     refresh: vi
       .fn()
-      .mockResolvedValue({ irs_refreshed: true, ofac_refreshed: true }),
+      .mockResolvedValue({
+        irs_refreshed: true,
+        ofac_refreshed: true,
+        epostcard_refreshed: true,
+      }),
   };
 }
 
@@ -321,6 +385,7 @@ export function makeScreeningResult(overrides?: Partial<ScreeningResult>): Scree
     recommendation: "PASS",
     review_reasons: [],
     red_flags: [],
+    governance: null,
     ...overrides,
   };
 }
@@ -411,6 +476,31 @@ export function makePartVIIEntry(
   };
 }
 
+export function makeContractorEntry(
+  overrides?: Partial<ContractorEntry>,
+): ContractorEntry {
+  return {
+    name: "ACME CONSULTING LLC",
+    services: "PROGRAM EVALUATION",
+    compensation: 120_000,
+    ...overrides,
+  };
+}
+
+export function makeHighestCompensatedEmployeeEntry(
+  overrides?: Partial<HighestCompensatedEmployeeEntry>,
+): HighestCompensatedEmployeeEntry {
+  return {
+    name: "JOHN SMITH",
+    title: "PROGRAM MANAGER",
+    avgHoursPerWeek: 40,
+    compensation: 85_000,
+    benefits: 12_000,
+    expenseAccount: 0,
+    ...overrides,
+  };
+}
+
 export function makePartVIIIData(
   overrides?: Partial<PartVIIIData>,
 ): PartVIIIData {
@@ -427,6 +517,79 @@ export function makePartVIIIData(
   };
 }
 
+export function makePartXData(overrides?: Partial<PartXData>): PartXData {
+  return {
+    cashNonInterestBearing: 80_000,
+    savingsAndTempInvestments: 120_000,
+    pledgesAndGrantsReceivable: 50_000,
+    accountsReceivable: 10_000,
+    landBuildingsEquipmentNet: 300_000,
+    totalAssetsBOY: 720_000,
+    totalAssetsEOY: 800_000,
+    totalLiabilitiesBOY: 220_000,
+    totalLiabilitiesEOY: 200_000,
+    unrestrictedNetAssets: 450_000,
+    restrictedNetAssets: 150_000,
+    netAssetsEOY: 600_000,
+    cashAndEquivalents: 200_000,
+    debtRatio: 0.25,
+    ratiosValid: true,
+    ...overrides,
+  };
+}
+
+export function makeScheduleAData(
+  overrides?: Partial<ScheduleAData>,
+): ScheduleAData {
+  return {
+    supportSchedule: "170",
+    publicSupportTotal: 1_200_000,
+    totalSupport: 1_500_000,
+    publicSupportPctCY: 0.8,
+    publicSupportPctPY: 0.78,
+    firstFiveYears: false,
+    thirtyThreePctTestCY: true,
+    thirtyThreePctTestPY: false,
+    tenPctFactsAndCircumstancesCY: false,
+    tenPctFactsAndCircumstancesPY: false,
+    privateFoundationStatus: false,
+    passedPublicSupportTest: true,
+    ...overrides,
+  };
+}
+
+export function makeScheduleIData(
+  overrides?: Partial<ScheduleIData>,
+): ScheduleIData {
+  return {
+    grants: [
+      {
+        recipientName: "NEIGHBORHOOD FOOD PANTRY",
+        recipientEin: "123456789",
+        city: "OAKLAND",
+        state: "CA",
+        ircSection: "501(c)(3)",
+        cashGrantAmount: 40_000,
+        nonCashAmount: 0,
+        purpose: "GENERAL SUPPORT",
+      },
+      {
+        recipientName: "YOUTH ARTS COLLECTIVE",
+        recipientEin: "987654321",
+        city: "BERKELEY",
+        state: "CA",
+        ircSection: "501(c)(3)",
+        cashGrantAmount: 15_000,
+        nonCashAmount: 5_000,
+        purpose: "AFTER-SCHOOL PROGRAM",
+      },
+    ],
+    totalCashGrants: 55_000,
+    totalNonCashAssistance: 5_000,
+    ...overrides,
+  };
+}
+
 export function makeXml990ExtractedData(
   overrides?: Partial<Xml990ExtractedData>,
 ): Xml990ExtractedData {
@@ -436,10 +599,16 @@ export function makeXml990ExtractedData(
     objectId: "202301234567890123_public",
     formType: "990",
     schemaVersion: "2021v4.2",
+    extractVersion: XML_EXTRACT_VERSION,
     partIX: makePartIXData(),
     partVI: makePartVIData(),
     partVII: [makePartVIIEntry()],
+    contractors: [makeContractorEntry()],
+    highestCompensatedEmployees: [],
     partVIII: makePartVIIIData(),
+    partX: makePartXData(),
+    scheduleA: makeScheduleAData(),
+    scheduleI: makeScheduleIData(),
     extractedAt: new Date().toISOString(),
     ...overrides,
   };
@@ -477,6 +646,15 @@ export function makeMinimal990Xml(): string {
         <ReportableCompFromRltdOrgAmt>0</ReportableCompFromRltdOrgAmt>
         <OtherCompensationAmt>25000</OtherCompensationAmt>
       </Form990PartVIISectionAGrp>
+      <ContractorCompensationGrp>
+        <ContractorName>
+          <BusinessName>
+            <BusinessNameLine1Txt>ACME CONSULTING LLC</BusinessNameLine1Txt>
+          </BusinessName>
+        </ContractorName>
+        <ServicesDesc>PROGRAM EVALUATION</ServicesDesc>
+        <CompensationAmt>120000</CompensationAmt>
+      </ContractorCompensationGrp>
       <TotalContributionsAmt>300000</TotalContributionsAmt>
       <ProgramServiceRevenueGrp>
         <TotalRevenueColumnAmt>150000</TotalRevenueColumnAmt>
@@ -488,7 +666,134 @@ export function makeMinimal990Xml(): string {
         <TotalRevenueColumnAmt>20000</TotalRevenueColumnAmt>
       </OtherRevenueGrp>
       <CYTotalRevenueAmt>500000</CYTotalRevenueAmt>
+      <CashNonInterestBearingGrp>
+        <BOYAmt>60000</BOYAmt>
+        <EOYAmt>80000</EOYAmt>
+      </CashNonInterestBearingGrp>
+      <SavingsAndTempCashInvstGrp>
+        <BOYAmt>100000</BOYAmt>
+        <EOYAmt>120000</EOYAmt>
+      </SavingsAndTempCashInvstGrp>
+      <PledgesAndGrantsReceivableGrp>
+        <EOYAmt>50000</EOYAmt>
+      </PledgesAndGrantsReceivableGrp>
+      <AccountsReceivableGrp>
+        <EOYAmt>10000</EOYAmt>
+      </AccountsReceivableGrp>
+      <LandBldgEquipBasisNetGrp>
+        <EOYAmt>300000</EOYAmt>
+      </LandBldgEquipBasisNetGrp>
+      <TotalAssetsGrp>
+        <BOYAmt>720000</BOYAmt>
+        <EOYAmt>800000</EOYAmt>
+      </TotalAssetsGrp>
+      <TotalLiabilitiesGrp>
+        <BOYAmt>220000</BOYAmt>
+        <EOYAmt>200000</EOYAmt>
+      </TotalLiabilitiesGrp>
+      <NoDonorRestrictionNetAssetsGrp>
+        <EOYAmt>450000</EOYAmt>
+      </NoDonorRestrictionNetAssetsGrp>
+      <DonorRestrictionNetAssetsGrp>
+        <EOYAmt>150000</EOYAmt>
+      </DonorRestrictionNetAssetsGrp>
+      <TotalNetAssetsFundBalanceGrp>
+        <EOYAmt>600000</EOYAmt>
+      </TotalNetAssetsFundBalanceGrp>
     </IRS990>
+    <IRS990ScheduleA>
+      <PublicSupportTotal170Amt>1200000</PublicSupportTotal170Amt>
+      <TotalSupportAmt>1500000</TotalSupportAmt>
+      <PublicSupportCY170Pct>0.8000</PublicSupportCY170Pct>
+      <PublicSupportPY170Pct>0.7800</PublicSupportPY170Pct>
+      <ThirtyThrPctSuprtTestsCY170Ind>X</ThirtyThrPctSuprtTestsCY170Ind>
+    </IRS990ScheduleA>
+    <IRS990ScheduleI>
+      <RecipientTable>
+        <RecipientBusinessName>
+          <BusinessNameLine1Txt>NEIGHBORHOOD FOOD PANTRY</BusinessNameLine1Txt>
+        </RecipientBusinessName>
+        <USAddress>
+          <CityNm>OAKLAND</CityNm>
+          <StateAbbreviationCd>CA</StateAbbreviationCd>
+        </USAddress>
+        <RecipientEIN>123456789</RecipientEIN>
+        <IRCSectionDesc>501(c)(3)</IRCSectionDesc>
+        <CashGrantAmt>40000</CashGrantAmt>
+        <PurposeOfGrantTxt>GENERAL SUPPORT</PurposeOfGrantTxt>
+      </RecipientTable>
+      <RecipientTable>
+        <RecipientBusinessName>
+          <BusinessNameLine1Txt>YOUTH ARTS COLLECTIVE</BusinessNameLine1Txt>
+        </RecipientBusinessName>
+        <RecipientEIN>98-765432</RecipientEIN>
+        <CashGrantAmt>15000</CashGrantAmt>
+        <NonCashAssistanceAmt>5000</NonCashAssistanceAmt>
+        <PurposeOfGrantTxt>AFTER-SCHOOL PROGRAM</PurposeOfGrantTxt>
+      </RecipientTable>
+    </IRS990ScheduleI>
+  </ReturnData>
+</Return>`;
+}
+
+/** Minimal 990-EZ XML: Part I revenue/expenses, Part II balance sheet, Part III */
+export function makeMinimal990EzXml(): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<Return xmlns="http://www.irs.gov/efile" returnVersion="2021v4.2">
+  <ReturnData>
+    <IRS990EZ>
+      <ContributionsGiftsGrantsEtcAmt>38000</ContributionsGiftsGrantsEtcAmt>
+      <ProgramServiceRevenueAmt>6000</ProgramServiceRevenueAmt>
+      <MembershipDuesAmt>2500</MembershipDuesAmt>
+      <InvestmentIncomeAmt>500</InvestmentIncomeAmt>
+      <TotalRevenueAmt>48000</TotalRevenueAmt>
+      <TotalExpensesAmt>42000</TotalExpensesAmt>
+      <CashSavingsAndInvestmentsGrp>
+        <BOYAmt>15000</BOYAmt>
+        <EOYAmt>21000</EOYAmt>
+      </CashSavingsAndInvestmentsGrp>
+      <Form990TotalAssetsGrp>
+        <BOYAmt>18000</BOYAmt>
+        <EOYAmt>24000</EOYAmt>
+      </Form990TotalAssetsGrp>
+      <SumOfTotalLiabilitiesGrp>
+        <BOYAmt>2000</BOYAmt>
+        <EOYAmt>2000</EOYAmt>
+      </SumOfTotalLiabilitiesGrp>
+      <NetAssetsOrFundBalancesGrp>
+        <BOYAmt>16000</BOYAmt>
+        <EOYAmt>22000</EOYAmt>
+      </NetAssetsOrFundBalancesGrp>
+      <TotalProgramServiceExpensesAmt>35000</TotalProgramServiceExpensesAmt>
+    </IRS990EZ>
+  </ReturnData>
+</Return>`;
+}
+
+/** Minimal 990-PF XML: Part I analysis of revenue/expenses, Part II balance sheet */
+export function makeMinimal990PfXml(): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<Return xmlns="http://www.irs.gov/efile" returnVersion="2021v4.2">
+  <ReturnData>
+    <IRS990PF>
+      <AnalysisOfRevenueAndExpenses>
+        <ContriRcvdRevAndExpnssAmt>250000</ContriRcvdRevAndExpnssAmt>
+        <InterestOnSavRevAndExpnssAmt>4000</InterestOnSavRevAndExpnssAmt>
+        <DividendsRevAndExpnssAmt>36000</DividendsRevAndExpnssAmt>
+        <TotalRevAndExpnssAmt>300000</TotalRevAndExpnssAmt>
+        <TotalExpensesRevAndExpnssAmt>220000</TotalExpensesRevAndExpnssAmt>
+        <TotalExpensesDsbrsChrtblAmt>190000</TotalExpensesDsbrsChrtblAmt>
+      </AnalysisOfRevenueAndExpenses>
+      <Form990PFBalanceSheetsGrp>
+        <CashEOYAmt>30000</CashEOYAmt>
+        <SavAndTempCashInvstEOYAmt>70000</SavAndTempCashInvstEOYAmt>
+        <TotalAssetsBOYAmt>1900000</TotalAssetsBOYAmt>
+        <TotalAssetsEOYAmt>2000000</TotalAssetsEOYAmt>
+        <TotalLiabilitiesBOYAmt>0</TotalLiabilitiesBOYAmt>
+        <TotalLiabilitiesEOYAmt>50000</TotalLiabilitiesEOYAmt>
+        <TotNetAstOrFundBalancesEOYAmt>1950000</TotNetAstOrFundBalancesEOYAmt>
+      </Form990PFBalanceSheetsGrp>
+    </IRS990PF>
   </ReturnData>
 </Return>`;
 }
@@ -11,6 +11,8 @@ import {
   makeMatchedOfacResult,
   makePortfolioFitConfig,
   make990,
+  makeEpostcardSummary,
+  DEFAULT_THRESHOLDS,
 } from "./fixtures.js";
 
 // ============================================================================
@@ -145,23 +147,73 @@ describe("Gate 2: checkOfacSanctions", () => {
 // ============================================================================
 
 describe("Gate 3: checkFilingExists", () => {
+  const MAX_EPOSTCARD_AGE = DEFAULT_THRESHOLDS.filing990ReviewMax;
+
   it("passes when filings exist", () => {
     const profile = makeProfile({ filing_count: 5, latest_990: make990() });
-    const result = checkFilingExists(profile);
+    const result = checkFilingExists(profile, MAX_EPOSTCARD_AGE);
     expect(result.verdict).toBe("PASS");
     expect(result.detail).toContain("5 990 filing(s)");
   });
 
   it("fails when filing count is 0", () => {
     const profile = makeProfile({ filing_count: 0, latest_990: null });
-    const result = checkFilingExists(profile);
+    const result = checkFilingExists(profile, MAX_EPOSTCARD_AGE);
     expect(result.verdict).toBe("FAIL");
   });
 
   it("fails when latest_990 is null even with filing_count > 0", () => {
     const profile = makeProfile({ filing_count: 3, latest_990: null });
-    const result = checkFilingExists(profile);
+    const result = checkFilingExists(profile, MAX_EPOSTCARD_AGE);
+    expect(result.verdict).toBe("FAIL");
+  });
+
+  it("passes a 990-N filer with no XML return", () => {
+    const profile = makeProfile({
+      filing_count: 0,
+      latest_990: null,
+      latest_990n: makeEpostcardSummary({ tax_year: 2024 }),
+    });
+    const result = checkFilingExists(profile, MAX_EPOSTCARD_AGE);
+    expect(result.verdict).toBe("PASS");
+    expect(result.detail).toContain("990-N e-Postcard on record for tax year 2024");
+  });
+
+  it("fails a 990-N older than the recent-990 FAIL line", () => {
+    const now = new Date(2026, 5, 1).getTime();
+    const profile = makeProfile({
+      filing_count: 0,
+      latest_990: null,
+      latest_990n: makeEpostcardSummary({
+        tax_year: 2019,
+        tax_period_end: "2019-12",
+      }),
+    });
+    const result = checkFilingExists(profile, MAX_EPOSTCARD_AGE, now);
+    expect(result.verdict).toBe("FAIL");
+    expect(result.detail).toContain("tax year 2019");
+    expect(result.detail).toContain("too stale");
+
+    const recent = makeProfile({
+      filing_count: 0,
+      latest_990: null,
+      latest_990n: makeEpostcardSummary({
+        tax_year: 2024,
+        tax_period_end: "2024-12",
+      }),
+    });
+    expect(checkFilingExists(recent, MAX_EPOSTCARD_AGE, now).verdict).toBe("PASS");
+  });
+
+  it("fails when the latest 990-N reports termination", () => {
+    const profile = makeProfile({
+      filing_count: 0,
+      latest_990: null,
+      latest_990n: makeEpostcardSummary({ terminated: true }),
+    });
+    const result = checkFilingExists(profile, MAX_EPOSTCARD_AGE);
     expect(result.verdict).toBe("FAIL");
+    expect(result.detail).toContain("terminated");
   });
 });
 
@@ -182,6 +234,7 @@ describe("runPreScreenGates", () => {
       irsClient as any,
       ofacClient as any,
       defaultFitConfig,
+      DEFAULT_THRESHOLDS,
     );
     expect(result.all_passed).toBe(true);
     expect(result.gates).toHaveLength(4);
@@ -198,6 +251,7 @@ describe("runPreScreenGates", () => {
       irsClient as any,
       ofacClient as any,
       defaultFitConfig,
+      DEFAULT_THRESHOLDS,
     );
     expect(result.all_passed).toBe(false);
     expect(result.gates).toHaveLength(4);
@@ -218,6 +272,7 @@ describe("runPreScreenGates", () => {
       irsClient as any,
       ofacClient as any,
       defaultFitConfig,
+      DEFAULT_THRESHOLDS,
     );
     expect(result.all_passed).toBe(false);
     expect(result.gates).toHaveLength(4);
@@ -238,6 +293,7 @@ describe("runPreScreenGates", () => {
       irsClient as any,
       ofacClient as any,
       defaultFitConfig,
+      DEFAULT_THRESHOLDS,
     );
     expect(result.all_passed).toBe(false);
     expect(result.gates).toHaveLength(4);
@@ -254,6 +310,7 @@ describe("runPreScreenGates", () => {
       irsClient as any,
       ofacClient as any,
       defaultFitConfig,
+      DEFAULT_THRESHOLDS,
     );
     expect(result.all_passed).toBe(false);
     expect(result.gates).toHaveLength(4);
@@ -273,6 +330,7 @@ describe("runPreScreenGates", () => {
       irsClient as any,
       ofacClient as any,
       fitConfig,
+      DEFAULT_THRESHOLDS,
     );
     expect(result.all_passed).toBe(false);
     expect(result.gates).toHaveLength(4);
@@ -292,6 +350,7 @@ describe("runPreScreenGates", () => {
       irsClient as any,
       ofacClient as any,
       fitConfig,
+      DEFAULT_THRESHOLDS,
     );
     expect(result.gates).toHaveLength(4);
     expect(result.gates[0].verdict).toBe("PASS"); // 501c3
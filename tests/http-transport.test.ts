@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  startHttpTransport,
+  isAuthorized,
+  type HttpTransportHandle,
+} from "../src/server/http-transport.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+  getErrorMessage: (e: unknown) => (e instanceof Error ? e.message : String(e)),
+}));
+
+const TOKEN = "test-token-0123456789abcdef";
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+function makeServer(): Server {
+  const server = new Server(
+    { name: "test-server", version: "0.0.1" },
+    { capabilities: { tools: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: "ping", description: "test", inputSchema: { type: "object" } }],
+  }));
+  return server;
+}
+
+describe("isAuthorized", () => {
+  it("accepts a matching bearer token", () => {
+    expect(isAuthorized(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized(`bearer   ${TOKEN}`, TOKEN)).toBe(true);
+  });
+
+  it("rejects missing, malformed, or wrong tokens", () => {
+    expect(isAuthorized(undefined, TOKEN)).toBe(false);
+    expect(isAuthorized(TOKEN, TOKEN)).toBe(false);
+    expect(isAuthorized(`Basic ${TOKEN}`, TOKEN)).toBe(false);
+    expect(isAuthorized("Bearer short", TOKEN)).toBe(false);
+    expect(isAuthorized(`Bearer ${TOKEN.slice(0, -1)}X`, TOKEN)).toBe(false);
+  });
+});
+
+describe("startHttpTransport", () => {
+  let handle: HttpTransportHandle;
+  let baseUrl: string;
+  const createServer = vi.fn(() => makeServer());
+
+  beforeAll(async () => {
+    handle = await startHttpTransport({
+      host: "127.0.0.1",
+      port: 0,
+      authToken: TOKEN,
+      createServer,
+    });
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterAll(async () => {
+    await handle.close();
+  });
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${TOKEN}`,
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("serves /health without a token", async () => {
+    const res = await fetch(`${baseUrl}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(
+      expect.objectContaining({ status: "ok" }),
+    );
+  });
+
+  it("rejects requests without a valid bearer token", async () => {
+    const missing = await post(INITIALIZE, { Authorization: "" });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+
+    const wrong = await post(INITIALIZE, { Authorization: "Bearer nope" });
+    expect(wrong.status).toBe(401);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it("rejects non-initialize requests without a session", async () => {
+    const res = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects an unknown session ID", async () => {
+    const res = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "Mcp-Session-Id": "does-not-exist" },
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it("opens a session per client and routes follow-up requests to it", async () => {
+    const init = await post(INITIALIZE);
+    expect(init.status).toBe(200);
+    const sessionId = init.headers.get("mcp-session-id");
+    expect(sessionId).toBeTruthy();
+    await init.text();
+    expect(handle.sessionCount()).toBe(1);
+    expect(createServer).toHaveBeenCalledWith(sessionId);
+
+    const list = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "Mcp-Session-Id": sessionId!, "Mcp-Protocol-Version": "2025-03-26" },
+    );
+    expect(list.status).toBe(200);
+    expect(await list.text()).toContain('"name":"ping"');
+
+    const del = await fetch(`${baseUrl}/mcp`, {
+      method: "DELETE",
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        "Mcp-Session-Id": sessionId!,
+        "Mcp-Protocol-Version": "2025-03-26",
+      },
+    });
+    expect(del.status).toBe(200);
+    expect(handle.sessionCount()).toBe(0);
+  });
+
+  it("returns 404 for unknown paths", async () => {
+    const res = await fetch(`${baseUrl}/nope`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("startHttpTransport idle sessions", () => {
+  let handle: HttpTransportHandle;
+  let baseUrl: string;
+  const servers: Server[] = [];
+
+  beforeAll(async () => {
+    handle = await startHttpTransport({
+      host: "127.0.0.1",
+      port: 0,
+      authToken: TOKEN,
+      createServer: () => {
+        const server = makeServer();
+        servers.push(server);
+        return server;
+      },
+      sessionIdleMs: 100,
+    });
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterAll(async () => {
+    await handle.close();
+  });
+
+  it("closes a session the client abandoned without DELETE", async () => {
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${TOKEN}`,
+      },
+      body: JSON.stringify(INITIALIZE),
+    });
+    const sessionId = init.headers.get("mcp-session-id");
+    await init.text();
+    expect(handle.sessionCount()).toBe(1);
+
+    const onclose = vi.fn();
+    servers[0].onclose = onclose;
+
+    await vi.waitFor(() => expect(handle.sessionCount()).toBe(0), {
+      timeout: 2000,
+    });
+    expect(onclose).toHaveBeenCalled();
+
+    const list = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${TOKEN}`,
+        "Mcp-Session-Id": sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    expect(list.status).toBe(404);
+  });
+
+  it("keeps a session with an open notification stream", async () => {
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${TOKEN}`,
+      },
+      body: JSON.stringify(INITIALIZE),
+    });
+    const sessionId = init.headers.get("mcp-session-id");
+    await init.text();
+
+    const stream = await fetch(`${baseUrl}/mcp`, {
+      headers: {
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${TOKEN}`,
+        "Mcp-Session-Id": sessionId!,
+        "Mcp-Protocol-Version": "2025-03-26",
+      },
+    });
+    expect(stream.status).toBe(200);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(handle.sessionCount()).toBe(1);
+
+    await stream.body?.cancel();
+    await vi.waitFor(() => expect(handle.sessionCount()).toBe(0), {
+      timeout: 2000,
+    });
+  });
+});
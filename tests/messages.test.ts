@@ -63,9 +63,10 @@ describe("CHECK_MESSAGES", () => {
     "revenue_range",
     "spend_rate",
     "recent_990",
+    "operating_reserves",
   ];
 
-  it("has entries for all 4 checks", () => {
+  it("has entries for all 5 checks", () => {
     for (const check of expectedChecks) {
       expect(CHECK_MESSAGES[check]).toBeDefined();
     }
@@ -92,6 +93,7 @@ describe("RED_FLAG_FACTORS", () => {
     expect(RED_FLAG_FACTORS["very_low_revenue"]).toBeTypeOf("string");
     expect(RED_FLAG_FACTORS["court_records"]).toBeTypeOf("string");
     expect(RED_FLAG_FACTORS["high_officer_compensation"]).toBeTypeOf("string");
+    expect(RED_FLAG_FACTORS["public_support_failure"]).toBeTypeOf("string");
   });
 });
 
@@ -361,6 +363,74 @@ describe("generateSummary", () => {
     });
   });
 
+  // ---------- path_to_pass ----------
+
+  describe("path_to_pass", () => {
+    const counterfactual = (points_gained: number, detail: string) => ({
+      value: 0,
+      unit: "usd" as const,
+      bands: [],
+      sector_override: null,
+      points: 0,
+      max_points: 0,
+      counterfactual: { to: "PASS" as const, value: 0, change: 0, points_gained, detail },
+    });
+
+    it("is empty at PASS", () => {
+      const summary = generateSummary("Org", 92, "PASS", allPassChecks, [], 15, 75);
+      expect(summary.path_to_pass).toEqual([]);
+    });
+
+    it("lists the score gap, then counterfactuals by points gained", () => {
+      const checks = [
+        makeCheck({
+          name: "revenue_range",
+          result: "REVIEW",
+          explanation: counterfactual(7.5, "Revenue of $50K or more"),
+        }),
+        makeCheck({
+          name: "spend_rate",
+          result: "REVIEW",
+          explanation: counterfactual(15, "A spend rate of 60.0% or more"),
+        }),
+      ];
+      const summary = generateSummary("Org", 70, "REVIEW", checks, [], 5, 75);
+      expect(summary.path_to_pass).toEqual([
+        "Score 70/100 is 5 points short of PASS (75)",
+        "spend_rate: A spend rate of 60.0% or more",
+        "revenue_range: Revenue of $50K or more",
+      ]);
+    });
+
+    it("names red flags that hold the result regardless of score", () => {
+      const high = generateSummary(
+        "Org",
+        90,
+        "REJECT",
+        allPassChecks,
+        [makeRedFlag({ type: "stale_990", severity: "HIGH" })],
+        5,
+        75,
+      );
+      expect(high.path_to_pass).toEqual([
+        "HIGH red flags force REJECT regardless of score: stale_990",
+      ]);
+
+      const medium = generateSummary(
+        "Org",
+        90,
+        "REVIEW",
+        allPassChecks,
+        [makeRedFlag({ type: "too_new", severity: "MEDIUM" })],
+        0,
+        75,
+      );
+      expect(medium.path_to_pass).toEqual([
+        "MEDIUM red flags cap the result at REVIEW: too_new",
+      ]);
+    });
+  });
+
   // ---------- Edge cases ----------
 
   describe("edge cases", () => {
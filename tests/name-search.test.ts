@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  nameRelevance,
+  searchKey,
+  searchTokens,
+  trigrams,
+} from "../src/data-sources/name-search.js";
+
+describe("searchTokens", () => {
+  it("normalizes and canonicalizes abbreviations", () => {
+    expect(searchTokens("Saint Vincent de Paul Society, Inc.")).toEqual([
+      "st",
+      "vincent",
+      "de",
+      "paul",
+      "society",
+    ]);
+    expect(searchKey("The Mount Zion Centre")).toBe("mt zion center");
+  });
+
+  it("returns no tokens for names that normalize away", () => {
+    expect(searchTokens("The ...")).toEqual([]);
+    expect(searchKey("")).toBe("");
+  });
+});
+
+describe("trigrams", () => {
+  it("pads the token so short words have leading trigrams", () => {
+    expect(trigrams("paul")).toEqual(["  p", " pa", "pau", "aul", "ul "]);
+  });
+});
+
+describe("nameRelevance", () => {
+  it("scores an exact token match as 1", () => {
+    expect(nameRelevance(["st", "vincent"], "SAINT VINCENT")).toBe(1);
+  });
+
+  it("prefers names closer to the query", () => {
+    const tokens = searchTokens("Red Cross");
+    expect(nameRelevance(tokens, "RED CROSS")).toBeGreaterThan(
+      nameRelevance(tokens, "AMERICAN RED CROSS SOUTHEAST CHAPTER"),
+    );
+  });
+
+  it("gives partial credit for typos", () => {
+    const score = nameRelevance(
+      searchTokens("Habitat Humanaty"),
+      "HABITAT HUMANITY",
+    );
+    expect(score).toBeGreaterThan(0.9);
+    expect(score).toBeLessThan(1);
+  });
+
+  it("returns 0 for empty input", () => {
+    expect(nameRelevance([], "RED CROSS")).toBe(0);
+    expect(nameRelevance(["red"], "")).toBe(0);
+  });
+});
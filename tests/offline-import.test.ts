@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getToolDefinitions as getDataTools } from "../src/server/data-management-tools.js";
+import { getToolDefinitions as getDiscoveryTools } from "../src/server/discovery-tools.js";
+import type { ServerContext } from "../src/server/context.js";
+import type { ToolDefinition } from "../src/server/tool-registry.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logDebug: vi.fn(),
+  logInfo: vi.fn(),
+  logWarn: vi.fn(),
+  logError: vi.fn(),
+  getErrorMessage: (err: unknown) =>
+    err instanceof Error ? err.message : String(err),
+}));
+
+function parseResponse(result: { content: Array<{ text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+function findTool(name: string): ToolDefinition {
+  const tools = [...getDataTools(), ...getDiscoveryTools()];
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) throw new Error(`Tool ${name} not found`);
+  return tool;
+}
+
+describe("source_dir import root", () => {
+  let tmpDir: string;
+  let importRoot: string;
+  let refresh: ReturnType<typeof vi.fn>;
+  let buildIndex: ReturnType<typeof vi.fn>;
+
+  function makeCtx(offlineImportDir: string | undefined): ServerContext {
+    return {
+      config: { offlineImportDir } as ServerContext["config"],
+      dataStore: { refresh } as unknown as ServerContext["dataStore"],
+      discoveryIndex: {
+        buildIndex,
+      } as unknown as ServerContext["discoveryIndex"],
+      vettingStore: undefined,
+      discoveryReady: false,
+    } as unknown as ServerContext;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "offline-import-")),
+    );
+    importRoot = path.join(tmpDir, "imports");
+    fs.mkdirSync(path.join(importRoot, "2026-10"), { recursive: true });
+    fs.mkdirSync(path.join(tmpDir, "elsewhere"));
+
+    refresh = vi.fn().mockResolvedValue({
+      irs_refreshed: true,
+      ofac_refreshed: false,
+      epostcard_refreshed: false,
+    });
+    buildIndex = vi.fn().mockResolvedValue({
+      rowCount: 10,
+      duration: 5,
+      mode: "full",
+      changes: null,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe.each([
+    ["refresh_data", { source: "irs" }, /^Refresh failed: /],
+    ["refresh_discovery_index", {}, /^Index refresh failed: /],
+  ] as const)("%s", (name, baseArgs, errorPrefix) => {
+    const loader = () => (name === "refresh_data" ? refresh : buildIndex);
+    const loadedDir = () =>
+      name === "refresh_data"
+        ? loader().mock.calls[0][1]
+        : loader().mock.calls[0][0];
+
+    it("rejects source_dir when OFFLINE_IMPORT_DIR is unset", async () => {
+      const result = await findTool(name).handler(
+        { ...baseArgs, source_dir: importRoot },
+        makeCtx(undefined),
+      );
+      const parsed = parseResponse(result);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toMatch(errorPrefix);
+      expect(parsed.error).toMatch(/OFFLINE_IMPORT_DIR/);
+      expect(loader()).not.toHaveBeenCalled();
+    });
+
+    it("still downloads without source_dir when OFFLINE_IMPORT_DIR is unset", async () => {
+      const result = await findTool(name).handler(
+        { ...baseArgs },
+        makeCtx(undefined),
+      );
+
+      expect(parseResponse(result).success).toBe(true);
+      expect(loadedDir()).toBeUndefined();
+    });
+
+    it("resolves a relative source_dir from the import root", async () => {
+      const result = await findTool(name).handler(
+        { ...baseArgs, source_dir: "2026-10" },
+        makeCtx(importRoot),
+      );
+
+      expect(parseResponse(result).success).toBe(true);
+      expect(loadedDir()).toBe(path.join(importRoot, "2026-10"));
+    });
+
+    it("accepts the import root itself", async () => {
+      const result = await findTool(name).handler(
+        { ...baseArgs, source_dir: importRoot },
+        makeCtx(importRoot),
+      );
+
+      expect(parseResponse(result).success).toBe(true);
+      expect(loadedDir()).toBe(importRoot);
+    });
+
+    it.each([
+      ["a parent path", () => "../elsewhere"],
+      [
+        "an absolute path outside the root",
+        () => path.join(tmpDir, "elsewhere"),
+      ],
+      [
+        "a sibling sharing the root's prefix",
+        () => {
+          fs.mkdirSync(`${importRoot}-old`);
+          return `${importRoot}-old`;
+        },
+      ],
+      [
+        "a symlink leading outside the root",
+        () => {
+          fs.symlinkSync(
+            path.join(tmpDir, "elsewhere"),
+            path.join(importRoot, "link"),
+          );
+          return "link";
+        },
+      ],
+    ])("rejects %s", async (_label, makeSourceDir) => {
+      const result = await findTool(name).handler(
+        { ...baseArgs, source_dir: makeSourceDir() },
+        makeCtx(importRoot),
+      );
+      const parsed = parseResponse(result);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toMatch(errorPrefix);
+      expect(parsed.error).toMatch(/must be inside OFFLINE_IMPORT_DIR/);
+      expect(loader()).not.toHaveBeenCalled();
+    });
+
+    it("reports a missing source_dir", async () => {
+      const result = await findTool(name).handler(
+        { ...baseArgs, source_dir: "2026-11" },
+        makeCtx(importRoot),
+      );
+      const parsed = parseResponse(result);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toMatch(/source_dir not found: 2026-11/);
+      expect(loader()).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
+import { VettingStore } from "../src/data-sources/vetting-store.js";
+import type { DiscoveryIndex } from "../src/data-sources/discovery-index.js";
+import type { IrsRevocationClient } from "../src/domain/red-flags/irs-revocation-client.js";
+import type { OfacSdnClient } from "../src/domain/red-flags/ofac-sdn-client.js";
+import type { ScreeningResult } from "../src/domain/nonprofit/types.js";
+import { sweepVettedPortfolio } from "../src/domain/nonprofit/portfolio-sweep.js";
+import {
+  makeScreeningResult,
+  makeMockIrsClient,
+  makeMockOfacClient,
+  makeRevokedIrsResult,
+  makeMatchedOfacResult,
+} from "./fixtures.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+}));
+
+const EIN = "953135649";
+
+function gatesResult(opts: { revoked?: boolean; sanctioned?: boolean }): Partial<ScreeningResult> {
+  return {
+    gates: {
+      all_passed: !opts.revoked && !opts.sanctioned,
+      gates: [
+        {
+          gate: "verified_501c3",
+          verdict: opts.revoked ? "FAIL" : "PASS",
+          detail: "",
+          sub_checks: [
+            { label: "IRS revocation check", passed: !opts.revoked, detail: "" },
+          ],
+        },
+        { gate: "ofac_sanctions", verdict: opts.sanctioned ? "FAIL" : "PASS", detail: "" },
+      ],
+    },
+  };
+}
+
+describe("sweepVettedPortfolio", () => {
+  let tmpDir: string;
+  let vettingStore: VettingStore;
+  let irsClient: ReturnType<typeof makeMockIrsClient>;
+  let ofacClient: ReturnType<typeof makeMockOfacClient>;
+  let discoveryIndex: { getByEins: ReturnType<typeof vi.fn> };
+
+  beforeAll(async () => {
+    await ensureSqlJs();
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "portfolio-sweep-test-"));
+    vettingStore = new VettingStore(tmpDir);
+    vettingStore.initialize();
+    irsClient = makeMockIrsClient();
+    ofacClient = makeMockOfacClient();
+    discoveryIndex = {
+      getByEins: vi.fn().mockReturnValue(
+        new Map([
+          [
+            EIN,
+            {
+              ein: EIN,
+              name: "Test Nonprofit",
+              city: "Los Angeles",
+              state: "CA",
+              ntee_code: "P20",
+              subsection: 3,
+              ruling_date: "199001",
+            },
+          ],
+        ]),
+      ),
+    };
+  });
+
+  afterEach(() => {
+    vettingStore.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function sweep(sources = { irs: true, ofac: true }) {
+    return sweepVettedPortfolio(
+      {
+        vettingStore,
+        discoveryIndex: discoveryIndex as unknown as DiscoveryIndex,
+        irsClient: irsClient as unknown as IrsRevocationClient,
+        ofacClient: ofacClient as unknown as OfacSdnClient,
+      },
+      sources,
+    );
+  }
+
+  it("reports nothing for a clean portfolio", () => {
+    vettingStore.saveResult(makeScreeningResult(gatesResult({})));
+
+    const result = sweep();
+    expect(result).toMatchObject({
+      checked: 1,
+      newly_revoked: [],
+      newly_sanctioned: [],
+      new_ofac_near_matches: [],
+    });
+  });
+
+  it("reports an org revoked since its latest screening", () => {
+    vettingStore.saveResult(makeScreeningResult(gatesResult({})));
+    irsClient.check.mockReturnValue(makeRevokedIrsResult());
+
+    const result = sweep({ irs: true, ofac: false });
+    expect(result.newly_revoked).toEqual([
+      {
+        ein: "95-3135649",
+        name: "Test Nonprofit",
+        last_recommendation: "PASS",
+        last_vetted_at: expect.any(String),
+        detail: makeRevokedIrsResult().detail,
+      },
+    ]);
+    expect(ofacClient.check).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the revocation list when the BMF record is missing", () => {
+    vettingStore.saveResult(makeScreeningResult({ ...gatesResult({}), ein: "111111111" }));
+    irsClient.check.mockReturnValue(makeRevokedIrsResult());
+
+    expect(sweep().newly_revoked.map((h) => h.ein)).toEqual(["11-1111111"]);
+    expect(irsClient.check).toHaveBeenCalledWith("111111111");
+  });
+
+  it("does not re-report an org already revoked at its last screening", () => {
+    vettingStore.saveResult(makeScreeningResult(gatesResult({ revoked: true })));
+    irsClient.check.mockReturnValue(makeRevokedIrsResult());
+
+    expect(sweep().newly_revoked).toEqual([]);
+  });
+
+  it("checks only the latest screening per EIN", () => {
+    vettingStore.saveResult(makeScreeningResult(gatesResult({})));
+    vettingStore.saveResult(makeScreeningResult(gatesResult({ revoked: true })));
+    irsClient.check.mockReturnValue(makeRevokedIrsResult());
+
+    const result = sweep();
+    expect(result.checked).toBe(1);
+    expect(result.newly_revoked).toEqual([]);
+  });
+
+  it("reports new Entity-type OFAC matches and skips fuzzy for them", () => {
+    vettingStore.saveResult(makeScreeningResult(gatesResult({})));
+    ofacClient.check.mockReturnValue(makeMatchedOfacResult());
+
+    const result = sweep({ irs: false, ofac: true });
+    expect(result.newly_sanctioned).toHaveLength(1);
+    expect(result.newly_sanctioned[0].detail).toMatch(/OFAC SDN MATCH/);
+    expect(ofacClient.fuzzyCheck).not.toHaveBeenCalled();
+    expect(irsClient.check).not.toHaveBeenCalled();
+  });
+
+  it("reports new OFAC near-matches unless already flagged", () => {
+    vettingStore.saveResult(makeScreeningResult(gatesResult({})));
+    vettingStore.saveResult(
+      makeScreeningResult({
+        ...gatesResult({}),
+        ein: "111111111",
+        red_flags: [{ severity: "MEDIUM", type: "ofac_near_match", detail: "known" }],
+      }),
+    );
+    ofacClient.fuzzyCheck.mockReturnValue({
+      found: true,
+      detail: "",
+      matches: [{ name: "TEST NONPROFIT FRONT", similarity: 0.91 }],
+    });
+
+    const result = sweep({ irs: false, ofac: true });
+    expect(result.new_ofac_near_matches).toHaveLength(1);
+    expect(result.new_ofac_near_matches[0]).toMatchObject({
+      ein: "95-3135649",
+      detail: 'Possible OFAC near-match: "TEST NONPROFIT FRONT" (91.0% similar)',
+    });
+  });
+
+  it("keeps checking revocations when the discovery index is unavailable", () => {
+    vettingStore.saveResult(makeScreeningResult(gatesResult({})));
+    discoveryIndex.getByEins.mockImplementation(() => {
+      throw new Error("DiscoveryIndex not initialized");
+    });
+    irsClient.check.mockReturnValue(makeRevokedIrsResult());
+
+    expect(sweep().newly_revoked).toHaveLength(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  PROMPT_DEFINITIONS,
+  getPrompt,
+  listPrompts,
+  registerPromptHandlers,
+} from "../src/server/prompts.js";
+
+function promptText(result: ReturnType<typeof getPrompt>): string {
+  const content = result.messages[0].content;
+  return content.type === "text" ? content.text : "";
+}
+
+describe("listPrompts", () => {
+  it("lists every prompt with its version and arguments", () => {
+    const prompts = listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual([
+      "vet_local_orgs",
+      "due_diligence_memo",
+      "compare_nonprofits",
+    ]);
+    for (const p of prompts) {
+      expect(p._meta?.version).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(p.description).toContain(`(v${p._meta?.version})`);
+    }
+  });
+
+  it("uses unique prompt names", () => {
+    const names = PROMPT_DEFINITIONS.map((p) => p.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe("getPrompt", () => {
+  it("vet_local_orgs pre-composes the discover → screen → red flag sequence", () => {
+    const text = promptText(
+      getPrompt("vet_local_orgs", { city: "Oakland", state: "ca", ntee_category: "b" }),
+    );
+    expect(text).toContain(
+      'discover_nonprofits with {"city":"Oakland","state":"CA","ntee_categories":["B"],"limit":10}',
+    );
+    expect(text).toContain("screen_nonprofit");
+    expect(text).toContain("get_red_flags");
+  });
+
+  it("vet_local_orgs clamps limit and omits the NTEE filter when not given", () => {
+    const text = promptText(
+      getPrompt("vet_local_orgs", { city: "Fresno", state: "CA", limit: "500" }),
+    );
+    expect(text).toContain('{"city":"Fresno","state":"CA","limit":25}');
+    expect(text).not.toContain("ntee_categories");
+  });
+
+  it("due_diligence_memo embeds the EIN and optional funder context", () => {
+    const withContext = promptText(
+      getPrompt("due_diligence_memo", { ein: "95-3135649", funder_context: "$25k general support" }),
+    );
+    expect(withContext).toContain('screen_nonprofit with {"ein": "95-3135649"}');
+    expect(withContext).toContain("Funder context: $25k general support");
+
+    const without = promptText(getPrompt("due_diligence_memo", { ein: "953135649" }));
+    expect(without).not.toContain("Funder context");
+  });
+
+  it("compare_nonprofits names both EINs", () => {
+    const result = getPrompt("compare_nonprofits", { ein_a: "953135649", ein_b: "131624100" });
+    expect(promptText(result)).toContain("953135649 and 131624100");
+    expect(result._meta?.version).toBe("1.0.0");
+  });
+
+  it("rejects unknown prompts, missing required args, and malformed EINs", () => {
+    expect(() => getPrompt("nope", {})).toThrow(/Unknown prompt/);
+    expect(() => getPrompt("vet_local_orgs", { city: "Oakland" })).toThrow(
+      /requires argument: state/,
+    );
+    expect(() => getPrompt("due_diligence_memo", { ein: "   " })).toThrow(
+      /requires argument: ein/,
+    );
+    expect(() => getPrompt("compare_nonprofits", { ein_a: "953135649", ein_b: "12345" })).toThrow(
+      /Invalid ein_b/,
+    );
+  });
+});
+
+describe("registerPromptHandlers", () => {
+  it("serves prompts/list and prompts/get over MCP", async () => {
+    const server = new Server(
+      { name: "test-server", version: "0.0.1" },
+      { capabilities: { prompts: {} } },
+    );
+    registerPromptHandlers(server);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts).toHaveLength(3);
+
+    const result = await client.getPrompt({
+      name: "due_diligence_memo",
+      arguments: { ein: "953135649" },
+    });
+    expect(result.messages[0].role).toBe("user");
+
+    await expect(client.getPrompt({ name: "nope" })).rejects.toThrow(/Unknown prompt/);
+    await client.close();
+  });
+});
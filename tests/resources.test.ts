@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
+import { VettingStore } from "../src/data-sources/vetting-store.js";
+import { Xml990Store } from "../src/data-sources/xml-990-store.js";
+import type { ServerContext } from "../src/server/context.js";
+import {
+  ResourceSubscriptions,
+  listResources,
+  parseResourceUri,
+  readResource,
+  registerResourceHandlers,
+} from "../src/server/resources.js";
+import {
+  makeGtFilingEntry,
+  makeScreeningResult,
+  makeXml990ExtractedData,
+} from "./fixtures.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+  getErrorMessage: (e: unknown) => (e instanceof Error ? e.message : String(e)),
+}));
+
+const ORG = {
+  ein: "953135649",
+  name: "Test Nonprofit",
+  city: "Los Angeles",
+  state: "CA",
+  ntee_code: "P20",
+  subsection: "03",
+  ruling_date: "199001",
+};
+
+describe("parseResourceUri", () => {
+  it("recognizes each template and normalizes hyphenated EINs", () => {
+    expect(parseResourceUri("vetting://results/95-3135649")).toEqual({
+      kind: "result",
+      ein: "953135649",
+    });
+    expect(parseResourceUri("vetting://results/953135649/history")).toEqual({
+      kind: "history",
+      ein: "953135649",
+    });
+    expect(parseResourceUri("discovery://org/953135649")).toEqual({
+      kind: "org",
+      ein: "953135649",
+    });
+    expect(parseResourceUri("xml990://131624100/2022")).toEqual({
+      kind: "xml990",
+      ein: "131624100",
+      taxYear: 2022,
+    });
+  });
+
+  it("rejects unknown schemes and malformed EINs", () => {
+    expect(parseResourceUri("vetting://results/12345")).toBeNull();
+    expect(parseResourceUri("xml990://131624100/latest")).toBeNull();
+    expect(parseResourceUri("https://example.org/953135649")).toBeNull();
+  });
+});
+
+describe("resources", () => {
+  let tmpDir: string;
+  let vettingStore: VettingStore;
+  let xml990Store: Xml990Store;
+  let ctx: ServerContext;
+
+  beforeAll(async () => {
+    await ensureSqlJs();
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "resources-test-"));
+    vettingStore = new VettingStore(tmpDir);
+    vettingStore.initialize();
+    xml990Store = new Xml990Store(tmpDir);
+    xml990Store.initialize();
+    ctx = {
+      vettingStore,
+      xml990Store,
+      discoveryIndex: {
+        getByEin: (ein: string) => (ein === ORG.ein ? ORG : null),
+      },
+    } as unknown as ServerContext;
+  });
+
+  afterEach(() => {
+    vettingStore.close();
+    xml990Store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("lists the latest screening once per vetted EIN", () => {
+    vettingStore.saveResult(makeScreeningResult({ score: 70 }));
+    vettingStore.saveResult(makeScreeningResult({ score: 85 }));
+    vettingStore.saveResult(makeScreeningResult({ ein: "111111111", name: "Other Org" }));
+
+    const resources = listResources(ctx);
+    expect(resources.map((r) => r.uri)).toEqual([
+      "vetting://results/111111111",
+      "vetting://results/953135649",
+    ]);
+    expect(resources[1].description).toContain("score 85");
+  });
+
+  it("lists nothing when persistence is disabled", () => {
+    expect(listResources({ ...ctx, vettingStore: undefined })).toEqual([]);
+  });
+
+  it("reads the latest result with the full screening payload", () => {
+    vettingStore.saveResult(makeScreeningResult({ recommendation: "REVIEW" }));
+
+    const read = readResource("vetting://results/953135649", ctx);
+    const body = JSON.parse(read.contents[0].text as string);
+    expect(read.contents[0].mimeType).toBe("application/json");
+    expect(body.recommendation).toBe("REVIEW");
+    expect(body.result.ein).toBe("95-3135649");
+    expect(body).not.toHaveProperty("result_json");
+  });
+
+  it("reads history newest first without result payloads", () => {
+    vettingStore.saveResult(makeScreeningResult({ recommendation: "PASS" }));
+    vettingStore.saveResult(makeScreeningResult({ recommendation: "REJECT", passed: false }));
+
+    const body = JSON.parse(
+      readResource("vetting://results/953135649/history", ctx).contents[0].text as string,
+    );
+    expect(body.screenings.map((s: { recommendation: string }) => s.recommendation)).toEqual([
+      "REJECT",
+      "PASS",
+    ]);
+    expect(body.screenings[0]).not.toHaveProperty("result_json");
+  });
+
+  it("reads discovery and XML 990 resources", () => {
+    xml990Store.saveMetadata(makeGtFilingEntry({ ObjectId: "obj_2022", TaxYear: "2022" }));
+    xml990Store.saveExtract(makeXml990ExtractedData({ objectId: "obj_2022", taxYear: 2022 }));
+
+    const org = JSON.parse(readResource("discovery://org/953135649", ctx).contents[0].text as string);
+    expect(org.ntee_code).toBe("P20");
+
+    const extract = JSON.parse(readResource("xml990://131624100/2022", ctx).contents[0].text as string);
+    expect(extract.objectId).toBe("obj_2022");
+  });
+
+  it("throws resource-not-found for unknown URIs and missing records", () => {
+    expect(() => readResource("vetting://results/953135649", ctx)).toThrow(/Resource not found/);
+    expect(() => readResource("xml990://131624100/2001", ctx)).toThrow(/Resource not found/);
+    expect(() => readResource("bogus://x", ctx)).toThrow(/Unknown resource URI/);
+  });
+
+  describe("subscriptions over MCP", () => {
+    async function connect(subscriptions: ResourceSubscriptions) {
+      const server = new Server(
+        { name: "test-server", version: "0.0.1" },
+        { capabilities: { resources: { subscribe: true, listChanged: true } } },
+      );
+      registerResourceHandlers(server, ctx, subscriptions);
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([
+        server.connect(serverTransport),
+        client.connect(clientTransport),
+      ]);
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (n) => {
+        updated.push(n.params.uri);
+      });
+      return { server, client, updated };
+    }
+
+    it("notifies every subscribed session when a re-screen saves a row", async () => {
+      const subscriptions = new ResourceSubscriptions(vettingStore);
+      const a = await connect(subscriptions);
+      const b = await connect(subscriptions);
+
+      await a.client.subscribeResource({ uri: "vetting://results/953135649" });
+      await b.client.subscribeResource({ uri: "vetting://results/953135649/history" });
+      expect(subscriptions.subscriberCount("vetting://results/953135649")).toBe(1);
+
+      vettingStore.saveResult(makeScreeningResult());
+      vettingStore.saveResult(makeScreeningResult({ ein: "111111111" }));
+      await vi.waitFor(() => {
+        expect(a.updated).toEqual(["vetting://results/953135649"]);
+        expect(b.updated).toEqual(["vetting://results/953135649/history"]);
+      });
+
+      await a.client.unsubscribeResource({ uri: "vetting://results/953135649" });
+      expect(subscriptions.subscriberCount("vetting://results/953135649")).toBe(0);
+
+      await a.client.close();
+      await b.client.close();
+      subscriptions.close();
+    });
+
+    it("notifies a subscription made with a hyphenated EIN", async () => {
+      const subscriptions = new ResourceSubscriptions(vettingStore);
+      const { client, updated } = await connect(subscriptions);
+
+      await client.subscribeResource({ uri: "vetting://results/95-3135649" });
+      expect(subscriptions.subscriberCount("vetting://results/953135649")).toBe(1);
+
+      vettingStore.saveResult(makeScreeningResult());
+      await vi.waitFor(() =>
+        expect(updated).toEqual(["vetting://results/953135649"]),
+      );
+
+      await client.unsubscribeResource({ uri: "vetting://results/95-3135649" });
+      expect(subscriptions.subscriberCount("vetting://results/953135649")).toBe(0);
+
+      await client.close();
+      subscriptions.close();
+    });
+
+    it("forgets a session's subscriptions when it disconnects", async () => {
+      const subscriptions = new ResourceSubscriptions(vettingStore);
+      const { client } = await connect(subscriptions);
+      await client.subscribeResource({ uri: "vetting://results/953135649" });
+
+      await client.close();
+      await vi.waitFor(() =>
+        expect(subscriptions.subscriberCount("vetting://results/953135649")).toBe(0),
+      );
+      subscriptions.close();
+    });
+
+    it("rejects subscriptions to unknown URIs", async () => {
+      const subscriptions = new ResourceSubscriptions(vettingStore);
+      const { client } = await connect(subscriptions);
+
+      await expect(client.subscribeResource({ uri: "bogus://x" })).rejects.toThrow(
+        /Unknown resource URI/,
+      );
+      await client.close();
+      subscriptions.close();
+    });
+
+    it("rejects subscriptions to resources that never change", async () => {
+      const subscriptions = new ResourceSubscriptions(vettingStore);
+      const { client } = await connect(subscriptions);
+
+      for (const uri of ["discovery://org/953135649", "xml990://953135649/2023"]) {
+        await expect(client.subscribeResource({ uri })).rejects.toThrow(
+          /does not support subscriptions/,
+        );
+      }
+      await client.close();
+      subscriptions.close();
+    });
+  });
+});
@@ -4,11 +4,15 @@ import {
   checkRevenueRange,
   checkSpendRate,
   checkRecent990,
+  checkOperatingReserves,
+  calculateReserveMonths,
   calculateScore,
   getRecommendation,
   detectRedFlags,
   runFullScreening,
   runRedFlagCheck,
+  assessGovernance,
+  hasIndependentMajority,
 } from "../src/domain/nonprofit/scoring.js";
 import {
   resolveThresholds,
@@ -17,8 +21,11 @@ import {
 import { validateThresholds } from "../src/core/config.js";
 import {
   DEFAULT_THRESHOLDS,
+  makeThresholds,
+  makeGovernanceSummary,
   makeProfile,
   make990,
+  makeEpostcardSummary,
   makeFiling,
   taxPrdOffset,
   makeMockIrsClient,
@@ -114,6 +121,15 @@ describe("checkRevenueRange", () => {
     expect(result.detail).toContain("No revenue data");
   });
 
+  it("reviews missing revenue for an active 990-N filer", () => {
+    const result = checkRevenueRange(
+      makeProfile({ latest_990: null, latest_990n: makeEpostcardSummary() }),
+      t,
+    );
+    expect(result.result).toBe("REVIEW");
+    expect(result.detail).toContain("990-N");
+  });
+
   it("fails for undefined revenue (no 990)", () => {
     const result = checkRevenueRange(makeProfile({ latest_990: null }), t);
     expect(result.result).toBe("FAIL");
@@ -220,6 +236,307 @@ describe("checkRecent990", () => {
     expect(result.detail).not.toContain("NaN");
     expect(result.detail).toContain("could not be parsed");
   });
+
+  it("passes on a recent 990-N when there is no full return", () => {
+    const result = checkRecent990(
+      makeProfile({
+        latest_990: null,
+        filing_count: 0,
+        latest_990n: makeEpostcardSummary(),
+      }),
+      t,
+    );
+    expect(result.result).toBe("PASS");
+    expect(result.detail).toContain("(990N)");
+  });
+
+  it("prefers a 990-N newer than a stale full return", () => {
+    const result = checkRecent990(
+      makeProfile({
+        latest_990: make990({ tax_period: "2015-06" }),
+        latest_990n: makeEpostcardSummary(),
+      }),
+      t,
+    );
+    expect(result.result).toBe("PASS");
+  });
+
+  it("ignores a 990-N that reports termination", () => {
+    const result = checkRecent990(
+      makeProfile({
+        latest_990: null,
+        filing_count: 0,
+        latest_990n: makeEpostcardSummary({ terminated: true }),
+      }),
+      t,
+    );
+    expect(result.result).toBe("FAIL");
+  });
+});
+
+// ============================================================================
+// checkOperatingReserves
+// ============================================================================
+
+describe("checkOperatingReserves", () => {
+  it("passes with 6 months of reserves", () => {
+    const result = checkOperatingReserves(makeProfile(), t);
+    expect(result.result).toBe("PASS");
+    expect(result.weight).toBe(t.weightOperatingReserves);
+    expect(result.detail).toContain("6.0 months");
+  });
+
+  it("reviews a thin cushion between review and pass bands", () => {
+    const profile = makeProfile({
+      latest_990: make990({ cash_and_equivalents: 60_000 }), // 1.8 months
+    });
+    const result = checkOperatingReserves(profile, t);
+    expect(result.result).toBe("REVIEW");
+    expect(result.detail).toContain("thin cushion");
+  });
+
+  it("fails with under one month of reserves", () => {
+    const profile = makeProfile({
+      latest_990: make990({ cash_and_equivalents: 20_000 }), // 0.6 months
+    });
+    const result = checkOperatingReserves(profile, t);
+    expect(result.result).toBe("FAIL");
+  });
+
+  it("caps reserves at unrestricted net assets", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        cash_and_equivalents: 400_000,
+        unrestricted_net_assets: 25_000,
+      }),
+    });
+    expect(calculateReserveMonths(profile)).toBeCloseTo(0.75);
+    expect(checkOperatingReserves(profile, t).result).toBe("FAIL");
+  });
+
+  it("fails when unrestricted net assets are negative", () => {
+    const profile = makeProfile({
+      latest_990: make990({ unrestricted_net_assets: -50_000 }),
+    });
+    expect(checkOperatingReserves(profile, t).result).toBe("FAIL");
+  });
+
+  it("reviews when balance sheet data is unavailable", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        cash_and_equivalents: undefined,
+        unrestricted_net_assets: undefined,
+      }),
+    });
+    const result = checkOperatingReserves(profile, t);
+    expect(result.result).toBe("REVIEW");
+    expect(result.detail).toContain("unavailable");
+  });
+
+  it("reviews when expenses are zero", () => {
+    const profile = makeProfile({
+      latest_990: make990({ total_expenses: 0 }),
+    });
+    expect(calculateReserveMonths(profile)).toBeNull();
+    expect(checkOperatingReserves(profile, t).result).toBe("REVIEW");
+  });
+});
+
+// ============================================================================
+// Check explanations
+// ============================================================================
+
+describe("check explanations", () => {
+  it("explains a REVIEW revenue check with bands, points and the step to PASS", () => {
+    const { explanation } = checkRevenueRange(
+      makeProfile({ latest_990: make990({ total_revenue: 35_000 }) }),
+      t,
+    );
+    expect(explanation).toEqual({
+      value: 35_000,
+      unit: "usd",
+      bands: [
+        { result: "FAIL", min: null, max: t.revenueFailMin },
+        { result: "REVIEW", min: t.revenueFailMin, max: t.revenuePassMin },
+        { result: "PASS", min: t.revenuePassMin, max: t.revenuePassMax },
+        { result: "REVIEW", min: t.revenuePassMax, max: t.revenueReviewMax },
+        { result: "FAIL", min: t.revenueReviewMax, max: null },
+      ],
+      sector_override: null,
+      points: t.weightRevenueRange / 2,
+      max_points: t.weightRevenueRange,
+      counterfactual: {
+        to: "PASS",
+        value: 50_000,
+        change: 15_000,
+        points_gained: t.weightRevenueRange / 2,
+        detail: `Revenue of $50K or more (+$15K) would move this check to PASS (+${t.weightRevenueRange / 2} pts)`,
+      },
+    });
+  });
+
+  it("points an oversized org at the upper PASS bound", () => {
+    const { explanation } = checkRevenueRange(
+      makeProfile({ latest_990: make990({ total_revenue: 30_000_000 }) }),
+      t,
+    );
+    expect(explanation?.counterfactual).toMatchObject({
+      to: "PASS",
+      value: t.revenuePassMax,
+      change: t.revenuePassMax - 30_000_000,
+    });
+    expect(explanation?.counterfactual?.detail).toMatch(/^Revenue of \$10\.0M or less/);
+  });
+
+  it("reports the sector override the bands came from", () => {
+    const sectorT = resolveThresholds(t, "K31");
+    const { result, explanation } = checkRevenueRange(
+      makeProfile({ ntee_code: "K31", latest_990: make990({ total_revenue: 20_000 }) }),
+      sectorT,
+    );
+    expect(result).toBe("REVIEW");
+    expect(explanation?.sector_override).toEqual({
+      sector: "K",
+      thresholds: { revenueFailMin: 10_000, revenuePassMin: 25_000 },
+    });
+    expect(explanation?.counterfactual?.value).toBe(25_000);
+    // Unrelated checks carry no sector override
+    expect(checkYearsOperating(makeProfile(), sectorT).explanation?.sector_override).toBeNull();
+  });
+
+  it("steps a FAIL one band up, to REVIEW", () => {
+    const { explanation } = checkYearsOperating(makeProfile({ years_operating: 0 }), t);
+    expect(explanation?.counterfactual).toMatchObject({
+      to: "REVIEW",
+      value: t.yearsReviewMin,
+      points_gained: t.weightYearsOperating / 2,
+    });
+  });
+
+  it("has no counterfactual at PASS or when the input is missing", () => {
+    const pass = checkSpendRate(makeProfile(), t).explanation;
+    expect(pass).toMatchObject({ points: t.weightSpendRate, counterfactual: null });
+
+    const missing = checkSpendRate(
+      makeProfile({ latest_990: make990({ overhead_ratio: null }) }),
+      t,
+    ).explanation;
+    expect(missing).toMatchObject({ value: null, counterfactual: null });
+  });
+
+  it("measures filing age against the given clock", () => {
+    const profile = makeProfile({ latest_990: make990({ tax_period: "2020-06" }) });
+    const { result, explanation } = checkRecent990(
+      profile,
+      t,
+      new Date(2024, 2, 1).getTime(),
+    );
+    expect(result).toBe("REVIEW");
+    expect(explanation).toMatchObject({
+      value: 3.75,
+      unit: "years",
+      counterfactual: { to: "PASS", value: t.filing990PassMax, change: -0.75 },
+    });
+  });
+
+  it("prices missing reserves in dollars of unrestricted cash", () => {
+    const profile = makeProfile({
+      latest_990: make990({ cash_and_equivalents: 60_000 }), // 1.8 months of 400K/yr
+    });
+    expect(checkOperatingReserves(profile, t).explanation?.counterfactual?.detail).toBe(
+      `3.0 months of reserves (about $40K more unrestricted cash) would move this check to PASS (+${t.weightOperatingReserves / 2} pts)`,
+    );
+  });
+});
+
+// ============================================================================
+// assessGovernance
+// ============================================================================
+
+describe("hasIndependentMajority", () => {
+  it.each([
+    [12, 10, true],
+    [5, 3, true],
+    [6, 3, false],
+    [4, 1, false],
+    [0, 0, null],
+    [null, 3, null],
+  ])("voting=%s independent=%s → %s", (voting, independent, expected) => {
+    expect(
+      hasIndependentMajority(
+        makeGovernanceSummary({
+          voting_members: voting,
+          independent_members: independent,
+        }),
+      ),
+    ).toBe(expected);
+  });
+});
+
+describe("assessGovernance", () => {
+  it("returns null when Part VI was not reported", () => {
+    expect(assessGovernance(makeProfile())).toBeNull();
+    expect(assessGovernance(makeProfile({ latest_990: null }))).toBeNull();
+  });
+
+  it("scores 100 when every practice is in place", () => {
+    const profile = makeProfile({
+      latest_990: make990({ governance: makeGovernanceSummary() }),
+    });
+    const result = assessGovernance(profile)!;
+    expect(result.score).toBe(100);
+    expect(result.practices).toHaveLength(6);
+    expect(result.practices.reduce((sum, p) => sum + p.weight, 0)).toBe(100);
+  });
+
+  it("deducts the weight of missing policies", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({
+          conflict_of_interest_policy: false,
+          family_or_business_relationship: true,
+        }),
+      }),
+    });
+    // Loses conflict of interest (25) and family/business (10)
+    expect(assessGovernance(profile)!.score).toBe(65);
+  });
+
+  it("excludes unanswered questions from the denominator", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({
+          whistleblower_policy: null,
+          document_retention_policy: false,
+        }),
+      }),
+    });
+    const result = assessGovernance(profile)!;
+    // Earned 75 of 85 answered points
+    expect(result.score).toBe(88);
+    expect(
+      result.practices.find((p) => p.name === "whistleblower_policy"),
+    ).toEqual(
+      expect.objectContaining({ in_place: null, detail: "Not reported" }),
+    );
+  });
+
+  it("returns a null score when nothing was answered", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({
+          voting_members: null,
+          independent_members: null,
+          family_or_business_relationship: null,
+          conflict_of_interest_policy: null,
+          whistleblower_policy: null,
+          document_retention_policy: null,
+          ceo_compensation_process: null,
+        }),
+      }),
+    });
+    expect(assessGovernance(profile)!.score).toBeNull();
+  });
 });
 
 // ============================================================================
@@ -444,6 +761,122 @@ describe("detectRedFlags", () => {
     expect(flags).toEqual([]);
   });
 
+  it("flags failed public support test (HIGH)", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        public_support_pct: 0.06,
+        public_support_passed: false,
+      }),
+    });
+    const flags = detectRedFlags(profile, [makeFiling()], t);
+    const flag = flags.find((f) => f.type === "public_support_failure");
+    expect(flag?.severity).toBe("HIGH");
+    expect(flag?.detail).toContain("6.0%");
+  });
+
+  it("does NOT flag public support when the result is undeterminable", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        public_support_pct: 0.2,
+        public_support_passed: null,
+      }),
+    });
+    const flags = detectRedFlags(profile, [makeFiling()], t);
+    expect(flags).not.toContainEqual(
+      expect.objectContaining({ type: "public_support_failure" }),
+    );
+  });
+
+  it("flags a single contractor above the expense share threshold (MEDIUM)", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        largest_contractor: {
+          name: "ACME CONSULTING LLC",
+          services: "MANAGEMENT",
+          compensation: 600_000,
+          expense_share: 0.6,
+        },
+      }),
+    });
+    const flags = detectRedFlags(profile, [makeFiling()], t);
+    const flag = flags.find((f) => f.type === "contractor_concentration");
+    expect(flag?.severity).toBe("MEDIUM");
+    expect(flag?.detail).toContain("ACME CONSULTING LLC");
+    expect(flag?.detail).toContain("60.0%");
+  });
+
+  it("does NOT flag contractor share at or below the threshold", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        largest_contractor: {
+          name: "ACME CONSULTING LLC",
+          services: null,
+          compensation: 500_000,
+          expense_share: 0.5,
+        },
+      }),
+    });
+    const flags = detectRedFlags(profile, [makeFiling()], t);
+    expect(flags).not.toContainEqual(
+      expect.objectContaining({ type: "contractor_concentration" }),
+    );
+  });
+
+  it("respects a custom contractor share threshold", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        largest_contractor: {
+          name: "ACME CONSULTING LLC",
+          services: null,
+          compensation: 300_000,
+          expense_share: 0.3,
+        },
+      }),
+    });
+    const strict = makeThresholds({ redFlagContractorShare: 0.25 });
+    const flags = detectRedFlags(profile, [makeFiling()], strict);
+    expect(flags).toContainEqual(
+      expect.objectContaining({ type: "contractor_concentration" }),
+    );
+  });
+
+  it("flags reported diversion of assets (HIGH)", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({ material_diversion: true }),
+      }),
+    });
+    const flags = detectRedFlags(profile, [makeFiling()], t);
+    expect(flags).toContainEqual(
+      expect.objectContaining({ type: "material_diversion", severity: "HIGH" }),
+    );
+  });
+
+  it("flags a board without an independent majority (MEDIUM)", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({
+          voting_members: 6,
+          independent_members: 3,
+        }),
+      }),
+    });
+    const flags = detectRedFlags(profile, [makeFiling()], t);
+    const flag = flags.find((f) => f.type === "minority_independent_board");
+    expect(flag?.severity).toBe("MEDIUM");
+    expect(flag?.detail).toContain("3 of 6");
+  });
+
+  it("does NOT flag board independence when counts are missing", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({ independent_members: null }),
+      }),
+    });
+    const flags = detectRedFlags(profile, [makeFiling()], t);
+    expect(flags).toEqual([]);
+  });
+
   it("flags organization less than 1 year old (MEDIUM)", () => {
     const profile = makeProfile({ years_operating: 0 });
     const flags = detectRedFlags(profile, [makeFiling()], t);
@@ -600,6 +1033,117 @@ describe("detectRedFlags", () => {
     );
   });
 
+  // --- Persistent deficit ---
+
+  it("flags three consecutive deficit filings (MEDIUM)", () => {
+    const filings = [0, 1, 2].map((y) =>
+      makeFiling({
+        tax_prd: taxPrdOffset(y),
+        totrevenue: 400_000,
+        totfuncexpns: 450_000,
+      }),
+    );
+    const flags = detectRedFlags(makeProfile(), filings, t);
+    expect(flags).toContainEqual(
+      expect.objectContaining({
+        type: "persistent_deficit",
+        severity: "MEDIUM",
+        detail: expect.stringContaining("last 3 filings"),
+      }),
+    );
+  });
+
+  it("does not flag when the deficit run is shorter than the threshold", () => {
+    const filings = [
+      makeFiling({ tax_prd: taxPrdOffset(0), totrevenue: 400_000, totfuncexpns: 450_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(1), totrevenue: 400_000, totfuncexpns: 450_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(2), totrevenue: 500_000, totfuncexpns: 450_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(3), totrevenue: 400_000, totfuncexpns: 450_000 }),
+    ];
+    const flags = detectRedFlags(makeProfile(), filings, t);
+    expect(flags).not.toContainEqual(
+      expect.objectContaining({ type: "persistent_deficit" }),
+    );
+  });
+
+  it("ends the deficit run at a gap of more than 18 months", () => {
+    const filings = [0, 1, 3].map((y) =>
+      makeFiling({
+        tax_prd: taxPrdOffset(y),
+        totrevenue: 400_000,
+        totfuncexpns: 450_000,
+      }),
+    );
+    const flags = detectRedFlags(makeProfile(), filings, t);
+    expect(flags).not.toContainEqual(
+      expect.objectContaining({ type: "persistent_deficit" }),
+    );
+  });
+
+  it("respects a configured deficit run length", () => {
+    const filings = [0, 1].map((y) =>
+      makeFiling({
+        tax_prd: taxPrdOffset(y),
+        totrevenue: 400_000,
+        totfuncexpns: 450_000,
+      }),
+    );
+    const flags = detectRedFlags(
+      makeProfile(),
+      filings,
+      makeThresholds({ redFlagDeficitYears: 2 }),
+    );
+    expect(flags).toContainEqual(
+      expect.objectContaining({ type: "persistent_deficit" }),
+    );
+  });
+
+  // --- Net asset erosion ---
+
+  it("flags net assets falling more than 30% over history (MEDIUM)", () => {
+    const filings = [
+      makeFiling({ tax_prd: taxPrdOffset(0), tax_prd_yr: 2022, totnetassetend: 300_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(1), tax_prd_yr: 2021, totnetassetend: 450_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(2), tax_prd_yr: 2020, totnetassetend: 600_000 }),
+    ];
+    const flags = detectRedFlags(makeProfile(), filings, t);
+    expect(flags).toContainEqual(
+      expect.objectContaining({
+        type: "net_asset_erosion",
+        severity: "MEDIUM",
+        detail: expect.stringContaining("since tax year 2020"),
+      }),
+    );
+  });
+
+  it("does not flag a 20% net asset decline", () => {
+    const filings = [
+      makeFiling({ tax_prd: taxPrdOffset(0), totnetassetend: 480_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(1), totnetassetend: 600_000 }),
+    ];
+    const flags = detectRedFlags(makeProfile(), filings, t);
+    expect(flags).not.toContainEqual(
+      expect.objectContaining({ type: "net_asset_erosion" }),
+    );
+  });
+
+  it("skips filings without a balance sheet and negative starting net assets", () => {
+    const noBalanceSheet = [
+      makeFiling({ tax_prd: taxPrdOffset(0), totnetassetend: 100_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(1) }), // no Part X
+    ];
+    const negativeStart = [
+      makeFiling({ tax_prd: taxPrdOffset(0), totnetassetend: -200_000 }),
+      makeFiling({ tax_prd: taxPrdOffset(1), totnetassetend: -50_000 }),
+    ];
+    for (const filings of [noBalanceSheet, negativeStart]) {
+      const flags = detectRedFlags(makeProfile(), filings, t);
+      expect(flags).not.toContainEqual(
+        expect.objectContaining({ type: "net_asset_erosion" }),
+      );
+    }
+  });
+
   it("skips revenue decline check when filings are >18 months apart", () => {
     const filings = [
       makeFiling({ tax_prd: taxPrdOffset(0), totrevenue: 200_000 }),
@@ -914,8 +1458,74 @@ describe("runFullScreening", () => {
     expect(result.gate_blocked).toBe(false);
     expect(result.gates.all_passed).toBe(true);
     expect(result.red_flags).toHaveLength(0);
-    expect(result.checks).toHaveLength(4);
+    expect(result.checks).toHaveLength(5);
     expect(result.summary.headline).toBe("Passes Financial Screening");
+    expect(result.checks!.every((c) => c.explanation)).toBe(true);
+    expect(result.summary.path_to_pass).toEqual([]);
+  });
+
+  it("summarizes what would lift a REVIEW org to PASS", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        overhead_ratio: 0.5,
+        total_revenue: 35_000,
+        cash_and_equivalents: 60_000,
+      }),
+    });
+    const result = runFullScreening(
+      profile,
+      [makeFiling()],
+      t,
+      makeMockIrsClient() as any,
+      makeMockOfacClient() as any,
+      makePortfolioFitConfig(),
+    );
+
+    expect(result.recommendation).toBe("REVIEW");
+    expect(result.summary.path_to_pass).toEqual([
+      `Score ${result.score}/100 is ${t.scorePassMin - result.score!} points short of PASS (${t.scorePassMin})`,
+      expect.stringMatching(/^spend_rate: A spend rate of 60\.0% or more/),
+      expect.stringMatching(/^revenue_range: /),
+      expect.stringMatching(/^operating_reserves: /),
+    ]);
+  });
+
+  it("reports governance alongside the score without changing it", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({ whistleblower_policy: false }),
+      }),
+    });
+    const result = runFullScreening(
+      profile,
+      [makeFiling()],
+      t,
+      makeMockIrsClient() as any,
+      makeMockOfacClient() as any,
+      makePortfolioFitConfig(),
+    );
+
+    expect(result.score).toBe(100);
+    expect(result.governance?.score).toBe(85);
+    expect(result.recommendation).toBe("PASS");
+  });
+
+  it("rejects when Part VI reports a diversion of assets", () => {
+    const profile = makeProfile({
+      latest_990: make990({
+        governance: makeGovernanceSummary({ material_diversion: true }),
+      }),
+    });
+    const result = runFullScreening(
+      profile,
+      [makeFiling()],
+      t,
+      makeMockIrsClient() as any,
+      makeMockOfacClient() as any,
+      makePortfolioFitConfig(),
+    );
+
+    expect(result.recommendation).toBe("REJECT");
   });
 
   it("returns REJECT when IRS revocation gate fails", () => {
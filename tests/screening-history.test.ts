@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
+import { VettingStore } from "../src/data-sources/vetting-store.js";
+import {
+  diffScreenings,
+  getScreeningHistory,
+} from "../src/domain/nonprofit/history.js";
+import type { CriterionCheck, RedFlag } from "../src/domain/nonprofit/types.js";
+import { makeScreeningResult } from "./fixtures.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+}));
+
+function check(name: string, result: CriterionCheck["result"], detail = `${name} ${result}`): CriterionCheck {
+  return { name, passed: result === "PASS", result, detail, weight: 20 };
+}
+
+const LATE_990: RedFlag = { severity: "MEDIUM", type: "stale_990", detail: "Latest 990 is 3 years old" };
+const DEFICIT: RedFlag = { severity: "MEDIUM", type: "persistent_deficit", detail: "3 consecutive deficits" };
+
+describe("diffScreenings", () => {
+  it("reports score delta, recommendation change, checks and flags", () => {
+    const before = makeScreeningResult({
+      score: 85,
+      recommendation: "PASS",
+      checks: [check("years_operating", "PASS"), check("recent_990", "PASS")],
+      red_flags: [DEFICIT],
+    });
+    const after = makeScreeningResult({
+      score: 65,
+      recommendation: "REVIEW",
+      checks: [check("years_operating", "PASS"), check("recent_990", "REVIEW")],
+      red_flags: [{ ...DEFICIT, detail: "4 consecutive deficits" }, LATE_990],
+    });
+
+    const diff = diffScreenings(before, after);
+    expect(diff.score_delta).toBe(-20);
+    expect(diff.recommendation_changed).toBe(true);
+    expect(diff.recommendation_from).toBe("PASS");
+    expect(diff.recommendation_to).toBe("REVIEW");
+    expect(diff.checks_changed).toEqual([
+      {
+        name: "recent_990",
+        from: "PASS",
+        to: "REVIEW",
+        from_detail: "recent_990 PASS",
+        to_detail: "recent_990 REVIEW",
+      },
+    ]);
+    // Same type + severity with new detail text is not a new flag
+    expect(diff.red_flags_added).toEqual([LATE_990]);
+    expect(diff.red_flags_removed).toEqual([]);
+    expect(diff.identical).toBe(false);
+  });
+
+  it("reports gates that flipped and nulls the score delta when gate-blocked", () => {
+    const before = makeScreeningResult({
+      gates: {
+        all_passed: true,
+        gates: [
+          { gate: "verified_501c3", verdict: "PASS", detail: "Active 501(c)(3)" },
+          { gate: "ofac_sanctions", verdict: "PASS", detail: "No match" },
+        ],
+      },
+    });
+    const after = makeScreeningResult({
+      gate_blocked: true,
+      passed: false,
+      score: null,
+      checks: null,
+      recommendation: "REJECT",
+      gates: {
+        all_passed: false,
+        blocking_gate: "verified_501c3",
+        gates: [{ gate: "verified_501c3", verdict: "FAIL", detail: "Revoked 2025-05-15" }],
+      },
+    });
+
+    const diff = diffScreenings(before, after);
+    expect(diff.score_delta).toBeNull();
+    expect(diff.gates_flipped).toEqual([
+      { gate: "verified_501c3", from: "PASS", to: "FAIL", detail: "Revoked 2025-05-15" },
+      { gate: "ofac_sanctions", from: "PASS", to: null, detail: "No match" },
+    ]);
+  });
+
+  it("marks identical screenings", () => {
+    const result = makeScreeningResult({ checks: [check("years_operating", "PASS")] });
+    const diff = diffScreenings(result, { ...result });
+    expect(diff.identical).toBe(true);
+    expect(diff.score_delta).toBe(0);
+  });
+});
+
+describe("getScreeningHistory", () => {
+  let tmpDir: string;
+  let store: VettingStore;
+
+  beforeAll(async () => {
+    await ensureSqlJs();
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "screening-history-test-"));
+    store = new VettingStore(tmpDir);
+    store.initialize();
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("lists screenings newest first and diffs the latest against the previous", () => {
+    store.saveResult(makeScreeningResult({ score: 90 }));
+    store.saveResult(makeScreeningResult({ score: 85 }));
+    store.saveResult(makeScreeningResult({ score: 60, recommendation: "REVIEW" }));
+
+    const response = getScreeningHistory("95-3135649", store);
+    expect(response.success).toBe(true);
+    expect(response.data!.ein).toBe("95-3135649");
+    expect(response.data!.total).toBe(3);
+    expect(response.data!.screenings.map((s) => s.id)).toEqual([3, 2, 1]);
+    expect(response.data!.screenings[0]).not.toHaveProperty("result_json");
+    expect(response.data!.diff).toMatchObject({
+      from_id: 2,
+      to_id: 3,
+      score_delta: -25,
+      recommendation_changed: true,
+    });
+  });
+
+  it("diffs any two screenings by id and honors limit", () => {
+    store.saveResult(makeScreeningResult({ score: 90 }));
+    store.saveResult(makeScreeningResult({ score: 85 }));
+    store.saveResult(makeScreeningResult({ score: 60, recommendation: "REVIEW" }));
+
+    const response = getScreeningHistory("953135649", store, { fromId: 1, toId: 2, limit: 1 });
+    expect(response.data!.screenings).toHaveLength(1);
+    expect(response.data!.diff).toMatchObject({ from_id: 1, to_id: 2, score_delta: -5 });
+
+    const defaultFrom = getScreeningHistory("953135649", store, { toId: 2 });
+    expect(defaultFrom.data!.diff).toMatchObject({ from_id: 1, to_id: 2 });
+  });
+
+  it("diffs the latest screening against the previous one under its profile", () => {
+    store.saveResult(makeScreeningResult({ score: 90 }));
+    store.saveResult(makeScreeningResult({ score: 70, recommendation: "REVIEW", profile: "conservative" }));
+    store.saveResult(makeScreeningResult({ score: 88 }));
+
+    const response = getScreeningHistory("953135649", store);
+    expect(response.data!.screenings.map((s) => s.profile)).toEqual(["default", "conservative", "default"]);
+    expect(response.data!.diff).toMatchObject({
+      from_id: 1,
+      to_id: 3,
+      from_profile: "default",
+      to_profile: "default",
+      score_delta: -2,
+      recommendation_changed: false,
+    });
+
+    // A conservative screening with no earlier conservative one has nothing to diff against
+    expect(getScreeningHistory("953135649", store, { toId: 2 }).data!.diff).toBeNull();
+  });
+
+  it("lists and diffs one profile only when asked", () => {
+    store.saveResult(makeScreeningResult({ score: 70, profile: "conservative" }));
+    store.saveResult(makeScreeningResult({ score: 90 }));
+    store.saveResult(makeScreeningResult({ score: 60, profile: "conservative" }));
+
+    const response = getScreeningHistory("953135649", store, { profile: "conservative" });
+    expect(response.data!.total).toBe(2);
+    expect(response.data!.screenings.map((s) => s.id)).toEqual([3, 1]);
+    expect(response.data!.diff).toMatchObject({ from_id: 1, to_id: 3, score_delta: -10 });
+
+    expect(getScreeningHistory("953135649", store, { profile: "lenient" }).error).toMatch(
+      /No screenings recorded for EIN: 953135649 under profile "lenient"/,
+    );
+  });
+
+  it("returns a null diff for a single screening", () => {
+    store.saveResult(makeScreeningResult());
+
+    const response = getScreeningHistory("953135649", store);
+    expect(response.success).toBe(true);
+    expect(response.data!.diff).toBeNull();
+  });
+
+  it("rejects ids that belong to another EIN", () => {
+    store.saveResult(makeScreeningResult({ ein: "111111111" }));
+    store.saveResult(makeScreeningResult());
+
+    const response = getScreeningHistory("953135649", store, { fromId: 1 });
+    expect(response.success).toBe(false);
+    expect(response.error).toBe("Screening 1 not found for EIN: 953135649");
+  });
+
+  it("returns errors for a missing EIN, no history, or no store", () => {
+    expect(getScreeningHistory("", store).error).toBe("EIN parameter is required");
+    expect(getScreeningHistory("953135649", store).error).toMatch(/No screenings recorded/);
+    expect(getScreeningHistory("953135649", undefined).error).toMatch(/VettingStore not available/);
+  });
+});
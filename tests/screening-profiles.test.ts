@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  DEFAULT_PROFILE,
+  loadScreeningProfiles,
+  parseScreeningProfiles,
+  thresholdOverrides,
+  unknownProfileError,
+} from "../src/domain/nonprofit/screening-profiles.js";
+import { DEFAULT_THRESHOLDS, makePortfolioFitConfig } from "./fixtures.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+}));
+
+const BASE = {
+  thresholds: DEFAULT_THRESHOLDS,
+  portfolioFit: makePortfolioFitConfig(),
+};
+
+describe("parseScreeningProfiles", () => {
+  it("always includes the default profile built from the base config", () => {
+    const profiles = parseScreeningProfiles({}, BASE);
+    expect([...profiles.keys()]).toEqual([DEFAULT_PROFILE]);
+    expect(profiles.get(DEFAULT_PROFILE)!.thresholds).toBe(DEFAULT_THRESHOLDS);
+  });
+
+  it("merges threshold, weight and portfolio-fit overrides onto the base", () => {
+    const profiles = parseScreeningProfiles(
+      {
+        conservative: {
+          description: "Established orgs only",
+          thresholds: {
+            scorePassMin: 85,
+            weightYearsOperating: 20,
+            weightRevenueRange: 5,
+          },
+          portfolioFit: {
+            allowedNteeCategories: ["b", " e "],
+            excludedEins: ["12-3456789"],
+          },
+        },
+      },
+      BASE,
+    );
+
+    const profile = profiles.get("conservative")!;
+    expect(profile.description).toBe("Established orgs only");
+    expect(profile.thresholds).toEqual({
+      ...DEFAULT_THRESHOLDS,
+      scorePassMin: 85,
+      weightYearsOperating: 20,
+      weightRevenueRange: 5,
+    });
+    expect(profile.portfolioFit).toEqual({
+      ...BASE.portfolioFit,
+      allowedNteeCategories: ["B", "E"],
+      excludedEins: ["123456789"],
+    });
+    expect(thresholdOverrides(profile.thresholds, DEFAULT_THRESHOLDS)).toEqual({
+      scorePassMin: 85,
+      weightYearsOperating: 20,
+      weightRevenueRange: 5,
+    });
+  });
+
+  it("rejects thresholds that break invariants once merged", () => {
+    expect(() =>
+      parseScreeningProfiles(
+        { lopsided: { thresholds: { weightYearsOperating: 50 } } },
+        BASE,
+      ),
+    ).toThrow(
+      /lopsided: Invalid vetting thresholds:[\s\S]*Weights must sum to 100/,
+    );
+  });
+
+  it("rejects a base that sector adjustments would invalidate", () => {
+    // Valid on its own, but sector E caps revenuePassMax at $50M
+    const thresholds = {
+      revenuePassMin: 60_000_000,
+      revenuePassMax: 70_000_000,
+      revenueReviewMax: 80_000_000,
+    };
+    expect(() =>
+      parseScreeningProfiles({ large: { thresholds } }, BASE),
+    ).toThrow(/large: .*revenuePassMin must be <= revenuePassMax/s);
+  });
+
+  it("collects every problem before throwing", () => {
+    let message = "";
+    try {
+      parseScreeningProfiles(
+        {
+          default: {},
+          "Bad Name": {},
+          typo: {
+            threshold: {},
+            thresholds: { scorePasMin: 80, scoreReviewMin: "50" },
+            portfolioFit: { enabled: "yes", includedEins: ["123"] },
+          },
+        },
+        BASE,
+      );
+    } catch (err) {
+      message = (err as Error).message;
+    }
+
+    expect(message).toContain('default: "default" is reserved');
+    expect(message).toContain("Bad Name: name must be");
+    expect(message).toContain('typo: unknown field "threshold"');
+    expect(message).toContain('typo: unknown threshold "scorePasMin"');
+    expect(message).toContain(
+      'typo: threshold "scoreReviewMin" must be a finite number',
+    );
+    expect(message).toContain("typo: portfolioFit.enabled must be a boolean");
+    expect(message).toContain(
+      "typo: portfolioFit.includedEins must be an array of 9-digit EINs",
+    );
+  });
+
+  it("rejects a non-object file", () => {
+    expect(() => parseScreeningProfiles([], BASE)).toThrow(
+      /expected a JSON object/,
+    );
+  });
+});
+
+describe("loadScreeningProfiles", () => {
+  let tmpDir: string | undefined;
+
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  it("returns only the default profile when the file is missing", () => {
+    const profiles = loadScreeningProfiles(
+      "/nonexistent/screening-profiles.json",
+      BASE,
+    );
+    expect([...profiles.keys()]).toEqual([DEFAULT_PROFILE]);
+  });
+
+  it("reads profiles from JSON and reports malformed files", () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "screening-profiles-test-"));
+    const file = path.join(tmpDir, "profiles.json");
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ lenient: { thresholds: { scorePassMin: 65 } } }),
+    );
+    expect(
+      loadScreeningProfiles(file, BASE).get("lenient")!.thresholds.scorePassMin,
+    ).toBe(65);
+
+    fs.writeFileSync(file, "{ not json");
+    expect(() => loadScreeningProfiles(file, BASE)).toThrow(
+      /Invalid screening profiles file/,
+    );
+  });
+});
+
+describe("unknownProfileError", () => {
+  it("lists the available profiles", () => {
+    const profiles = parseScreeningProfiles({ lenient: {} }, BASE);
+    expect(unknownProfileError("nope", profiles)).toBe(
+      'Unknown screening profile "nope". Available: default, lenient',
+    );
+  });
+});
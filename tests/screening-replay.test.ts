@@ -0,0 +1,231 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
+import { VettingStore } from "../src/data-sources/vetting-store.js";
+import type {
+  NonprofitProfile,
+  ScreeningInputs,
+} from "../src/domain/nonprofit/types.js";
+import { runFullScreening } from "../src/domain/nonprofit/scoring.js";
+import {
+  recordLookups,
+  replayScreening,
+} from "../src/domain/nonprofit/screening-replay.js";
+import {
+  DEFAULT_THRESHOLDS,
+  makeProfile,
+  makeMockIrsClient,
+  makeMockOfacClient,
+  makePortfolioFitConfig,
+  makeRevokedIrsResult,
+} from "./fixtures.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+}));
+
+const EIN = "95-3135649";
+
+describe("replayScreening", () => {
+  let tmpDir: string;
+  let store: VettingStore;
+  let irsClient: ReturnType<typeof makeMockIrsClient>;
+  let ofacClient: ReturnType<typeof makeMockOfacClient>;
+
+  beforeAll(async () => {
+    await ensureSqlJs();
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "screening-replay-test-"));
+    store = new VettingStore(tmpDir);
+    store.initialize();
+    irsClient = makeMockIrsClient();
+    ofacClient = makeMockOfacClient();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  /** Screen and save the way screenNonprofitLocal + VettingPipeline do. */
+  function screenAndSave(profile: NonprofitProfile = makeProfile()) {
+    const screenedAt = new Date();
+    const portfolioFit = makePortfolioFitConfig();
+    const lookups = recordLookups(irsClient, ofacClient);
+    const result = runFullScreening(
+      profile,
+      undefined,
+      DEFAULT_THRESHOLDS,
+      lookups.irs,
+      lookups.ofac,
+      portfolioFit,
+      undefined,
+      screenedAt.getTime(),
+    );
+    const inputs: ScreeningInputs = {
+      profile,
+      filings: null,
+      court: null,
+      screened_at: screenedAt.toISOString(),
+      thresholds: DEFAULT_THRESHOLDS,
+      portfolio_fit: portfolioFit,
+      ...lookups.answers(),
+      data_manifest: {
+        irs_revocation: {
+          downloaded_at: "2026-01-02T00:00:00.000Z",
+          row_count: 600_000,
+        },
+      },
+      filing_object_ids: ["202301234567890123"],
+      latest_object_id: "202301234567890123",
+    };
+    return store.saveResult(result, inputs);
+  }
+
+  it("reproduces the saved result from its snapshot, without the live lists", () => {
+    const saved = screenAndSave();
+    irsClient.check.mockClear();
+    ofacClient.check.mockClear();
+    ofacClient.fuzzyCheck.mockClear();
+
+    const { success, data } = replayScreening(EIN, store);
+
+    expect(success).toBe(true);
+    expect(data).toMatchObject({
+      ein: EIN,
+      screening_id: saved.id,
+      profile: "default",
+      reproduced: true,
+      diff: { identical: true },
+      result: { recommendation: "PASS", score: 100 },
+      inputs: {
+        data_manifest: {
+          irs_revocation: { downloaded_at: "2026-01-02T00:00:00.000Z" },
+        },
+        filing_object_ids: ["202301234567890123"],
+      },
+    });
+    expect(irsClient.check).not.toHaveBeenCalled();
+    expect(ofacClient.check).not.toHaveBeenCalled();
+    expect(ofacClient.fuzzyCheck).not.toHaveBeenCalled();
+  });
+
+  it("measures filing age against the screening clock, not today's", () => {
+    screenAndSave();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 6 * 365 * 24 * 60 * 60 * 1000);
+
+    const { data } = replayScreening(EIN, store);
+    expect(data!.reproduced).toBe(true);
+    expect(data!.result.red_flags.map((f) => f.type)).not.toContain(
+      "stale_990",
+    );
+  });
+
+  it("replays a gate-blocked screening from the recorded revocation", () => {
+    irsClient.check.mockReturnValue(makeRevokedIrsResult());
+    screenAndSave();
+    irsClient.check.mockReturnValue({
+      found: false,
+      revoked: false,
+      detail: "",
+    });
+
+    const { data } = replayScreening(EIN, store);
+    expect(data!.result).toMatchObject({
+      gate_blocked: true,
+      recommendation: "REJECT",
+    });
+    expect(data!.inputs.ofac_fuzzy).toBeNull();
+    expect(data!.reproduced).toBe(true);
+  });
+
+  it("reports the diff when the saved result doesn't match its inputs", () => {
+    const record = screenAndSave();
+    const inputs = JSON.parse(record.inputs_json!) as ScreeningInputs;
+    const tampered = {
+      ...JSON.parse(record.result_json),
+      recommendation: "REVIEW",
+    };
+    store.saveResult(tampered, inputs);
+
+    const { data } = replayScreening(EIN, store);
+    expect(data!.reproduced).toBe(false);
+    expect(data!.diff).toMatchObject({
+      recommendation_from: "REVIEW",
+      recommendation_to: "PASS",
+      recommendation_changed: true,
+    });
+  });
+
+  it("replays a specific screening by id", () => {
+    const first = screenAndSave();
+    screenAndSave(makeProfile({ years_operating: 2 }));
+
+    expect(
+      replayScreening(EIN, store, { screeningId: first.id }).data!.result.score,
+    ).toBe(100);
+    expect(replayScreening(EIN, store, { screeningId: 999 }).error).toBe(
+      `Screening 999 not found for EIN: ${EIN}`,
+    );
+  });
+
+  it("refuses screenings saved without a full snapshot", () => {
+    const legacy = store.saveResult(
+      runFullScreening(
+        makeProfile(),
+        undefined,
+        DEFAULT_THRESHOLDS,
+        irsClient,
+        ofacClient,
+        makePortfolioFitConfig(),
+      ),
+      {
+        profile: makeProfile(),
+        filings: null,
+        court: null,
+      } as unknown as ScreeningInputs,
+    );
+
+    expect(replayScreening(EIN, store).error).toMatch(
+      new RegExp(
+        `^Screening ${legacy.id} was saved without a full input snapshot`,
+      ),
+    );
+  });
+
+  it("validates the EIN and store", () => {
+    expect(replayScreening("", store).error).toBe("EIN parameter is required");
+    expect(replayScreening(EIN, undefined).error).toMatch(
+      /VettingStore not available/,
+    );
+    expect(replayScreening(EIN, store).error).toBe(
+      `No screenings recorded for EIN: ${EIN}. Run screen_nonprofit first.`,
+    );
+  });
+});
+
+describe("recordLookups", () => {
+  it("throws when the gate lookups never ran", () => {
+    const lookups = recordLookups(makeMockIrsClient(), makeMockOfacClient());
+    expect(() => lookups.answers()).toThrow(
+      "IRS/OFAC gate lookups were not run",
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
+import { VettingStore } from "../src/data-sources/vetting-store.js";
+import type {
+  NonprofitProfile,
+  ScreeningResult,
+} from "../src/domain/nonprofit/types.js";
+import { simulateThresholds } from "../src/domain/nonprofit/threshold-simulation.js";
+import {
+  DEFAULT_THRESHOLDS,
+  makeProfile,
+  makeScreeningResult,
+} from "./fixtures.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+}));
+
+describe("simulateThresholds", () => {
+  let tmpDir: string;
+  let store: VettingStore;
+
+  beforeAll(async () => {
+    await ensureSqlJs();
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "threshold-simulation-test-"),
+    );
+    store = new VettingStore(tmpDir);
+    store.initialize();
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function save(
+    ein: string,
+    profile: Partial<NonprofitProfile>,
+    result: Partial<ScreeningResult> = {},
+  ): void {
+    store.saveResult(
+      makeScreeningResult({ ein, name: `Org ${ein}`, ...result }),
+      {
+        profile: makeProfile({ ein, ...profile }),
+        filings: null,
+        court: null,
+      },
+    );
+  }
+
+  function simulate(
+    overrides: unknown,
+    opts: { profile?: string; limit?: number } = {},
+  ) {
+    return simulateThresholds(store, overrides, {
+      profile: opts.profile ?? "default",
+      baseThresholds: DEFAULT_THRESHOLDS,
+      limit: opts.limit,
+    });
+  }
+
+  it("reports orgs that would move under the override", () => {
+    save("111111111", {}); // 100 pts
+    save("222222222", { years_operating: 2 }); // years check REVIEW → 95 pts
+
+    const { success, data } = simulate({ scorePassMin: 98 });
+
+    expect(success).toBe(true);
+    expect(data).toMatchObject({
+      profile: "default",
+      overrides: { scorePassMin: 98 },
+      screenings: 2,
+      simulated: 2,
+      skipped_no_inputs: 0,
+      before: { PASS: 2, REVIEW: 0, REJECT: 0 },
+      after: { PASS: 1, REVIEW: 1, REJECT: 0 },
+      transitions: [{ from: "PASS", to: "REVIEW", count: 1 }],
+      moved_total: 1,
+      drifted: 0,
+    });
+    expect(data!.moved).toEqual([
+      {
+        ein: "22-2222222",
+        name: "Org 222222222",
+        from: "PASS",
+        to: "REVIEW",
+        score_before: 95,
+        score_after: 95,
+      },
+    ]);
+  });
+
+  it("re-weights checks when weights are overridden", () => {
+    save("222222222", { years_operating: 2 });
+
+    const { data } = simulate({
+      weightYearsOperating: 60,
+      weightRevenueRange: 10,
+      weightSpendRate: 10,
+      weightRecent990: 10,
+      weightOperatingReserves: 10,
+    });
+
+    expect(data!.moved).toEqual([
+      expect.objectContaining({
+        from: "PASS",
+        to: "REVIEW",
+        score_before: 95,
+        score_after: 70,
+      }),
+    ]);
+  });
+
+  it("skips screenings without saved inputs and keeps gate-blocked orgs REJECT", () => {
+    store.saveResult(makeScreeningResult({ ein: "111111111" }));
+    save(
+      "222222222",
+      {},
+      { gate_blocked: true, recommendation: "REJECT", score: null },
+    );
+
+    const { data } = simulate({ scorePassMin: 0, scoreReviewMin: 0 });
+
+    expect(data).toMatchObject({
+      screenings: 2,
+      simulated: 1,
+      skipped_no_inputs: 1,
+      before: { REJECT: 1 },
+      after: { REJECT: 1 },
+      moved_total: 0,
+    });
+  });
+
+  it("carries OFAC near-match flags over from the saved result", () => {
+    save(
+      "111111111",
+      {},
+      {
+        recommendation: "REVIEW",
+        red_flags: [
+          { severity: "MEDIUM", type: "ofac_near_match", detail: "near" },
+        ],
+      },
+    );
+
+    const { data } = simulate({ scoreReviewMin: 40 });
+    expect(data!.before).toEqual({ PASS: 0, REVIEW: 1, REJECT: 0 });
+    expect(data!.drifted).toBe(0);
+  });
+
+  it("counts screenings whose baseline re-score no longer matches the saved result", () => {
+    save("111111111", {}, { recommendation: "REVIEW" });
+
+    expect(simulate({}).data!.drifted).toBe(1);
+  });
+
+  it("only simulates screenings made under the requested profile", () => {
+    save("111111111", {});
+    save("222222222", {}, { profile: "lenient" });
+
+    expect(simulate({}, { profile: "lenient" }).data!.screenings).toBe(1);
+  });
+
+  it("caps the moved list but counts every move", () => {
+    for (const ein of ["111111111", "222222222", "333333333"]) save(ein, {});
+
+    const { data } = simulate(
+      { scorePassMin: 100, yearsPassMin: 20 },
+      { limit: 2 },
+    );
+    expect(data!.moved_total).toBe(3);
+    expect(data!.moved.map((m) => m.ein)).toEqual(["11-1111111", "22-2222222"]);
+  });
+
+  it("rejects overrides that are unknown or break threshold invariants", () => {
+    expect(simulate({ scorePasMin: 80 }).error).toBe(
+      'Invalid threshold overrides: unknown threshold "scorePasMin"',
+    );
+    expect(simulate({ weightYearsOperating: 50 }).error).toMatch(
+      /Invalid threshold overrides: .*Weights must sum to 100/s,
+    );
+    expect(simulate(undefined).error).toBe("overrides parameter is required");
+  });
+});
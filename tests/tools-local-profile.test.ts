@@ -1,15 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
+  screenNonprofitLocal,
   getNonprofitProfileLocal,
   getRedFlagsLocal,
+  getGrantsMadeLocal,
+  getFinancialTrendsLocal,
   type LocalScreeningDeps,
 } from "../src/domain/nonprofit/tools.js";
 import { getToolDefinitions } from "../src/server/nonprofit-tools.js";
+import { Xml990Parser } from "../src/domain/nonprofit/xml-parser.js";
 import {
   makeGtFilingEntry,
   makeXml990ExtractedData,
+  makePartIXData,
+  makePartVIIIData,
   DEFAULT_THRESHOLDS,
   makePortfolioFitConfig,
+  makeEpostcardSummary,
 } from "./fixtures.js";
 import type { DiscoveryCandidate } from "../src/domain/discovery/types.js";
 import type { DiscoveryResult } from "../src/domain/discovery/types.js";
@@ -77,6 +84,89 @@ describe("getNonprofitProfileLocal", () => {
     expect(result.attribution).toContain("IRS BMF");
   });
 
+  it("populates balance sheet totals from Part X", async () => {
+    const deps = makeDeps();
+    const result = await getNonprofitProfileLocal("13-1624100", deps);
+
+    const latest = result.data!.latest_990!;
+    expect(latest.total_assets).toBe(800_000);
+    expect(latest.total_liabilities).toBe(200_000);
+    expect(latest.net_assets).toBe(600_000);
+    expect(latest.cash_and_equivalents).toBe(200_000);
+  });
+
+  it("maps Part VI answers into the governance summary", async () => {
+    const deps = makeDeps();
+    const result = await getNonprofitProfileLocal("13-1624100", deps);
+
+    expect(result.data!.latest_990!.governance).toEqual(
+      expect.objectContaining({
+        voting_members: 12,
+        independent_members: 10,
+        conflict_of_interest_policy: true,
+        material_diversion: false,
+      }),
+    );
+  });
+
+  it("summarizes the largest contractor as a share of expenses", async () => {
+    const deps = makeDeps();
+    const result = await getNonprofitProfileLocal("13-1624100", deps);
+
+    expect(result.data!.latest_990!.largest_contractor).toEqual({
+      name: "ACME CONSULTING LLC",
+      services: "PROGRAM EVALUATION",
+      compensation: 120_000,
+      expense_share: 0.3,
+    });
+  });
+
+  it("re-parses a cached extract written by an older parser", async () => {
+    const stale = makeXml990ExtractedData({ extractVersion: undefined, partX: null });
+    const fresh = makeXml990ExtractedData();
+    const parse = vi.spyOn(Xml990Parser.prototype, "parse").mockReturnValue(fresh);
+    const saveExtract = vi.fn();
+    const deps = makeDeps({
+      xml990Store: {
+        getLatestExtract: vi.fn().mockReturnValue(stale),
+        getAllExtracts: vi.fn().mockReturnValue([]),
+        hasExtract: vi.fn().mockReturnValue(false),
+        saveMetadata: vi.fn(),
+        saveExtract,
+      } as any,
+    });
+
+    const result = await getNonprofitProfileLocal("13-1624100", deps);
+    parse.mockRestore();
+
+    expect(saveExtract).toHaveBeenCalledWith(fresh);
+    expect(result.data!.latest_990!.total_assets).toBe(800_000);
+  });
+
+  it("falls back to the outdated extract when re-parsing fails", async () => {
+    const stale = makeXml990ExtractedData({ extractVersion: undefined, partX: null });
+    const saveExtract = vi.fn();
+    const deps = makeDeps({
+      xml990Store: {
+        getLatestExtract: vi.fn().mockReturnValue(stale),
+        getAllExtracts: vi.fn().mockReturnValue([]),
+        hasExtract: vi.fn().mockReturnValue(false),
+        saveMetadata: vi.fn(),
+        saveExtract,
+      } as any,
+      givingTuesdayClient: {
+        getFilingIndex: vi.fn().mockResolvedValue([makeGtFilingEntry()]),
+        downloadXml: vi.fn().mockRejectedValue(new Error("timeout")),
+      } as any,
+    });
+
+    const result = await getNonprofitProfileLocal("13-1624100", deps);
+
+    expect(saveExtract).not.toHaveBeenCalled();
+    expect(result.data!.latest_990!.total_revenue).toBe(500_000);
+    expect(result.data!.latest_990!.total_assets).not.toBe(800_000);
+  });
+
   it("returns profile with latest_990: null when no XML available", async () => {
     const deps = makeDeps({
       xml990Store: {
@@ -99,6 +189,31 @@ describe("getNonprofitProfileLocal", () => {
     expect(result.data!.filing_count).toBe(0);
   });
 
+  it("attaches the latest 990-N e-Postcard for small filers", async () => {
+    const epostcard = makeEpostcardSummary();
+    const lookup = vi.fn().mockReturnValue(epostcard);
+    const deps = makeDeps({
+      xml990Store: {
+        getLatestExtract: vi.fn().mockReturnValue(null),
+        getAllExtracts: vi.fn().mockReturnValue([]),
+        hasExtract: vi.fn().mockReturnValue(false),
+        saveMetadata: vi.fn(),
+        saveExtract: vi.fn(),
+      } as any,
+      givingTuesdayClient: {
+        getFilingIndex: vi.fn().mockResolvedValue([]),
+        downloadXml: vi.fn(),
+      } as any,
+      epostcardClient: { lookup } as any,
+    });
+
+    const result = await getNonprofitProfileLocal("13-1624100", deps);
+
+    expect(lookup).toHaveBeenCalledWith("13-1624100");
+    expect(result.data!.latest_990).toBeNull();
+    expect(result.data!.latest_990n).toEqual(epostcard);
+  });
+
   it("returns error when EIN not in BMF", async () => {
     const deps = makeDeps({
       discoveryIndex: {
@@ -121,6 +236,66 @@ describe("getNonprofitProfileLocal", () => {
   });
 });
 
+// ============================================================================
+// screenNonprofitLocal
+// ============================================================================
+
+describe("screenNonprofitLocal", () => {
+  /** In-memory xml990Store, so fetched filings become visible to the adapter. */
+  function makeMemoryStore() {
+    const saved = new Map<string, ReturnType<typeof makeXml990ExtractedData>>();
+    const all = () => [...saved.values()].sort((a, b) => b.taxYear - a.taxYear);
+    return {
+      getLatestExtract: vi.fn(() => all()[0] ?? null),
+      getAllExtracts: vi.fn(() => all()),
+      hasExtract: vi.fn((_ein: string, objectId: string) => saved.has(objectId)),
+      saveMetadata: vi.fn(),
+      saveExtract: vi.fn((extract) => saved.set(extract.objectId, extract)),
+    };
+  }
+
+  it("fetches enough uncached filings to flag a persistent deficit", async () => {
+    const filings = [2023, 2022, 2021].map((year) =>
+      makeGtFilingEntry({
+        ObjectId: `obj${year}`,
+        TaxYear: String(year),
+        TaxPeriod: `${year}-12-31`,
+      }),
+    );
+    const parse = vi
+      .spyOn(Xml990Parser.prototype, "parse")
+      .mockImplementation((_xml, meta) =>
+        makeXml990ExtractedData({
+          objectId: meta.objectId,
+          taxYear: meta.taxYear,
+          partVIII: makePartVIIIData({ totalRevenue: 300_000 }),
+          partIX: makePartIXData({ totalExpenses: 330_000 }),
+        }),
+      );
+    const downloadXml = vi.fn().mockResolvedValue("<xml/>");
+    const deps = makeDeps({
+      xml990Store: makeMemoryStore() as any,
+      givingTuesdayClient: {
+        getFilingIndex: vi.fn().mockResolvedValue(filings),
+        downloadXml,
+      } as any,
+    });
+
+    const result = await screenNonprofitLocal("13-1624100", deps);
+    parse.mockRestore();
+
+    expect(DEFAULT_THRESHOLDS.redFlagDeficitYears).toBe(3);
+    expect(downloadXml).toHaveBeenCalledTimes(3);
+    expect(result.inputs!.filings).toHaveLength(3);
+    expect(result.data!.red_flags).toContainEqual(
+      expect.objectContaining({
+        type: "persistent_deficit",
+        detail: "Expenses exceeded revenue in each of the last 3 filings",
+      }),
+    );
+  });
+});
+
 // ============================================================================
 // getRedFlagsLocal
 // ============================================================================
@@ -234,6 +409,177 @@ describe("getRedFlagsLocal", () => {
   });
 });
 
+// ============================================================================
+// getGrantsMadeLocal
+// ============================================================================
+
+describe("getGrantsMadeLocal", () => {
+  function makeGrantDeps(extract = makeXml990ExtractedData()) {
+    return makeDeps({
+      discoveryIndex: {
+        getByEin: vi.fn().mockReturnValue(makeCandidate()),
+        getByEins: vi.fn().mockReturnValue(
+          new Map([
+            [
+              "123456789",
+              makeCandidate({
+                ein: "123456789",
+                name: "Neighborhood Food Pantry Inc",
+                ntee_code: "K31",
+              }),
+            ],
+          ]),
+        ),
+      } as any,
+      xml990Store: {
+        getLatestExtract: vi.fn().mockReturnValue(extract),
+        getAllExtracts: vi.fn().mockReturnValue([]),
+        hasExtract: vi.fn().mockReturnValue(false),
+        saveMetadata: vi.fn(),
+        saveExtract: vi.fn(),
+      } as any,
+    });
+  }
+
+  it("lists recipients largest first, cross-linked to BMF", async () => {
+    const deps = makeGrantDeps();
+    const result = await getGrantsMadeLocal("13-1624100", deps);
+
+    expect(result.success).toBe(true);
+    const data = result.data!;
+    expect(data.total_grants).toBe(60_000);
+    expect(data.recipient_count).toBe(2);
+    expect(data.recipients[0].name).toBe("NEIGHBORHOOD FOOD PANTRY");
+    expect(data.recipients[0].ein).toBe("12-3456789");
+    expect(data.recipients[0].in_bmf).toBe(true);
+    expect(data.recipients[0].ntee_code).toBe("K31");
+    expect(data.recipients[1].in_bmf).toBe(false);
+    expect(deps.discoveryIndex.getByEins).toHaveBeenCalledWith([
+      "123456789",
+      "987654321",
+    ]);
+  });
+
+  it("computes the grants-to-expenses ratio and pass-through flag", async () => {
+    const small = await getGrantsMadeLocal("13-1624100", makeGrantDeps());
+    // 60K grants / 400K expenses
+    expect(small.data!.grants_to_expenses_ratio).toBeCloseTo(0.15);
+    expect(small.data!.pass_through).toBe(false);
+
+    const passThrough = await getGrantsMadeLocal(
+      "13-1624100",
+      makeGrantDeps(
+        makeXml990ExtractedData({
+          partIX: makePartIXData({ totalExpenses: 80_000 }),
+        }),
+      ),
+    );
+    expect(passThrough.data!.pass_through).toBe(true);
+  });
+
+  it("respects the recipient limit", async () => {
+    const result = await getGrantsMadeLocal("13-1624100", makeGrantDeps(), {
+      limit: 1,
+    });
+    expect(result.data!.recipients).toHaveLength(1);
+    expect(result.data!.recipient_count).toBe(2);
+  });
+
+  it("returns an empty list when the filing has no Schedule I", async () => {
+    const deps = makeGrantDeps(makeXml990ExtractedData({ scheduleI: null }));
+    const result = await getGrantsMadeLocal("13-1624100", deps);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.recipients).toEqual([]);
+    expect(result.data!.total_grants).toBe(0);
+    expect(deps.discoveryIndex.getByEins).not.toHaveBeenCalled();
+  });
+
+  it("returns error when EIN not in BMF", async () => {
+    const deps = makeDeps({
+      discoveryIndex: { getByEin: vi.fn().mockReturnValue(null) } as any,
+    });
+    const result = await getGrantsMadeLocal("99-9999999", deps);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("not found in BMF");
+  });
+});
+
+// ============================================================================
+// getFinancialTrendsLocal
+// ============================================================================
+
+describe("getFinancialTrendsLocal", () => {
+  const years = [2022, 2021, 2020, 2019, 2018, 2017];
+  const extracts = years.map((y) =>
+    makeXml990ExtractedData({
+      taxYear: y,
+      objectId: `obj-${y}`,
+      partVIII: makePartVIIIData({ totalRevenue: 100_000 + (y - 2017) * 10_000 }),
+    }),
+  );
+
+  function makeTrendDeps(cached = extracts) {
+    return makeDeps({
+      givingTuesdayClient: {
+        getFilingIndex: vi.fn().mockResolvedValue(
+          years.map((y) =>
+            makeGtFilingEntry({ ObjectId: `obj-${y}`, TaxYear: String(y) }),
+          ),
+        ),
+        downloadXml: vi.fn(),
+      } as any,
+      xml990Store: {
+        getLatestExtract: vi.fn().mockReturnValue(cached[0] ?? null),
+        getAllExtracts: vi.fn().mockReturnValue(cached),
+        hasExtract: vi.fn().mockReturnValue(true),
+        saveMetadata: vi.fn(),
+        saveExtract: vi.fn(),
+      } as any,
+    });
+  }
+
+  it("computes trends over the most recent five tax years", async () => {
+    const deps = makeTrendDeps();
+    const result = await getFinancialTrendsLocal("13-1624100", deps);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.ein).toBe("13-1624100");
+    expect(result.data!.filings_on_index).toBe(6);
+    const trends = result.data!.trends!;
+    expect(trends.first_tax_year).toBe(2018);
+    expect(trends.last_tax_year).toBe(2022);
+    expect(trends.revenue.cagr).toBeGreaterThan(0);
+  });
+
+  it("only checks the five most recent filings for fetching", async () => {
+    const deps = makeTrendDeps();
+    await getFinancialTrendsLocal("13-1624100", deps);
+
+    expect(deps.xml990Store.hasExtract).toHaveBeenCalledTimes(5);
+    expect(deps.givingTuesdayClient.downloadXml).not.toHaveBeenCalled();
+  });
+
+  it("returns null trends with fewer than three tax years", async () => {
+    const deps = makeTrendDeps(extracts.slice(0, 2));
+    const result = await getFinancialTrendsLocal("13-1624100", deps);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.trends).toBeNull();
+  });
+
+  it("returns error when EIN not in BMF", async () => {
+    const deps = makeDeps({
+      discoveryIndex: { getByEin: vi.fn().mockReturnValue(null) } as any,
+    });
+    const result = await getFinancialTrendsLocal("99-9999999", deps);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("not found in BMF");
+  });
+});
+
 // ============================================================================
 // search_nonprofit (BMF-backed)
 // ============================================================================
@@ -269,8 +615,8 @@ describe("search_nonprofit handler", () => {
   it("returns matching orgs from BMF", async () => {
     const handler = getSearchHandler();
     const ctx = makeSearchCtx([
-      makeCandidate({ name: "Habitat for Humanity International" }),
-      makeCandidate({ ein: "541234567", name: "Habitat for Humanity of Portland" }),
+      makeCandidate({ name: "Habitat for Humanity International", relevance: 0.93 }),
+      makeCandidate({ ein: "541234567", name: "Habitat for Humanity of Portland", relevance: 0.9 }),
     ]);
 
     const result = await handler({ query: "habitat for humanity" }, ctx);
@@ -280,6 +626,7 @@ describe("search_nonprofit handler", () => {
     expect(parsed.success).toBe(true);
     expect(parsed.data.results).toHaveLength(2);
     expect(parsed.data.results[0].name).toBe("Habitat for Humanity International");
+    expect(parsed.data.results[0].relevance).toBe(0.93);
     expect(parsed.data.attribution).toContain("IRS Business Master File");
   });
 
@@ -290,7 +637,7 @@ describe("search_nonprofit handler", () => {
     await handler({ query: "habitat", state: "CA" }, ctx);
 
     expect(ctx.discoveryIndex.query).toHaveBeenCalledWith(
-      expect.objectContaining({ state: "CA", nameContains: "habitat" }),
+      expect.objectContaining({ state: "CA", nameSearch: "habitat" }),
     );
   });
 
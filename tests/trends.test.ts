@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeFinancialTrends,
+  MAX_TREND_YEARS,
+} from "../src/domain/nonprofit/trends.js";
+import {
+  makeXml990ExtractedData,
+  makePartVIIIData,
+  makePartIXData,
+} from "./fixtures.js";
+
+function yearExtract(
+  taxYear: number,
+  revenue: number,
+  expenses: number,
+  contributions: number | null = revenue / 2,
+  formType = "990",
+) {
+  return makeXml990ExtractedData({
+    taxYear,
+    formType,
+    objectId: `obj-${taxYear}-${formType}`,
+    partVIII:
+      contributions === null
+        ? null
+        : makePartVIIIData({ totalRevenue: revenue, contributions }),
+    partIX: makePartIXData({ totalExpenses: expenses }),
+  });
+}
+
+describe("computeFinancialTrends", () => {
+  it("returns null with fewer than 3 tax years", () => {
+    expect(computeFinancialTrends([])).toBeNull();
+    expect(
+      computeFinancialTrends([
+        yearExtract(2022, 100_000, 90_000),
+        yearExtract(2021, 100_000, 90_000),
+      ]),
+    ).toBeNull();
+  });
+
+  it("counts duplicate filings for one tax year once", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2022, 100_000, 90_000),
+      yearExtract(2022, 100_000, 90_000, 50_000, "990EZ"),
+      yearExtract(2021, 100_000, 90_000),
+    ]);
+    expect(trends).toBeNull();
+  });
+
+  it("computes revenue CAGR over the span of tax years", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2022, 121_000, 100_000),
+      yearExtract(2021, 110_000, 100_000),
+      yearExtract(2020, 100_000, 100_000),
+    ])!;
+
+    expect(trends.years_analyzed).toBe(3);
+    expect(trends.first_tax_year).toBe(2020);
+    expect(trends.last_tax_year).toBe(2022);
+    expect(trends.revenue.start_value).toBe(100_000);
+    expect(trends.revenue.end_value).toBe(121_000);
+    expect(trends.revenue.cagr).toBeCloseTo(0.1, 6);
+    // Steady 10% growth each year → zero volatility
+    expect(trends.revenue.volatility).toBeCloseTo(0, 6);
+    expect(trends.expenses.cagr).toBeCloseTo(0, 6);
+  });
+
+  it("measures volatility as the spread of year-over-year growth", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2020, 100_000, 50_000),
+      yearExtract(2021, 150_000, 50_000), // +50%
+      yearExtract(2022, 75_000, 50_000), // -50%
+    ])!;
+    expect(trends.revenue.volatility).toBeCloseTo(0.5, 6);
+  });
+
+  it("keeps only the most recent MAX_TREND_YEARS tax years", () => {
+    const extracts = [2015, 2016, 2017, 2018, 2019, 2020, 2021].map((y) =>
+      yearExtract(y, 100_000, 90_000),
+    );
+    const trends = computeFinancialTrends(extracts)!;
+    expect(trends.years_analyzed).toBe(MAX_TREND_YEARS);
+    expect(trends.first_tax_year).toBe(2017);
+    expect(trends.points.map((p) => p.tax_year)).toEqual([
+      2017, 2018, 2019, 2020, 2021,
+    ]);
+  });
+
+  it("prefers a full 990 when a year has multiple form types", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2022, 90_000, 90_000, 10, "990EZ"),
+      yearExtract(2022, 200_000, 90_000),
+      yearExtract(2021, 100_000, 90_000),
+      yearExtract(2020, 100_000, 90_000),
+    ])!;
+    expect(trends.points[2]).toEqual(
+      expect.objectContaining({ form_type: "990", total_revenue: 200_000 }),
+    );
+  });
+
+  it("returns null CAGR when the starting value is zero", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2020, 0, 10_000),
+      yearExtract(2021, 50_000, 40_000),
+      yearExtract(2022, 80_000, 60_000),
+    ])!;
+    expect(trends.revenue.cagr).toBeNull();
+    // 2020 → 2021 growth is undefined from $0, leaving one rate
+    expect(trends.revenue.volatility).toBeNull();
+  });
+
+  it("skips years without Part VIII for the contributions trend", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2020, 100_000, 90_000, 40_000),
+      yearExtract(2021, 100_000, 90_000, null),
+      yearExtract(2022, 100_000, 90_000, 90_000),
+    ])!;
+    expect(trends.points[1].contributions).toBeNull();
+    expect(trends.contributions.start_value).toBe(40_000);
+    expect(trends.contributions.cagr).toBeCloseTo(0.5, 6);
+  });
+
+  it("tracks current and longest deficit streaks", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2018, 100_000, 120_000), // deficit
+      yearExtract(2019, 100_000, 130_000), // deficit
+      yearExtract(2020, 100_000, 140_000), // deficit
+      yearExtract(2021, 100_000, 90_000), // surplus
+      yearExtract(2022, 100_000, 110_000), // deficit
+    ])!;
+    expect(trends.longest_deficit_streak).toBe(3);
+    expect(trends.current_deficit_streak).toBe(1);
+  });
+
+  it("keeps years without Part VIII or IX out of revenue, expense and surplus math", () => {
+    const noPartIX = yearExtract(2022, 110_000, 0);
+    noPartIX.partIX = null;
+    const trends = computeFinancialTrends([
+      yearExtract(2019, 100_000, 120_000), // deficit
+      yearExtract(2020, 100_000, 120_000), // deficit
+      yearExtract(2021, 0, 300_000, null), // expenses but no Part VIII
+      noPartIX,
+      yearExtract(2023, 121_000, 130_000), // deficit
+    ])!;
+
+    expect(trends.points[2]).toMatchObject({
+      total_revenue: null,
+      total_expenses: 300_000,
+      surplus: null,
+    });
+    expect(trends.points[3]).toMatchObject({
+      total_revenue: 110_000,
+      total_expenses: null,
+      surplus: null,
+    });
+    expect(trends.revenue.cagr).toBeCloseTo(Math.pow(1.21, 1 / 4) - 1, 6);
+    expect(trends.revenue.volatility).toBeCloseTo(Math.sqrt(2) / 30, 6); // std dev of 0%, +10%, +10%
+    expect(trends.expenses.end_value).toBe(130_000);
+    expect(trends.longest_deficit_streak).toBe(2);
+    expect(trends.current_deficit_streak).toBe(1);
+  });
+
+  it("breaks a deficit streak across a missing tax year", () => {
+    const trends = computeFinancialTrends([
+      yearExtract(2018, 100_000, 120_000),
+      yearExtract(2019, 100_000, 120_000),
+      yearExtract(2021, 100_000, 120_000), // 2020 not cached
+    ])!;
+    expect(trends.current_deficit_streak).toBe(1);
+    expect(trends.longest_deficit_streak).toBe(2);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { VettingPipeline } from "../src/domain/nonprofit/vetting-pipeline.js";
-import { makeScreeningResult } from "./fixtures.js";
+import { makeProfile, makeScreeningResult } from "./fixtures.js";
 import type { VettingPipelineConfig } from "../src/domain/nonprofit/vetting-pipeline.js";
 
 // Mock the local screening module (replaces the old tools.js mock)
@@ -182,12 +182,14 @@ describe("VettingPipeline", () => {
     expect(mockedScreenNonprofitLocal).toHaveBeenCalledOnce();
   });
 
-  it("persists result on success", async () => {
+  it("persists result and scoring inputs on success", async () => {
     const tier1Result = makeScreeningResult();
+    const inputs = { profile: makeProfile(), filings: null, court: null };
     mockedScreenNonprofitLocal.mockResolvedValue({
       success: true,
       data: tier1Result,
       attribution: ATTRIBUTION,
+      inputs,
     });
 
     const saveResult = vi.fn();
@@ -201,7 +203,7 @@ describe("VettingPipeline", () => {
     const pipeline = new VettingPipeline(config);
     await pipeline.runScreening("12-3456789");
 
-    expect(saveResult).toHaveBeenCalledWith(tier1Result);
+    expect(saveResult).toHaveBeenCalledWith(tier1Result, inputs);
   });
 
   it("does not throw when persistence fails", async () => {
@@ -245,4 +247,90 @@ describe("VettingPipeline", () => {
 
     expect(mockedScreenNonprofitLocal).toHaveBeenCalledOnce();
   });
+
+  describe("screening profiles", () => {
+    const lenientThresholds = { scorePassMin: 60 } as VettingPipelineConfig["thresholds"];
+    const lenientFit = { enabled: false } as VettingPipelineConfig["portfolioFit"];
+    const profiles = new Map([
+      [
+        "lenient",
+        {
+          name: "lenient",
+          description: "",
+          thresholds: lenientThresholds,
+          portfolioFit: lenientFit,
+        },
+      ],
+    ]);
+
+    it("screens with the profile's thresholds and records the profile", async () => {
+      mockedScreenNonprofitLocal.mockResolvedValue({
+        success: true,
+        data: makeScreeningResult(),
+        attribution: ATTRIBUTION,
+      });
+      const getLatestByEin = vi.fn().mockReturnValue(null);
+      const saveResult = vi.fn();
+      const config = makeMockConfig({
+        profiles,
+        vettingStore: {
+          getLatestByEin,
+          saveResult,
+        } as unknown as VettingPipelineConfig["vettingStore"],
+      });
+
+      const pipeline = new VettingPipeline(config);
+      const { response } = await pipeline.runScreening("12-3456789", {
+        profile: "lenient",
+      });
+
+      expect(getLatestByEin).toHaveBeenCalledWith("12-3456789", "lenient");
+      expect(mockedScreenNonprofitLocal).toHaveBeenCalledWith(
+        "12-3456789",
+        expect.objectContaining({
+          thresholds: lenientThresholds,
+          portfolioFitConfig: lenientFit,
+        }),
+      );
+      expect(response.data?.profile).toBe("lenient");
+      expect(saveResult).toHaveBeenCalledWith(
+        expect.objectContaining({ profile: "lenient" }),
+        undefined,
+      );
+    });
+
+    it("looks up the default profile's cache when no profile is given", async () => {
+      const getLatestByEin = vi.fn().mockReturnValue(null);
+      mockedScreenNonprofitLocal.mockResolvedValue({
+        success: true,
+        data: makeScreeningResult(),
+        attribution: ATTRIBUTION,
+      });
+      const config = makeMockConfig({
+        vettingStore: {
+          getLatestByEin,
+          saveResult: vi.fn(),
+        } as unknown as VettingPipelineConfig["vettingStore"],
+      });
+
+      const { response } = await new VettingPipeline(config).runScreening("12-3456789");
+
+      expect(getLatestByEin).toHaveBeenCalledWith("12-3456789", "default");
+      expect(response.data?.profile).toBeUndefined();
+    });
+
+    it("returns an error for an unknown profile without screening", async () => {
+      const pipeline = new VettingPipeline(makeMockConfig({ profiles }));
+      const { response, cached } = await pipeline.runScreening("12-3456789", {
+        profile: "aggressive",
+      });
+
+      expect(cached).toBe(false);
+      expect(response.success).toBe(false);
+      expect(response.error).toBe(
+        'Unknown screening profile "aggressive". Available: lenient',
+      );
+      expect(mockedScreenNonprofitLocal).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,9 +1,9 @@
-import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
 import fs from "fs";
 import os from "os";
 import path from "path";
 import { VettingStore } from "../src/data-sources/vetting-store.js";
-import { makeScreeningResult } from "./fixtures.js";
+import { makeProfile, makeScreeningResult } from "./fixtures.js";
 import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
 
 function makeTempDir(): string {
@@ -227,4 +227,128 @@ describe("VettingStore", () => {
       /Invalid since date format/,
     );
   });
+
+  it("listVetted() filters by EIN", () => {
+    store.initialize();
+    store.saveResult(makeScreeningResult({ recommendation: "PASS", score: 85 }));
+    store.saveResult(makeScreeningResult({ ein: "111111111" }));
+    store.saveResult(makeScreeningResult({ recommendation: "REVIEW", score: 60 }));
+
+    const history = store.listVetted({ ein: "95-3135649" });
+    expect(history.map((r) => r.recommendation)).toEqual(["REVIEW", "PASS"]);
+    expect(store.listVetted({ ein: "999999999" })).toEqual([]);
+  });
+
+  it("getHistoryByEin() returns every screening for the EIN, newest first", () => {
+    store.initialize();
+    store.saveResult(makeScreeningResult({ recommendation: "PASS", score: 85 }));
+    store.saveResult(makeScreeningResult({ ein: "111111111" }));
+    store.saveResult(makeScreeningResult({ recommendation: "REVIEW", score: 60 }));
+
+    const history = store.getHistoryByEin("95-3135649");
+    expect(history.map((r) => r.recommendation)).toEqual(["REVIEW", "PASS"]);
+    expect(store.getHistoryByEin("953135649", 1)).toHaveLength(1);
+    expect(store.getHistoryByEin("999999999")).toEqual([]);
+  });
+
+  it("onResultSaved() notifies listeners until unsubscribed", () => {
+    store.initialize();
+    const listener = vi.fn();
+    const off = store.onResultSaved(listener);
+
+    const record = store.saveResult(makeScreeningResult());
+    expect(listener).toHaveBeenCalledWith(record);
+
+    off();
+    store.saveResult(makeScreeningResult());
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("saveResult() survives a throwing listener", () => {
+    store.initialize();
+    store.onResultSaved(() => {
+      throw new Error("boom");
+    });
+
+    expect(() => store.saveResult(makeScreeningResult())).not.toThrow();
+    expect(store.getStats().total).toBe(1);
+  });
+
+  it("listLatestPerEin() returns one latest record per EIN", () => {
+    store.initialize();
+    store.saveResult(makeScreeningResult({ recommendation: "PASS" }));
+    store.saveResult(makeScreeningResult({ ein: "111111111" }));
+    store.saveResult(makeScreeningResult({ recommendation: "REVIEW", score: 60 }));
+
+    const latest = store.listLatestPerEin();
+    expect(latest.map((r) => [r.ein, r.recommendation])).toEqual([
+      ["111111111", "PASS"],
+      ["953135649", "REVIEW"],
+    ]);
+  });
+
+  it("records the screening profile and filters getLatestByEin() by it", () => {
+    store.initialize();
+    const first = store.saveResult(makeScreeningResult());
+    store.saveResult(makeScreeningResult({ profile: "conservative", score: 70 }));
+
+    expect(first.profile).toBe("default");
+    expect(store.getLatestByEin("953135649")!.profile).toBe("conservative");
+    expect(store.getLatestByEin("953135649", "default")!.id).toBe(first.id);
+    expect(store.getLatestByEin("953135649", "lenient")).toBeNull();
+  });
+
+  it("initialize() adds the profile column to a pre-profile database", () => {
+    store.initialize();
+    const db = store.getDatabase();
+    db.sqlExec(`
+      DROP TABLE vetting_results;
+      CREATE TABLE vetting_results (
+        id             INTEGER PRIMARY KEY AUTOINCREMENT,
+        ein            TEXT NOT NULL,
+        name           TEXT NOT NULL,
+        recommendation TEXT NOT NULL,
+        score          REAL,
+        passed         INTEGER NOT NULL,
+        gate_blocked   INTEGER NOT NULL,
+        red_flag_count INTEGER NOT NULL DEFAULT 0,
+        result_json    TEXT NOT NULL,
+        vetted_at      TEXT NOT NULL DEFAULT (datetime('now')),
+        vetted_by      TEXT NOT NULL DEFAULT 'kofi'
+      );
+      INSERT INTO vetting_results (ein, name, recommendation, score, passed, gate_blocked, result_json)
+      VALUES ('953135649', 'Old Row', 'PASS', 80, 1, 0, '{}');
+    `);
+    db.persist();
+    store.close();
+
+    store = new VettingStore(tmpDir);
+    store.initialize();
+    expect(store.getLatestByEin("953135649", "default")!.name).toBe("Old Row");
+  });
+
+  it("saveResult() keeps the scoring inputs when given", () => {
+    store.initialize();
+    const inputs = { profile: makeProfile(), filings: null, court: null };
+    const withInputs = store.saveResult(makeScreeningResult(), inputs);
+    const without = store.saveResult(makeScreeningResult({ ein: "111111111" }));
+
+    expect(JSON.parse(withInputs.inputs_json!)).toEqual(inputs);
+    expect(without.inputs_json).toBeNull();
+  });
+
+  it("listLatestPerEin(profile) considers only that profile's screenings", () => {
+    store.initialize();
+    store.saveResult(makeScreeningResult({ recommendation: "PASS" }));
+    store.saveResult(makeScreeningResult({ recommendation: "REVIEW", profile: "lenient" }));
+    store.saveResult(makeScreeningResult({ ein: "111111111", profile: "lenient" }));
+
+    expect(store.listLatestPerEin("default").map((r) => [r.ein, r.recommendation])).toEqual([
+      ["953135649", "PASS"],
+    ]);
+    expect(store.listLatestPerEin("lenient").map((r) => r.ein)).toEqual([
+      "111111111",
+      "953135649",
+    ]);
+  });
 });
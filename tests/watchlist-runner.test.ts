@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
+import { VettingStore } from "../src/data-sources/vetting-store.js";
+import { WatchlistStore } from "../src/data-sources/watchlist-store.js";
+import type { VettingPipeline } from "../src/domain/nonprofit/vetting-pipeline.js";
+import type { ScreeningResult } from "../src/domain/nonprofit/types.js";
+import {
+  WatchlistRunner,
+  detectAlerts,
+} from "../src/domain/nonprofit/watchlist-runner.js";
+import { makeScreeningResult } from "./fixtures.js";
+
+vi.mock("../src/core/logging.js", () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+  logDebug: vi.fn(),
+}));
+
+function withRevocation(revoked: boolean): Partial<ScreeningResult> {
+  return {
+    gates: {
+      all_passed: !revoked,
+      gates: [
+        {
+          gate: "verified_501c3",
+          verdict: revoked ? "FAIL" : "PASS",
+          detail: revoked ? "Failed: IRS revocation check" : "Valid 501(c)(3) status confirmed",
+          sub_checks: [
+            {
+              label: "IRS revocation check",
+              passed: !revoked,
+              detail: revoked ? "Revoked 2026-05-15" : "Not on revocation list",
+            },
+          ],
+        },
+      ],
+    },
+  };
+}
+
+describe("detectAlerts", () => {
+  it("raises recommendation_change, new_high_flag, and new_revocation", () => {
+    const previous = makeScreeningResult(withRevocation(false));
+    const latest = makeScreeningResult({
+      ...withRevocation(true),
+      recommendation: "REJECT",
+      red_flags: [{ severity: "HIGH", type: "very_low_revenue", detail: "Revenue $1,200" }],
+    });
+
+    expect(detectAlerts(previous, latest)).toEqual([
+      { alert_type: "recommendation_change", detail: "Recommendation changed PASS → REJECT" },
+      { alert_type: "new_high_flag", detail: "very_low_revenue: Revenue $1,200" },
+      { alert_type: "new_revocation", detail: "Revoked 2026-05-15" },
+    ]);
+  });
+
+  it("does not re-alert on an already-known revocation or HIGH flag", () => {
+    const flag = { severity: "HIGH" as const, type: "very_low_revenue" as const, detail: "x" };
+    const previous = makeScreeningResult({ ...withRevocation(true), red_flags: [flag] });
+    const latest = makeScreeningResult({ ...withRevocation(true), red_flags: [flag] });
+
+    expect(detectAlerts(previous, latest)).toEqual([]);
+  });
+
+  it("ignores new MEDIUM flags", () => {
+    const latest = makeScreeningResult({
+      red_flags: [{ severity: "MEDIUM", type: "stale_990", detail: "old" }],
+    });
+    expect(detectAlerts(makeScreeningResult(), latest)).toEqual([]);
+  });
+});
+
+describe("WatchlistRunner", () => {
+  let tmpDir: string;
+  let vettingStore: VettingStore;
+  let watchlistStore: WatchlistStore;
+  let queue: ScreeningResult[];
+  let runScreening: ReturnType<typeof vi.fn>;
+  let runner: WatchlistRunner;
+
+  beforeAll(async () => {
+    await ensureSqlJs();
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "watchlist-runner-test-"));
+    vettingStore = new VettingStore(tmpDir);
+    vettingStore.initialize();
+    watchlistStore = new WatchlistStore();
+    watchlistStore.initialize(vettingStore.getDatabase());
+
+    queue = [];
+    runScreening = vi.fn(async () => {
+      const result = queue.shift();
+      if (!result) {
+        return { response: { success: false, error: "boom", attribution: "" }, cached: false };
+      }
+      vettingStore.saveResult(result);
+      return { response: { success: true, data: result, attribution: "" }, cached: false };
+    });
+    runner = new WatchlistRunner({
+      watchlistStore,
+      vettingStore,
+      vettingPipeline: { runScreening } as unknown as VettingPipeline,
+      cacheMaxAgeDays: 30,
+    });
+  });
+
+  afterEach(() => {
+    watchlistStore.close();
+    vettingStore.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ageScreenings(days: number): void {
+    vettingStore
+      .getDatabase()
+      .prepare(`UPDATE vetting_results SET vetted_at = datetime('now', '-${days} days')`)
+      .run();
+  }
+
+  it("skips fresh screenings and re-screens stale or never-screened EINs", async () => {
+    watchlistStore.addWatch("953135649", "Test Nonprofit");
+    watchlistStore.addWatch("111111111", "Never Screened");
+    vettingStore.saveResult(makeScreeningResult());
+
+    queue.push(makeScreeningResult({ ein: "111111111" }));
+    const summary = await runner.run();
+
+    expect(summary).toMatchObject({ watched: 2, rescreened: 1, skipped: 1, failed: 0 });
+    expect(runScreening).toHaveBeenCalledWith("111111111", { forceRefresh: true });
+    expect(watchlistStore.getWatch("111111111")!.last_rescreened_at).not.toBeNull();
+  });
+
+  it("records alerts when a stale re-screen changes the outcome", async () => {
+    watchlistStore.addWatch("953135649", "Test Nonprofit");
+    const first = vettingStore.saveResult(makeScreeningResult());
+    ageScreenings(45);
+
+    queue.push(makeScreeningResult({ recommendation: "REVIEW", score: 60 }));
+    const summary = await runner.run();
+
+    expect(summary!.alerts).toEqual([
+      {
+        ein: "953135649",
+        name: "Test Nonprofit",
+        alert_type: "recommendation_change",
+        detail: "Recommendation changed PASS → REVIEW",
+        from_vetting_id: first.id,
+        to_vetting_id: first.id + 1,
+      },
+    ]);
+    expect(watchlistStore.listAlerts()).toHaveLength(1);
+  });
+
+  it("re-screens everything with all: true and counts failures", async () => {
+    watchlistStore.addWatch("953135649", "Test Nonprofit");
+    watchlistStore.addWatch("111111111", "Other");
+    vettingStore.saveResult(makeScreeningResult());
+    vettingStore.saveResult(makeScreeningResult({ ein: "111111111" }));
+
+    queue.push(makeScreeningResult());
+    const summary = await runner.run({ all: true });
+
+    expect(summary).toMatchObject({ rescreened: 1, skipped: 0, failed: 1 });
+  });
+
+  it("returns null while a run is already in progress", async () => {
+    watchlistStore.addWatch("953135649", "Test Nonprofit");
+    queue.push(makeScreeningResult());
+
+    const first = runner.run();
+    expect(runner.isRunning()).toBe(true);
+    expect(await runner.run()).toBeNull();
+    await first;
+    expect(runner.isRunning()).toBe(false);
+  });
+
+  it("queues a full re-screen requested during a due-only run", async () => {
+    watchlistStore.addWatch("953135649", "Test Nonprofit");
+    watchlistStore.addWatch("111111111", "Other");
+    vettingStore.saveResult(makeScreeningResult());
+    queue.push(
+      makeScreeningResult({ ein: "111111111" }),
+      makeScreeningResult(),
+      makeScreeningResult({ ein: "111111111" }),
+    );
+
+    const first = runner.run();
+    expect(await runner.run({ all: true, reason: "IRS/OFAC data refresh" })).toBeNull();
+    expect(await first).toMatchObject({ rescreened: 1, skipped: 1 });
+
+    // The queued pass re-screens both EINs, including the fresh one
+    await vi.waitFor(() => {
+      expect(runScreening).toHaveBeenCalledTimes(3);
+      expect(runner.isRunning()).toBe(false);
+    });
+    expect(runScreening.mock.calls.slice(1).map((c) => c[0])).toEqual([
+      "953135649",
+      "111111111",
+    ]);
+  });
+});
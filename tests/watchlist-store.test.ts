@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WatchlistStore } from "../src/data-sources/watchlist-store.js";
+import { SqliteDatabase } from "../src/data-sources/sqlite-adapter.js";
+import { ensureSqlJs } from "../src/data-sources/sqlite-adapter.js";
+
+describe("WatchlistStore", () => {
+  let db: SqliteDatabase;
+  let store: WatchlistStore;
+
+  beforeEach(async () => {
+    await ensureSqlJs();
+    db = SqliteDatabase.inMemory();
+    store = new WatchlistStore();
+    store.initialize(db);
+  });
+
+  afterEach(() => {
+    store.close();
+    db.close();
+  });
+
+  it("adds, lists, and removes watched EINs", () => {
+    const entry = store.addWatch("95-3135649", "Test Nonprofit", "Grant #42");
+    expect(entry.ein).toBe("953135649");
+    expect(entry.note).toBe("Grant #42");
+    expect(entry.last_rescreened_at).toBeNull();
+
+    store.addWatch("131624100", "Other Org");
+    expect(store.listWatched().map((e) => e.ein)).toEqual(["953135649", "131624100"]);
+
+    expect(store.removeWatch("95-3135649")).toBe(true);
+    expect(store.removeWatch("95-3135649")).toBe(false);
+    expect(store.listWatched()).toHaveLength(1);
+  });
+
+  it("re-adding an EIN updates its name and note", () => {
+    store.addWatch("953135649", "Old Name", "first");
+    const entry = store.addWatch("953135649", "New Name");
+
+    expect(entry.name).toBe("New Name");
+    expect(entry.note).toBeNull();
+    expect(store.listWatched()).toHaveLength(1);
+  });
+
+  it("markRescreened() stamps last_rescreened_at", () => {
+    store.addWatch("953135649", "Test Nonprofit");
+    store.markRescreened("95-3135649");
+
+    expect(store.getWatch("953135649")!.last_rescreened_at).not.toBeNull();
+  });
+
+  it("records and filters alerts", () => {
+    store.recordAlert({
+      ein: "95-3135649",
+      name: "Test Nonprofit",
+      alert_type: "recommendation_change",
+      detail: "Recommendation changed PASS → REVIEW",
+      from_vetting_id: 1,
+      to_vetting_id: 2,
+    });
+    store.recordAlert({
+      ein: "131624100",
+      name: "Other Org",
+      alert_type: "new_revocation",
+      detail: "Revoked",
+      from_vetting_id: null,
+      to_vetting_id: 3,
+    });
+
+    expect(store.listAlerts().map((a) => a.id)).toEqual([2, 1]);
+    expect(store.listAlerts({ ein: "95-3135649" })).toHaveLength(1);
+    expect(store.listAlerts({ alert_type: "new_revocation" })[0].ein).toBe("131624100");
+    expect(store.listAlerts({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("listAlerts({ since }) rejects invalid date format", () => {
+    expect(() => store.listAlerts({ since: "yesterday" })).toThrow(
+      /Invalid since date format/,
+    );
+  });
+
+  it("throws when not initialized", () => {
+    const fresh = new WatchlistStore();
+    expect(() => fresh.listWatched()).toThrow(/not initialized/);
+  });
+});
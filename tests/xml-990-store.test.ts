@@ -97,6 +97,16 @@ describe("Xml990Store", () => {
     expect(result!.taxYear).toBe(2022);
   });
 
+  it("getExtractByYear returns the extract for that tax year only", () => {
+    store.saveMetadata(makeGtFilingEntry({ ObjectId: "obj_2021", TaxYear: "2021" }));
+    store.saveMetadata(makeGtFilingEntry({ ObjectId: "obj_2022", TaxYear: "2022" }));
+    store.saveExtract(makeXml990ExtractedData({ objectId: "obj_2021", taxYear: 2021 }));
+    store.saveExtract(makeXml990ExtractedData({ objectId: "obj_2022", taxYear: 2022 }));
+
+    expect(store.getExtractByYear("13-1624100", 2021)!.objectId).toBe("obj_2021");
+    expect(store.getExtractByYear("131624100", 2019)).toBeNull();
+  });
+
   it("returns null for unknown EIN", () => {
     const result = store.getLatestExtract("999999999");
     expect(result).toBeNull();
@@ -116,6 +126,25 @@ describe("Xml990Store", () => {
     expect(store.hasExtract("131624100", "nonexistent_obj")).toBe(false);
   });
 
+  it("hasExtract ignores extracts from an older parser version", () => {
+    store.saveMetadata(makeGtFilingEntry());
+    store.saveExtract(makeXml990ExtractedData({ extractVersion: undefined }));
+
+    expect(store.hasExtract("131624100", "202301234567890123_public")).toBe(true);
+    expect(store.hasExtract("131624100", "202301234567890123_public", 2)).toBe(false);
+    expect(store.getLatestExtract("131624100")!.extractVersion).toBeUndefined();
+  });
+
+  it("saveExtract replaces an older extract of the same filing", () => {
+    store.saveMetadata(makeGtFilingEntry());
+    store.saveExtract(makeXml990ExtractedData({ extractVersion: undefined }));
+    store.saveExtract(makeXml990ExtractedData({ extractVersion: 2 }));
+
+    expect(store.hasExtract("131624100", "202301234567890123_public", 2)).toBe(true);
+    expect(store.getLatestExtract("131624100")!.extractVersion).toBe(2);
+    expect(store.getAllExtracts("131624100")).toHaveLength(1);
+  });
+
   it("handles EIN normalization (strips dashes)", () => {
     const filing = makeGtFilingEntry();
     store.saveMetadata(filing);
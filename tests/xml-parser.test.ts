@@ -7,7 +7,12 @@ import {
   coerceBoolean,
   coerceText,
 } from "../src/domain/nonprofit/xml-parser.js";
-import { makeMinimal990Xml } from "./fixtures.js";
+import {
+  makeMinimal990Xml,
+  makeMinimal990EzXml,
+  makeMinimal990PfXml,
+  makeScheduleAData,
+} from "./fixtures.js";
 
 // Minimal concordance CSV that maps our target variables to the XML tags
 // used in makeMinimal990Xml()
@@ -29,7 +34,57 @@ F9_08_REV_CONTR_TOT,Total Contributions,F990,"Return/ReturnData/IRS990/TotalCont
 F9_08_REV_PROG_SRVC_TOT,Program service revenue,F990,"Return/ReturnData/IRS990/ProgramServiceRevenueGrp/TotalRevenueColumnAmt","2021v4.2",true,ONE,PART-08,numeric
 F9_08_REV_INVST_INCM_TOT,Investment income,F990,"Return/ReturnData/IRS990/InvestmentIncomeGrp/TotalRevenueColumnAmt","2021v4.2",true,ONE,PART-08,numeric
 F9_08_REV_OTH_TOT,Other revenue,F990,"Return/ReturnData/IRS990/OtherRevenueGrp/TotalRevenueColumnAmt","2021v4.2",true,ONE,PART-08,numeric
-F9_08_REV_TOT_TOT,Total revenue,F990,"Return/ReturnData/IRS990/CYTotalRevenueAmt","2021v4.2",true,ONE,PART-08,numeric`;
+F9_08_REV_TOT_TOT,Total revenue,F990,"Return/ReturnData/IRS990/CYTotalRevenueAmt","2021v4.2",true,ONE,PART-08,numeric
+F9_10_ASSET_CASH_EOY,Cash non-interest bearing EOY,F990,"Return/ReturnData/IRS990/CashNonInterestBearingGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_ASSET_SAVING_EOY,Savings and temporary investments EOY,F990,"Return/ReturnData/IRS990/SavingsAndTempCashInvstGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_ASSET_PLEDGE_NET_EOY,Pledges and grants receivable EOY,F990,"Return/ReturnData/IRS990/PledgesAndGrantsReceivableGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_ASSET_ACC_NET_EOY,Accounts receivable EOY,F990,"Return/ReturnData/IRS990/AccountsReceivableGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_ASSET_LAND_BLDG_NET_EOY,Land buildings equipment EOY,F990,"Return/ReturnData/IRS990/LandBldgEquipBasisNetGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_ASSET_TOT_BOY,Total assets BOY,F990,"Return/ReturnData/IRS990/TotalAssetsGrp/BOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_ASSET_TOT_EOY,Total assets EOY,F990,"Return/ReturnData/IRS990/TotalAssetsGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_LIAB_TOT_BOY,Total liabilities BOY,F990,"Return/ReturnData/IRS990/TotalLiabilitiesGrp/BOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_LIAB_TOT_EOY,Total liabilities EOY,F990,"Return/ReturnData/IRS990/TotalLiabilitiesGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_NAFB_NO_DONOR_RESTR_EOY,Net assets without donor restrictions EOY,F990,"Return/ReturnData/IRS990/NoDonorRestrictionNetAssetsGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_NAFB_DONOR_RESTR_EOY,Net assets with donor restrictions EOY,F990,"Return/ReturnData/IRS990/DonorRestrictionNetAssetsGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+F9_10_NAFB_TOT_EOY,Total net assets EOY,F990,"Return/ReturnData/IRS990/TotalNetAssetsFundBalanceGrp/EOYAmt","2021v4.2",true,ONE,PART-10,numeric
+SA_02_PUB_SUP_TOT,Public support total,F990,"Return/ReturnData/IRS990ScheduleA/PublicSupportTotal170Amt","2021v4.2",true,ONE,SA-P02,numeric
+SA_02_TOT_SUP_TOT,Total support,F990,"Return/ReturnData/IRS990ScheduleA/TotalSupportAmt","2021v4.2",true,ONE,SA-P02,numeric
+SA_02_PCT_PUB_SUP_CY,Public support pct CY,F990,"Return/ReturnData/IRS990ScheduleA/PublicSupportCY170Pct","2021v4.2",true,ONE,SA-P02,numeric
+SA_02_PCT_PUB_SUP_PY,Public support pct PY,F990,"Return/ReturnData/IRS990ScheduleA/PublicSupportPY170Pct","2021v4.2",true,ONE,SA-P02,numeric
+SA_02_FIRST_5_YEARS_X,First five years,F990,"Return/ReturnData/IRS990ScheduleA/FirstFiveYears170Ind","2021v4.2",true,ONE,SA-P02,checkbox
+SA_02_33PCT_SUP_TEST_CY_X,33 1/3 pct test CY,F990,"Return/ReturnData/IRS990ScheduleA/ThirtyThrPctSuprtTestsCY170Ind","2021v4.2",true,ONE,SA-P02,checkbox
+SA_02_33PCT_SUP_TEST_PY_X,33 1/3 pct test PY,F990,"Return/ReturnData/IRS990ScheduleA/ThirtyThrPctSuprtTestsPY170Ind","2021v4.2",true,ONE,SA-P02,checkbox
+SA_02_10PCT_FACTS_CIRC_CY_X,10 pct facts and circumstances CY,F990,"Return/ReturnData/IRS990ScheduleA/TenPctFactsCrcmstncsTestCYInd","2021v4.2",true,ONE,SA-P02,checkbox
+SA_02_10PCT_FACTS_CIRC_PY_X,10 pct facts and circumstances PY,F990,"Return/ReturnData/IRS990ScheduleA/TenPctFactsCrcmstncsTestPYInd","2021v4.2",true,ONE,SA-P02,checkbox
+SA_02_PRIV_FOUND_X,Private foundation,F990,"Return/ReturnData/IRS990ScheduleA/PrivateFoundation170Ind","2021v4.2",true,ONE,SA-P02,checkbox
+SA_03_PCT_PUB_SUP_CY,Public support pct CY 509,F990,"Return/ReturnData/IRS990ScheduleA/PublicSupportCY509Pct","2021v4.2",true,ONE,SA-P03,numeric
+SA_03_33PCT_SUP_TEST_CY_X,33 1/3 pct test CY 509,F990,"Return/ReturnData/IRS990ScheduleA/ThirtyThrPctSuprtTestsCY509Ind","2021v4.2",true,ONE,SA-P03,checkbox
+SA_03_PRIV_FOUND_X,Private foundation 509,F990,"Return/ReturnData/IRS990ScheduleA/PrivateFoundation509Ind","2021v4.2",true,ONE,SA-P03,checkbox
+EZ_01_REV_CONTR,Contributions,F990EZ,"Return/ReturnData/IRS990EZ/ContributionsGiftsGrantsEtcAmt","2021v4.2",true,ONE,EZ-P01,numeric
+EZ_01_REV_PROG_SRVC,Program service revenue,F990EZ,"Return/ReturnData/IRS990EZ/ProgramServiceRevenueAmt","2021v4.2",true,ONE,EZ-P01,numeric
+EZ_01_REV_INVST_INCM,Investment income,F990EZ,"Return/ReturnData/IRS990EZ/InvestmentIncomeAmt","2021v4.2",true,ONE,EZ-P01,numeric
+EZ_01_REV_TOT,Total revenue,F990EZ,"Return/ReturnData/IRS990EZ/TotalRevenueAmt","2021v4.2",true,ONE,EZ-P01,numeric
+EZ_01_EXP_TOT,Total expenses,F990EZ,"Return/ReturnData/IRS990EZ/TotalExpensesAmt","2021v4.2",true,ONE,EZ-P01,numeric
+EZ_02_CASH_SAV_INVST_EOY,Cash savings and investments EOY,F990EZ,"Return/ReturnData/IRS990EZ/CashSavingsAndInvestmentsGrp/EOYAmt","2021v4.2",true,ONE,EZ-P02,numeric
+EZ_02_ASSET_TOT_BOY,Total assets BOY,F990EZ,"Return/ReturnData/IRS990EZ/Form990TotalAssetsGrp/BOYAmt","2021v4.2",true,ONE,EZ-P02,numeric
+EZ_02_ASSET_TOT_EOY,Total assets EOY,F990EZ,"Return/ReturnData/IRS990EZ/Form990TotalAssetsGrp/EOYAmt","2021v4.2",true,ONE,EZ-P02,numeric
+EZ_02_LIAB_TOT_BOY,Total liabilities BOY,F990EZ,"Return/ReturnData/IRS990EZ/SumOfTotalLiabilitiesGrp/BOYAmt","2021v4.2",true,ONE,EZ-P02,numeric
+EZ_02_LIAB_TOT_EOY,Total liabilities EOY,F990EZ,"Return/ReturnData/IRS990EZ/SumOfTotalLiabilitiesGrp/EOYAmt","2021v4.2",true,ONE,EZ-P02,numeric
+EZ_02_NAFB_TOT_EOY,Net assets EOY,F990EZ,"Return/ReturnData/IRS990EZ/NetAssetsOrFundBalancesGrp/EOYAmt","2021v4.2",true,ONE,EZ-P02,numeric
+EZ_03_PROG_SRVC_EXP_TOT,Total program service expenses,F990EZ,"Return/ReturnData/IRS990EZ/TotalProgramServiceExpensesAmt","2021v4.2",true,ONE,EZ-P03,numeric
+PF_01_REV_CONTR_RCVD_BOOKS,Contributions received,F990PF,"Return/ReturnData/IRS990PF/AnalysisOfRevenueAndExpenses/ContriRcvdRevAndExpnssAmt","2021v4.2",true,ONE,PF-P01,numeric
+PF_01_REV_INT_SAV_BOOKS,Interest on savings,F990PF,"Return/ReturnData/IRS990PF/AnalysisOfRevenueAndExpenses/InterestOnSavRevAndExpnssAmt","2021v4.2",true,ONE,PF-P01,numeric
+PF_01_REV_DIV_BOOKS,Dividends,F990PF,"Return/ReturnData/IRS990PF/AnalysisOfRevenueAndExpenses/DividendsRevAndExpnssAmt","2021v4.2",true,ONE,PF-P01,numeric
+PF_01_REV_TOT_BOOKS,Total revenue,F990PF,"Return/ReturnData/IRS990PF/AnalysisOfRevenueAndExpenses/TotalRevAndExpnssAmt","2021v4.2",true,ONE,PF-P01,numeric
+PF_01_EXP_TOT_BOOKS,Total expenses,F990PF,"Return/ReturnData/IRS990PF/AnalysisOfRevenueAndExpenses/TotalExpensesRevAndExpnssAmt","2021v4.2",true,ONE,PF-P01,numeric
+PF_01_EXP_TOT_CHRTBL_DSBRS,Total charitable disbursements,F990PF,"Return/ReturnData/IRS990PF/AnalysisOfRevenueAndExpenses/TotalExpensesDsbrsChrtblAmt","2021v4.2",true,ONE,PF-P01,numeric
+PF_02_ASSET_CASH_EOY_BV,Cash EOY,F990PF,"Return/ReturnData/IRS990PF/Form990PFBalanceSheetsGrp/CashEOYAmt","2021v4.2",true,ONE,PF-P02,numeric
+PF_02_ASSET_SAV_EOY_BV,Savings EOY,F990PF,"Return/ReturnData/IRS990PF/Form990PFBalanceSheetsGrp/SavAndTempCashInvstEOYAmt","2021v4.2",true,ONE,PF-P02,numeric
+PF_02_ASSET_TOT_BOY_BV,Total assets BOY,F990PF,"Return/ReturnData/IRS990PF/Form990PFBalanceSheetsGrp/TotalAssetsBOYAmt","2021v4.2",true,ONE,PF-P02,numeric
+PF_02_ASSET_TOT_EOY_BV,Total assets EOY,F990PF,"Return/ReturnData/IRS990PF/Form990PFBalanceSheetsGrp/TotalAssetsEOYAmt","2021v4.2",true,ONE,PF-P02,numeric
+PF_02_LIAB_TOT_BOY,Total liabilities BOY,F990PF,"Return/ReturnData/IRS990PF/Form990PFBalanceSheetsGrp/TotalLiabilitiesBOYAmt","2021v4.2",true,ONE,PF-P02,numeric
+PF_02_LIAB_TOT_EOY,Total liabilities EOY,F990PF,"Return/ReturnData/IRS990PF/Form990PFBalanceSheetsGrp/TotalLiabilitiesEOYAmt","2021v4.2",true,ONE,PF-P02,numeric
+PF_02_NAFB_TOT_EOY,Net assets EOY,F990PF,"Return/ReturnData/IRS990PF/Form990PFBalanceSheetsGrp/TotNetAstOrFundBalancesEOYAmt","2021v4.2",true,ONE,PF-P02,numeric`;
 
 describe("Type coercion functions", () => {
   describe("coerceNumeric", () => {
@@ -179,6 +234,331 @@ describe("Xml990Parser", () => {
     expect(result.partVIII!.contributionDependence).toBeCloseTo(0.6);
   });
 
+  it("parses Part X balance sheet", () => {
+    const xml = makeMinimal990Xml();
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.partX).not.toBeNull();
+    expect(result.partX!.totalAssetsBOY).toBe(720000);
+    expect(result.partX!.totalAssetsEOY).toBe(800000);
+    expect(result.partX!.totalLiabilitiesEOY).toBe(200000);
+    expect(result.partX!.unrestrictedNetAssets).toBe(450000);
+    expect(result.partX!.restrictedNetAssets).toBe(150000);
+    expect(result.partX!.netAssetsEOY).toBe(600000);
+    expect(result.partX!.cashAndEquivalents).toBe(200000);
+    expect(result.partX!.debtRatio).toBeCloseTo(0.25);
+    expect(result.partX!.ratiosValid).toBe(true);
+  });
+
+  it("derives net assets from totals when the net asset line is missing", () => {
+    const xml = makeMinimal990Xml().replace(
+      /<TotalNetAssetsFundBalanceGrp>[\s\S]*?<\/TotalNetAssetsFundBalanceGrp>/,
+      "",
+    );
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.partX!.netAssetsEOY).toBe(600000);
+  });
+
+  it("parses Schedule A Part II public support test", () => {
+    const xml = makeMinimal990Xml();
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.scheduleA).not.toBeNull();
+    expect(result.scheduleA!.supportSchedule).toBe("170");
+    expect(result.scheduleA!.publicSupportTotal).toBe(1200000);
+    expect(result.scheduleA!.totalSupport).toBe(1500000);
+    expect(result.scheduleA!.publicSupportPctCY).toBeCloseTo(0.8);
+    expect(result.scheduleA!.thirtyThreePctTestCY).toBe(true);
+    expect(result.scheduleA!.passedPublicSupportTest).toBe(true);
+  });
+
+  it("parses Schedule A Part III and flags private foundation status", () => {
+    const xml = makeMinimal990Xml().replace(
+      /<IRS990ScheduleA>[\s\S]*?<\/IRS990ScheduleA>/,
+      `<IRS990ScheduleA>
+        <PublicSupportCY509Pct>0.2100</PublicSupportCY509Pct>
+        <PrivateFoundation509Ind>X</PrivateFoundation509Ind>
+      </IRS990ScheduleA>`,
+    );
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.scheduleA!.supportSchedule).toBe("509");
+    expect(result.scheduleA!.publicSupportPctCY).toBeCloseTo(0.21);
+    expect(result.scheduleA!.privateFoundationStatus).toBe(true);
+    expect(result.scheduleA!.passedPublicSupportTest).toBe(false);
+  });
+
+  it("parses Schedule I grant recipients", () => {
+    const xml = makeMinimal990Xml();
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.scheduleI).not.toBeNull();
+    expect(result.scheduleI!.grants).toHaveLength(2);
+    expect(result.scheduleI!.grants[0]).toEqual({
+      recipientName: "NEIGHBORHOOD FOOD PANTRY",
+      recipientEin: "123456789",
+      city: "OAKLAND",
+      state: "CA",
+      ircSection: "501(c)(3)",
+      cashGrantAmount: 40000,
+      nonCashAmount: 0,
+      purpose: "GENERAL SUPPORT",
+    });
+    // Malformed EIN (8 digits) is dropped rather than mis-linked
+    expect(result.scheduleI!.grants[1].recipientEin).toBeNull();
+    expect(result.scheduleI!.totalCashGrants).toBe(55000);
+    expect(result.scheduleI!.totalNonCashAssistance).toBe(5000);
+  });
+
+  it("reads pre-2013 Schedule I tag names", () => {
+    const xml = makeMinimal990Xml().replace(
+      /<IRS990ScheduleI>[\s\S]*?<\/IRS990ScheduleI>/,
+      `<IRS990ScheduleI>
+        <RecipientTable>
+          <RecipientNameBusiness><BusinessNameLine1>OLD STYLE GRANTEE</BusinessNameLine1></RecipientNameBusiness>
+          <EINOfRecipient>111222333</EINOfRecipient>
+          <AmountOfCashGrant>2500</AmountOfCashGrant>
+          <PurposeOfGrant>SCHOLARSHIPS</PurposeOfGrant>
+        </RecipientTable>
+      </IRS990ScheduleI>`,
+    );
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.scheduleI!.grants).toEqual([
+      expect.objectContaining({
+        recipientName: "OLD STYLE GRANTEE",
+        recipientEin: "111222333",
+        cashGrantAmount: 2500,
+        purpose: "SCHOLARSHIPS",
+      }),
+    ]);
+  });
+
+  it("parses Part VII Section B independent contractors", () => {
+    const xml = makeMinimal990Xml();
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.contractors).toEqual([
+      {
+        name: "ACME CONSULTING LLC",
+        services: "PROGRAM EVALUATION",
+        compensation: 120000,
+      },
+    ]);
+    // Full 990s list highest-paid employees in Part VII Section A, not a separate table
+    expect(result.highestCompensatedEmployees).toEqual([]);
+  });
+
+  it("parses 990-EZ highest compensated employees and contractors", () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<Return returnVersion="2021v4.2">
+  <ReturnData>
+    <IRS990EZ>
+      <CompensationOfHghstPdEmplGrp>
+        <PersonNm>JOHN SMITH</PersonNm>
+        <TitleTxt>PROGRAM MANAGER</TitleTxt>
+        <AverageHrsPerWkDevotedToPosRt>40.00</AverageHrsPerWkDevotedToPosRt>
+        <CompensationAmt>85000</CompensationAmt>
+        <EmployeeBenefitsAmt>12000</EmployeeBenefitsAmt>
+        <ExpenseAccountAmt>0</ExpenseAccountAmt>
+      </CompensationOfHghstPdEmplGrp>
+      <CompensationOfHghstPdCntrctGrp>
+        <PersonNm>PAT JONES</PersonNm>
+        <ServiceTypeTxt>BOOKKEEPING</ServiceTypeTxt>
+        <CompensationAmt>105000</CompensationAmt>
+      </CompensationOfHghstPdCntrctGrp>
+    </IRS990EZ>
+  </ReturnData>
+</Return>`;
+    const result = parser.parse(xml, {
+      formType: "990EZ",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.highestCompensatedEmployees).toEqual([
+      {
+        name: "JOHN SMITH",
+        title: "PROGRAM MANAGER",
+        avgHoursPerWeek: 40,
+        compensation: 85000,
+        benefits: 12000,
+        expenseAccount: 0,
+      },
+    ]);
+    expect(result.contractors).toEqual([
+      { name: "PAT JONES", services: "BOOKKEEPING", compensation: 105000 },
+    ]);
+    expect(Xml990Parser.isEmptyExtract(result)).toBe(false);
+  });
+
+  it("skips contractor entries without a compensation amount", () => {
+    const xml = makeMinimal990Xml().replace(
+      "<CompensationAmt>120000</CompensationAmt>",
+      "",
+    );
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.contractors).toEqual([]);
+  });
+
+  it("normalizes 990-EZ Part I into Part VIII/IX", () => {
+    const result = parser.parse(makeMinimal990EzXml(), {
+      formType: "990EZ",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.partVIII).toEqual({
+      contributions: 38000,
+      programServiceRevenue: 6000,
+      investmentIncome: 500,
+      // Membership dues (2500) + unmapped lines fall into the remainder
+      otherRevenue: 3500,
+      totalRevenue: 48000,
+      contributionDependence: 38000 / 48000,
+      programRevenueSelfSufficiency: 6000 / 48000,
+      ratiosValid: true,
+    });
+    expect(result.partIX).toEqual(
+      expect.objectContaining({
+        totalExpenses: 42000,
+        programServicesExpenses: 35000,
+        managementAndGeneralExpenses: 7000,
+        fundraisingExpenses: 0,
+        programExpenseRatio: 35000 / 42000,
+      }),
+    );
+  });
+
+  it("maps the 990-EZ Part II balance sheet into Part X", () => {
+    const result = parser.parse(makeMinimal990EzXml(), {
+      formType: "990EZ",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.partX).toEqual(
+      expect.objectContaining({
+        cashAndEquivalents: 21000,
+        totalAssetsBOY: 18000,
+        totalAssetsEOY: 24000,
+        totalLiabilitiesEOY: 2000,
+        netAssetsEOY: 22000,
+        // EZ does not split net assets by donor restriction
+        unrestrictedNetAssets: null,
+      }),
+    );
+    // Full-990 governance and Part VII tags don't exist on the EZ
+    expect(result.partVI).toBeNull();
+  });
+
+  it("normalizes 990-PF Part I columns into Part VIII/IX", () => {
+    const result = parser.parse(makeMinimal990PfXml(), {
+      formType: "990PF",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.partVIII).toEqual(
+      expect.objectContaining({
+        contributions: 250000,
+        programServiceRevenue: 0,
+        investmentIncome: 40000, // interest + dividends
+        otherRevenue: 10000,
+        totalRevenue: 300000,
+      }),
+    );
+    expect(result.partIX).toEqual(
+      expect.objectContaining({
+        totalExpenses: 220000,
+        programServicesExpenses: 190000,
+        managementAndGeneralExpenses: 30000,
+      }),
+    );
+    expect(result.partX).toEqual(
+      expect.objectContaining({
+        cashAndEquivalents: 100000,
+        totalAssetsEOY: 2000000,
+        totalLiabilitiesEOY: 50000,
+        netAssetsEOY: 1950000,
+      }),
+    );
+  });
+
+  it("returns null Schedule A when only Part I is present", () => {
+    const xml = makeMinimal990Xml().replace(
+      /<IRS990ScheduleA>[\s\S]*?<\/IRS990ScheduleA>/,
+      "<IRS990ScheduleA><ChurchInd>X</ChurchInd></IRS990ScheduleA>",
+    );
+    const result = parser.parse(xml, {
+      formType: "990",
+      schemaVersion: "2021v4.2",
+      ein: "131624100",
+      taxYear: 2022,
+      objectId: "test_obj",
+    });
+
+    expect(result.scheduleA).toBeNull();
+  });
+
   it("returns null ratios when total is zero (division-by-zero safety)", () => {
     // Create XML with zero expenses
     const xml = makeMinimal990Xml()
@@ -215,7 +595,10 @@ describe("Xml990Parser", () => {
     expect(result.partIX).toBeNull();
     expect(result.partVI).toBeNull();
     expect(result.partVII).toEqual([]);
+    expect(result.contractors).toEqual([]);
+    expect(result.highestCompensatedEmployees).toEqual([]);
     expect(result.partVIII).toBeNull();
+    expect(result.partX).toBeNull();
   });
 
   it("isEmptyExtract detects all-null extracts", () => {
@@ -280,3 +663,65 @@ describe("Xml990Parser", () => {
     expect(result.extractedAt).toBeTruthy();
   });
 });
+
+describe("Xml990Parser.evaluatePublicSupportTest", () => {
+  it("treats orgs in their first five years as passing", () => {
+    expect(
+      Xml990Parser.evaluatePublicSupportTest(
+        makeScheduleAData({
+          firstFiveYears: true,
+          thirtyThreePctTestCY: false,
+          publicSupportPctCY: 0.05,
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("passes on the 10% facts-and-circumstances box", () => {
+    expect(
+      Xml990Parser.evaluatePublicSupportTest(
+        makeScheduleAData({
+          thirtyThreePctTestCY: false,
+          tenPctFactsAndCircumstancesCY: true,
+          publicSupportPctCY: 0.2,
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("falls back to the percentage when no box is checked", () => {
+    const blank = {
+      thirtyThreePctTestCY: null,
+      thirtyThreePctTestPY: null,
+      tenPctFactsAndCircumstancesCY: null,
+      tenPctFactsAndCircumstancesPY: null,
+      privateFoundationStatus: null,
+    };
+    expect(
+      Xml990Parser.evaluatePublicSupportTest(
+        makeScheduleAData({ ...blank, publicSupportPctCY: 0.4 }),
+      ),
+    ).toBe(true);
+    expect(
+      Xml990Parser.evaluatePublicSupportTest(
+        makeScheduleAData({ ...blank, publicSupportPctCY: 0.05 }),
+      ),
+    ).toBe(false);
+    // 10-33⅓% under Part II depends on facts and circumstances — undecidable
+    expect(
+      Xml990Parser.evaluatePublicSupportTest(
+        makeScheduleAData({ ...blank, publicSupportPctCY: 0.2 }),
+      ),
+    ).toBeNull();
+    // Part III has no facts-and-circumstances fallback
+    expect(
+      Xml990Parser.evaluatePublicSupportTest(
+        makeScheduleAData({
+          ...blank,
+          supportSchedule: "509",
+          publicSupportPctCY: 0.2,
+        }),
+      ),
+    ).toBe(false);
+  });
+});
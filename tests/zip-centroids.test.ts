@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ZipCentroidIndex } from "../src/data-sources/zip-centroids.js";
+
+// The table bundled in assets/, not a fixture
+const BUNDLED_TABLE = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../assets/zip-centroids.csv",
+);
+const MIN_ZCTAS = 30_000; // scripts/build-zip-centroids.ts refuses smaller tables
+
+describe("bundled ZIP centroid table", () => {
+  const index = new ZipCentroidIndex(BUNDLED_TABLE);
+
+  it("covers the country", () => {
+    const origin = index.lookup("66952")!; // near the geographic center of the lower 48
+    expect(index.within(origin, 3000).size).toBeGreaterThan(MIN_ZCTAS);
+  });
+
+  it("looks up a known ZIP with its county", () => {
+    expect(index.lookup("94607-1234")).toMatchObject({
+      zip: "94607",
+      state: "CA",
+      county_fips: "06001",
+      county: "Alameda",
+    });
+    expect(index.lookup("94607")!.lat).toBeCloseTo(37.81, 1);
+    expect(index.lookup("94607")!.lon).toBeCloseTo(-122.29, 1);
+  });
+
+  it("finds a county's ZIPs by name and by FIPS code", () => {
+    const byName = index.inCounty("Alameda County", "CA");
+    expect(byName).toContain("94607");
+    expect(byName).toContain("94704"); // Berkeley
+    expect(index.inCounty("06001")).toEqual(byName);
+  });
+
+  it("measures distances between real ZIPs", () => {
+    const oakland = index.lookup("94607")!;
+    const within = index.within(oakland, 10);
+    expect(within.get("94607")).toBe(0);
+    expect(within.get("94612")).toBeLessThan(2); // downtown Oakland
+    expect(within.get("94103")).toBeGreaterThan(5); // SF SoMa, across the bay
+    expect(within.has("95814")).toBe(false); // Sacramento
+  });
+});